@@ -0,0 +1,166 @@
+"use client";
+
+import { useCallback, useRef, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Image as ImageIcon, Loader2, Upload } from "lucide-react";
+import { backgroundsApi } from "@/lib/api";
+import { BackgroundCard } from "@/components/backgrounds/BackgroundCard";
+import { RulesEditor } from "@/components/backgrounds/RulesEditor";
+import { cn } from "@/lib/utils";
+
+export default function BackgroundsPage() {
+  const qc = useQueryClient();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [uploadTags, setUploadTags] = useState("");
+  const [uploading, setUploading] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+
+  const { data: images = [], isLoading } = useQuery({
+    queryKey: ["backgrounds"],
+    queryFn: backgroundsApi.listImages,
+  });
+  const { data: rules = [] } = useQuery({
+    queryKey: ["background-rules"],
+    queryFn: backgroundsApi.listRules,
+  });
+  const { data: current } = useQuery({
+    queryKey: ["background-current"],
+    queryFn: backgroundsApi.getCurrent,
+    refetchInterval: 10_000,
+  });
+
+  const refresh = useCallback(() => {
+    qc.invalidateQueries({ queryKey: ["backgrounds"] });
+    qc.invalidateQueries({ queryKey: ["background-rules"] });
+    qc.invalidateQueries({ queryKey: ["background-current"] });
+  }, [qc]);
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setUploading(true);
+    setUploadError(null);
+    for (const file of Array.from(files)) {
+      try {
+        const fd = new FormData();
+        fd.append("name", file.name.replace(/\.[^.]+$/, ""));
+        fd.append("tags", uploadTags);
+        fd.append("file", file);
+        await backgroundsApi.uploadImage(fd);
+      } catch (e) {
+        setUploadError(e instanceof Error ? e.message : "Upload failed");
+      }
+    }
+    setUploading(false);
+    if (fileInput.current) fileInput.current.value = "";
+    refresh();
+  };
+
+  const allTags = [...new Set(images.flatMap((i) => i.tags))].sort();
+  const shown = tagFilter ? images.filter((i) => i.tags.includes(tagFilter)) : images;
+
+  return (
+    <div className="p-6 space-y-8">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <div>
+          <h1 className="text-xl font-bold text-zinc-100 flex items-center gap-2">
+            <ImageIcon className="w-5 h-5 text-zinc-500" />
+            Backgrounds
+          </h1>
+          <p className="text-sm text-zinc-500 mt-0.5">
+            {images.length} image{images.length !== 1 ? "s" : ""}
+            {" · "}
+            On air: {current?.image?.name ?? "default background"}
+            {current?.rule && ` (rule "${current.rule.name}")`}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            value={uploadTags}
+            onChange={(e) => setUploadTags(e.target.value)}
+            placeholder="Tags for new uploads"
+            aria-label="Tags for new uploads"
+            className="px-3 py-2 text-sm bg-zinc-900 border border-zinc-800 rounded-lg text-zinc-300 placeholder:text-zinc-600 focus:outline-none focus:border-zinc-600 w-48"
+          />
+          <input
+            ref={fileInput}
+            type="file"
+            accept="image/*"
+            multiple
+            hidden
+            onChange={(e) => handleFiles(e.target.files)}
+            data-testid="background-file-input"
+          />
+          <button
+            onClick={() => fileInput.current?.click()}
+            disabled={uploading}
+            data-testid="upload-background"
+            className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium border bg-zinc-800 border-zinc-700 text-zinc-300 hover:bg-zinc-700 disabled:opacity-50 transition-colors"
+          >
+            {uploading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+            Upload
+          </button>
+        </div>
+      </div>
+      {uploadError && <p className="text-xs text-red-400 -mt-6">{uploadError}</p>}
+
+      {/* Gallery */}
+      <section className="space-y-4">
+        {allTags.length > 0 && (
+          <div className="flex flex-wrap gap-1.5" aria-label="Filter by tag">
+            {[null, ...allTags].map((tag) => (
+              <button
+                key={tag ?? "__all"}
+                onClick={() => setTagFilter(tag)}
+                className={cn(
+                  "px-2.5 py-1 rounded-full text-xs font-medium border transition-colors",
+                  tagFilter === tag
+                    ? "bg-violet-600/20 border-violet-500/30 text-violet-300"
+                    : "bg-zinc-900 border-zinc-800 text-zinc-400 hover:text-zinc-200"
+                )}
+              >
+                {tag ?? "All"}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="w-8 h-8 text-zinc-600 animate-spin" />
+          </div>
+        ) : shown.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-16 text-zinc-700">
+            <ImageIcon className="w-10 h-10 mb-3" />
+            <p className="text-sm">No background images yet</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+            {shown.map((image) => (
+              <BackgroundCard
+                key={image.id}
+                image={image}
+                onAir={current?.image?.id === image.id}
+                onChanged={refresh}
+              />
+            ))}
+          </div>
+        )}
+      </section>
+
+      {/* Rules */}
+      <section className="space-y-3">
+        <div>
+          <h2 className="text-sm font-semibold text-zinc-200">Rotation rules</h2>
+          <p className="text-xs text-zinc-500 mt-0.5">
+            At each track the first enabled rule that matches, lowest priority first, picks the
+            next image carrying its tag. Rule changes apply right away; new images join from the next
+            track.
+          </p>
+        </div>
+        <RulesEditor rules={rules} tags={allTags} onChanged={refresh} />
+      </section>
+    </div>
+  );
+}
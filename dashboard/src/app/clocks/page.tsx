@@ -0,0 +1,588 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import * as Select from "@radix-ui/react-select";
+import { clocksApi } from "@/lib/api";
+import { cn } from "@/lib/utils";
+import {
+  CalendarClock,
+  Plus,
+  Trash2,
+  Loader2,
+  Save,
+  ChevronDown,
+  X,
+} from "lucide-react";
+import type {
+  ClockAssignment,
+  ClockContentType,
+  ClockSegment,
+  FormatClock,
+} from "@/lib/api";
+
+const CONTENT_TYPES: { value: ClockContentType; label: string }[] = [
+  { value: "song", label: "Song" },
+  { value: "news_block", label: "News" },
+  { value: "podcast", label: "Podcast" },
+  { value: "ad", label: "Ad" },
+  { value: "jingle", label: "Jingle" },
+];
+
+const TYPE_COLORS: Record<string, string> = {
+  song: "text-violet-400 bg-violet-500/15 border-violet-500/25",
+  news_block: "text-amber-400 bg-amber-500/15 border-amber-500/25",
+  podcast: "text-blue-400 bg-blue-500/15 border-blue-500/25",
+  ad: "text-green-400 bg-green-500/15 border-green-500/25",
+  jingle: "text-pink-400 bg-pink-500/15 border-pink-500/25",
+  rotation: "text-zinc-400 bg-zinc-500/15 border-zinc-500/25",
+};
+
+const TYPE_LABELS: Record<string, string> = {
+  ...Object.fromEntries(CONTENT_TYPES.map((t) => [t.value, t.label])),
+  rotation: "Rotation",
+};
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/** Radix Select values can't be empty — "any" stands in for null */
+const ANY = "any";
+
+// ---------------------------------------------------------------------------
+// Small select wrapper
+// ---------------------------------------------------------------------------
+
+function PickSelect({
+  value,
+  options,
+  onChange,
+  label,
+  testId,
+  className,
+  placeholder,
+}: {
+  value: string;
+  options: { value: string; label: string }[];
+  onChange: (value: string) => void;
+  label: string;
+  testId?: string;
+  className?: string;
+  placeholder?: string;
+}) {
+  return (
+    <Select.Root value={value} onValueChange={onChange}>
+      <Select.Trigger
+        data-testid={testId}
+        aria-label={label}
+        className={cn(
+          "flex items-center justify-between gap-2 px-3 py-1.5 text-sm bg-zinc-900 border border-zinc-800 rounded-lg text-zinc-300 hover:border-zinc-700 focus:outline-none focus:border-zinc-600",
+          className
+        )}
+      >
+        <Select.Value placeholder={placeholder} />
+        <Select.Icon>
+          <ChevronDown className="w-3.5 h-3.5 text-zinc-500" />
+        </Select.Icon>
+      </Select.Trigger>
+      <Select.Portal>
+        <Select.Content className="z-50 bg-zinc-900 border border-zinc-700 rounded-lg shadow-xl py-1 min-w-[120px] max-h-72">
+          <Select.Viewport>
+            {options.map((o) => (
+              <Select.Item
+                key={o.value}
+                value={o.value}
+                className="flex items-center px-3 py-1.5 text-sm text-zinc-300 hover:bg-zinc-800 cursor-pointer outline-none"
+              >
+                <Select.ItemText>{o.label}</Select.ItemText>
+              </Select.Item>
+            ))}
+          </Select.Viewport>
+        </Select.Content>
+      </Select.Portal>
+    </Select.Root>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Clock editor
+// ---------------------------------------------------------------------------
+
+function SegmentRow({
+  segment,
+  index,
+  onChange,
+  onDelete,
+}: {
+  segment: ClockSegment;
+  index: number;
+  onChange: (segment: ClockSegment) => void;
+  onDelete: () => void;
+}) {
+  const fallbackOptions = [
+    ...CONTENT_TYPES.filter(
+      (t) => t.value !== segment.contentType && !segment.fallback.includes(t.value)
+    ),
+    ...(segment.fallback.includes("rotation") ? [] : [{ value: "rotation", label: "Rotation" }]),
+  ];
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 px-3 py-2.5 bg-zinc-900 border border-zinc-800 rounded-lg">
+      <div className="flex items-center gap-1 text-sm text-zinc-500">
+        :
+        <input
+          type="number"
+          min={0}
+          max={59}
+          value={segment.minute}
+          onChange={(e) =>
+            onChange({ ...segment, minute: Math.min(59, Math.max(0, Number(e.target.value))) })
+          }
+          data-testid={`clock-segment-minute-${index}`}
+          aria-label={`Minute for segment ${index + 1}`}
+          className="w-14 px-2 py-1.5 text-sm bg-zinc-950 border border-zinc-800 rounded-lg text-zinc-200 tabular-nums focus:outline-none focus:border-zinc-600"
+        />
+      </div>
+
+      <PickSelect
+        value={segment.contentType}
+        options={CONTENT_TYPES}
+        onChange={(v) =>
+          onChange({
+            ...segment,
+            contentType: v as ClockContentType,
+            fallback: segment.fallback.filter((f) => f !== v),
+          })
+        }
+        label={`Content type for segment ${index + 1}`}
+        testId={`clock-segment-type-${index}`}
+        className="w-32"
+      />
+
+      <div className="flex flex-1 flex-wrap items-center gap-1.5 min-w-0">
+        <span className="text-xs text-zinc-600">else</span>
+        {segment.fallback.map((f) => (
+          <span
+            key={f}
+            className={cn(
+              "flex items-center gap-1 text-xs font-medium px-2 py-0.5 rounded border",
+              TYPE_COLORS[f]
+            )}
+          >
+            {TYPE_LABELS[f]}
+            <button
+              onClick={() =>
+                onChange({ ...segment, fallback: segment.fallback.filter((x) => x !== f) })
+              }
+              aria-label={`Remove ${TYPE_LABELS[f]} fallback`}
+              className="hover:text-red-400"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        {fallbackOptions.length > 0 && (
+          <PickSelect
+            value=""
+            options={fallbackOptions}
+            onChange={(v) =>
+              onChange({
+                ...segment,
+                fallback: [...segment.fallback, v as ClockSegment["fallback"][number]],
+              })
+            }
+            label={`Add fallback for segment ${index + 1}`}
+            testId={`clock-segment-fallback-${index}`}
+            placeholder="+ fallback"
+            className="text-xs py-0.5"
+          />
+        )}
+      </div>
+
+      <button
+        onClick={onDelete}
+        data-testid={`clock-segment-delete-${index}`}
+        aria-label={`Delete segment ${index + 1}`}
+        className="text-zinc-600 hover:text-red-400 transition-colors shrink-0"
+      >
+        <Trash2 className="w-3.5 h-3.5" />
+      </button>
+    </div>
+  );
+}
+
+function ClockEditor({
+  clock,
+  onDeleted,
+}: {
+  clock: FormatClock;
+  onDeleted: () => void;
+}) {
+  const qc = useQueryClient();
+  const [name, setName] = useState(clock.name);
+  const [description, setDescription] = useState(clock.description ?? "");
+  const [segments, setSegments] = useState<ClockSegment[]>(clock.segments);
+
+  const save = useMutation({
+    mutationFn: () => clocksApi.updateClock(clock.id, { name, description, segments }),
+    onSuccess: () => qc.invalidateQueries({ queryKey: ["clocks"] }),
+  });
+
+  const remove = useMutation({
+    mutationFn: () => clocksApi.deleteClock(clock.id),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["clocks"] });
+      qc.invalidateQueries({ queryKey: ["clock-assignments"] });
+      onDeleted();
+    },
+  });
+
+  const addSegment = () => {
+    const used = new Set(segments.map((s) => s.minute));
+    let minute = 0;
+    while (used.has(minute) && minute < 59) minute++;
+    setSegments([...segments, { minute, contentType: "song", fallback: ["rotation"] }]);
+  };
+
+  const duplicateMinute = segments.some(
+    (s, i) => segments.findIndex((o) => o.minute === s.minute) !== i
+  );
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-5 space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          data-testid="clock-name-input"
+          aria-label="Clock name"
+          placeholder="Clock name"
+          className="px-3 py-2 text-sm bg-zinc-950 border border-zinc-800 rounded-lg text-zinc-200 placeholder:text-zinc-600 focus:outline-none focus:border-zinc-600"
+        />
+        <input
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          data-testid="clock-description-input"
+          aria-label="Clock description"
+          placeholder="Description"
+          className="px-3 py-2 text-sm bg-zinc-950 border border-zinc-800 rounded-lg text-zinc-300 placeholder:text-zinc-600 focus:outline-none focus:border-zinc-600"
+        />
+      </div>
+
+      <div className="space-y-2">
+        {[...segments]
+          .map((segment, index) => ({ segment, index }))
+          .sort((a, b) => a.segment.minute - b.segment.minute)
+          .map(({ segment, index }) => (
+            <SegmentRow
+              key={index}
+              segment={segment}
+              index={index}
+              onChange={(s) => setSegments(segments.map((x, i) => (i === index ? s : x)))}
+              onDelete={() => setSegments(segments.filter((_, i) => i !== index))}
+            />
+          ))}
+        {segments.length === 0 && (
+          <p className="text-sm text-zinc-600 italic">
+            No segments — the rotation plays all hour.
+          </p>
+        )}
+        <p className="text-xs text-zinc-600">
+          Each segment airs once per hour when the clock passes its minute. The rotation
+          fills everything in between.
+        </p>
+        {duplicateMinute && (
+          <p className="text-xs text-red-400">Two segments share the same minute.</p>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={addSegment}
+          data-testid="clock-add-segment"
+          aria-label="Add segment"
+          className="flex items-center gap-1 text-xs font-medium px-2.5 py-1.5 rounded-lg border text-violet-400 bg-violet-500/15 border-violet-500/25 transition-colors"
+        >
+          <Plus className="w-3 h-3" />
+          Segment
+        </button>
+        <div className="flex-1" />
+        <button
+          onClick={() => remove.mutate()}
+          data-testid="clock-delete"
+          disabled={remove.isPending}
+          aria-label="Delete clock"
+          className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-red-400 hover:bg-red-500/10 border border-red-500/20 rounded-lg transition-colors disabled:opacity-60"
+        >
+          <Trash2 className="w-3.5 h-3.5" />
+          Delete
+        </button>
+        <button
+          onClick={() => save.mutate()}
+          data-testid="clock-save"
+          disabled={save.isPending || !name.trim() || duplicateMinute}
+          aria-label="Save clock"
+          className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium bg-violet-600 hover:bg-violet-500 text-white rounded-lg transition-colors disabled:opacity-60"
+        >
+          {save.isPending ? (
+            <Loader2 className="w-3.5 h-3.5 animate-spin" />
+          ) : (
+            <Save className="w-3.5 h-3.5" />
+          )}
+          Save clock
+        </button>
+      </div>
+      {save.isError && (
+        <p className="text-xs text-red-400">{String(save.error)}</p>
+      )}
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Assignments
+// ---------------------------------------------------------------------------
+
+function AssignmentsEditor({
+  clocks,
+  assignments: initial,
+}: {
+  clocks: FormatClock[];
+  assignments: ClockAssignment[];
+}) {
+  const qc = useQueryClient();
+  const [assignments, setAssignments] = useState<ClockAssignment[]>(initial);
+
+  const save = useMutation({
+    mutationFn: () => clocksApi.updateAssignments(assignments),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["clock-assignments"] });
+      qc.invalidateQueries({ queryKey: ["clock-active"] });
+    },
+  });
+
+  const update = (index: number, patch: Partial<ClockAssignment>) => {
+    setAssignments(assignments.map((a, i) => (i === index ? { ...a, ...patch } : a)));
+  };
+
+  const weekdayOptions = [
+    { value: ANY, label: "Every day" },
+    ...WEEKDAYS.map((d, i) => ({ value: String(i), label: d })),
+  ];
+  const hourOptions = [
+    { value: ANY, label: "Every hour" },
+    ...Array.from({ length: 24 }, (_, h) => ({
+      value: String(h),
+      label: `${String(h).padStart(2, "0")}:00`,
+    })),
+  ];
+  const clockOptions = clocks.map((c) => ({ value: c.id, label: c.name }));
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-5 space-y-3">
+      <h2 className="text-sm font-semibold text-zinc-200">Assignments</h2>
+      <p className="text-xs text-zinc-600">
+        The most specific match wins: day + hour, then day, then hour, then the catch-all.
+      </p>
+
+      {assignments.map((a, i) => (
+        <div key={i} className="flex items-center gap-2">
+          <PickSelect
+            value={a.weekday === null ? ANY : String(a.weekday)}
+            options={weekdayOptions}
+            onChange={(v) => update(i, { weekday: v === ANY ? null : Number(v) })}
+            label={`Weekday for assignment ${i + 1}`}
+            testId={`assignment-weekday-${i}`}
+            className="w-32"
+          />
+          <PickSelect
+            value={a.hour === null ? ANY : String(a.hour)}
+            options={hourOptions}
+            onChange={(v) => update(i, { hour: v === ANY ? null : Number(v) })}
+            label={`Hour for assignment ${i + 1}`}
+            testId={`assignment-hour-${i}`}
+            className="w-32"
+          />
+          <PickSelect
+            value={a.clockId}
+            options={clockOptions}
+            onChange={(v) => update(i, { clockId: v })}
+            label={`Clock for assignment ${i + 1}`}
+            testId={`assignment-clock-${i}`}
+            className="flex-1"
+          />
+          <button
+            onClick={() => setAssignments(assignments.filter((_, j) => j !== i))}
+            data-testid={`assignment-delete-${i}`}
+            aria-label={`Delete assignment ${i + 1}`}
+            className="text-zinc-600 hover:text-red-400 transition-colors shrink-0"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      ))}
+
+      {assignments.length === 0 && (
+        <p className="text-sm text-zinc-600 italic">
+          No assignments — only the rotation plays.
+        </p>
+      )}
+
+      <div className="flex items-center gap-2 pt-1">
+        <button
+          onClick={() =>
+            clocks[0] &&
+            setAssignments([...assignments, { clockId: clocks[0].id, weekday: null, hour: null }])
+          }
+          disabled={clocks.length === 0}
+          data-testid="assignment-add"
+          aria-label="Add assignment"
+          className="flex items-center gap-1 text-xs font-medium px-2.5 py-1.5 rounded-lg border text-violet-400 bg-violet-500/15 border-violet-500/25 transition-colors disabled:opacity-60"
+        >
+          <Plus className="w-3 h-3" />
+          Assignment
+        </button>
+        <div className="flex-1" />
+        <button
+          onClick={() => save.mutate()}
+          data-testid="assignments-save"
+          disabled={save.isPending}
+          aria-label="Save assignments"
+          className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium bg-zinc-800 hover:bg-zinc-700 text-zinc-300 border border-zinc-700 rounded-lg transition-colors disabled:opacity-60"
+        >
+          {save.isPending ? (
+            <Loader2 className="w-3.5 h-3.5 animate-spin" />
+          ) : (
+            <Save className="w-3.5 h-3.5" />
+          )}
+          Save assignments
+        </button>
+      </div>
+      {save.isError && (
+        <p className="text-xs text-red-400">{String(save.error)}</p>
+      )}
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Main page
+// ---------------------------------------------------------------------------
+
+export default function ClocksPage() {
+  const qc = useQueryClient();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const { data: clocks = [], isLoading } = useQuery({
+    queryKey: ["clocks"],
+    queryFn: clocksApi.listClocks,
+  });
+
+  const { data: assignments, isLoading: assignmentsLoading } = useQuery({
+    queryKey: ["clock-assignments"],
+    queryFn: clocksApi.getAssignments,
+  });
+
+  const { data: active } = useQuery({
+    queryKey: ["clock-active"],
+    queryFn: clocksApi.getActiveClock,
+    refetchInterval: 60_000,
+  });
+
+  const create = useMutation({
+    mutationFn: () => clocksApi.createClock({ name: "New clock", segments: [] }),
+    onSuccess: (clock) => {
+      qc.invalidateQueries({ queryKey: ["clocks"] });
+      setSelectedId(clock.id);
+    },
+  });
+
+  const selected = clocks.find((c) => c.id === selectedId) ?? clocks[0] ?? null;
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="w-8 h-8 text-zinc-600 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 max-w-4xl">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-xl font-bold text-zinc-100 flex items-center gap-2">
+            <CalendarClock className="w-5 h-5 text-zinc-500" />
+            Format Clocks
+          </h1>
+          <p className="text-sm text-zinc-500 mt-0.5">
+            {active?.clock ? (
+              <>
+                On air now: <span className="text-zinc-300">{active.clock.name}</span>
+              </>
+            ) : (
+              "No clock on air — rotation only"
+            )}
+          </p>
+        </div>
+        <button
+          onClick={() => create.mutate()}
+          data-testid="clock-create"
+          disabled={create.isPending}
+          aria-label="Create clock"
+          className="flex items-center gap-2 px-4 py-2 text-sm font-medium bg-violet-600 hover:bg-violet-500 text-white rounded-lg transition-colors disabled:opacity-60"
+        >
+          <Plus className="w-4 h-4" />
+          New clock
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-[200px_1fr] gap-5">
+        {/* Clock list */}
+        <div className="space-y-1">
+          {clocks.map((c) => (
+            <button
+              key={c.id}
+              onClick={() => setSelectedId(c.id)}
+              data-testid={`clock-item-${c.id}`}
+              className={cn(
+                "w-full text-left px-3 py-2 rounded-lg text-sm transition-colors border",
+                selected?.id === c.id
+                  ? "bg-violet-600/20 text-violet-300 border-violet-500/20"
+                  : "text-zinc-400 border-transparent hover:text-zinc-100 hover:bg-zinc-800/60"
+              )}
+            >
+              <div className="font-medium truncate">{c.name}</div>
+              <div className="text-[10px] text-zinc-600">
+                {c.segments.length} segment{c.segments.length !== 1 ? "s" : ""}
+              </div>
+            </button>
+          ))}
+          {clocks.length === 0 && (
+            <p className="text-sm text-zinc-600 italic px-3">No clocks yet.</p>
+          )}
+        </div>
+
+        <div className="space-y-5">
+          {selected && (
+            <ClockEditor
+              key={`${selected.id}-${selected.updatedAt}`}
+              clock={selected}
+              onDeleted={() => setSelectedId(null)}
+            />
+          )}
+
+          {assignmentsLoading || !assignments ? (
+            <Loader2 className="w-5 h-5 text-zinc-600 animate-spin" />
+          ) : (
+            <AssignmentsEditor
+              key={assignments.map((a) => a.id).join(",")}
+              clocks={clocks}
+              assignments={assignments}
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
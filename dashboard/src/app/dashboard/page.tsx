@@ -9,6 +9,9 @@ import { QueueList } from "@/components/dashboard/QueueList";
 import { BufferGauge } from "@/components/dashboard/BufferGauge";
 import { PipelineHealth } from "@/components/dashboard/PipelineHealth";
 import { ActivityFeed } from "@/components/dashboard/ActivityFeed";
+import { CostPanel } from "@/components/dashboard/CostPanel";
+import { BreakingNewsPanel } from "@/components/dashboard/BreakingNewsPanel";
+import { OverlayPanel } from "@/components/dashboard/OverlayPanel";
 import { AlertTriangle, X } from "lucide-react";
 import { cn } from "@/lib/utils";
 
@@ -98,6 +101,7 @@ export default function DashboardPage() {
       </div>
 
       <AlertBanner />
+      <BreakingNewsPanel />
 
       {/* Top row: NowPlaying (wide) + Buffer gauge */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 mb-4">
@@ -113,8 +117,18 @@ export default function DashboardPage() {
         <PipelineHealth />
       </div>
 
-      {/* Bottom: Activity feed */}
-      <ActivityFeed />
+      {/* Overlay controls */}
+      <div className="mb-4">
+        <OverlayPanel />
+      </div>
+
+      {/* Bottom: Activity feed + Spend */}
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <div className="lg:col-span-2">
+          <ActivityFeed />
+        </div>
+        <CostPanel />
+      </div>
     </div>
   );
 }
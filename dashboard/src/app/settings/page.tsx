@@ -18,8 +18,9 @@ import {
 } from "@dnd-kit/sortable";
 import { CSS } from "@dnd-kit/utilities";
 import * as Select from "@radix-ui/react-select";
-import { settingsApi, rotationApi } from "@/lib/api";
+import { settingsApi, rotationApi, streamOutputsApi, streamApi } from "@/lib/api";
 import { cn } from "@/lib/utils";
+import { useEngineStore } from "@/stores/engine-store";
 import {
   Settings,
   Plus,
@@ -28,13 +29,42 @@ import {
   Loader2,
   Save,
   ChevronDown,
+  ChevronUp,
   Rss,
   Music,
   Mic,
   Radio,
   Sliders,
+  Layers,
+  Eye,
+  Newspaper,
+  RefreshCw,
+  Captions,
+  AudioWaveform,
+  Timer,
 } from "lucide-react";
-import type { AppSettings, RssFeed, Genre, RotationItem } from "@/lib/api";
+import type {
+  AppSettings,
+  CaptionPosition,
+  CaptionSettings,
+  CaptionStyle,
+  ClockContentType,
+  OverlayLayer,
+  RssFeed,
+  Genre,
+  RotationGroup,
+  RotationGroupAssignment,
+  RotationStep,
+  SelectionStrategy,
+  SeparationRule,
+  SeparationSettings,
+  StreamEventType,
+  StreamOutputInput,
+  StreamOutputType,
+  StreamProgressMetrics,
+  TickerSettings,
+  VisualizerMode,
+} from "@/lib/api";
 
 // ---------------------------------------------------------------------------
 // RSS Feeds section
@@ -332,94 +362,1092 @@ function TtsSection({
 // Stream section
 // ---------------------------------------------------------------------------
 
-function StreamSection({
-  stream,
-  onChange,
-}: {
-  stream: AppSettings["stream"];
-  onChange: (s: AppSettings["stream"]) => void;
-}) {
-  const fields: {
-    key: keyof AppSettings["stream"];
-    label: string;
-    type: string;
-    placeholder: string;
-  }[] = [
-    {
-      key: "rtmpUrl",
-      label: "RTMP URL",
-      type: "url",
-      placeholder: "rtmp://a.rtmp.youtube.com/live2",
-    },
-    { key: "streamKey", label: "Stream Key", type: "password", placeholder: "xxxx-xxxx-xxxx" },
-    { key: "bitrate", label: "Bitrate (kbps)", type: "number", placeholder: "128" },
-    { key: "sampleRate", label: "Sample Rate (Hz)", type: "number", placeholder: "44100" },
-  ];
+const OUTPUT_TYPES: { value: StreamOutputType; label: string; urlPlaceholder: string }[] = [
+  { value: "rtmp", label: "RTMP", urlPlaceholder: "rtmp://a.rtmp.youtube.com/live2" },
+  { value: "icecast", label: "Icecast", urlPlaceholder: "icecast://host:8000/radiowar" },
+  { value: "hls", label: "HLS (directory)", urlPlaceholder: "/var/www/radiowar/live" },
+];
+
+const OUTPUT_STATE_STYLES: Record<string, string> = {
+  live: "bg-green-500",
+  connecting: "bg-amber-500",
+  down: "bg-red-500",
+  stopped: "bg-zinc-600",
+};
+
+const EVENT_STYLES: Partial<Record<StreamEventType, string>> = {
+  output_down: "text-red-400",
+  encoder_restarted: "text-red-400",
+  failover: "text-amber-400",
+  output_degraded: "text-amber-400",
+  encoder_degraded: "text-amber-400",
+  output_recovered: "text-green-400",
+  encoder_recovered: "text-green-400",
+};
+
+/** e.g. "3200 kbps · 15 fps · 1.00x · 2 dropped" */
+function formatMetrics(metrics: StreamProgressMetrics): string {
+  const parts: string[] = [];
+  if (metrics.bitrateKbps !== null) parts.push(`${Math.round(metrics.bitrateKbps)} kbps`);
+  if (metrics.fps !== null && metrics.fps > 0) parts.push(`${metrics.fps.toFixed(0)} fps`);
+  if (metrics.speed !== null) parts.push(`${metrics.speed.toFixed(2)}x`);
+  if (metrics.dropFrames > 0) parts.push(`${metrics.dropFrames} dropped`);
+  if (metrics.dupFrames > 0) parts.push(`${metrics.dupFrames} duplicated`);
+  return parts.join(" · ");
+}
+
+/** Live encoder metrics plus recent health events (failures, failovers) */
+function StreamHealthPanel() {
+  const liveStatus = useEngineStore((s) => s.streamStatus);
+
+  const { data: polledStatus } = useQuery({
+    queryKey: ["stream-status"],
+    queryFn: streamApi.getStatus,
+    refetchInterval: 10_000,
+  });
+
+  const { data: events = [] } = useQuery({
+    queryKey: ["stream-events"],
+    queryFn: () => streamApi.getEvents(10),
+    refetchInterval: 10_000,
+  });
+
+  // Socket updates arrive every couple of seconds while streaming; the poll
+  // covers the initial load and the stream being stopped
+  const status = polledStatus?.isStreaming === false ? polledStatus : liveStatus ?? polledStatus;
+  const encoder = status?.encoder;
 
   return (
-    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-      {fields.map(({ key, label, type, placeholder }) => (
-        <div key={key}>
-          <label
-            htmlFor={`stream-${key}`}
-            className="block text-xs font-medium text-zinc-400 mb-1.5"
+    <div className="space-y-3" data-testid="stream-health">
+      <div className="flex items-center gap-2 text-xs">
+        <span className="text-zinc-500">Encoder</span>
+        {encoder ? (
+          <>
+            <span className={cn("tabular-nums", encoder.degraded ? "text-amber-400" : "text-zinc-300")}>
+              {encoder.metrics ? formatMetrics(encoder.metrics) || "starting…" : "starting…"}
+            </span>
+            {encoder.degraded && (
+              <span className="text-[10px] uppercase text-amber-400">degraded</span>
+            )}
+            {encoder.errorLines > 0 && (
+              <span className="text-red-400 truncate" title={encoder.lastError ?? undefined}>
+                {encoder.errorLines} error{encoder.errorLines === 1 ? "" : "s"}
+              </span>
+            )}
+          </>
+        ) : (
+          <span className="text-zinc-600">not streaming</span>
+        )}
+      </div>
+
+      {events.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-[10px] uppercase tracking-widest text-zinc-600">Recent events</p>
+          {events.map((event) => (
+            <div key={event.id} className="flex items-baseline gap-2 text-xs" data-testid={`stream-event-${event.id}`}>
+              <span className="text-zinc-600 tabular-nums shrink-0">
+                {new Date(event.createdAt).toLocaleString([], {
+                  month: "short",
+                  day: "numeric",
+                  hour: "2-digit",
+                  minute: "2-digit",
+                })}
+              </span>
+              <span className={cn("truncate", EVENT_STYLES[event.type] ?? "text-zinc-400")}>
+                {event.message}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const EMPTY_OUTPUT: StreamOutputInput = {
+  name: "",
+  type: "rtmp",
+  url: "",
+  backupUrl: "",
+  streamKey: "",
+  username: "",
+  password: "",
+};
+
+/** Publishing destinations; changes apply to a running stream immediately */
+function StreamOutputsSection() {
+  const qc = useQueryClient();
+  const [draft, setDraft] = useState<StreamOutputInput>(EMPTY_OUTPUT);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: outputs = [] } = useQuery({
+    queryKey: ["stream-outputs"],
+    queryFn: streamOutputsApi.list,
+    refetchInterval: 10_000,
+  });
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+      qc.invalidateQueries({ queryKey: ["stream-outputs"] });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const addOutput = () =>
+    run(async () => {
+      await streamOutputsApi.create({
+        ...draft,
+        backupUrl: draft.type === "rtmp" ? draft.backupUrl : null,
+      });
+      setDraft(EMPTY_OUTPUT);
+    });
+
+  const typeConfig = OUTPUT_TYPES.find((t) => t.value === draft.type)!;
+  const inputClass =
+    "w-full px-3 py-2 text-sm bg-zinc-900 border border-zinc-800 rounded-lg text-zinc-300 placeholder:text-zinc-600 focus:outline-none focus:border-zinc-600";
+
+  return (
+    <div className="space-y-4">
+      <StreamHealthPanel />
+
+      <div className="space-y-2">
+        {outputs.length === 0 && (
+          <p className="text-xs text-zinc-600">
+            No outputs yet. The stream still plays on the built-in listen-live feed.
+          </p>
+        )}
+        {outputs.map((output) => (
+          <div
+            key={output.id}
+            data-testid={`stream-output-${output.id}`}
+            className="flex items-center gap-3 px-3 py-2 bg-zinc-800/50 border border-zinc-800 rounded-lg"
+          >
+            <span
+              className={cn(
+                "w-2 h-2 rounded-full shrink-0",
+                OUTPUT_STATE_STYLES[output.health?.state ?? "stopped"]
+              )}
+              title={output.health ? output.health.state : "not running"}
+            />
+            <div className="flex-1 min-w-0">
+              <p className="text-sm text-zinc-200 truncate">
+                {output.name}
+                <span className="ml-2 text-[10px] uppercase text-zinc-500">{output.type}</span>
+                {output.health?.target === "backup" && (
+                  <span className="ml-2 text-[10px] uppercase text-amber-400">on backup</span>
+                )}
+                {output.health?.degraded && (
+                  <span className="ml-2 text-[10px] uppercase text-amber-400">degraded</span>
+                )}
+              </p>
+              <p className="text-xs text-zinc-500 truncate">
+                {output.health?.target === "backup" ? output.backupUrl : output.url}
+                {output.health?.metrics && output.health.state === "live" && (
+                  <span className="ml-2 tabular-nums">{formatMetrics(output.health.metrics)}</span>
+                )}
+              </p>
+              {output.health?.lastError && output.health.state !== "live" && (
+                <p className="text-xs text-red-400 truncate" title={output.health.lastError}>
+                  {output.health.lastError}
+                </p>
+              )}
+            </div>
+            <input
+              type="checkbox"
+              checked={output.enabled}
+              onChange={(e) =>
+                run(() => streamOutputsApi.update(output.id, { enabled: e.target.checked }))
+              }
+              data-testid={`stream-output-enabled-${output.id}`}
+              aria-label={`Enable ${output.name}`}
+              className="accent-violet-500"
+            />
+            <button
+              onClick={() => run(() => streamOutputsApi.remove(output.id))}
+              data-testid={`stream-output-delete-${output.id}`}
+              aria-label={`Remove ${output.name}`}
+              className="text-zinc-600 hover:text-red-400 transition-colors"
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <input
+          value={draft.name}
+          onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          data-testid="stream-output-name-input"
+          placeholder="Name"
+          className={inputClass}
+        />
+        <Select.Root
+          value={draft.type}
+          onValueChange={(v) => setDraft({ ...draft, type: v as StreamOutputType })}
+        >
+          <Select.Trigger
+            data-testid="stream-output-type-select"
+            aria-label="Output type"
+            className="flex items-center justify-between w-full px-3 py-2 text-sm bg-zinc-900 border border-zinc-800 rounded-lg text-zinc-300 hover:border-zinc-700 focus:outline-none focus:border-zinc-600"
           >
-            {label}
-          </label>
+            <Select.Value />
+            <Select.Icon>
+              <ChevronDown className="w-3.5 h-3.5 text-zinc-500" />
+            </Select.Icon>
+          </Select.Trigger>
+          <Select.Portal>
+            <Select.Content className="z-50 bg-zinc-900 border border-zinc-700 rounded-lg shadow-xl py-1 min-w-[160px]">
+              <Select.Viewport>
+                {OUTPUT_TYPES.map((t) => (
+                  <Select.Item
+                    key={t.value}
+                    value={t.value}
+                    className="flex items-center px-3 py-2 text-sm text-zinc-300 hover:bg-zinc-800 cursor-pointer outline-none"
+                  >
+                    <Select.ItemText>{t.label}</Select.ItemText>
+                  </Select.Item>
+                ))}
+              </Select.Viewport>
+            </Select.Content>
+          </Select.Portal>
+        </Select.Root>
+        <input
+          value={draft.url}
+          onChange={(e) => setDraft({ ...draft, url: e.target.value })}
+          data-testid="stream-output-url-input"
+          placeholder={typeConfig.urlPlaceholder}
+          className={cn(inputClass, "sm:col-span-2")}
+        />
+        {draft.type === "rtmp" && (
+          <>
+            <input
+              value={draft.backupUrl ?? ""}
+              onChange={(e) => setDraft({ ...draft, backupUrl: e.target.value })}
+              data-testid="stream-output-backup-url-input"
+              placeholder="Backup ingest (optional), e.g. rtmp://b.rtmp.youtube.com/live2?backup=1"
+              className={cn(inputClass, "sm:col-span-2")}
+            />
+            <input
+              type="password"
+              value={draft.streamKey ?? ""}
+              onChange={(e) => setDraft({ ...draft, streamKey: e.target.value })}
+              data-testid="stream-output-key-input"
+              placeholder="Stream key"
+              className={cn(inputClass, "sm:col-span-2")}
+            />
+          </>
+        )}
+        {draft.type === "icecast" && (
+          <>
+            <input
+              value={draft.username ?? ""}
+              onChange={(e) => setDraft({ ...draft, username: e.target.value })}
+              data-testid="stream-output-username-input"
+              placeholder="Username (source)"
+              className={inputClass}
+            />
+            <input
+              type="password"
+              value={draft.password ?? ""}
+              onChange={(e) => setDraft({ ...draft, password: e.target.value })}
+              data-testid="stream-output-password-input"
+              placeholder="Password"
+              className={inputClass}
+            />
+          </>
+        )}
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      <button
+        onClick={addOutput}
+        disabled={!draft.name.trim() || !draft.url.trim()}
+        data-testid="add-stream-output-btn"
+        className="flex items-center gap-1.5 px-3 py-2 text-xs font-medium bg-zinc-800 border border-zinc-700 text-zinc-300 hover:bg-zinc-700 rounded-lg transition-colors disabled:opacity-50"
+      >
+        <Plus className="w-3.5 h-3.5" />
+        Add output
+      </button>
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Overlay templates section
+// ---------------------------------------------------------------------------
+
+const STREAM_CONTENT_TYPES = [
+  { value: "default", label: "Everything else" },
+  { value: "song", label: "Songs" },
+  { value: "news_block", label: "News" },
+  { value: "podcast", label: "Podcasts" },
+  { value: "ad", label: "Ads" },
+  { value: "jingle", label: "Jingles" },
+];
+
+// Radix Select items can't have an empty value
+const UNASSIGNED = "__unassigned";
+
+interface TemplateDraft {
+  id: string | null; // null = not saved yet
+  name: string;
+  json: string;
+}
+
+function parseLayers(json: string): OverlayLayer[] {
+  const layers = JSON.parse(json);
+  if (!Array.isArray(layers)) throw new Error("Layers must be a JSON array");
+  return layers as OverlayLayer[];
+}
+
+/** JSON layout templates for the video overlay, assigned per content type, with a rendered preview */
+function OverlayTemplatesSection() {
+  const qc = useQueryClient();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [editing, setEditing] = useState<TemplateDraft | null>(null);
+  const [previewType, setPreviewType] = useState("song");
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: templates = [] } = useQuery({
+    queryKey: ["overlay-templates"],
+    queryFn: streamApi.listOverlayTemplates,
+  });
+
+  const { data: assignments = {} } = useQuery({
+    queryKey: ["overlay-assignments"],
+    queryFn: streamApi.getOverlayAssignments,
+  });
+
+  // Revoke each preview image once it's replaced or the section unmounts
+  useEffect(() => {
+    return () => {
+      if (previewUrl) URL.revokeObjectURL(previewUrl);
+    };
+  }, [previewUrl]);
+
+  const selected = templates.find((t) => t.id === selectedId) ?? templates[0];
+  const draft: TemplateDraft =
+    editing ??
+    (selected
+      ? { id: selected.id, name: selected.name, json: JSON.stringify(selected.layers, null, 2) }
+      : { id: null, name: "", json: "[]" });
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const save = () =>
+    run(async () => {
+      const layers = parseLayers(draft.json);
+      const saved = draft.id
+        ? await streamApi.updateOverlayTemplate(draft.id, { name: draft.name, layers })
+        : await streamApi.createOverlayTemplate({ name: draft.name, layers });
+      setSelectedId(saved.id);
+      setEditing(null);
+      qc.invalidateQueries({ queryKey: ["overlay-templates"] });
+    });
+
+  const remove = () =>
+    run(async () => {
+      if (!draft.id) {
+        setEditing(null);
+        return;
+      }
+      await streamApi.deleteOverlayTemplate(draft.id);
+      setSelectedId(null);
+      setEditing(null);
+      qc.invalidateQueries({ queryKey: ["overlay-templates"] });
+      qc.invalidateQueries({ queryKey: ["overlay-assignments"] });
+    });
+
+  const assign = (contentType: string, value: string) =>
+    run(async () => {
+      const updated = await streamApi.updateOverlayAssignments({
+        [contentType]: value === UNASSIGNED ? null : value,
+      });
+      qc.setQueryData(["overlay-assignments"], updated);
+    });
+
+  const preview = () =>
+    run(async () => {
+      setPreviewing(true);
+      try {
+        const image = await streamApi.previewOverlay({
+          layers: parseLayers(draft.json),
+          contentType: previewType,
+        });
+        setPreviewUrl(URL.createObjectURL(image));
+      } finally {
+        setPreviewing(false);
+      }
+    });
+
+  const inputClass =
+    "w-full px-3 py-2 text-sm bg-zinc-900 border border-zinc-800 rounded-lg text-zinc-300 placeholder:text-zinc-600 focus:outline-none focus:border-zinc-600";
+  const buttonClass =
+    "flex items-center gap-1.5 px-3 py-2 text-xs font-medium bg-zinc-800 border border-zinc-700 text-zinc-300 hover:bg-zinc-700 rounded-lg transition-colors disabled:opacity-50";
+
+  return (
+    <div className="space-y-4" data-testid="overlay-templates">
+      <div className="flex flex-wrap gap-2">
+        {templates.map((t) => (
+          <button
+            key={t.id}
+            onClick={() => {
+              setSelectedId(t.id);
+              setEditing(null);
+            }}
+            data-testid={`overlay-template-${t.id}`}
+            className={cn(
+              "px-3 py-1.5 text-xs rounded-lg border transition-colors",
+              draft.id === t.id
+                ? "bg-violet-500/15 border-violet-500/40 text-violet-300"
+                : "bg-zinc-800/50 border-zinc-800 text-zinc-400 hover:border-zinc-700"
+            )}
+          >
+            {t.name}
+          </button>
+        ))}
+        <button
+          onClick={() => setEditing({ id: null, name: `${draft.name || "Layout"} copy`, json: draft.json })}
+          data-testid="new-overlay-template-btn"
+          className="flex items-center gap-1 px-3 py-1.5 text-xs rounded-lg border border-dashed border-zinc-700 text-zinc-500 hover:text-zinc-300"
+        >
+          <Plus className="w-3 h-3" />
+          New
+        </button>
+      </div>
+
+      <input
+        value={draft.name}
+        onChange={(e) => setEditing({ ...draft, name: e.target.value })}
+        data-testid="overlay-template-name-input"
+        placeholder="Template name"
+        className={inputClass}
+      />
+      <textarea
+        value={draft.json}
+        onChange={(e) => setEditing({ ...draft, json: e.target.value })}
+        data-testid="overlay-template-layers-input"
+        spellCheck={false}
+        rows={12}
+        className={cn(inputClass, "font-mono text-xs")}
+      />
+      <p className="text-xs text-zinc-600">
+        Layers of text, image and rect on a 1920×1080 canvas. Text can bind{" "}
+        <code>{"{{track.title}}"}</code>, <code>{"{{metadata.genre | upper}}"}</code>,{" "}
+        <code>{"{{overlay.nextUp}}"}</code>, <code>{"{{clock}}"}</code> and <code>{"{{date}}"}</code>.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={save}
+          disabled={!draft.name.trim()}
+          data-testid="save-overlay-template-btn"
+          className={buttonClass}
+        >
+          <Save className="w-3.5 h-3.5" />
+          {draft.id ? "Save template" : "Create template"}
+        </button>
+        <select
+          value={previewType}
+          onChange={(e) => setPreviewType(e.target.value)}
+          data-testid="overlay-preview-type-select"
+          aria-label="Preview as"
+          className="px-2 py-2 text-xs bg-zinc-900 border border-zinc-800 rounded-lg text-zinc-300"
+        >
+          {STREAM_CONTENT_TYPES.filter((t) => t.value !== "default").map((t) => (
+            <option key={t.value} value={t.value}>
+              {t.label}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={preview}
+          disabled={previewing}
+          data-testid="preview-overlay-template-btn"
+          className={buttonClass}
+        >
+          {previewing ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Eye className="w-3.5 h-3.5" />}
+          Preview
+        </button>
+        {(draft.id || editing) && (
+          <button
+            onClick={remove}
+            data-testid="delete-overlay-template-btn"
+            className="ml-auto flex items-center gap-1.5 px-3 py-2 text-xs text-zinc-500 hover:text-red-400 transition-colors"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+            {draft.id ? "Delete" : "Discard"}
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      {previewUrl && (
+        // eslint-disable-next-line @next/next/no-img-element -- blob URL from the engine, not an optimizable asset
+        <img
+          src={previewUrl}
+          alt="Overlay preview"
+          data-testid="overlay-preview-image"
+          className="w-full rounded-lg border border-zinc-800"
+        />
+      )}
+
+      <div className="space-y-2">
+        <p className="text-[10px] uppercase tracking-widest text-zinc-600">Used for</p>
+        {STREAM_CONTENT_TYPES.map((type) => (
+          <div key={type.value} className="flex items-center gap-3">
+            <span className="w-32 text-xs text-zinc-400">{type.label}</span>
+            <Select.Root
+              value={assignments[type.value] ?? UNASSIGNED}
+              onValueChange={(v) => assign(type.value, v)}
+            >
+              <Select.Trigger
+                data-testid={`overlay-assignment-${type.value}`}
+                aria-label={`Template for ${type.label}`}
+                className="flex items-center justify-between flex-1 px-3 py-1.5 text-xs bg-zinc-900 border border-zinc-800 rounded-lg text-zinc-300 hover:border-zinc-700 focus:outline-none focus:border-zinc-600"
+              >
+                <Select.Value />
+                <Select.Icon>
+                  <ChevronDown className="w-3.5 h-3.5 text-zinc-500" />
+                </Select.Icon>
+              </Select.Trigger>
+              <Select.Portal>
+                <Select.Content className="z-50 bg-zinc-900 border border-zinc-700 rounded-lg shadow-xl py-1 min-w-[160px]">
+                  <Select.Viewport>
+                    <Select.Item
+                      value={UNASSIGNED}
+                      className="flex items-center px-3 py-2 text-xs text-zinc-500 hover:bg-zinc-800 cursor-pointer outline-none"
+                    >
+                      <Select.ItemText>{type.value === "default" ? "First template" : "Same as everything else"}</Select.ItemText>
+                    </Select.Item>
+                    {templates.map((t) => (
+                      <Select.Item
+                        key={t.id}
+                        value={t.id}
+                        className="flex items-center px-3 py-2 text-xs text-zinc-300 hover:bg-zinc-800 cursor-pointer outline-none"
+                      >
+                        <Select.ItemText>{t.name}</Select.ItemText>
+                      </Select.Item>
+                    ))}
+                  </Select.Viewport>
+                </Select.Content>
+              </Select.Portal>
+            </Select.Root>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// News ticker section
+// ---------------------------------------------------------------------------
+
+function splitList(text: string): string[] {
+  return text
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+/** Scrolling headline ticker: style, feed/keyword filters and what's crawling now */
+function NewsTickerSection() {
+  const qc = useQueryClient();
+  const [edits, setEdits] = useState<Partial<TickerSettings>>({});
+  const [feedsText, setFeedsText] = useState<string | null>(null);
+  const [keywordsText, setKeywordsText] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: ticker } = useQuery({
+    queryKey: ["stream-ticker"],
+    queryFn: streamApi.getTicker,
+    refetchInterval: 60_000,
+  });
+
+  if (!ticker) return <Loader2 className="w-5 h-5 text-zinc-600 animate-spin" />;
+
+  const settings = { ...ticker.settings, ...edits };
+  const dirty = Object.keys(edits).length > 0 || feedsText !== null || keywordsText !== null;
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError(null);
+    setSaving(true);
+    try {
+      const state = await action();
+      qc.setQueryData(["stream-ticker"], state);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const save = () =>
+    run(async () => {
+      const state = await streamApi.updateTicker({
+        ...edits,
+        ...(feedsText !== null && { feeds: splitList(feedsText) }),
+        ...(keywordsText !== null && { keywords: splitList(keywordsText) }),
+      });
+      setEdits({});
+      setFeedsText(null);
+      setKeywordsText(null);
+      return state;
+    });
+
+  const inputClass =
+    "w-full px-3 py-2 text-sm bg-zinc-900 border border-zinc-800 rounded-lg text-zinc-300 placeholder:text-zinc-600 focus:outline-none focus:border-zinc-600";
+  const labelClass = "block text-xs text-zinc-400 mb-1";
+
+  return (
+    <div className="space-y-4" data-testid="news-ticker">
+      <label className="flex items-center gap-2 text-sm text-zinc-300">
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => setEdits({ ...edits, enabled: e.target.checked })}
+          data-testid="ticker-enabled"
+          className="accent-violet-500"
+        />
+        Show a scrolling headline ticker along the bottom of the video
+      </label>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+        <div>
+          <label className={labelClass}>Speed (px/s)</label>
           <input
-            id={`stream-${key}`}
-            type={type}
-            value={String(stream[key])}
-            onChange={(e) =>
-              onChange({
-                ...stream,
-                [key]: type === "number" ? Number(e.target.value) : e.target.value,
-              })
-            }
-            data-testid={`stream-${key}-input`}
-            placeholder={placeholder}
-            className="w-full px-3 py-2 text-sm bg-zinc-900 border border-zinc-800 rounded-lg text-zinc-300 placeholder:text-zinc-600 focus:outline-none focus:border-zinc-600"
+            type="number"
+            min={20}
+            max={600}
+            value={settings.speed}
+            onChange={(e) => setEdits({ ...edits, speed: Number(e.target.value) })}
+            data-testid="ticker-speed-input"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Font size</label>
+          <input
+            type="number"
+            min={16}
+            max={96}
+            value={settings.fontSize}
+            onChange={(e) => setEdits({ ...edits, fontSize: Number(e.target.value) })}
+            data-testid="ticker-font-size-input"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Headlines</label>
+          <input
+            type="number"
+            min={1}
+            max={50}
+            value={settings.maxItems}
+            onChange={(e) => setEdits({ ...edits, maxItems: Number(e.target.value) })}
+            data-testid="ticker-max-items-input"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Text color</label>
+          <input
+            value={settings.color}
+            onChange={(e) => setEdits({ ...edits, color: e.target.value })}
+            data-testid="ticker-color-input"
+            placeholder="#ffffff"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Band color</label>
+          <input
+            value={settings.background}
+            onChange={(e) => setEdits({ ...edits, background: e.target.value })}
+            data-testid="ticker-background-input"
+            placeholder="#000000b3"
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className={labelClass}>Feeds (comma-separated names, empty for all)</label>
+        <input
+          value={feedsText ?? settings.feeds.join(", ")}
+          onChange={(e) => setFeedsText(e.target.value)}
+          data-testid="ticker-feeds-input"
+          placeholder="BBC World, Al Jazeera"
+          className={inputClass}
+        />
+      </div>
+      <div>
+        <label className={labelClass}>Keywords (comma-separated, empty for all headlines)</label>
+        <input
+          value={keywordsText ?? settings.keywords.join(", ")}
+          onChange={(e) => setKeywordsText(e.target.value)}
+          data-testid="ticker-keywords-input"
+          placeholder="ceasefire, frontline"
+          className={inputClass}
+        />
+      </div>
+
+      <p className="text-xs text-zinc-600">
+        Feeds, keywords and headline count apply at once; turning the ticker on or off and its
+        style take effect when the stream next starts.
+      </p>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={save}
+          disabled={!dirty || saving}
+          data-testid="save-ticker-btn"
+          className="flex items-center gap-1.5 px-3 py-2 text-xs font-medium bg-zinc-800 border border-zinc-700 text-zinc-300 hover:bg-zinc-700 rounded-lg transition-colors disabled:opacity-50"
+        >
+          {saving ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Save className="w-3.5 h-3.5" />}
+          Save ticker
+        </button>
+        <button
+          onClick={() => run(streamApi.refreshTicker)}
+          disabled={saving}
+          data-testid="refresh-ticker-btn"
+          className="flex items-center gap-1.5 px-3 py-2 text-xs text-zinc-500 hover:text-zinc-300 transition-colors disabled:opacity-50"
+        >
+          <RefreshCw className="w-3.5 h-3.5" />
+          Refresh headlines
+        </button>
+      </div>
+
+      <div className="space-y-1">
+        <p className="text-[10px] uppercase tracking-widest text-zinc-600">
+          {ticker.running ? "On the ticker now" : "Would show"}
+          {ticker.refreshedAt && ` · updated ${new Date(ticker.refreshedAt).toLocaleTimeString()}`}
+        </p>
+        {ticker.items.length === 0 ? (
+          <p className="text-xs text-zinc-600">
+            {ticker.refreshedAt ? "No recent headlines match." : "Refresh to see matching headlines."}
+          </p>
+        ) : (
+          ticker.items.map((item, i) => (
+            <p key={i} className="text-xs text-zinc-400 truncate">
+              {item.title}
+              <span className="ml-2 text-[10px] uppercase text-zinc-600">{item.source}</span>
+            </p>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Lyric captions section
+// ---------------------------------------------------------------------------
+
+const CAPTION_POSITIONS: { value: CaptionPosition; label: string }[] = [
+  { value: "top", label: "Top" },
+  { value: "middle", label: "Middle" },
+  { value: "bottom", label: "Bottom" },
+];
+
+const CAPTION_STYLES: { value: CaptionStyle; label: string }[] = [
+  { value: "box", label: "Text on a band" },
+  { value: "outline", label: "Outlined text" },
+];
+
+/** Lyric captions for songs with stored lyrics: on/off, position and style */
+function CaptionsSection() {
+  const qc = useQueryClient();
+  const [edits, setEdits] = useState<Partial<CaptionSettings>>({});
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: captions } = useQuery({
+    queryKey: ["stream-captions"],
+    queryFn: streamApi.getCaptions,
+    refetchInterval: 5_000,
+  });
+
+  if (!captions) return <Loader2 className="w-5 h-5 text-zinc-600 animate-spin" />;
+
+  const settings = { ...captions.settings, ...edits };
+
+  const save = async () => {
+    setError(null);
+    setSaving(true);
+    try {
+      const state = await streamApi.updateCaptions(edits);
+      qc.setQueryData(["stream-captions"], state);
+      setEdits({});
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass =
+    "w-full px-3 py-2 text-sm bg-zinc-900 border border-zinc-800 rounded-lg text-zinc-300 placeholder:text-zinc-600 focus:outline-none focus:border-zinc-600";
+  const labelClass = "block text-xs text-zinc-400 mb-1";
+
+  return (
+    <div className="space-y-4" data-testid="lyric-captions">
+      <label className="flex items-center gap-2 text-sm text-zinc-300">
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => setEdits({ ...edits, enabled: e.target.checked })}
+          data-testid="captions-enabled"
+          className="accent-violet-500"
+        />
+        Show song lyrics as captions on the video
+      </label>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+        <div>
+          <label className={labelClass}>Position</label>
+          <select
+            value={settings.position}
+            onChange={(e) => setEdits({ ...edits, position: e.target.value as CaptionPosition })}
+            data-testid="captions-position-select"
+            className={inputClass}
+          >
+            {CAPTION_POSITIONS.map((p) => (
+              <option key={p.value} value={p.value}>
+                {p.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Style</label>
+          <select
+            value={settings.style}
+            onChange={(e) => setEdits({ ...edits, style: e.target.value as CaptionStyle })}
+            data-testid="captions-style-select"
+            className={inputClass}
+          >
+            {CAPTION_STYLES.map((s) => (
+              <option key={s.value} value={s.value}>
+                {s.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Font size</label>
+          <input
+            type="number"
+            min={16}
+            max={120}
+            value={settings.fontSize}
+            onChange={(e) => setEdits({ ...edits, fontSize: Number(e.target.value) })}
+            data-testid="captions-font-size-input"
+            className={inputClass}
           />
         </div>
+        <div>
+          <label className={labelClass}>Text color</label>
+          <input
+            value={settings.color}
+            onChange={(e) => setEdits({ ...edits, color: e.target.value })}
+            data-testid="captions-color-input"
+            placeholder="#ffffff"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>{settings.style === "box" ? "Band color" : "Outline color"}</label>
+          <input
+            value={settings.background}
+            onChange={(e) => setEdits({ ...edits, background: e.target.value })}
+            data-testid="captions-background-input"
+            placeholder="#00000099"
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <p className="text-xs text-zinc-600">
+        Generated songs keep their lyrics, timed to the vocals when Suno provides alignment and
+        estimated from the song structure otherwise. Changes take effect when the stream next starts.
+      </p>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={save}
+          disabled={Object.keys(edits).length === 0 || saving}
+          data-testid="save-captions-btn"
+          className="flex items-center gap-1.5 px-3 py-2 text-xs font-medium bg-zinc-800 border border-zinc-700 text-zinc-300 hover:bg-zinc-700 rounded-lg transition-colors disabled:opacity-50"
+        >
+          {saving ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Save className="w-3.5 h-3.5" />}
+          Save captions
+        </button>
+        {captions.line && (
+          <span className="text-xs text-zinc-400 truncate" data-testid="captions-current-line">
+            On screen: <span className="text-zinc-200">{captions.line}</span>
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Visualizer section
+// ---------------------------------------------------------------------------
+
+const VISUALIZER_MODES: { value: VisualizerMode; label: string }[] = [
+  { value: "none", label: "None (background only)" },
+  { value: "waveform", label: "Waveform" },
+  { value: "spectrum", label: "Spectrum" },
+  { value: "vectorscope", label: "Vectorscope" },
+];
+
+// Native select options can't share the empty value with "no assignment"
+const INHERIT = "inherit";
+
+/** Audio visualizer mode per content type */
+function VisualizerSection() {
+  const qc = useQueryClient();
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: visualizer } = useQuery({
+    queryKey: ["stream-visualizer"],
+    queryFn: streamApi.getVisualizer,
+  });
+
+  if (!visualizer) return <Loader2 className="w-5 h-5 text-zinc-600 animate-spin" />;
+
+  const assign = async (contentType: string, value: string) => {
+    setError(null);
+    try {
+      const state = await streamApi.updateVisualizer({
+        [contentType]: value === INHERIT ? null : (value as VisualizerMode),
+      });
+      qc.setQueryData(["stream-visualizer"], state);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <div className="space-y-3" data-testid="visualizer">
+      {STREAM_CONTENT_TYPES.map((type) => (
+        <div key={type.value} className="flex items-center gap-3">
+          <span className="w-32 text-xs text-zinc-400">{type.label}</span>
+          <select
+            value={visualizer.assignments[type.value] ?? INHERIT}
+            onChange={(e) => assign(type.value, e.target.value)}
+            data-testid={`visualizer-${type.value}-select`}
+            aria-label={`Visualizer for ${type.label}`}
+            className="flex-1 px-3 py-1.5 text-xs bg-zinc-900 border border-zinc-800 rounded-lg text-zinc-300 focus:outline-none focus:border-zinc-600"
+          >
+            <option value={INHERIT}>{type.value === "default" ? "None" : "Same as everything else"}</option>
+            {VISUALIZER_MODES.map((m) => (
+              <option key={m.value} value={m.value}>
+                {m.label}
+              </option>
+            ))}
+          </select>
+        </div>
       ))}
+
+      <p className="text-xs text-zinc-600">
+        On screen now: <span className="text-zinc-400">{visualizer.active}</span>. Switching between
+        modes already in use is immediate; a mode no content type used before appears when the stream
+        next starts. Each mode in use adds encoder load, so leave unused ones unassigned.
+      </p>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
     </div>
   );
 }
 
 // ---------------------------------------------------------------------------
-// Rotation Pattern Builder
+// Rotation groups section
 // ---------------------------------------------------------------------------
 
-const TYPE_COLORS: Record<string, string> = {
+const TYPE_COLORS: Record<ClockContentType, string> = {
   song: "text-violet-400 bg-violet-500/15 border-violet-500/25",
-  news: "text-amber-400 bg-amber-500/15 border-amber-500/25",
+  news_block: "text-amber-400 bg-amber-500/15 border-amber-500/25",
   podcast: "text-blue-400 bg-blue-500/15 border-blue-500/25",
   ad: "text-green-400 bg-green-500/15 border-green-500/25",
+  jingle: "text-pink-400 bg-pink-500/15 border-pink-500/25",
 };
 
-function SortableRotationItem({
-  item,
-  onWeightChange,
+const STEP_TYPES: { value: ClockContentType; label: string }[] = [
+  { value: "song", label: "Song" },
+  { value: "news_block", label: "News" },
+  { value: "podcast", label: "Podcast" },
+  { value: "ad", label: "Ad" },
+  { value: "jingle", label: "Jingle" },
+];
+
+const STRATEGIES: { value: SelectionStrategy; label: string }[] = [
+  { value: "least_recently_played", label: "Least recently played" },
+  { value: "random", label: "Random" },
+  { value: "sequential", label: "Oldest first" },
+];
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const HOURS = Array.from({ length: 24 }, (_, h) => h);
+
+const smallSelectClass =
+  "px-2 py-1 text-xs bg-zinc-950 border border-zinc-800 rounded text-zinc-300 focus:outline-none focus:border-zinc-600";
+
+/** Steps need stable ids to sort; saved ones change on every save */
+type DraftStep = RotationStep & { key: string };
+
+let draftKey = 0;
+const toDraftSteps = (pattern: RotationStep[]): DraftStep[] =>
+  pattern.map((step) => ({ ...step, key: `step-${++draftKey}` }));
+
+function SortableRotationStep({
+  step,
+  onChange,
   onDelete,
 }: {
-  item: RotationItem;
-  onWeightChange: (id: string, weight: number) => void;
-  onDelete: (id: string) => void;
+  step: DraftStep;
+  onChange: (key: string, patch: Partial<RotationStep>) => void;
+  onDelete: (key: string) => void;
 }) {
   const { attributes, listeners, setNodeRef, transform, transition, isDragging } =
-    useSortable({ id: item.id });
+    useSortable({ id: step.key });
 
   const style = {
     transform: CSS.Transform.toString(transform),
     transition,
     opacity: isDragging ? 0.5 : 1,
   };
+  const label = STEP_TYPES.find((t) => t.value === step.contentType)?.label ?? step.contentType;
 
   return (
     <div
       ref={setNodeRef}
       style={style}
-      className="flex items-center gap-3 px-3 py-2.5 bg-zinc-900 border border-zinc-800 rounded-lg"
+      className="flex items-center gap-3 px-3 py-2 bg-zinc-950 border border-zinc-800 rounded-lg"
     >
       <button
         {...(listeners ?? {})}
@@ -432,31 +1460,35 @@ function SortableRotationItem({
 
       <span
         className={cn(
-          "text-xs font-semibold uppercase px-2 py-0.5 rounded border capitalize shrink-0",
-          TYPE_COLORS[item.type]
+          "text-xs font-semibold uppercase px-2 py-0.5 rounded border shrink-0",
+          TYPE_COLORS[step.contentType]
         )}
       >
-        {item.type}
+        {label}
       </span>
 
-      <span className="text-xs text-zinc-600 w-12 shrink-0 tabular-nums">
-        Weight: {item.weight}
-      </span>
-      <input
-        type="range"
-        min={1}
-        max={10}
-        value={item.weight}
-        onChange={(e) => onWeightChange(item.id, Number(e.target.value))}
-        data-testid={`rotation-weight-${item.id}`}
-        aria-label={`Weight for rotation item ${item.type}`}
-        className="flex-1 accent-violet-500"
-      />
+      {step.contentId ? (
+        <span className="flex-1 text-xs text-zinc-500 truncate" title={step.contentId}>
+          Always {step.contentId}
+        </span>
+      ) : (
+        <select
+          value={step.selectionStrategy}
+          onChange={(e) => onChange(step.key, { selectionStrategy: e.target.value as SelectionStrategy })}
+          aria-label={`Selection for ${label} step`}
+          className={cn(smallSelectClass, "flex-1")}
+        >
+          {STRATEGIES.map((s) => (
+            <option key={s.value} value={s.value}>
+              {s.label}
+            </option>
+          ))}
+        </select>
+      )}
 
       <button
-        onClick={() => onDelete(item.id)}
-        data-testid={`rotation-delete-${item.id}`}
-        aria-label={`Delete rotation item ${item.type}`}
+        onClick={() => onDelete(step.key)}
+        aria-label={`Delete ${label} step`}
         className="text-zinc-600 hover:text-red-400 transition-colors shrink-0"
       >
         <Trash2 className="w-3.5 h-3.5" />
@@ -466,11 +1498,13 @@ function SortableRotationItem({
 }
 
 function RotationBuilder({
-  items,
+  steps,
   onChange,
+  testIdPrefix,
 }: {
-  items: RotationItem[];
-  onChange: (items: RotationItem[]) => void;
+  steps: DraftStep[];
+  onChange: (steps: DraftStep[]) => void;
+  testIdPrefix: string;
 }) {
   const sensors = useSensors(
     useSensor(PointerSensor, { activationConstraint: { distance: 5 } })
@@ -479,71 +1513,59 @@ function RotationBuilder({
   const handleDragEnd = (event: DragEndEvent) => {
     const { active, over } = event;
     if (over && active.id !== over.id) {
-      const oldIdx = items.findIndex((i) => i.id === active.id);
-      const newIdx = items.findIndex((i) => i.id === over.id);
-      onChange(arrayMove(items, oldIdx, newIdx));
+      const oldIdx = steps.findIndex((s) => s.key === active.id);
+      const newIdx = steps.findIndex((s) => s.key === over.id);
+      onChange(arrayMove(steps, oldIdx, newIdx));
     }
   };
 
-  const handleWeightChange = (id: string, weight: number) => {
-    onChange(items.map((i) => (i.id === id ? { ...i, weight } : i)));
-  };
-
-  const handleDelete = (id: string) => {
-    onChange(items.filter((i) => i.id !== id));
-  };
-
-  const addItem = (type: RotationItem["type"]) => {
+  const addStep = (contentType: ClockContentType) => {
     onChange([
-      ...items,
+      ...steps,
       {
-        id: `rot-${Date.now()}`,
-        type,
-        weight: 5,
-        order: items.length,
+        key: `step-${++draftKey}`,
+        contentType,
+        contentId: null,
+        selectionStrategy: contentType === "song" ? "least_recently_played" : "random",
       },
     ]);
   };
 
   return (
-    <div className="space-y-3">
-      <DndContext
-        sensors={sensors}
-        collisionDetection={closestCenter}
-        onDragEnd={handleDragEnd}
-      >
-        <SortableContext items={items.map((i) => i.id)} strategy={verticalListSortingStrategy}>
-          {items.map((item) => (
-            <SortableRotationItem
-              key={item.id}
-              item={item}
-              onWeightChange={handleWeightChange}
-              onDelete={handleDelete}
+    <div className="space-y-2">
+      <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
+        <SortableContext items={steps.map((s) => s.key)} strategy={verticalListSortingStrategy}>
+          {steps.map((step) => (
+            <SortableRotationStep
+              key={step.key}
+              step={step}
+              onChange={(key, patch) => onChange(steps.map((s) => (s.key === key ? { ...s, ...patch } : s)))}
+              onDelete={(key) => onChange(steps.filter((s) => s.key !== key))}
             />
           ))}
         </SortableContext>
       </DndContext>
 
-      {items.length === 0 && (
+      {steps.length === 0 && (
         <p className="text-sm text-zinc-600 italic">
-          No rotation items. Add content types below.
+          No steps. Add content types below.
         </p>
       )}
 
       <div className="flex flex-wrap gap-2 pt-1">
-        {(["song", "news", "podcast", "ad"] as const).map((type) => (
+        {STEP_TYPES.map((type) => (
           <button
-            key={type}
-            onClick={() => addItem(type)}
-            data-testid={`rotation-add-${type}`}
-            aria-label={`Add ${type} to rotation`}
+            key={type.value}
+            onClick={() => addStep(type.value)}
+            data-testid={`${testIdPrefix}-add-${type.value}`}
+            aria-label={`Add ${type.label} to rotation`}
             className={cn(
-              "flex items-center gap-1 text-xs font-medium px-2.5 py-1.5 rounded-lg border capitalize transition-colors",
-              TYPE_COLORS[type]
+              "flex items-center gap-1 text-xs font-medium px-2.5 py-1.5 rounded-lg border transition-colors",
+              TYPE_COLORS[type.value]
             )}
           >
             <Plus className="w-3 h-3" />
-            {type}
+            {type.label}
           </button>
         ))}
       </div>
@@ -551,6 +1573,391 @@ function RotationBuilder({
   );
 }
 
+function AssignmentsEditor({
+  assignments,
+  onChange,
+}: {
+  assignments: RotationGroupAssignment[];
+  onChange: (assignments: RotationGroupAssignment[]) => void;
+}) {
+  const update = (idx: number, patch: Partial<RotationGroupAssignment>) =>
+    onChange(assignments.map((a, i) => (i === idx ? { ...a, ...patch } : a)));
+
+  return (
+    <div className="space-y-1.5">
+      {assignments.map((a, idx) => (
+        <div key={idx} className="flex flex-wrap items-center gap-2 text-xs text-zinc-500">
+          <select
+            value={a.weekday ?? ""}
+            onChange={(e) => update(idx, { weekday: e.target.value === "" ? null : Number(e.target.value) })}
+            aria-label="Weekday"
+            className={smallSelectClass}
+          >
+            <option value="">Every day</option>
+            {WEEKDAYS.map((day, i) => (
+              <option key={day} value={i}>
+                {day}
+              </option>
+            ))}
+          </select>
+          <select
+            value={a.hourStart ?? ""}
+            onChange={(e) =>
+              e.target.value === ""
+                ? update(idx, { hourStart: null, hourEnd: null })
+                : update(idx, {
+                    hourStart: Number(e.target.value),
+                    hourEnd: a.hourEnd ?? (Number(e.target.value) + 1) % 24,
+                  })
+            }
+            aria-label="From hour"
+            className={smallSelectClass}
+          >
+            <option value="">all day</option>
+            {HOURS.map((h) => (
+              <option key={h} value={h}>
+                from {String(h).padStart(2, "0")}:00
+              </option>
+            ))}
+          </select>
+          {a.hourStart != null && (
+            <select
+              value={a.hourEnd ?? 0}
+              onChange={(e) => update(idx, { hourEnd: Number(e.target.value) })}
+              aria-label="To hour"
+              className={smallSelectClass}
+            >
+              {HOURS.map((h) => (
+                <option key={h} value={h}>
+                  to {String(h).padStart(2, "0")}:00
+                </option>
+              ))}
+            </select>
+          )}
+          <button
+            onClick={() => onChange(assignments.filter((_, i) => i !== idx))}
+            aria-label="Remove assignment"
+            className="text-zinc-600 hover:text-red-400 transition-colors"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      ))}
+      <button
+        onClick={() => onChange([...assignments, { weekday: null, hourStart: 6, hourEnd: 10 }])}
+        className="flex items-center gap-1 text-xs text-zinc-400 hover:text-zinc-200 transition-colors"
+      >
+        <Plus className="w-3 h-3" />
+        Add time
+      </button>
+    </div>
+  );
+}
+
+function RotationGroupCard({
+  group,
+  onAir,
+  onChanged,
+}: {
+  group: RotationGroup;
+  onAir: boolean;
+  onChanged: () => void;
+}) {
+  const isDefault = group.id === "default";
+  const [name, setName] = useState(group.name);
+  const [assignments, setAssignments] = useState(group.assignments);
+  const [steps, setSteps] = useState(() => toDraftSteps(group.pattern));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await rotationApi.updateGroup(group.id, {
+        name: name.trim(),
+        ...(isDefault ? {} : { assignments }),
+        pattern: steps.map(({ contentType, contentId, selectionStrategy }) => ({
+          contentType,
+          contentId,
+          selectionStrategy,
+        })),
+      });
+      onChanged();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to save rotation group");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!confirm(`Delete rotation group "${group.name}"?`)) return;
+    try {
+      await rotationApi.deleteGroup(group.id);
+      onChanged();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to delete rotation group");
+    }
+  };
+
+  return (
+    <div
+      data-testid={`rotation-group-${group.id}`}
+      className={cn(
+        "rounded-lg border bg-zinc-900/60 p-4 space-y-3",
+        onAir ? "border-violet-500/40" : "border-zinc-800"
+      )}
+    >
+      <div className="flex items-center gap-2">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          aria-label="Group name"
+          className="flex-1 px-2 py-1 text-sm font-medium bg-transparent border border-transparent rounded text-zinc-200 hover:border-zinc-800 focus:outline-none focus:border-zinc-600"
+        />
+        {onAir && (
+          <span className="px-2 py-0.5 rounded-full bg-violet-600 text-[10px] font-semibold text-white uppercase tracking-wide">
+            On air
+          </span>
+        )}
+      </div>
+
+      {isDefault ? (
+        <p className="text-xs text-zinc-500">Runs whenever no other group is assigned.</p>
+      ) : (
+        <AssignmentsEditor assignments={assignments} onChange={setAssignments} />
+      )}
+
+      <RotationBuilder steps={steps} onChange={setSteps} testIdPrefix={`rotation-${group.id}`} />
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={handleSave}
+          data-testid={`save-rotation-${group.id}`}
+          disabled={saving || !name.trim()}
+          aria-label={`Save rotation group ${group.name}`}
+          className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium bg-zinc-800 hover:bg-zinc-700 text-zinc-300 border border-zinc-700 rounded-lg transition-colors disabled:opacity-60"
+        >
+          {saving ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Save className="w-3.5 h-3.5" />}
+          Save
+        </button>
+        {!isDefault && (
+          <button
+            onClick={handleDelete}
+            aria-label={`Delete rotation group ${group.name}`}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-zinc-500 hover:text-red-400 transition-colors"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+            Delete
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+}
+
+/** Named rotation patterns, each assigned to weekdays and hours */
+function RotationGroupsSection() {
+  const qc = useQueryClient();
+  const [newName, setNewName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: groups, isLoading } = useQuery({
+    queryKey: ["rotation-groups"],
+    queryFn: rotationApi.listGroups,
+  });
+  const { data: active } = useQuery({
+    queryKey: ["rotation-groups", "active"],
+    queryFn: rotationApi.getActiveGroup,
+    refetchInterval: 60_000,
+  });
+
+  const refresh = () => qc.invalidateQueries({ queryKey: ["rotation-groups"] });
+
+  const addGroup = async () => {
+    if (!newName.trim()) return;
+    setError(null);
+    try {
+      await rotationApi.createGroup({ name: newName.trim() });
+      setNewName("");
+      refresh();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to create rotation group");
+    }
+  };
+
+  if (isLoading || !groups) return <Loader2 className="w-5 h-5 text-zinc-600 animate-spin" />;
+
+  return (
+    <div className="space-y-3" data-testid="rotation-groups">
+      <p className="text-xs text-zinc-600">
+        The most specific match runs: weekday and hours, then weekday, then hours. Each group
+        remembers its place in its pattern; saving a pattern starts it over.
+      </p>
+
+      {/* Keyed by the saved steps, so a save starts the card from the stored pattern */}
+      {groups.map((group) => (
+        <RotationGroupCard
+          key={`${group.id}:${group.pattern.map((s) => s.id).join(",")}`}
+          group={group}
+          onAir={active?.group?.id === group.id}
+          onChanged={refresh}
+        />
+      ))}
+
+      <div className="flex gap-2">
+        <input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && addGroup()}
+          placeholder="New group, e.g. Morning drive"
+          aria-label="New rotation group name"
+          className="flex-1 px-3 py-2 text-sm bg-zinc-950 border border-zinc-800 rounded-lg text-zinc-300 placeholder:text-zinc-600 focus:outline-none focus:border-zinc-600"
+        />
+        <button
+          onClick={addGroup}
+          data-testid="add-rotation-group"
+          disabled={!newName.trim()}
+          className="flex items-center gap-1.5 px-3 py-2 text-sm font-medium bg-zinc-800 hover:bg-zinc-700 text-zinc-300 border border-zinc-700 rounded-lg transition-colors disabled:opacity-60"
+        >
+          <Plus className="w-4 h-4" />
+          Add group
+        </button>
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Separation rules section
+// ---------------------------------------------------------------------------
+
+const SEPARATION_RULES: { value: SeparationRule; label: string }[] = [
+  { value: "track", label: "Same track" },
+  { value: "title", label: "Same title" },
+  { value: "story", label: "Same story" },
+  { value: "genre", label: "Same genre" },
+];
+
+/** Minimum gaps between airings that share a track, title, story or genre */
+function SeparationSection() {
+  const qc = useQueryClient();
+  const [edits, setEdits] = useState<Partial<SeparationSettings>>({});
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: separation } = useQuery({
+    queryKey: ["rotation-separation"],
+    queryFn: rotationApi.getSeparation,
+  });
+
+  if (!separation) return <Loader2 className="w-5 h-5 text-zinc-600 animate-spin" />;
+
+  const settings = { ...separation, ...edits };
+  const labelOf = (rule: SeparationRule) => SEPARATION_RULES.find((r) => r.value === rule)?.label ?? rule;
+
+  const move = (idx: number, by: -1 | 1) => {
+    setEdits({ ...edits, relaxOrder: arrayMove(settings.relaxOrder, idx, idx + by) });
+  };
+
+  const save = async () => {
+    setError(null);
+    setSaving(true);
+    try {
+      const state = await rotationApi.updateSeparation(edits);
+      qc.setQueryData(["rotation-separation"], state);
+      setEdits({});
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass =
+    "w-full px-3 py-2 text-sm bg-zinc-900 border border-zinc-800 rounded-lg text-zinc-300 placeholder:text-zinc-600 focus:outline-none focus:border-zinc-600";
+  const labelClass = "block text-xs text-zinc-400 mb-1";
+
+  return (
+    <div className="space-y-4" data-testid="separation-rules">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        {SEPARATION_RULES.map((rule) => (
+          <div key={rule.value}>
+            <label className={labelClass}>{rule.label} (min)</label>
+            <input
+              type="number"
+              min={0}
+              value={settings.minutes[rule.value]}
+              onChange={(e) =>
+                setEdits({
+                  ...edits,
+                  minutes: { ...settings.minutes, [rule.value]: Math.max(0, Number(e.target.value) || 0) },
+                })
+              }
+              data-testid={`separation-${rule.value}-input`}
+              className={inputClass}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <label className={labelClass}>When they can&apos;t all be met, give way in this order</label>
+        <ol className="space-y-1">
+          {settings.relaxOrder.map((rule, idx) => (
+            <li
+              key={rule}
+              className="flex items-center gap-2 px-3 py-1.5 bg-zinc-950 border border-zinc-800 rounded-lg text-xs text-zinc-300"
+            >
+              <span className="w-4 text-zinc-600 tabular-nums">{idx + 1}.</span>
+              <span className="flex-1">{labelOf(rule)}</span>
+              <button
+                onClick={() => move(idx, -1)}
+                disabled={idx === 0}
+                aria-label={`Relax ${labelOf(rule)} earlier`}
+                className="text-zinc-500 hover:text-zinc-200 disabled:opacity-30"
+              >
+                <ChevronUp className="w-3.5 h-3.5" />
+              </button>
+              <button
+                onClick={() => move(idx, 1)}
+                disabled={idx === settings.relaxOrder.length - 1}
+                aria-label={`Relax ${labelOf(rule)} later`}
+                className="text-zinc-500 hover:text-zinc-200 disabled:opacity-30"
+              >
+                <ChevronDown className="w-3.5 h-3.5" />
+              </button>
+            </li>
+          ))}
+        </ol>
+      </div>
+
+      <p className="text-xs text-zinc-600">
+        Applies whenever rotation, a format clock or a schedule slot picks content by type; 0 turns a
+        rule off. Alternate takes of a song count as the same track, and story is the headline a song
+        was written about.
+      </p>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      <button
+        onClick={save}
+        disabled={Object.keys(edits).length === 0 || saving}
+        data-testid="save-separation-btn"
+        className="flex items-center gap-1.5 px-3 py-2 text-xs font-medium bg-zinc-800 border border-zinc-700 text-zinc-300 hover:bg-zinc-700 rounded-lg transition-colors disabled:opacity-50"
+      >
+        {saving ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Save className="w-3.5 h-3.5" />}
+        Save separation
+      </button>
+    </div>
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Section wrapper
 // ---------------------------------------------------------------------------
@@ -587,25 +1994,13 @@ export default function SettingsPage() {
     queryFn: settingsApi.getSettings,
   });
 
-  const { data: rotations = [], isLoading: rotLoading } = useQuery({
-    queryKey: ["rotation"],
-    queryFn: rotationApi.getRotation,
-  });
-
   const [localSettings, setLocalSettings] = useState<AppSettings | null>(null);
-  const [localRotationItems, setLocalRotationItems] = useState<RotationItem[]>([]);
   const [dirty, setDirty] = useState(false);
 
   useEffect(() => {
     if (data && !localSettings) setLocalSettings(data);
   }, [data, localSettings]);
 
-  useEffect(() => {
-    if (rotations.length > 0 && localRotationItems.length === 0) {
-      setLocalRotationItems(rotations[0]?.items ?? []);
-    }
-  }, [rotations, localRotationItems.length]);
-
   const saveSettings = useMutation({
     mutationFn: () =>
       localSettings ? settingsApi.updateSettings(localSettings) : Promise.reject("No settings"),
@@ -615,17 +2010,6 @@ export default function SettingsPage() {
     },
   });
 
-  const saveRotation = useMutation({
-    mutationFn: () => {
-      const rotId = rotations[0]?.id;
-      if (!rotId) return Promise.reject("No rotation");
-      return rotationApi.updateRotation(rotId, localRotationItems);
-    },
-    onSuccess: () => {
-      qc.invalidateQueries({ queryKey: ["rotation"] });
-    },
-  });
-
   const updateSettings = useCallback(
     <K extends keyof AppSettings>(key: K, val: AppSettings[K]) => {
       setLocalSettings((prev) => (prev ? { ...prev, [key]: val } : null));
@@ -700,38 +2084,37 @@ export default function SettingsPage() {
 
         {/* Stream */}
         <Section icon={Radio} title="Stream Output">
-          <StreamSection
-            stream={localSettings.stream}
-            onChange={(stream) => updateSettings("stream", stream)}
-          />
+          <StreamOutputsSection />
         </Section>
 
-        {/* Rotation builder */}
-        <Section icon={Sliders} title="Rotation Pattern">
-          {rotLoading ? (
-            <Loader2 className="w-5 h-5 text-zinc-600 animate-spin" />
-          ) : (
-            <div className="space-y-3">
-              <RotationBuilder
-                items={localRotationItems}
-                onChange={setLocalRotationItems}
-              />
-              <button
-                onClick={() => saveRotation.mutate()}
-                data-testid="save-rotation-btn"
-                disabled={saveRotation.isPending}
-                aria-label="Save rotation pattern"
-                className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium bg-zinc-800 hover:bg-zinc-700 text-zinc-300 border border-zinc-700 rounded-lg transition-colors disabled:opacity-60"
-              >
-                {saveRotation.isPending ? (
-                  <Loader2 className="w-3.5 h-3.5 animate-spin" />
-                ) : (
-                  <Save className="w-3.5 h-3.5" />
-                )}
-                Save rotation
-              </button>
-            </div>
-          )}
+        {/* Overlay */}
+        <Section icon={Layers} title="Overlay Templates">
+          <OverlayTemplatesSection />
+        </Section>
+
+        {/* Visualizer */}
+        <Section icon={AudioWaveform} title="Visualizer">
+          <VisualizerSection />
+        </Section>
+
+        {/* Ticker */}
+        <Section icon={Newspaper} title="News Ticker">
+          <NewsTickerSection />
+        </Section>
+
+        {/* Captions */}
+        <Section icon={Captions} title="Lyric Captions">
+          <CaptionsSection />
+        </Section>
+
+        {/* Rotation groups */}
+        <Section icon={Sliders} title="Rotation Groups">
+          <RotationGroupsSection />
+        </Section>
+
+        {/* Separation */}
+        <Section icon={Timer} title="Separation Rules">
+          <SeparationSection />
         </Section>
       </div>
     </div>
@@ -15,13 +15,59 @@ import { scheduleApi } from "@/lib/api";
 import { ContentPalette } from "@/components/timeline/ContentPalette";
 import { TimelineCanvas } from "@/components/timeline/TimelineCanvas";
 import { TimelineRuler } from "@/components/timeline/TimelineRuler";
-import { Loader2, Calendar, Music } from "lucide-react";
+import { Loader2, Calendar, Music, AlertTriangle, X } from "lucide-react";
 import { cn } from "@/lib/utils";
-import type { ContentType } from "@/lib/api";
+import type { ClockContentType, ConflictMode, ContentType, SavedScheduleSlot, ScheduleSlot } from "@/lib/api";
 
 const PIXELS_PER_HOUR = 120;
 const DAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
 
+/** Palette types → engine content types */
+const ENGINE_TYPE: Record<ContentType, ClockContentType> = {
+  song: "song",
+  news: "news_block",
+  podcast: "podcast",
+  ad: "ad",
+};
+
+/** RRULEs for new slots; weekly repeats on the slot's own weekday */
+const REPEAT_OPTIONS = [
+  { value: "once", label: "Once", rule: null },
+  { value: "daily", label: "Every day", rule: "FREQ=DAILY" },
+  { value: "weekdays", label: "Weekdays", rule: "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR" },
+  { value: "weekly", label: "Every week", rule: "FREQ=WEEKLY" },
+] as const;
+
+type RepeatValue = (typeof REPEAT_OPTIONS)[number]["value"];
+
+const CONFLICT_OPTIONS: { value: ConflictMode; label: string }[] = [
+  { value: "warn", label: "On conflict: warn" },
+  { value: "shift", label: "On conflict: shift" },
+  { value: "reject", label: "On conflict: reject" },
+];
+
+function formatClock(iso: string): string {
+  const d = new Date(iso);
+  return `${d.getHours().toString().padStart(2, "0")}:${d.getMinutes().toString().padStart(2, "0")}`;
+}
+
+/** Notice lines for a slot that was saved with warnings or moved */
+function savedNotice(slot: SavedScheduleSlot): string[] {
+  const lines = slot.warnings.map((w) => w.message);
+  if (slot.shiftedFrom) {
+    lines.unshift(`Moved from ${formatClock(slot.shiftedFrom)} to ${formatClock(slot.startTime)} to clear an overlap`);
+  }
+  return lines;
+}
+
+/** Local midnight of the given weekday in the current week */
+function dayInCurrentWeek(weekday: number): Date {
+  const d = new Date();
+  d.setHours(0, 0, 0, 0);
+  d.setDate(d.getDate() + weekday - d.getDay());
+  return d;
+}
+
 function pixelsToTime(px: number): string {
   const totalMinutes = Math.round((px / PIXELS_PER_HOUR) * 60);
   const h = Math.floor(totalMinutes / 60) % 24;
@@ -33,19 +79,37 @@ export default function TimelinePage() {
   const qc = useQueryClient();
   const [selectedDay, setSelectedDay] = useState(new Date().getDay());
   const [overlayType, setOverlayType] = useState<ContentType | null>(null);
+  const [repeat, setRepeat] = useState<RepeatValue>("once");
+  const [conflictMode, setConflictMode] = useState<ConflictMode>("warn");
+  const [notice, setNotice] = useState<{ error: boolean; lines: string[] } | null>(null);
+
+  const dayStart = dayInCurrentWeek(selectedDay);
+  const dayEnd = new Date(dayStart.getFullYear(), dayStart.getMonth(), dayStart.getDate() + 1);
+  const range = { from: dayStart.toISOString(), to: new Date(dayEnd.getTime() - 1).toISOString() };
 
   const sensors = useSensors(
     useSensor(PointerSensor, { activationConstraint: { distance: 5 } })
   );
 
-  const { data: slots = [], isLoading } = useQuery({
-    queryKey: ["schedule"],
-    queryFn: scheduleApi.getSchedule,
+  const { data: daySlots = [], isLoading } = useQuery({
+    queryKey: ["schedule", range.from],
+    queryFn: () => scheduleApi.getSchedule(range),
+  });
+
+  const { data: conflicts = [] } = useQuery({
+    queryKey: ["schedule", "conflicts", range.from],
+    queryFn: () => scheduleApi.getConflicts({ from: range.from, to: dayEnd.toISOString() }),
   });
 
   const createSlot = useMutation({
-    mutationFn: scheduleApi.createSlot,
-    onSuccess: () => qc.invalidateQueries({ queryKey: ["schedule"] }),
+    mutationFn: (slot: Parameters<typeof scheduleApi.createSlot>[0]) =>
+      scheduleApi.createSlot(slot, conflictMode),
+    onSuccess: (slot) => {
+      const lines = savedNotice(slot);
+      setNotice(lines.length > 0 ? { error: false, lines } : null);
+      qc.invalidateQueries({ queryKey: ["schedule"] });
+    },
+    onError: (e) => setNotice({ error: true, lines: [e instanceof Error ? e.message : "Failed to save slot"] }),
   });
 
   const deleteSlot = useMutation({
@@ -53,11 +117,24 @@ export default function TimelinePage() {
     onSuccess: () => qc.invalidateQueries({ queryKey: ["schedule"] }),
   });
 
+  const skipOccurrence = useMutation({
+    mutationFn: (slot: ScheduleSlot) => scheduleApi.skipOccurrence(slot.id, slot.startTime),
+    onSuccess: () => qc.invalidateQueries({ queryKey: ["schedule"] }),
+  });
+
   const handleDeleteSlot = useCallback(
-    (id: string) => deleteSlot.mutate(id),
+    (slot: ScheduleSlot) => {
+      if (slot.seriesStartTime && !confirm(`Delete every occurrence of "${slot.label ?? "this slot"}"?`)) return;
+      deleteSlot.mutate(slot.id);
+    },
     [deleteSlot]
   );
 
+  const handleSkipOccurrence = useCallback(
+    (slot: ScheduleSlot) => skipOccurrence.mutate(slot),
+    [skipOccurrence]
+  );
+
   function handleDragStart(event: DragStartEvent) {
     const type = event.active.data.current?.type as ContentType | undefined;
     if (type) setOverlayType(type);
@@ -76,23 +153,19 @@ export default function TimelinePage() {
       // Estimate drop position from delta
       const deltaX = event.delta.x;
       const dropLeft = Math.max(0, deltaX);
-      const startTime = pixelsToTime(dropLeft);
-      const [sh, sm] = startTime.split(":").map(Number);
-      const endHour = Math.min(23, sh + 1);
-      const endTime = `${endHour.toString().padStart(2, "0")}:${sm.toString().padStart(2, "0")}`;
+      const [sh, sm] = pixelsToTime(dropLeft).split(":").map(Number);
+      const start = new Date(dayStart.getFullYear(), dayStart.getMonth(), dayStart.getDate(), sh, sm);
+      const end = new Date(dayStart.getFullYear(), dayStart.getMonth(), dayStart.getDate(), Math.min(23, sh + 1), sm);
 
       createSlot.mutate({
-        dayOfWeek: selectedDay,
-        startTime,
-        endTime,
-        contentType,
-        label: undefined,
+        startTime: start.toISOString(),
+        endTime: end.toISOString(),
+        contentType: ENGINE_TYPE[contentType],
+        recurrenceRule: REPEAT_OPTIONS.find((o) => o.value === repeat)?.rule ?? null,
       });
     }
   }
 
-  const daySlots = slots.filter((s) => s.dayOfWeek === selectedDay);
-
   return (
     <div className="flex flex-col h-[calc(100vh-72px)]">
       {/* Page header */}
@@ -107,27 +180,82 @@ export default function TimelinePage() {
           </p>
         </div>
 
-        {/* Day selector */}
-        <div className="flex gap-1 bg-zinc-900 border border-zinc-800 rounded-lg p-1">
-          {DAYS.map((day, idx) => (
-            <button
-              key={day}
-              onClick={() => setSelectedDay(idx)}
-              data-testid={`day-tab-${day.toLowerCase()}`}
-              aria-pressed={selectedDay === idx}
-              className={cn(
-                "px-3 py-1.5 rounded text-xs font-medium transition-all",
-                selectedDay === idx
-                  ? "bg-violet-600 text-white"
-                  : "text-zinc-400 hover:text-zinc-100 hover:bg-zinc-800"
-              )}
-            >
-              {day}
-            </button>
-          ))}
+        <div className="flex items-center gap-3">
+          {/* What to do when a new slot conflicts */}
+          <select
+            value={conflictMode}
+            onChange={(e) => setConflictMode(e.target.value as ConflictMode)}
+            data-testid="slot-conflict-mode"
+            aria-label="On conflict"
+            className="px-2 py-1.5 text-xs bg-zinc-900 border border-zinc-800 rounded-lg text-zinc-300 focus:outline-none focus:border-zinc-600"
+          >
+            {CONFLICT_OPTIONS.map((o) => (
+              <option key={o.value} value={o.value}>
+                {o.label}
+              </option>
+            ))}
+          </select>
+
+          {/* Repeat for new slots */}
+          <select
+            value={repeat}
+            onChange={(e) => setRepeat(e.target.value as RepeatValue)}
+            data-testid="slot-repeat"
+            aria-label="Repeat new slots"
+            className="px-2 py-1.5 text-xs bg-zinc-900 border border-zinc-800 rounded-lg text-zinc-300 focus:outline-none focus:border-zinc-600"
+          >
+            {REPEAT_OPTIONS.map((o) => (
+              <option key={o.value} value={o.value}>
+                {o.label}
+              </option>
+            ))}
+          </select>
+
+          {/* Day selector */}
+          <div className="flex gap-1 bg-zinc-900 border border-zinc-800 rounded-lg p-1">
+            {DAYS.map((day, idx) => (
+              <button
+                key={day}
+                onClick={() => setSelectedDay(idx)}
+                data-testid={`day-tab-${day.toLowerCase()}`}
+                aria-pressed={selectedDay === idx}
+                className={cn(
+                  "px-3 py-1.5 rounded text-xs font-medium transition-all",
+                  selectedDay === idx
+                    ? "bg-violet-600 text-white"
+                    : "text-zinc-400 hover:text-zinc-100 hover:bg-zinc-800"
+                )}
+              >
+                {day}
+              </button>
+            ))}
+          </div>
         </div>
       </div>
 
+      {/* Result of the last save */}
+      {notice && (
+        <div
+          data-testid="schedule-notice"
+          className={cn(
+            "shrink-0 flex items-start gap-2 px-6 py-2 border-b text-xs",
+            notice.error
+              ? "bg-red-500/10 border-red-500/30 text-red-300"
+              : "bg-amber-500/10 border-amber-500/30 text-amber-300"
+          )}
+        >
+          <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+          <ul className="flex-1 space-y-0.5">
+            {notice.lines.map((line, i) => (
+              <li key={i}>{line}</li>
+            ))}
+          </ul>
+          <button onClick={() => setNotice(null)} aria-label="Dismiss" className="shrink-0 hover:text-zinc-100">
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      )}
+
       {isLoading ? (
         <div className="flex-1 flex items-center justify-center">
           <Loader2 className="w-8 h-8 text-zinc-600 animate-spin" />
@@ -156,7 +284,12 @@ export default function TimelinePage() {
                 </div>
               </div>
 
-              <TimelineCanvas slots={daySlots} onDeleteSlot={handleDeleteSlot} />
+              <TimelineCanvas
+                slots={daySlots}
+                conflicts={conflicts}
+                onDeleteSlot={handleDeleteSlot}
+                onSkipOccurrence={handleSkipOccurrence}
+              />
             </div>
           </div>
 
@@ -0,0 +1,92 @@
+"use client";
+
+import { useState } from "react";
+import { Trash2, Radio } from "lucide-react";
+import { backgroundsApi } from "@/lib/api";
+import { cn } from "@/lib/utils";
+import type { BackgroundImage } from "@/lib/api";
+
+interface BackgroundCardProps {
+  image: BackgroundImage;
+  onAir: boolean;
+  onChanged: () => void;
+}
+
+export function BackgroundCard({ image, onAir, onChanged }: BackgroundCardProps) {
+  const [tags, setTags] = useState(image.tags.join(", "));
+  const [error, setError] = useState<string | null>(null);
+
+  const saveTags = async () => {
+    const next = tags.split(",").map((t) => t.trim()).filter(Boolean);
+    if (next.join(",") === image.tags.join(",")) return;
+    try {
+      setError(null);
+      const updated = await backgroundsApi.updateImage(image.id, { tags: next });
+      setTags(updated.tags.join(", "));
+      onChanged();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to save tags");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!confirm(`Delete "${image.name}"?`)) return;
+    try {
+      await backgroundsApi.deleteImage(image.id);
+      onChanged();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to delete");
+    }
+  };
+
+  return (
+    <div
+      data-testid={`background-${image.id}`}
+      className={cn(
+        "rounded-xl border bg-zinc-900 overflow-hidden",
+        onAir ? "border-violet-500/50" : "border-zinc-800"
+      )}
+    >
+      <div className="relative aspect-video bg-zinc-950">
+        {/* eslint-disable-next-line @next/next/no-img-element -- served by the engine, not an optimizable asset */}
+        <img
+          src={backgroundsApi.imageUrl(image.id)}
+          alt={image.name}
+          loading="lazy"
+          className="w-full h-full object-cover"
+        />
+        {onAir && (
+          <span className="absolute top-2 left-2 flex items-center gap-1 px-2 py-0.5 rounded-full bg-violet-600 text-[10px] font-semibold text-white uppercase tracking-wide">
+            <Radio className="w-3 h-3" />
+            On air
+          </span>
+        )}
+      </div>
+      <div className="p-3 space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-sm font-medium text-zinc-200 truncate">{image.name}</span>
+          <button
+            onClick={handleDelete}
+            data-testid={`delete-background-${image.id}`}
+            aria-label={`Delete ${image.name}`}
+            className="p-1 rounded text-zinc-500 hover:text-red-400 hover:bg-zinc-800 transition-colors"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        </div>
+        <input
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+          onBlur={saveTags}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") e.currentTarget.blur();
+          }}
+          placeholder="Tags, comma separated"
+          aria-label={`Tags for ${image.name}`}
+          className="w-full px-2 py-1 text-xs bg-zinc-950 border border-zinc-800 rounded text-zinc-300 placeholder:text-zinc-600 focus:outline-none focus:border-zinc-600"
+        />
+        {error && <p className="text-xs text-red-400">{error}</p>}
+      </div>
+    </div>
+  );
+}
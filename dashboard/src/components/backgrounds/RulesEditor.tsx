@@ -0,0 +1,293 @@
+"use client";
+
+import { useState } from "react";
+import { Plus, Save, Trash2 } from "lucide-react";
+import { backgroundsApi } from "@/lib/api";
+import { cn } from "@/lib/utils";
+import type { BackgroundRule, BackgroundRuleInput } from "@/lib/api";
+
+const CONTENT_TYPES = [
+  { value: "song", label: "Songs" },
+  { value: "news_block", label: "News" },
+  { value: "podcast", label: "Podcasts" },
+  { value: "ad", label: "Ads" },
+  { value: "jingle", label: "Jingles" },
+];
+
+const HOURS = Array.from({ length: 24 }, (_, h) => h);
+
+const NEW_RULE: BackgroundRuleInput = {
+  name: "",
+  priority: 0,
+  contentType: null,
+  genre: null,
+  hourStart: null,
+  hourEnd: null,
+  tag: null,
+  slideshowSeconds: null,
+  enabled: true,
+};
+
+const fieldClass =
+  "px-2 py-1 text-xs bg-zinc-950 border border-zinc-800 rounded text-zinc-300 placeholder:text-zinc-600 focus:outline-none focus:border-zinc-600";
+
+interface RulesEditorProps {
+  rules: BackgroundRule[];
+  /** Every tag in the library, for the tag picker */
+  tags: string[];
+  onChanged: () => void;
+}
+
+export function RulesEditor({ rules, tags, onChanged }: RulesEditorProps) {
+  const [adding, setAdding] = useState(false);
+
+  return (
+    <div className="space-y-2">
+      {rules.length === 0 && !adding && (
+        <p className="text-sm text-zinc-600">
+          No rules yet: the stream shows its default background.
+        </p>
+      )}
+      {rules.map((rule) => (
+        <RuleRow key={rule.id} rule={rule} tags={tags} onChanged={onChanged} />
+      ))}
+      {adding ? (
+        <RuleRow
+          rule={null}
+          tags={tags}
+          onChanged={() => {
+            setAdding(false);
+            onChanged();
+          }}
+          onDiscard={() => setAdding(false)}
+        />
+      ) : (
+        <button
+          onClick={() => setAdding(true)}
+          data-testid="add-background-rule"
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium bg-zinc-800 border border-zinc-700 text-zinc-300 hover:bg-zinc-700 transition-colors"
+        >
+          <Plus className="w-3.5 h-3.5" />
+          Add rule
+        </button>
+      )}
+    </div>
+  );
+}
+
+interface RuleRowProps {
+  /** null for a rule not saved yet */
+  rule: BackgroundRule | null;
+  tags: string[];
+  onChanged: () => void;
+  onDiscard?: () => void;
+}
+
+function RuleRow({ rule, tags, onChanged, onDiscard }: RuleRowProps) {
+  const [draft, setDraft] = useState<BackgroundRuleInput>(rule ?? NEW_RULE);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const set = (patch: BackgroundRuleInput) => setDraft((d) => ({ ...d, ...patch }));
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    const body: BackgroundRuleInput = {
+      name: draft.name,
+      priority: draft.priority,
+      contentType: draft.contentType,
+      genre: draft.genre?.trim() || null,
+      hourStart: draft.hourStart,
+      hourEnd: draft.hourEnd,
+      tag: draft.tag,
+      slideshowSeconds: draft.slideshowSeconds,
+      enabled: draft.enabled,
+    };
+    try {
+      if (rule) await backgroundsApi.updateRule(rule.id, body);
+      else await backgroundsApi.createRule(body);
+      onChanged();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to save rule");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!rule) {
+      onDiscard?.();
+      return;
+    }
+    if (!confirm(`Delete rule "${rule.name}"?`)) return;
+    try {
+      await backgroundsApi.deleteRule(rule.id);
+      onChanged();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to delete rule");
+    }
+  };
+
+  // Both ends set, or neither
+  const setHours = (start: number | null, end: number | null) => {
+    if (start === null || end === null) set({ hourStart: null, hourEnd: null });
+    else set({ hourStart: start, hourEnd: end });
+  };
+
+  return (
+    <div
+      data-testid={`background-rule-${rule?.id ?? "new"}`}
+      className={cn(
+        "rounded-lg border border-zinc-800 bg-zinc-900 p-3 space-y-2",
+        draft.enabled === false && "opacity-60"
+      )}
+    >
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          value={draft.name ?? ""}
+          onChange={(e) => set({ name: e.target.value })}
+          placeholder="Rule name"
+          aria-label="Rule name"
+          className={cn(fieldClass, "w-40")}
+        />
+        <label className="flex items-center gap-1 text-xs text-zinc-500">
+          Priority
+          <input
+            type="number"
+            value={draft.priority ?? 0}
+            onChange={(e) => set({ priority: Math.round(Number(e.target.value)) || 0 })}
+            className={cn(fieldClass, "w-16")}
+          />
+        </label>
+        <label className="flex items-center gap-1.5 text-xs text-zinc-400">
+          <input
+            type="checkbox"
+            checked={draft.enabled !== false}
+            onChange={(e) => set({ enabled: e.target.checked })}
+          />
+          Enabled
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs text-zinc-500">
+        <span>When</span>
+        <select
+          value={draft.contentType ?? ""}
+          onChange={(e) => set({ contentType: e.target.value || null })}
+          aria-label="Content type"
+          className={fieldClass}
+        >
+          <option value="">any content</option>
+          {CONTENT_TYPES.map((t) => (
+            <option key={t.value} value={t.value}>
+              {t.label}
+            </option>
+          ))}
+        </select>
+        <input
+          value={draft.genre ?? ""}
+          onChange={(e) => set({ genre: e.target.value })}
+          placeholder="any genre"
+          aria-label="Genre"
+          className={cn(fieldClass, "w-28")}
+        />
+        <span>from</span>
+        <select
+          value={draft.hourStart ?? ""}
+          onChange={(e) => {
+            if (e.target.value === "") return setHours(null, null);
+            const start = Number(e.target.value);
+            // A window needs distinct ends; start with one hour
+            setHours(start, draft.hourEnd ?? (start + 1) % 24);
+          }}
+          aria-label="From hour"
+          className={fieldClass}
+        >
+          <option value="">any time</option>
+          {HOURS.map((h) => (
+            <option key={h} value={h}>
+              {String(h).padStart(2, "0")}:00
+            </option>
+          ))}
+        </select>
+        {draft.hourStart != null && (
+          <>
+            <span>to</span>
+            <select
+              value={draft.hourEnd ?? 0}
+              onChange={(e) => setHours(draft.hourStart ?? null, Number(e.target.value))}
+              aria-label="To hour"
+              className={fieldClass}
+            >
+              {HOURS.map((h) => (
+                <option key={h} value={h}>
+                  {String(h).padStart(2, "0")}:00
+                </option>
+              ))}
+            </select>
+          </>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs text-zinc-500">
+        <span>Show</span>
+        <select
+          value={draft.tag ?? ""}
+          onChange={(e) => set({ tag: e.target.value || null })}
+          aria-label="Tag"
+          className={fieldClass}
+        >
+          <option value="">any image</option>
+          {tags.map((t) => (
+            <option key={t} value={t}>
+              tagged {t}
+            </option>
+          ))}
+        </select>
+        <select
+          value={draft.slideshowSeconds == null ? "track" : "slideshow"}
+          onChange={(e) => set({ slideshowSeconds: e.target.value === "track" ? null : 30 })}
+          aria-label="Rotation"
+          className={fieldClass}
+        >
+          <option value="track">one per track</option>
+          <option value="slideshow">as a slideshow</option>
+        </select>
+        {draft.slideshowSeconds != null && (
+          <label className="flex items-center gap-1">
+            every
+            <input
+              type="number"
+              min={5}
+              value={draft.slideshowSeconds}
+              onChange={(e) => set({ slideshowSeconds: Math.round(Number(e.target.value)) || 5 })}
+              className={cn(fieldClass, "w-16")}
+            />
+            s
+          </label>
+        )}
+
+        <div className="ml-auto flex items-center gap-1.5">
+          <button
+            onClick={handleSave}
+            disabled={saving || !draft.name?.trim()}
+            className="flex items-center gap-1 px-2.5 py-1 rounded text-xs font-medium bg-violet-600 text-white hover:bg-violet-500 disabled:opacity-50 transition-colors"
+          >
+            <Save className="w-3 h-3" />
+            Save
+          </button>
+          <button
+            onClick={handleDelete}
+            className="flex items-center gap-1 px-2.5 py-1 rounded text-xs font-medium bg-zinc-800 text-zinc-400 hover:text-red-400 transition-colors"
+          >
+            <Trash2 className="w-3 h-3" />
+            {rule ? "Delete" : "Discard"}
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+}
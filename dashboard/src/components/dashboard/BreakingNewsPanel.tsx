@@ -0,0 +1,75 @@
+"use client";
+
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { breakingNewsApi } from "@/lib/api";
+import { Check, Siren, X } from "lucide-react";
+import type { BreakingAlert } from "@/lib/api";
+
+/**
+ * Breaking-news bulletins held for operator confirmation.
+ * Renders nothing unless a bulletin is waiting.
+ */
+export function BreakingNewsPanel() {
+  const qc = useQueryClient();
+  const { data } = useQuery({
+    queryKey: ["breaking-news"],
+    queryFn: breakingNewsApi.getAlerts,
+    refetchInterval: 15_000,
+  });
+
+  const pending = (data ?? []).filter((a) => a.status === "pending");
+  if (pending.length === 0) return null;
+
+  const decide = async (alert: BreakingAlert, action: "confirm" | "reject") => {
+    try {
+      await breakingNewsApi[action](alert.id);
+      qc.invalidateQueries({ queryKey: ["breaking-news"] });
+      qc.invalidateQueries({ queryKey: ["queue"] });
+    } catch (e) {
+      console.error(`Failed to ${action} breaking news:`, e);
+    }
+  };
+
+  return (
+    <div className="space-y-2 mb-4">
+      {pending.map((alert) => (
+        <div
+          key={alert.id}
+          data-testid={`breaking-news-${alert.id}`}
+          className="flex items-start gap-3 px-4 py-3 rounded-lg border bg-red-500/10 border-red-500/30"
+        >
+          <Siren className="w-4 h-4 mt-0.5 shrink-0 text-red-400" />
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-medium text-red-300">
+              Breaking: {alert.headline}
+            </p>
+            <p className="text-xs text-zinc-400 mt-0.5">{alert.bulletin}</p>
+            <p className="text-[10px] text-zinc-600 mt-1">
+              Importance {alert.importance}/10 · {alert.sources.join(", ")}
+            </p>
+          </div>
+          <div className="flex gap-2 shrink-0">
+            <button
+              onClick={() => decide(alert, "confirm")}
+              data-testid={`breaking-news-confirm-${alert.id}`}
+              aria-label="Air bulletin now"
+              className="flex items-center gap-1 text-[10px] font-medium text-red-300 bg-red-500/20 hover:bg-red-500/30 border border-red-500/30 px-2 py-1 rounded transition-colors"
+            >
+              <Check className="w-3 h-3" />
+              Air now
+            </button>
+            <button
+              onClick={() => decide(alert, "reject")}
+              data-testid={`breaking-news-reject-${alert.id}`}
+              aria-label="Discard bulletin"
+              className="flex items-center gap-1 text-[10px] font-medium text-zinc-400 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 px-2 py-1 rounded transition-colors"
+            >
+              <X className="w-3 h-3" />
+              Discard
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
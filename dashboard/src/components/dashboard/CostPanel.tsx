@@ -0,0 +1,105 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { costsApi } from "@/lib/api";
+import { cn } from "@/lib/utils";
+import { Loader2 } from "lucide-react";
+import type { BudgetWindow } from "@/lib/api";
+
+const PURPOSE_LABELS: Record<string, string> = {
+  song: "Suno songs",
+  lyrics: "Lyrics",
+  "news-synthesis": "News synthesis",
+  "podcast-script": "Podcast scripts",
+  "breaking-news": "Breaking news checks",
+};
+
+function usd(value: number): string {
+  return `$${value.toFixed(2)}`;
+}
+
+function BudgetBar({ label, window }: { label: string; window: BudgetWindow }) {
+  const pct = window.capUsd ? Math.min(100, (window.spentUsd / window.capUsd) * 100) : 0;
+
+  return (
+    <div>
+      <div className="flex items-baseline justify-between text-xs mb-1">
+        <span className="text-zinc-400">{label}</span>
+        <span
+          className={cn(
+            "tabular-nums font-medium",
+            window.exceeded ? "text-red-400" : "text-zinc-300"
+          )}
+        >
+          {usd(window.spentUsd)}
+          <span className="text-zinc-600">
+            {window.capUsd !== null ? ` / ${usd(window.capUsd)}` : " (no cap)"}
+          </span>
+        </span>
+      </div>
+      <div className="h-1.5 bg-zinc-800 rounded-full overflow-hidden">
+        <div
+          className={cn(
+            "h-full rounded-full transition-all duration-500",
+            window.exceeded ? "bg-red-500" : pct >= 80 ? "bg-amber-400" : "bg-green-500"
+          )}
+          style={{ width: `${window.capUsd !== null ? pct : 0}%` }}
+        />
+      </div>
+    </div>
+  );
+}
+
+export function CostPanel() {
+  const { data, isLoading } = useQuery({
+    queryKey: ["costs"],
+    queryFn: costsApi.getCosts,
+    refetchInterval: 60_000,
+  });
+
+  const purposes = Object.entries(data?.byPurpose ?? {}).sort((a, b) => b[1] - a[1]);
+  const capped = data?.daily.exceeded || data?.monthly.exceeded;
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-5">
+      <h2 className="text-xs font-semibold text-zinc-500 uppercase tracking-widest mb-4">
+        Spend
+      </h2>
+
+      {isLoading || !data ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="w-5 h-5 text-zinc-600 animate-spin" />
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <BudgetBar label="Today" window={data.daily} />
+          <BudgetBar label="This month" window={data.monthly} />
+
+          {capped && (
+            <p className="text-xs text-red-400" data-testid="budget-capped">
+              Budget reached — songs and podcasts paused, news continues.
+            </p>
+          )}
+
+          {purposes.length > 0 && (
+            <div className="space-y-1">
+              {purposes.map(([purpose, cost]) => (
+                <div key={purpose} className="flex justify-between text-xs">
+                  <span className="text-zinc-500">{PURPOSE_LABELS[purpose] ?? purpose}</span>
+                  <span className="text-zinc-400 tabular-nums">{usd(cost)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {data.sunoCreditsRemaining !== null && (
+            <div className="flex justify-between text-xs pt-2 border-t border-zinc-800">
+              <span className="text-zinc-500">Suno credits left</span>
+              <span className="text-zinc-300 tabular-nums">{data.sunoCreditsRemaining}</span>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
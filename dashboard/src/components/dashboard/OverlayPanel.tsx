@@ -0,0 +1,125 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { streamApi } from "@/lib/api";
+import { cn } from "@/lib/utils";
+import { Loader2, X } from "lucide-react";
+import type { OverlayOperatorField, OverlayState } from "@/lib/api";
+
+const FIELDS: { field: OverlayOperatorField; label: string; placeholder: string }[] = [
+  { field: "breaking", label: "Breaking banner", placeholder: "Shown across the top" },
+  { field: "message", label: "Operator message", placeholder: "e.g. Request line open: 555-0199" },
+  { field: "nextUp", label: "Next up", placeholder: "Automatic from the queue" },
+  { field: "headline", label: "Headline", placeholder: "Automatic from the story on air" },
+];
+
+function OverlayFieldRow({
+  field,
+  label,
+  placeholder,
+  overlay,
+  onUpdate,
+}: {
+  field: OverlayOperatorField;
+  label: string;
+  placeholder: string;
+  overlay: OverlayState;
+  onUpdate: (field: OverlayOperatorField, value: string | null) => Promise<void>;
+}) {
+  const [draft, setDraft] = useState("");
+  const pinned = overlay.operator[field];
+  const onScreen = overlay.fields[field].trim();
+
+  const submit = async () => {
+    if (!draft.trim()) return;
+    await onUpdate(field, draft);
+    setDraft("");
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-baseline justify-between text-xs">
+        <span className="text-zinc-400">{label}</span>
+        <span className={cn("truncate max-w-[60%]", pinned ? "text-violet-300" : "text-zinc-600")}>
+          {onScreen || "—"}
+          {pinned && <span className="ml-1 text-[10px] uppercase text-zinc-500">(pinned)</span>}
+        </span>
+      </div>
+      <div className="flex gap-2">
+        <input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && submit()}
+          data-testid={`overlay-${field}-input`}
+          placeholder={placeholder}
+          maxLength={200}
+          className="flex-1 min-w-0 px-3 py-1.5 text-sm bg-zinc-950 border border-zinc-800 rounded-lg text-zinc-300 placeholder:text-zinc-600 focus:outline-none focus:border-zinc-600"
+        />
+        <button
+          onClick={submit}
+          disabled={!draft.trim()}
+          data-testid={`overlay-${field}-set`}
+          className="px-3 py-1.5 text-xs font-medium bg-zinc-800 border border-zinc-700 text-zinc-300 hover:bg-zinc-700 rounded-lg transition-colors disabled:opacity-50"
+        >
+          Set
+        </button>
+        {pinned && (
+          <button
+            onClick={() => onUpdate(field, null)}
+            data-testid={`overlay-${field}-clear`}
+            aria-label={`Clear ${label}`}
+            title="Clear (back to automatic)"
+            className="px-2 text-zinc-500 hover:text-red-400 transition-colors"
+          >
+            <X className="w-3.5 h-3.5" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/** Operator control of the on-stream overlay text; changes show within a frame */
+export function OverlayPanel() {
+  const qc = useQueryClient();
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: overlay, isLoading } = useQuery({
+    queryKey: ["stream-overlay"],
+    queryFn: streamApi.getOverlay,
+    refetchInterval: 10_000,
+  });
+
+  const update = async (field: OverlayOperatorField, value: string | null) => {
+    setError(null);
+    try {
+      const state = await streamApi.updateOverlay({ [field]: value });
+      qc.setQueryData(["stream-overlay"], state);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-5" data-testid="overlay-panel">
+      <h2 className="text-xs font-semibold text-zinc-500 uppercase tracking-widest mb-4">
+        On-air overlay
+      </h2>
+
+      {isLoading || !overlay ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="w-5 h-5 text-zinc-600 animate-spin" />
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {FIELDS.map((f) => (
+            <OverlayFieldRow key={f.field} {...f} overlay={overlay} onUpdate={update} />
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-400 mt-3">{error}</p>}
+    </div>
+  );
+}
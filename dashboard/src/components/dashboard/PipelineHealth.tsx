@@ -5,26 +5,27 @@ import { pipelineApi } from "@/lib/api";
 import { useEngineStore } from "@/stores/engine-store";
 import { cn } from "@/lib/utils";
 import { Loader2, Play, RefreshCw } from "lucide-react";
-import type { PipelineStage } from "@/lib/api";
+import type { PipelineJob, PipelineJobType } from "@/lib/api";
 
-const STAGE_META: Record<
-  PipelineStage,
-  { label: string; description: string }
-> = {
-  rss_fetch: { label: "RSS Fetch", description: "Pulling news feeds" },
-  tts: { label: "TTS", description: "Text-to-speech synthesis" },
-  audio_process: { label: "Audio", description: "Processing audio files" },
-  queue_fill: { label: "Queue Fill", description: "Filling playback queue" },
-  stream: { label: "Stream", description: "Streaming to output" },
+const TYPE_META: Record<PipelineJobType, { label: string; color: string }> = {
+  "song-generation": { label: "Song", color: "text-violet-400" },
+  "tts-generation": { label: "News", color: "text-amber-400" },
+  "news-fetch": { label: "RSS Fetch", color: "text-blue-400" },
 };
 
-const STAGE_ORDER: PipelineStage[] = [
-  "rss_fetch",
-  "tts",
-  "audio_process",
-  "queue_fill",
-  "stream",
-];
+const STAGE_LABELS: Record<string, string> = {
+  queued: "Queued",
+  starting: "Starting",
+  synthesizing: "Synthesizing story",
+  lyrics: "Writing lyrics",
+  generating_songs: "Generating via Suno",
+  "news-fetch": "Fetching headlines",
+  tts: "Text-to-speech",
+  done: "Done",
+};
+
+/** How many jobs to list (active first, then most recent) */
+const MAX_VISIBLE_JOBS = 6;
 
 function StatusDot({ status }: { status: string }) {
   return (
@@ -33,9 +34,9 @@ function StatusDot({ status }: { status: string }) {
         "w-2.5 h-2.5 rounded-full shrink-0",
         status === "running"
           ? "bg-green-400 animate-pulse"
-          : status === "done"
+          : status === "completed"
           ? "bg-green-500"
-          : status === "error"
+          : status === "failed"
           ? "bg-red-500"
           : "bg-zinc-700"
       )}
@@ -45,6 +46,7 @@ function StatusDot({ status }: { status: string }) {
 
 export function PipelineHealth() {
   const storeJobs = useEngineStore((s) => s.pipelineJobs);
+  const updatePipelineJob = useEngineStore((s) => s.updatePipelineJob);
   const { data, isLoading } = useQuery({
     queryKey: ["pipeline"],
     queryFn: pipelineApi.getPipeline,
@@ -53,7 +55,7 @@ export function PipelineHealth() {
 
   const handleTriggerSong = async () => {
     try {
-      await pipelineApi.triggerSong();
+      updatePipelineJob(await pipelineApi.triggerSong());
     } catch (e) {
       console.error(e);
     }
@@ -61,16 +63,31 @@ export function PipelineHealth() {
 
   const handleTriggerNews = async () => {
     try {
-      await pipelineApi.triggerNews();
+      updatePipelineJob(await pipelineApi.triggerNews());
     } catch (e) {
       console.error(e);
     }
   };
 
-  // Merge server data with real-time socket updates
-  const jobMap = new Map<string, { stage: string; status: string; progress?: number; error?: string }>();
-  data?.jobs.forEach((j) => jobMap.set(j.stage, j));
-  storeJobs.forEach((j) => jobMap.set(j.stage, j));
+  // Merge server data with real-time socket updates (socket wins when newer)
+  const jobMap = new Map<string, PipelineJob>();
+  [
+    ...(data?.jobs ?? []),
+    ...(data?.recentCompleted ?? []),
+    ...(data?.recentFailed ?? []),
+    ...storeJobs,
+  ].forEach((j) => {
+    const existing = jobMap.get(j.id);
+    if (!existing || existing.updatedAt <= j.updatedAt) jobMap.set(j.id, j);
+  });
+
+  const isActive = (j: PipelineJob) => j.status === "queued" || j.status === "running";
+  const jobs = [...jobMap.values()]
+    .sort((a, b) => {
+      if (isActive(a) !== isActive(b)) return isActive(a) ? -1 : 1;
+      return b.createdAt.localeCompare(a.createdAt);
+    })
+    .slice(0, MAX_VISIBLE_JOBS);
 
   return (
     <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-5">
@@ -104,51 +121,56 @@ export function PipelineHealth() {
         <div className="flex justify-center py-6">
           <Loader2 className="w-5 h-5 text-zinc-600 animate-spin" />
         </div>
+      ) : jobs.length === 0 ? (
+        <p className="text-sm text-zinc-600 italic py-4 text-center">
+          No pipeline jobs yet. Trigger a song or news block above.
+        </p>
       ) : (
         <div className="grid grid-cols-1 gap-2">
-          {STAGE_ORDER.map((stage) => {
-            const meta = STAGE_META[stage];
-            const job = jobMap.get(stage);
-            const status = job?.status ?? "pending";
-            const progress = job?.progress;
+          {jobs.map((job) => {
+            const meta = TYPE_META[job.type];
+            const status = job.status;
 
             return (
               <div
-                key={stage}
+                key={job.id}
+                data-testid={`pipeline-job-${job.id}`}
                 className="flex items-center gap-3 px-3 py-2.5 bg-zinc-950/60 rounded-lg border border-zinc-800/60"
               >
                 <StatusDot status={status} />
                 <div className="flex-1 min-w-0">
-                  <div className="flex items-center justify-between">
-                    <span className="text-sm font-medium text-zinc-300">
-                      {meta.label}
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-medium text-zinc-300 truncate">
+                      <span className={meta.color}>{meta.label}</span>
+                      <span className="text-zinc-500">
+                        {" · "}
+                        {job.result?.title ?? STAGE_LABELS[job.stage] ?? job.stage}
+                      </span>
                     </span>
                     <span
                       className={cn(
-                        "text-[10px] font-medium uppercase tracking-wider",
+                        "text-[10px] font-medium uppercase tracking-wider shrink-0",
                         status === "running"
                           ? "text-green-400"
-                          : status === "done"
+                          : status === "completed"
                           ? "text-green-500"
-                          : status === "error"
+                          : status === "failed"
                           ? "text-red-400"
                           : "text-zinc-600"
                       )}
                     >
-                      {status === "running" && progress !== undefined
-                        ? `${progress}%`
-                        : status}
+                      {status === "running" ? `${job.progress}%` : status}
                     </span>
                   </div>
-                  {status === "running" && progress !== undefined && (
+                  {status === "running" && (
                     <div className="mt-1.5 h-1 bg-zinc-800 rounded-full overflow-hidden">
                       <div
                         className="h-full bg-green-500 rounded-full transition-all duration-500"
-                        style={{ width: `${progress}%` }}
+                        style={{ width: `${job.progress}%` }}
                       />
                     </div>
                   )}
-                  {status === "error" && job?.error && (
+                  {status === "failed" && job.error && (
                     <p className="text-[10px] text-red-400 mt-0.5 truncate">
                       {job.error}
                     </p>
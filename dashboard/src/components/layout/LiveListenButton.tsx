@@ -0,0 +1,151 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Headphones, Loader2 } from "lucide-react";
+import { LIVE_STREAM_URL } from "@/lib/api";
+import { cn } from "@/lib/utils";
+
+// Browsers without native HLS (Chrome, Firefox) play it through hls.js,
+// fetched on first use so it never weighs on the dashboard bundle.
+const HLS_JS_URL = "https://cdn.jsdelivr.net/npm/hls.js@1/dist/hls.min.js";
+
+interface HlsInstance {
+  loadSource(url: string): void;
+  attachMedia(media: HTMLMediaElement): void;
+  on(event: string, cb: (event: string, data: { fatal?: boolean }) => void): void;
+  destroy(): void;
+}
+
+interface HlsConstructor {
+  new (config?: Record<string, unknown>): HlsInstance;
+  isSupported(): boolean;
+  Events: { ERROR: string };
+}
+
+declare global {
+  interface Window {
+    Hls?: HlsConstructor;
+  }
+}
+
+let hlsLoader: Promise<HlsConstructor> | null = null;
+
+function loadHlsJs(): Promise<HlsConstructor> {
+  if (window.Hls) return Promise.resolve(window.Hls);
+  hlsLoader ??= new Promise((resolve, reject) => {
+    const script = document.createElement("script");
+    script.src = HLS_JS_URL;
+    script.async = true;
+    script.onload = () =>
+      window.Hls ? resolve(window.Hls) : reject(new Error("hls.js failed to load"));
+    script.onerror = () => {
+      hlsLoader = null;
+      reject(new Error("hls.js failed to load"));
+    };
+    document.head.appendChild(script);
+  });
+  return hlsLoader;
+}
+
+type ListenState = "idle" | "loading" | "playing" | "error";
+
+export function LiveListenButton() {
+  const [state, setState] = useState<ListenState>("idle");
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const hlsRef = useRef<HlsInstance | null>(null);
+
+  const teardown = () => {
+    hlsRef.current?.destroy();
+    hlsRef.current = null;
+    if (audioRef.current) {
+      audioRef.current.pause();
+      audioRef.current.removeAttribute("src");
+      audioRef.current.load();
+      audioRef.current = null;
+    }
+  };
+
+  useEffect(() => teardown, []);
+
+  const start = async () => {
+    setState("loading");
+    const audio = new Audio();
+    audioRef.current = audio;
+    audio.onplaying = () => setState("playing");
+    audio.onerror = () => {
+      teardown();
+      setState("error");
+    };
+
+    try {
+      if (audio.canPlayType("application/vnd.apple.mpegurl")) {
+        audio.src = LIVE_STREAM_URL;
+      } else {
+        const Hls = await loadHlsJs();
+        if (!Hls.isSupported()) throw new Error("HLS playback is not supported here");
+        // Bail if the user stopped listening while hls.js was loading
+        if (audioRef.current !== audio) return;
+
+        const hls = new Hls({ liveSyncDurationCount: 2 });
+        hls.on(Hls.Events.ERROR, (_event, data) => {
+          if (!data.fatal) return;
+          teardown();
+          setState("error");
+        });
+        hls.loadSource(LIVE_STREAM_URL);
+        hls.attachMedia(audio);
+        hlsRef.current = hls;
+      }
+      await audio.play();
+    } catch (e) {
+      if (audioRef.current !== audio) return;
+      console.error("Failed to play live stream:", e);
+      teardown();
+      setState("error");
+    }
+  };
+
+  const stop = () => {
+    teardown();
+    setState("idle");
+  };
+
+  const listening = state === "loading" || state === "playing";
+
+  return (
+    <button
+      onClick={listening ? stop : start}
+      data-testid="listen-live-btn"
+      aria-label={listening ? "Stop listening" : "Listen live"}
+      title={
+        state === "error"
+          ? "Live stream unavailable — is the stream running?"
+          : listening
+            ? "Stop listening"
+            : "Listen live"
+      }
+      className={cn(
+        "flex items-center gap-1.5 h-9 px-3 rounded-lg text-xs font-medium transition-colors",
+        state === "playing"
+          ? "bg-red-600/20 border border-red-500/40 text-red-300 hover:bg-red-600/30"
+          : state === "error"
+            ? "bg-zinc-800 text-amber-400 hover:bg-zinc-700"
+            : "bg-zinc-800 text-zinc-300 hover:bg-zinc-700 hover:text-zinc-100"
+      )}
+    >
+      {state === "loading" ? (
+        <Loader2 className="w-4 h-4 animate-spin" />
+      ) : (
+        <Headphones className="w-4 h-4" />
+      )}
+      {state === "playing" ? (
+        <span className="flex items-center gap-1">
+          <span className="w-1.5 h-1.5 rounded-full bg-red-500 animate-pulse" />
+          Live
+        </span>
+      ) : (
+        "Listen live"
+      )}
+    </button>
+  );
+}
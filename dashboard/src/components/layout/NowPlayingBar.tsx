@@ -7,6 +7,7 @@ import { engineApi } from "@/lib/api";
 import { cn, formatDuration } from "@/lib/utils";
 import { useQueryClient } from "@tanstack/react-query";
 import type { ContentType } from "@/lib/api";
+import { LiveListenButton } from "./LiveListenButton";
 
 const TYPE_CONFIG: Record<
   ContentType,
@@ -152,6 +153,8 @@ export function NowPlayingBar() {
 
       {/* Engine controls */}
       <div className="flex items-center gap-2 shrink-0">
+        <LiveListenButton />
+
         {isPlaying ? (
           <button
             onClick={handlePause}
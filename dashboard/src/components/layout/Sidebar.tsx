@@ -5,7 +5,9 @@ import { usePathname } from "next/navigation";
 import {
   LayoutDashboard,
   Clock,
+  CalendarClock,
   Library,
+  Image,
   Settings,
   Radio,
   Wifi,
@@ -17,7 +19,9 @@ import { useEngineStore } from "@/stores/engine-store";
 const navItems = [
   { href: "/dashboard", label: "Dashboard", icon: LayoutDashboard },
   { href: "/timeline", label: "Timeline", icon: Clock },
+  { href: "/clocks", label: "Clocks", icon: CalendarClock },
   { href: "/library", label: "Library", icon: Library },
+  { href: "/backgrounds", label: "Backgrounds", icon: Image },
   { href: "/settings", label: "Settings", icon: Settings },
 ];
 
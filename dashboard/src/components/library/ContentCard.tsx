@@ -1,6 +1,7 @@
 "use client";
 
 import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import {
   Music,
   Newspaper,
@@ -10,6 +11,8 @@ import {
   Pause,
   Trash2,
   MoreVertical,
+  Star,
+  ShieldAlert,
 } from "lucide-react";
 import * as DropdownMenu from "@radix-ui/react-dropdown-menu";
 import { contentApi } from "@/lib/api";
@@ -66,7 +69,18 @@ export function ContentCard({ item, onDeleted }: ContentCardProps) {
   const [isPlaying, setIsPlaying] = useState(false);
   const [audioEl, setAudioEl] = useState<HTMLAudioElement | null>(null);
 
+  const qc = useQueryClient();
   const cfg = TYPE_CONFIG[item.type];
+  const variant = typeof item.metadata?.variant === "string" ? item.metadata.variant : null;
+  const preferred = item.metadata?.preferred === true;
+  const qcReport = item.metadata?.qc as { passed: boolean; failures: string[] } | undefined;
+  const loudness = item.metadata?.loudness as { integratedLufs: number | null } | undefined;
+
+  const { data: variants } = useQuery({
+    queryKey: ["content-variants", item.id],
+    queryFn: () => contentApi.getVariants(item.id),
+    enabled: variant !== null,
+  });
 
   const handlePreview = () => {
     if (isPlaying && audioEl) {
@@ -96,6 +110,20 @@ export function ContentCard({ item, onDeleted }: ContentCardProps) {
     }
   };
 
+  const handlePrefer = async () => {
+    try {
+      if (preferred) {
+        await contentApi.clearPreferredVariant(item.id);
+      } else {
+        await contentApi.preferVariant(item.id);
+      }
+      qc.invalidateQueries({ queryKey: ["content"] });
+      qc.invalidateQueries({ queryKey: ["content-variants"] });
+    } catch (e) {
+      console.error("Failed to update preferred take:", e);
+    }
+  };
+
   return (
     <div className="bg-zinc-900 border border-zinc-800 rounded-xl overflow-hidden hover:border-zinc-700 transition-colors group">
       {/* Type color header */}
@@ -125,6 +153,26 @@ export function ContentCard({ item, onDeleted }: ContentCardProps) {
             >
               {cfg.label}
             </span>
+            {qcReport && !qcReport.passed && (
+              <span
+                data-testid={`quarantined-${item.id}`}
+                title={`Failed audio QC: ${qcReport.failures.join(", ").replace(/_/g, " ")}`}
+                className="flex items-center gap-0.5 text-[10px] font-medium px-1.5 py-0.5 rounded border bg-red-500/15 text-red-400 border-red-500/25"
+              >
+                <ShieldAlert className="w-2.5 h-2.5" />
+                Quarantined
+              </span>
+            )}
+            {variant && (
+              <span
+                data-testid={`variant-${item.id}`}
+                title={preferred ? "Preferred take" : "Alternates with the other take"}
+                className="flex items-center gap-0.5 text-[10px] font-medium px-1.5 py-0.5 rounded border bg-zinc-800 text-zinc-400 border-zinc-700"
+              >
+                {preferred && <Star className="w-2.5 h-2.5 fill-amber-400 text-amber-400" />}
+                Take {variant}
+              </span>
+            )}
             <span
               className={cn(
                 "text-[10px] font-medium px-1.5 py-0.5 rounded border capitalize",
@@ -150,11 +198,33 @@ export function ContentCard({ item, onDeleted }: ContentCardProps) {
         <div className="flex items-center justify-between text-[11px] text-zinc-600 mb-4">
           <span className="tabular-nums">{formatDuration(item.duration)}</span>
           <span className="tabular-nums">{formatBytes(item.fileSize)}</span>
+          {loudness?.integratedLufs != null && (
+            <span className="tabular-nums" title="Measured loudness before normalization">
+              {loudness.integratedLufs.toFixed(1)} LUFS
+            </span>
+          )}
           {item.playCount !== undefined && (
             <span>{item.playCount}x played</span>
           )}
         </div>
 
+        {/* A/B airings across takes */}
+        {variants && variants.length > 1 && (
+          <div
+            data-testid={`variant-stats-${item.id}`}
+            className="flex items-center gap-3 text-[11px] text-zinc-600 -mt-2 mb-4"
+          >
+            {variants.map((v) => (
+              <span
+                key={v.id}
+                className={cn("tabular-nums", v.id === item.id && "text-zinc-400")}
+              >
+                {v.variant ?? "?"}: {v.playCount}x aired
+              </span>
+            ))}
+          </div>
+        )}
+
         {/* Actions */}
         <div className="flex items-center gap-2">
           <button
@@ -192,6 +262,16 @@ export function ContentCard({ item, onDeleted }: ContentCardProps) {
                 sideOffset={4}
                 className="z-50 min-w-[140px] bg-zinc-900 border border-zinc-700 rounded-lg shadow-xl py-1 text-sm"
               >
+                {variant && (
+                  <DropdownMenu.Item
+                    onSelect={handlePrefer}
+                    data-testid={`prefer-${item.id}`}
+                    className="flex items-center gap-2 px-3 py-2 text-zinc-300 hover:bg-zinc-800 cursor-pointer outline-none"
+                  >
+                    <Star className="w-3.5 h-3.5" />
+                    {preferred ? "Alternate takes" : "Prefer this take"}
+                  </DropdownMenu.Item>
+                )}
                 <DropdownMenu.Item
                   onSelect={handleDelete}
                   data-testid={`delete-${item.id}`}
@@ -2,9 +2,9 @@
 
 import { useRef, useState, useEffect } from "react";
 import { useDroppable } from "@dnd-kit/core";
-import { Music, Newspaper, Mic2, Megaphone, X } from "lucide-react";
+import { Music, Newspaper, Mic2, Megaphone, X, Repeat, CalendarX, AlertTriangle } from "lucide-react";
 import { cn } from "@/lib/utils";
-import type { ContentType, ScheduleSlot } from "@/lib/api";
+import type { ContentType, ScheduleConflict, ScheduleIssue, ScheduleSlot } from "@/lib/api";
 
 const TRACK_HEIGHT = 56;
 const PIXELS_PER_HOUR = 120;
@@ -45,47 +45,97 @@ const TRACK_META: Record<
   },
 };
 
-function timeToPixels(time: string): number {
-  const [h, m] = time.split(":").map(Number);
-  return (h + m / 60) * PIXELS_PER_HOUR;
+/** Slots without an end time are drawn this long */
+const DEFAULT_SLOT_MINUTES = 5;
+
+/** Engine content types shown on each track; jingles share the ads track */
+const TRACK_FOR_TYPE: Record<string, ContentType> = {
+  song: "song",
+  news_block: "news",
+  podcast: "podcast",
+  ad: "ad",
+  jingle: "ad",
+};
+
+function timeToPixels(date: Date): number {
+  return (date.getHours() + date.getMinutes() / 60) * PIXELS_PER_HOUR;
 }
 
-function durationToPixels(startTime: string, endTime: string): number {
-  const start = timeToPixels(startTime);
-  const end = timeToPixels(endTime);
-  return Math.max(end - start, 20);
+/** Conflicts are matched to slots by slot id and occurrence start */
+function occurrenceKey(slotId: string, startTime: string): string {
+  return `${slotId}@${startTime}`;
+}
+
+function formatTime(date: Date): string {
+  return `${date.getHours().toString().padStart(2, "0")}:${date.getMinutes().toString().padStart(2, "0")}`;
 }
 
 interface SlotBlockProps {
   slot: ScheduleSlot;
   trackType: ContentType;
-  onDelete: (id: string) => void;
+  /** Overlaps and content problems of this occurrence */
+  issues: ScheduleIssue[];
+  onDelete: (slot: ScheduleSlot) => void;
+  onSkip: (slot: ScheduleSlot) => void;
 }
 
-function SlotBlock({ slot, trackType, onDelete }: SlotBlockProps) {
+function SlotBlock({ slot, trackType, issues, onDelete, onSkip }: SlotBlockProps) {
   const meta = TRACK_META[trackType];
-  const left = timeToPixels(slot.startTime);
-  const width = durationToPixels(slot.startTime, slot.endTime);
+  const start = new Date(slot.startTime);
+  const end = slot.endTime
+    ? new Date(slot.endTime)
+    : new Date(start.getTime() + DEFAULT_SLOT_MINUTES * 60_000);
+  const left = timeToPixels(start);
+  // Runs past midnight: draw to the end of the day
+  const right = end.toDateString() === start.toDateString() ? timeToPixels(end) : 24 * PIXELS_PER_HOUR;
+  const width = Math.max(right - left, 20);
+  const times = `${formatTime(start)}–${formatTime(end)}`;
+  const recurring = slot.seriesStartTime !== undefined;
+  const conflicted = issues.length > 0;
 
   return (
     <div
+      data-testid={conflicted ? `slot-conflict-${slot.id}` : undefined}
       className={cn(
         "absolute top-1 bottom-1 rounded border flex items-center px-2 gap-1 group overflow-hidden cursor-default select-none",
         meta.bg,
-        meta.border
+        conflicted ? "border-red-500/80 ring-1 ring-red-500/40" : meta.border
       )}
       style={{ left, width }}
-      title={slot.label ?? `${slot.startTime} – ${slot.endTime}`}
+      title={[slot.label ?? times, slot.recurrenceRule, ...issues.map((i) => `⚠ ${i.message}`)]
+        .filter(Boolean)
+        .join("\n")}
     >
-      <meta.icon className={cn("w-3 h-3 shrink-0", meta.color)} />
+      {conflicted && (
+        <AlertTriangle className="w-3 h-3 shrink-0 text-red-400" aria-label={`${issues.length} conflicts`} />
+      )}
+      {recurring ? (
+        <Repeat className={cn("w-3 h-3 shrink-0", meta.color)} aria-label="Repeats" />
+      ) : (
+        <meta.icon className={cn("w-3 h-3 shrink-0", meta.color)} />
+      )}
       <span className={cn("text-[10px] font-medium truncate", meta.color)}>
-        {slot.label ?? `${slot.startTime}–${slot.endTime}`}
+        {slot.label ?? times}
       </span>
+      {recurring && (
+        <button
+          onClick={() => onSkip(slot)}
+          data-testid={`slot-skip-${slot.id}`}
+          aria-label="Skip this occurrence"
+          title="Skip this occurrence"
+          className="ml-auto opacity-0 group-hover:opacity-100 text-current/60 hover:text-amber-400 transition-all shrink-0"
+        >
+          <CalendarX className="w-3 h-3" />
+        </button>
+      )}
       <button
-        onClick={() => onDelete(slot.id)}
+        onClick={() => onDelete(slot)}
         data-testid={`slot-delete-${slot.id}`}
-        aria-label="Delete slot"
-        className="ml-auto opacity-0 group-hover:opacity-100 text-current/60 hover:text-red-400 transition-all shrink-0"
+        aria-label={recurring ? "Delete every occurrence" : "Delete slot"}
+        className={cn(
+          "opacity-0 group-hover:opacity-100 text-current/60 hover:text-red-400 transition-all shrink-0",
+          !recurring && "ml-auto"
+        )}
       >
         <X className="w-3 h-3" />
       </button>
@@ -96,10 +146,12 @@ function SlotBlock({ slot, trackType, onDelete }: SlotBlockProps) {
 interface TimelineTrackProps {
   type: ContentType;
   slots: ScheduleSlot[];
-  onDelete: (id: string) => void;
+  issuesByOccurrence: Map<string, ScheduleIssue[]>;
+  onDelete: (slot: ScheduleSlot) => void;
+  onSkip: (slot: ScheduleSlot) => void;
 }
 
-function TimelineTrack({ type, slots, onDelete }: TimelineTrackProps) {
+function TimelineTrack({ type, slots, issuesByOccurrence, onDelete, onSkip }: TimelineTrackProps) {
   const meta = TRACK_META[type];
   const { setNodeRef, isOver } = useDroppable({ id: `track-${type}`, data: { type } });
   const totalWidth = 24 * PIXELS_PER_HOUR;
@@ -121,9 +173,16 @@ function TimelineTrack({ type, slots, onDelete }: TimelineTrackProps) {
         style={{ width: totalWidth }}
       >
         {slots
-          .filter((s) => s.contentType === type)
+          .filter((s) => s.contentType && TRACK_FOR_TYPE[s.contentType] === type)
           .map((slot) => (
-            <SlotBlock key={slot.id} slot={slot} trackType={type} onDelete={onDelete} />
+            <SlotBlock
+              key={`${slot.id}@${slot.startTime}`}
+              slot={slot}
+              trackType={type}
+              issues={issuesByOccurrence.get(occurrenceKey(slot.id, slot.startTime)) ?? []}
+              onDelete={onDelete}
+              onSkip={onSkip}
+            />
           ))}
       </div>
     </div>
@@ -165,13 +224,20 @@ function CurrentTimeLine({ containerRef }: CurrentTimeLineProps) {
 }
 
 interface TimelineCanvasProps {
+  /** Slots and recurring-slot occurrences of one day */
   slots: ScheduleSlot[];
-  onDeleteSlot: (id: string) => void;
+  /** Issues per occurrence; conflicted slots are outlined in red */
+  conflicts: ScheduleConflict[];
+  onDeleteSlot: (slot: ScheduleSlot) => void;
+  onSkipOccurrence: (slot: ScheduleSlot) => void;
 }
 
-export function TimelineCanvas({ slots, onDeleteSlot }: TimelineCanvasProps) {
+export function TimelineCanvas({ slots, conflicts, onDeleteSlot, onSkipOccurrence }: TimelineCanvasProps) {
   const scrollRef = useRef<HTMLDivElement>(null);
   const totalWidth = 24 * PIXELS_PER_HOUR;
+  const issuesByOccurrence = new Map(
+    conflicts.map((c) => [occurrenceKey(c.slotId, c.startTime), c.issues])
+  );
 
   return (
     <div className="flex-1 overflow-hidden flex flex-col bg-zinc-950">
@@ -194,7 +260,9 @@ export function TimelineCanvas({ slots, onDeleteSlot }: TimelineCanvasProps) {
               key={type}
               type={type}
               slots={slots}
+              issuesByOccurrence={issuesByOccurrence}
               onDelete={onDeleteSlot}
+              onSkip={onSkipOccurrence}
             />
           ))}
         </div>
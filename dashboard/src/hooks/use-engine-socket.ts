@@ -3,7 +3,7 @@
 import { useEffect } from "react";
 import { getSocket } from "@/lib/socket-client";
 import { useEngineStore } from "@/stores/engine-store";
-import type { EngineStatus, NowPlaying, QueueItem, BufferStatus } from "@/lib/api";
+import type { EngineStatus, NowPlaying, QueueItem, BufferStatus, StreamStatus } from "@/lib/api";
 import type { PipelineJobUpdate } from "@/stores/engine-store";
 
 interface AlertPayload {
@@ -17,6 +17,7 @@ export function useEngineSocket() {
     setNowPlaying,
     setQueue,
     setBufferStatus,
+    setStreamStatus,
     setSocketConnected,
     updatePipelineJob,
     addAlert,
@@ -61,6 +62,10 @@ export function useEngineSocket() {
       updatePipelineJob(data);
     }
 
+    function onStreamMetrics(data: StreamStatus) {
+      setStreamStatus(data);
+    }
+
     function onAlert(data: AlertPayload) {
       addAlert(data.severity, data.message);
     }
@@ -74,6 +79,7 @@ export function useEngineSocket() {
     socket.on("buffer:status", onBufferStatus);
     socket.on("engine:status-changed", onEngineStatusChanged);
     socket.on("pipeline:job-update", onPipelineJobUpdate);
+    socket.on("stream:metrics", onStreamMetrics);
     socket.on("alert", onAlert);
 
     // Reflect current connection state on mount
@@ -89,13 +95,15 @@ export function useEngineSocket() {
       socket.off("buffer:status", onBufferStatus);
       socket.off("engine:status-changed", onEngineStatusChanged);
       socket.off("pipeline:job-update", onPipelineJobUpdate);
-      socket.off("alert", onAlert);
+      socket.off("stream:metrics", onStreamMetrics);
+    socket.off("alert", onAlert);
     };
   }, [
     setEngineStatus,
     setNowPlaying,
     setQueue,
     setBufferStatus,
+    setStreamStatus,
     setSocketConnected,
     updatePipelineJob,
     addAlert,
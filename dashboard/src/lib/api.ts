@@ -5,12 +5,8 @@
 export type ContentType = "song" | "news" | "podcast" | "ad";
 export type ContentStatus = "active" | "inactive" | "processing" | "error";
 export type EngineState = "idle" | "playing" | "paused" | "stopped";
-export type PipelineStage =
-  | "rss_fetch"
-  | "tts"
-  | "audio_process"
-  | "queue_fill"
-  | "stream";
+export type PipelineJobType = "song-generation" | "tts-generation" | "news-fetch";
+export type PipelineJobStatus = "queued" | "running" | "completed" | "failed";
 
 export interface EngineStatus {
   state: EngineState;
@@ -56,29 +52,152 @@ export interface ContentItem {
   updatedAt: string;
   tags?: string[];
   playCount?: number;
+  metadata?: Record<string, unknown>;
 }
 
-export interface ScheduleSlot {
+/** One take of a generated song and how often it has aired */
+export interface VariantStats {
   id: string;
-  dayOfWeek: number; // 0=Sun ... 6=Sat
-  startTime: string; // "HH:MM"
-  endTime: string;
-  contentType: ContentType;
-  rotationId?: string;
-  label?: string;
+  title: string;
+  variant: string | null;
+  preferred: boolean;
+  status: ContentStatus;
+  playCount: number;
+  lastPlayedAt: string | null;
 }
 
-export interface RotationItem {
+export interface ScheduleSlot {
   id: string;
-  type: ContentType;
-  weight: number; // 1-10
-  order: number;
+  contentId: string | null;
+  contentType: ClockContentType | "any" | null;
+  startTime: string; // ISO; the occurrence's start when expanded from a recurring slot
+  endTime: string | null;
+  isRecurring: boolean;
+  recurrenceRule: string | null; // RFC 5545 RRULE plus optional EXDATE lines
+  priority: number;
+  label: string | null;
+  color: string | null;
+  seriesStartTime?: string; // set on occurrences of a recurring slot
+}
+
+export type ScheduleSlotInput = Partial<
+  Omit<ScheduleSlot, "id" | "seriesStartTime" | "contentId" | "contentType">
+> & {
+  startTime: string;
+  contentId?: string;
+  contentType?: ClockContentType | "any";
+};
+
+/** What saving a slot does about warnings: refuse, save anyway, or move it clear of overlaps */
+export type ConflictMode = "reject" | "warn" | "shift";
+
+export interface ScheduleIssue {
+  kind:
+    | "invalid_time"
+    | "end_before_start"
+    | "content_missing"
+    | "content_not_ready"
+    | "too_short"
+    | "overlap";
+  message: string;
+  slotId?: string; // overlaps: the other slot
+  priority?: number; // overlaps: the other slot's priority
+  at?: string; // overlaps: first clash
+  count?: number; // overlaps: clashes in the next four weeks
+}
+
+/** A slot as saved, with what validation found and where auto-shift moved it from */
+export interface SavedScheduleSlot extends ScheduleSlot {
+  warnings: ScheduleIssue[];
+  shiftedFrom: string | null;
+}
+
+/** Issues of one slot occurrence */
+export interface ScheduleConflict {
+  slotId: string;
+  startTime: string;
+  issues: ScheduleIssue[];
+}
+
+export interface PreviewItem extends Omit<QueueItem, "type"> {
+  type: ClockContentType;
+  scheduledAt: string;
+  endsAt: string;
+  source: "override" | "scheduled" | "rotation";
+}
+
+/** Projected rundown; gaps are stretches where nothing would be available */
+export interface SchedulePreview {
+  from: string;
+  to: string;
+  items: PreviewItem[];
+  gaps: { from: string; to: string }[];
+  /** The dry run hit its item cap; nothing after simulatedUntil is projected */
+  truncated: boolean;
+  simulatedUntil: string;
+}
+
+export type SelectionStrategy = "random" | "sequential" | "least_recently_played";
+
+export interface RotationStep {
+  id?: string;
+  contentType: ClockContentType;
+  contentId: string | null; // a specific item, else picked by type
+  selectionStrategy: SelectionStrategy;
+}
+
+/** When a group runs; null weekday or hours match any, hourEnd is exclusive and may wrap */
+export interface RotationGroupAssignment {
+  weekday: number | null; // 0=Sun ... 6=Sat
+  hourStart: number | null;
+  hourEnd: number | null;
 }
 
-export interface Rotation {
+export interface RotationGroup {
+  id: string; // "default" runs whenever no assignment matches
+  name: string;
+  cursor: number; // next pattern position
+  createdAt: string;
+  assignments: RotationGroupAssignment[];
+  pattern: RotationStep[];
+}
+
+export type SeparationRule = "track" | "title" | "story" | "genre";
+
+/** Minimum minutes between airings sharing an attribute (0 = off), and which rule gives way first */
+export interface SeparationSettings {
+  minutes: Record<SeparationRule, number>;
+  relaxOrder: SeparationRule[];
+}
+
+export interface RotationGroupInput {
+  name?: string;
+  assignments?: RotationGroupAssignment[];
+  pattern?: RotationStep[];
+}
+
+export type ClockContentType = "song" | "news_block" | "podcast" | "ad" | "jingle";
+
+export interface ClockSegment {
+  minute: number; // 0-59
+  contentType: ClockContentType;
+  fallback: (ClockContentType | "rotation")[];
+}
+
+export interface FormatClock {
   id: string;
   name: string;
-  items: RotationItem[];
+  description: string | null;
+  segments: ClockSegment[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ClockAssignment {
+  id?: string;
+  clockId: string;
+  weekday: number | null; // 0=Sun ... 6=Sat, null = any day
+  hour: number | null; // 0-23, null = any hour
 }
 
 export interface RssFeed {
@@ -119,17 +238,301 @@ export interface AppSettings {
 
 export interface PipelineJob {
   id: string;
-  stage: PipelineStage;
-  status: "pending" | "running" | "done" | "error";
-  progress?: number;
+  type: PipelineJobType;
+  status: PipelineJobStatus;
+  stage: string;
+  progress: number; // 0-100
+  result?: { contentId: string; title: string };
   error?: string;
-  startedAt?: string;
-  completedAt?: string;
+  createdAt: string; // ISO
+  updatedAt: string; // ISO
 }
 
 export interface PipelineStatus {
   jobs: PipelineJob[];
-  lastUpdated: string;
+  recentCompleted: PipelineJob[];
+  recentFailed: PipelineJob[];
+}
+
+export interface SongTriggerRequest {
+  story?: { headline: string; summary: string; angle?: string };
+  articleIds?: string[];
+}
+
+export interface BudgetWindow {
+  spentUsd: number;
+  capUsd: number | null;
+  exceeded: boolean;
+}
+
+export interface CostEntry {
+  id: string;
+  provider: "anthropic" | "suno";
+  purpose: string;
+  model: string | null;
+  inputTokens: number | null;
+  outputTokens: number | null;
+  credits: number | null;
+  costUsd: number;
+  reference: string | null;
+  createdAt: string; // ISO
+}
+
+export interface CostSummary {
+  daily: BudgetWindow;
+  monthly: BudgetWindow;
+  byProvider: Record<string, number>;
+  byPurpose: Record<string, number>;
+  sunoCreditsRemaining: number | null;
+  recent: CostEntry[];
+}
+
+export interface BreakingAlert {
+  id: string;
+  trackId: string;
+  headline: string;
+  bulletin: string;
+  importance: number;
+  score: number;
+  sources: string[];
+  articleIds: string[];
+  status: "pending" | "queued" | "rejected";
+  createdAt: string;
+  decidedAt: string | null;
+}
+
+export type StreamOutputType = "rtmp" | "icecast" | "hls";
+
+/** One ffmpeg `-progress` report (null where ffmpeg reported N/A) */
+export interface StreamProgressMetrics {
+  frame: number | null;
+  fps: number | null;
+  bitrateKbps: number | null;
+  totalBytes: number | null;
+  outTimeSeconds: number | null;
+  dupFrames: number;
+  dropFrames: number;
+  speed: number | null;
+  updatedAt: string;
+}
+
+export interface StreamOutputHealth {
+  id: string;
+  name: string;
+  type: StreamOutputType;
+  state: "connecting" | "live" | "down" | "stopped";
+  since: string;
+  restarts: number;
+  bytesSent: number;
+  bytesDropped: number;
+  lastError: string | null;
+  target: "primary" | "backup";
+  failovers: number;
+  degraded: boolean;
+  metrics: StreamProgressMetrics | null;
+}
+
+export interface StreamOutput {
+  id: string;
+  name: string;
+  type: StreamOutputType;
+  url: string;
+  backupUrl: string | null; // rtmp only
+  streamKey: string | null; // masked
+  username: string | null;
+  password: string | null; // masked
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+  health: StreamOutputHealth | null;
+}
+
+export interface StreamOutputInput {
+  name: string;
+  type: StreamOutputType;
+  url: string;
+  backupUrl?: string | null;
+  streamKey?: string | null;
+  username?: string | null;
+  password?: string | null;
+  enabled?: boolean;
+}
+
+export interface StreamEncoderHealth {
+  metrics: StreamProgressMetrics | null;
+  degraded: boolean;
+  errorLines: number;
+  lastError: string | null;
+}
+
+/** Payload of GET /api/v1/stream/status and the `stream:metrics` socket event */
+export interface StreamStatus {
+  isStreaming: boolean;
+  startedAt: string | null;
+  currentTrack: string | null;
+  tracksPlayed: number;
+  uptimeSeconds: number;
+  errors: number;
+  encoder: StreamEncoderHealth | null;
+  outputs: StreamOutputHealth[];
+}
+
+export type StreamEventType =
+  | "stream_started"
+  | "stream_stopped"
+  | "encoder_restarted"
+  | "encoder_degraded"
+  | "encoder_recovered"
+  | "output_down"
+  | "output_recovered"
+  | "output_degraded"
+  | "failover";
+
+export interface StreamEvent {
+  id: string;
+  type: StreamEventType;
+  outputId: string | null;
+  outputName: string | null;
+  message: string;
+  details: Record<string, unknown> | null;
+  createdAt: string;
+}
+
+export type OverlayField = "title" | "genre" | "headline" | "nextUp" | "breaking" | "message";
+export type OverlayOperatorField = "headline" | "nextUp" | "breaking" | "message";
+
+export interface OverlayState {
+  fields: Record<OverlayField, string>; // on screen now
+  operator: Record<OverlayOperatorField, string | null>; // null = follows playout
+  template: { id: string; name: string } | null; // null = built-in classic layout
+  updatedAt: string;
+}
+
+// Layout layers on a 1920x1080 canvas; text may use {{track.title}}, {{metadata.genre | upper}},
+// {{overlay.nextUp}}, {{clock}} and {{date}}
+export interface OverlayTextLayer {
+  type: "text";
+  text: string;
+  x: number;
+  y: number;
+  size?: number;
+  color?: string;
+  align?: "left" | "center" | "right";
+  font?: string;
+  borderWidth?: number;
+  borderColor?: string;
+  background?: string;
+}
+
+export interface OverlayImageLayer {
+  type: "image";
+  src: string; // relative to the engine's media directory
+  x: number;
+  y: number;
+  width?: number;
+  height?: number;
+  opacity?: number;
+}
+
+export interface OverlayRectLayer {
+  type: "rect";
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  color: string;
+}
+
+export type OverlayLayer = OverlayTextLayer | OverlayImageLayer | OverlayRectLayer;
+
+export interface OverlayTemplate {
+  id: string;
+  name: string;
+  layers: OverlayLayer[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface OverlayPreviewRequest {
+  templateId?: string;
+  layers?: OverlayLayer[]; // unsaved edits; take precedence over templateId
+  contentType?: string;
+  track?: { title?: string; metadata?: Record<string, unknown> };
+  current?: boolean; // render what's on air instead of sample values
+  background?: boolean;
+}
+
+export interface TickerSettings {
+  enabled: boolean; // on/off and style apply when the stream starts
+  speed: number; // pixels per second
+  fontSize: number;
+  color: string; // #rrggbb or #rrggbbaa
+  background: string;
+  feeds: string[]; // feed names; empty = all
+  keywords: string[]; // empty = all headlines
+  maxItems: number;
+}
+
+export interface TickerState {
+  settings: TickerSettings;
+  items: { title: string; source: string }[];
+  refreshedAt: string | null;
+  running: boolean;
+}
+
+export type CaptionPosition = "top" | "middle" | "bottom";
+export type CaptionStyle = "box" | "outline";
+
+export interface CaptionSettings {
+  enabled: boolean; // on/off and style apply when the stream starts
+  position: CaptionPosition;
+  style: CaptionStyle; // box: solid band behind; outline: bordered text
+  fontSize: number;
+  color: string;
+  background: string; // box fill or outline color
+}
+
+export interface CaptionState {
+  settings: CaptionSettings;
+  contentId: string | null; // track whose lyrics are being captioned
+  line: string | null; // on screen now
+}
+
+export type VisualizerMode = "none" | "waveform" | "spectrum" | "vectorscope";
+
+export interface VisualizerState {
+  active: VisualizerMode; // on screen now
+  assignments: Record<string, VisualizerMode>; // content type or "default" → mode
+}
+
+export interface BackgroundImage {
+  id: string;
+  name: string;
+  filePath: string;
+  tags: string[];
+  createdAt: string;
+}
+
+export interface BackgroundRule {
+  id: string;
+  name: string;
+  priority: number; // lower runs first
+  contentType: string | null; // engine content type; null = any
+  genre: string | null; // null = any
+  hourStart: number | null; // 0-23, wraps past midnight
+  hourEnd: number | null; // exclusive
+  tag: string | null; // images to pick from; null = all
+  slideshowSeconds: number | null; // null = one image per track
+  enabled: boolean;
+  createdAt: string;
+}
+
+export type BackgroundRuleInput = Partial<Omit<BackgroundRule, "id" | "createdAt">>;
+
+export interface BackgroundState {
+  image: { id: string; name: string } | null; // null = the default background
+  rule: { id: string; name: string } | null;
+  slideshowSeconds: number | null;
 }
 
 export interface BufferStatus {
@@ -189,6 +592,21 @@ async function uploadFile<T>(path: string, formData: FormData): Promise<T> {
   return res.json() as Promise<T>;
 }
 
+async function requestBlob(path: string, body: unknown): Promise<Blob> {
+  const res = await fetch(`${BASE_URL}${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+  if (!res.ok) {
+    const text = await res.text().catch(() => "Unknown error");
+    throw new Error(`API POST ${path} failed (${res.status}): ${text}`);
+  }
+
+  return res.blob();
+}
+
 // ---------------------------------------------------------------------------
 // Engine API
 // ---------------------------------------------------------------------------
@@ -216,6 +634,12 @@ export const contentApi = {
     request<ContentItem>("PATCH", `/api/content/${id}`, data),
   deleteContent: (id: string) =>
     request<{ ok: boolean }>("DELETE", `/api/content/${id}`),
+  getVariants: (id: string) =>
+    request<VariantStats[]>("GET", `/api/v1/content/${id}/variants`),
+  preferVariant: (id: string) =>
+    request<VariantStats[]>("POST", `/api/v1/content/${id}/prefer`),
+  clearPreferredVariant: (id: string) =>
+    request<VariantStats[]>("DELETE", `/api/v1/content/${id}/prefer`),
 };
 
 // ---------------------------------------------------------------------------
@@ -236,15 +660,40 @@ export const queueApi = {
 // ---------------------------------------------------------------------------
 
 export const scheduleApi = {
-  getSchedule: () => request<ScheduleSlot[]>("GET", "/api/schedule"),
-  createSlot: (slot: Omit<ScheduleSlot, "id">) =>
-    request<ScheduleSlot>("POST", "/api/schedule", slot),
-  updateSlot: (id: string, slot: Partial<ScheduleSlot>) =>
-    request<ScheduleSlot>("PATCH", `/api/schedule/${id}`, slot),
+  /** With a range, recurring slots come back once per occurrence in it */
+  getSchedule: (range?: { from: string; to: string }) => {
+    const qs = range
+      ? `?from=${encodeURIComponent(range.from)}&to=${encodeURIComponent(range.to)}`
+      : "";
+    return request<ScheduleSlot[]>("GET", `/api/v1/schedule${qs}`);
+  },
+  /** Without a mode the engine's scheduleConflictMode setting applies */
+  createSlot: (slot: ScheduleSlotInput, onConflict?: ConflictMode) =>
+    request<SavedScheduleSlot>(
+      "POST",
+      `/api/v1/schedule${onConflict ? `?onConflict=${onConflict}` : ""}`,
+      slot
+    ),
+  updateSlot: (id: string, slot: Partial<ScheduleSlotInput>, onConflict?: ConflictMode) =>
+    request<SavedScheduleSlot | ScheduleSlot>(
+      "PUT",
+      `/api/v1/schedule/${id}${onConflict ? `?onConflict=${onConflict}` : ""}`,
+      slot
+    ),
+  /** Overlaps and content problems of occurrences starting in the range */
+  getConflicts: (range: { from: string; to: string }) =>
+    request<ScheduleConflict[]>(
+      "GET",
+      `/api/v1/schedule/conflicts?from=${encodeURIComponent(range.from)}&to=${encodeURIComponent(range.to)}`
+    ),
   deleteSlot: (id: string) =>
-    request<{ ok: boolean }>("DELETE", `/api/schedule/${id}`),
+    request<{ success: boolean }>("DELETE", `/api/v1/schedule/${id}`),
+  /** Leave out one occurrence of a recurring slot */
+  skipOccurrence: (id: string, occurrence: string) =>
+    request<ScheduleSlot>("POST", `/api/v1/schedule/${id}/exceptions`, { occurrence }),
+  /** Dry run of the scheduler over a local day, date as YYYY-MM-DD */
   getPreview: (date: string) =>
-    request<QueueItem[]>("GET", `/api/schedule/preview?date=${date}`),
+    request<SchedulePreview>("GET", `/api/v1/schedule/preview?date=${date}`),
 };
 
 // ---------------------------------------------------------------------------
@@ -252,9 +701,39 @@ export const scheduleApi = {
 // ---------------------------------------------------------------------------
 
 export const rotationApi = {
-  getRotation: () => request<Rotation[]>("GET", "/api/rotation"),
-  updateRotation: (id: string, items: RotationItem[]) =>
-    request<Rotation>("PUT", `/api/rotation/${id}`, { items }),
+  listGroups: () => request<RotationGroup[]>("GET", "/api/v1/rotation/groups"),
+  getActiveGroup: () =>
+    request<{ at: string; group: RotationGroup | null }>("GET", "/api/v1/rotation/groups/active"),
+  createGroup: (group: RotationGroupInput & { name: string }) =>
+    request<RotationGroup>("POST", "/api/v1/rotation/groups", group),
+  /** A new pattern starts over from its first step */
+  updateGroup: (id: string, group: RotationGroupInput) =>
+    request<RotationGroup>("PUT", `/api/v1/rotation/groups/${id}`, group),
+  deleteGroup: (id: string) =>
+    request<{ success: boolean }>("DELETE", `/api/v1/rotation/groups/${id}`),
+  getSeparation: () => request<SeparationSettings>("GET", "/api/v1/rotation/separation"),
+  updateSeparation: (settings: Partial<SeparationSettings>) =>
+    request<SeparationSettings>("PUT", "/api/v1/rotation/separation", settings),
+};
+
+// ---------------------------------------------------------------------------
+// Format clocks API
+// ---------------------------------------------------------------------------
+
+export const clocksApi = {
+  listClocks: () => request<FormatClock[]>("GET", "/api/v1/clocks"),
+  getActiveClock: () =>
+    request<{ at: string; clock: FormatClock | null }>("GET", "/api/v1/clocks/active"),
+  createClock: (clock: Pick<FormatClock, "name" | "segments"> & { description?: string }) =>
+    request<FormatClock>("POST", "/api/v1/clocks", clock),
+  updateClock: (id: string, clock: Partial<Pick<FormatClock, "name" | "description" | "segments">>) =>
+    request<FormatClock>("PUT", `/api/v1/clocks/${id}`, clock),
+  deleteClock: (id: string) =>
+    request<{ success: boolean }>("DELETE", `/api/v1/clocks/${id}`),
+  getAssignments: () =>
+    request<ClockAssignment[]>("GET", "/api/v1/clocks/assignments"),
+  updateAssignments: (assignments: ClockAssignment[]) =>
+    request<ClockAssignment[]>("PUT", "/api/v1/clocks/assignments", { assignments }),
 };
 
 // ---------------------------------------------------------------------------
@@ -272,9 +751,111 @@ export const settingsApi = {
 // ---------------------------------------------------------------------------
 
 export const pipelineApi = {
-  getPipeline: () => request<PipelineStatus>("GET", "/api/pipeline"),
-  triggerSong: () =>
-    request<PipelineJob>("POST", "/api/pipeline/trigger/song"),
+  getPipeline: () => request<PipelineStatus>("GET", "/api/v1/pipeline"),
+  triggerSong: (body: SongTriggerRequest = {}) =>
+    request<PipelineJob>("POST", "/api/v1/pipeline/song/trigger", body),
   triggerNews: () =>
-    request<PipelineJob>("POST", "/api/pipeline/trigger/news"),
+    request<PipelineJob>("POST", "/api/v1/pipeline/news/trigger", {}),
+};
+
+// ---------------------------------------------------------------------------
+// Costs API
+// ---------------------------------------------------------------------------
+
+export const costsApi = {
+  getCosts: () => request<CostSummary>("GET", "/api/v1/costs"),
+};
+
+// ---------------------------------------------------------------------------
+// Breaking news API
+// ---------------------------------------------------------------------------
+
+export const breakingNewsApi = {
+  getAlerts: () => request<BreakingAlert[]>("GET", "/api/v1/breaking-news"),
+  confirm: (id: string) =>
+    request<BreakingAlert>("POST", `/api/v1/breaking-news/${id}/confirm`, {}),
+  reject: (id: string) =>
+    request<BreakingAlert>("POST", `/api/v1/breaking-news/${id}/reject`, {}),
 };
+
+// ---------------------------------------------------------------------------
+// Stream outputs API
+// ---------------------------------------------------------------------------
+
+export const streamOutputsApi = {
+  list: () => request<StreamOutput[]>("GET", "/api/v1/stream/outputs"),
+  create: (output: StreamOutputInput) =>
+    request<StreamOutput>("POST", "/api/v1/stream/outputs", output),
+  update: (id: string, output: Partial<StreamOutputInput>) =>
+    request<StreamOutput>("PUT", `/api/v1/stream/outputs/${id}`, output),
+  remove: (id: string) =>
+    request<{ success: boolean }>("DELETE", `/api/v1/stream/outputs/${id}`),
+};
+
+// ---------------------------------------------------------------------------
+// Stream API
+// ---------------------------------------------------------------------------
+
+export const streamApi = {
+  getStatus: () => request<StreamStatus>("GET", "/api/v1/stream/status"),
+  getEvents: (limit = 50) =>
+    request<StreamEvent[]>("GET", `/api/v1/stream/events?limit=${limit}`),
+  getOverlay: () => request<OverlayState>("GET", "/api/v1/stream/overlay"),
+  updateOverlay: (fields: Partial<Record<OverlayOperatorField, string | null>>) =>
+    request<OverlayState>("PUT", "/api/v1/stream/overlay", fields),
+  listOverlayTemplates: () =>
+    request<OverlayTemplate[]>("GET", "/api/v1/stream/overlay/templates"),
+  createOverlayTemplate: (data: { name: string; layers: OverlayLayer[] }) =>
+    request<OverlayTemplate>("POST", "/api/v1/stream/overlay/templates", data),
+  updateOverlayTemplate: (id: string, data: { name?: string; layers?: OverlayLayer[] }) =>
+    request<OverlayTemplate>("PUT", `/api/v1/stream/overlay/templates/${id}`, data),
+  deleteOverlayTemplate: (id: string) =>
+    request<{ success: boolean }>("DELETE", `/api/v1/stream/overlay/templates/${id}`),
+  getOverlayAssignments: () =>
+    request<Record<string, string>>("GET", "/api/v1/stream/overlay/assignments"),
+  updateOverlayAssignments: (assignments: Record<string, string | null>) =>
+    request<Record<string, string>>("PUT", "/api/v1/stream/overlay/assignments", assignments),
+  getTicker: () => request<TickerState>("GET", "/api/v1/stream/ticker"),
+  updateTicker: (settings: Partial<TickerSettings>) =>
+    request<TickerState>("PUT", "/api/v1/stream/ticker", settings),
+  refreshTicker: () => request<TickerState>("POST", "/api/v1/stream/ticker/refresh"),
+  getCaptions: () => request<CaptionState>("GET", "/api/v1/stream/captions"),
+  updateCaptions: (settings: Partial<CaptionSettings>) =>
+    request<CaptionState>("PUT", "/api/v1/stream/captions", settings),
+  getVisualizer: () => request<VisualizerState>("GET", "/api/v1/stream/visualizer"),
+  updateVisualizer: (assignments: Record<string, VisualizerMode | null>) =>
+    request<VisualizerState>("PUT", "/api/v1/stream/visualizer", assignments),
+  /** PNG of one overlay frame */
+  previewOverlay: (body: OverlayPreviewRequest) => requestBlob("/api/v1/stream/overlay/preview", body),
+};
+
+// ---------------------------------------------------------------------------
+// Backgrounds API
+// ---------------------------------------------------------------------------
+
+export const backgroundsApi = {
+  listImages: () => request<BackgroundImage[]>("GET", "/api/v1/backgrounds"),
+  /** FormData with file, and optionally name and comma-separated tags */
+  uploadImage: (formData: FormData) =>
+    uploadFile<BackgroundImage>("/api/v1/backgrounds/upload", formData),
+  updateImage: (id: string, data: { name?: string; tags?: string[] }) =>
+    request<BackgroundImage>("PATCH", `/api/v1/backgrounds/${id}`, data),
+  deleteImage: (id: string) =>
+    request<{ success: boolean }>("DELETE", `/api/v1/backgrounds/${id}`),
+  imageUrl: (id: string) => `${BASE_URL}/api/v1/backgrounds/${id}/image`,
+  getCurrent: () => request<BackgroundState>("GET", "/api/v1/backgrounds/current"),
+  listRules: () => request<BackgroundRule[]>("GET", "/api/v1/backgrounds/rules"),
+  createRule: (rule: BackgroundRuleInput) =>
+    request<BackgroundRule>("POST", "/api/v1/backgrounds/rules", rule),
+  updateRule: (id: string, rule: BackgroundRuleInput) =>
+    request<BackgroundRule>("PUT", `/api/v1/backgrounds/rules/${id}`, rule),
+  deleteRule: (id: string) =>
+    request<{ success: boolean }>("DELETE", `/api/v1/backgrounds/rules/${id}`),
+};
+
+// ---------------------------------------------------------------------------
+// Live stream
+// ---------------------------------------------------------------------------
+
+/** Rolling HLS playlist of the on-air program, served by the engine while the stream runs */
+export const LIVE_STREAM_URL = `${BASE_URL}/live/index.m3u8`;
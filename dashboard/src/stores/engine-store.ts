@@ -1,5 +1,12 @@
 import { create } from "zustand";
-import type { EngineStatus, NowPlaying, QueueItem, BufferStatus } from "@/lib/api";
+import type {
+  EngineStatus,
+  NowPlaying,
+  QueueItem,
+  BufferStatus,
+  PipelineJob,
+  StreamStatus,
+} from "@/lib/api";
 
 export type AlertSeverity = "info" | "warning" | "error";
 
@@ -10,13 +17,8 @@ export interface Alert {
   timestamp: number;
 }
 
-export interface PipelineJobUpdate {
-  id: string;
-  stage: string;
-  status: "pending" | "running" | "done" | "error";
-  progress?: number;
-  error?: string;
-}
+/** Payload of the engine's `pipeline:job-update` socket event */
+export type PipelineJobUpdate = PipelineJob;
 
 interface EngineState {
   // Server state
@@ -26,6 +28,7 @@ interface EngineState {
   bufferStatus: BufferStatus | null;
   alerts: Alert[];
   pipelineJobs: PipelineJobUpdate[];
+  streamStatus: StreamStatus | null;
   socketConnected: boolean;
 
   // Actions
@@ -33,6 +36,7 @@ interface EngineState {
   setNowPlaying: (track: NowPlaying | null) => void;
   setQueue: (queue: QueueItem[]) => void;
   setBufferStatus: (status: BufferStatus) => void;
+  setStreamStatus: (status: StreamStatus) => void;
   setSocketConnected: (connected: boolean) => void;
   updatePipelineJob: (job: PipelineJobUpdate) => void;
   addAlert: (severity: AlertSeverity, message: string) => void;
@@ -46,6 +50,7 @@ export const useEngineStore = create<EngineState>()((set) => ({
   bufferStatus: null,
   alerts: [],
   pipelineJobs: [],
+  streamStatus: null,
   socketConnected: false,
 
   setEngineStatus: (status) => set({ engineStatus: status }),
@@ -56,6 +61,8 @@ export const useEngineStore = create<EngineState>()((set) => ({
 
   setBufferStatus: (status) => set({ bufferStatus: status }),
 
+  setStreamStatus: (status) => set({ streamStatus: status }),
+
   setSocketConnected: (connected) => set({ socketConnected: connected }),
 
   updatePipelineJob: (job) =>
@@ -66,7 +73,7 @@ export const useEngineStore = create<EngineState>()((set) => ({
         updated[existing] = job;
         return { pipelineJobs: updated };
       }
-      return { pipelineJobs: [...state.pipelineJobs, job] };
+      return { pipelineJobs: [...state.pipelineJobs, job].slice(-50) };
     }),
 
   addAlert: (severity, message) =>
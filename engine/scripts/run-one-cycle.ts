@@ -1,7 +1,11 @@
 /**
  * Run a single production cycle: RSS → Synthesis → Lyrics → Suno generation
+ *
+ * With PROVIDER_MODE=fake no network is used, and the cycle fails unless it
+ * produced at least one song and one podcast episode.
  */
 import 'dotenv/config';
+import { isFakeMode } from '../src/config.js';
 import { Pipeline } from '../src/services/pipeline.js';
 
 async function main() {
@@ -15,6 +19,7 @@ async function main() {
   console.log(`  Stories synthesized: ${result.storiesSynthesized}`);
   console.log(`  Lyrics generated: ${result.lyricsGenerated}`);
   console.log(`  Songs produced: ${result.songsProduced}`);
+  console.log(`  Podcasts produced: ${result.podcastsProduced}`);
   if (result.errors.length > 0) {
     console.log(`  Errors (${result.errors.length}):`);
     for (const err of result.errors) {
@@ -23,6 +28,11 @@ async function main() {
   }
 
   await pipeline.stop();
+
+  if (isFakeMode() && (result.songsProduced < 1 || result.podcastsProduced < 1)) {
+    console.error('\nFake cycle must produce at least one song and one podcast');
+    process.exit(1);
+  }
   process.exit(0);
 }
 
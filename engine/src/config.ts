@@ -2,11 +2,15 @@ import 'dotenv/config';
 import { z } from 'zod';
 
 const envSchema = z.object({
+  // 'fake' swaps LLM, Suno, TTS and RSS for deterministic local stand-ins (no network, no keys)
+  PROVIDER_MODE: z.enum(['live', 'fake']).default('live'),
   ANTHROPIC_API_KEY: z.string().optional(),
   AI_MODEL: z.string().default('claude-sonnet-4-20250514'),
   ENGINE_PORT: z.coerce.number().default(3001),
   DATABASE_PATH: z.string().default('./data/radiowar.db'),
   MEDIA_DIR: z.string().default(`${process.env.HOME}/Downloads/media`),
+  // Rolling playlist and segments for the built-in listen-live stream (served at /live/index.m3u8)
+  LIVE_HLS_DIR: z.string().default('./data/live'),
   SESSION_PATH: z.string().default('./data/sessions/storageState.json'),
   LOG_LEVEL: z.enum(['fatal', 'error', 'warn', 'info', 'debug', 'trace']).default('info'),
   SUNO_API_KEY: z.string().optional(),
@@ -23,6 +27,11 @@ const envSchema = z.object({
   PODCAST_VOICE: z.string().default('en-US-GuyNeural'),
   PODCAST_INTERVAL_MS: z.coerce.number().default(4 * 60 * 60 * 1000),
   PODCAST_TARGET_MINUTES: z.coerce.number().default(7),
+  // Spending caps in USD (0 = no cap). Over a cap, songs and podcasts pause; news keeps running.
+  BUDGET_DAILY_USD: z.coerce.number().default(1.5),
+  BUDGET_MONTHLY_USD: z.coerce.number().default(30),
+  SUNO_CREDIT_USD: z.coerce.number().default(0.005),
+  SUNO_CREDITS_PER_TASK: z.coerce.number().default(12),
 });
 
 export type EnvConfig = z.infer<typeof envSchema>;
@@ -43,3 +52,8 @@ export function getConfig(): EnvConfig {
   }
   return _config;
 }
+
+/** True when providers are replaced by local fakes (CI, offline development). */
+export function isFakeMode(): boolean {
+  return getConfig().PROVIDER_MODE === 'fake';
+}
@@ -60,6 +60,21 @@ export function getDb() {
         pattern_group_id TEXT NOT NULL DEFAULT 'default'
       );
 
+      CREATE TABLE IF NOT EXISTS rotation_groups (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL UNIQUE,
+        cursor INTEGER NOT NULL DEFAULT 0,
+        created_at INTEGER NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS rotation_group_assignments (
+        id TEXT PRIMARY KEY,
+        group_id TEXT NOT NULL REFERENCES rotation_groups(id) ON DELETE CASCADE,
+        weekday INTEGER CHECK(weekday BETWEEN 0 AND 6),
+        hour_start INTEGER CHECK(hour_start BETWEEN 0 AND 23),
+        hour_end INTEGER CHECK(hour_end BETWEEN 0 AND 23)
+      );
+
       CREATE TABLE IF NOT EXISTS settings (
         key TEXT PRIMARY KEY,
         value TEXT NOT NULL,
@@ -108,6 +123,130 @@ export function getDb() {
         ended_at INTEGER,
         source TEXT NOT NULL CHECK(source IN ('rotation', 'scheduled', 'override', 'manual'))
       );
+
+      CREATE TABLE IF NOT EXISTS production_cycles (
+        id TEXT PRIMARY KEY,
+        cycle_number INTEGER NOT NULL,
+        status TEXT NOT NULL DEFAULT 'running' CHECK(status IN ('running', 'completed', 'failed')),
+        current_phase TEXT,
+        attempts INTEGER NOT NULL DEFAULT 1,
+        result TEXT,
+        started_at INTEGER NOT NULL,
+        completed_at INTEGER
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_production_cycles_status ON production_cycles(status);
+
+      CREATE TABLE IF NOT EXISTS cycle_phases (
+        id TEXT PRIMARY KEY,
+        cycle_id TEXT NOT NULL REFERENCES production_cycles(id) ON DELETE CASCADE,
+        phase TEXT NOT NULL CHECK(phase IN ('scraping', 'synthesizing', 'podcast', 'lyrics', 'generating_songs')),
+        status TEXT NOT NULL DEFAULT 'running' CHECK(status IN ('running', 'completed', 'failed')),
+        output TEXT,
+        error TEXT,
+        started_at INTEGER NOT NULL,
+        completed_at INTEGER,
+        UNIQUE(cycle_id, phase)
+      );
+
+      CREATE TABLE IF NOT EXISTS format_clocks (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        description TEXT,
+        segments TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS clock_assignments (
+        id TEXT PRIMARY KEY,
+        clock_id TEXT NOT NULL REFERENCES format_clocks(id) ON DELETE CASCADE,
+        weekday INTEGER CHECK(weekday BETWEEN 0 AND 6),
+        hour INTEGER CHECK(hour BETWEEN 0 AND 23)
+      );
+
+      CREATE TABLE IF NOT EXISTS cost_ledger (
+        id TEXT PRIMARY KEY,
+        provider TEXT NOT NULL CHECK(provider IN ('anthropic', 'suno')),
+        purpose TEXT NOT NULL,
+        model TEXT,
+        input_tokens INTEGER,
+        output_tokens INTEGER,
+        credits REAL,
+        cost_usd REAL NOT NULL,
+        reference TEXT,
+        created_at INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_cost_ledger_created ON cost_ledger(created_at);
+
+      CREATE TABLE IF NOT EXISTS stream_outputs (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        type TEXT NOT NULL CHECK(type IN ('rtmp', 'icecast', 'hls')),
+        url TEXT NOT NULL,
+        backup_url TEXT,
+        stream_key TEXT,
+        username TEXT,
+        password TEXT,
+        enabled INTEGER NOT NULL DEFAULT 1,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS overlay_templates (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        layers TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS track_lyrics (
+        content_id TEXT PRIMARY KEY REFERENCES content(id) ON DELETE CASCADE,
+        lyrics TEXT NOT NULL,
+        lines TEXT NOT NULL,
+        timing TEXT NOT NULL CHECK(timing IN ('estimated', 'aligned')),
+        updated_at INTEGER NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS background_images (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        file_path TEXT NOT NULL,
+        tags TEXT NOT NULL DEFAULT '[]',
+        created_at INTEGER NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS background_rules (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        priority INTEGER NOT NULL DEFAULT 0,
+        content_type TEXT,
+        genre TEXT,
+        hour_start INTEGER,
+        hour_end INTEGER,
+        tag TEXT,
+        slideshow_seconds INTEGER,
+        enabled INTEGER NOT NULL DEFAULT 1,
+        created_at INTEGER NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS stream_events (
+        id TEXT PRIMARY KEY,
+        type TEXT NOT NULL CHECK(type IN (
+          'stream_started', 'stream_stopped',
+          'encoder_restarted', 'encoder_degraded', 'encoder_recovered',
+          'output_down', 'output_recovered', 'output_degraded', 'failover'
+        )),
+        output_id TEXT,
+        output_name TEXT,
+        message TEXT NOT NULL,
+        details TEXT,
+        created_at INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_stream_events_created ON stream_events(created_at);
     `);
 
     logger.info('Database tables initialized');
@@ -1,4 +1,4 @@
-import { sqliteTable, text, integer } from 'drizzle-orm/sqlite-core';
+import { sqliteTable, text, integer, real } from 'drizzle-orm/sqlite-core';
 import { nanoid } from 'nanoid';
 
 export const content = sqliteTable('content', {
@@ -39,6 +39,25 @@ export const rotationPattern = sqliteTable('rotation_pattern', {
   patternGroupId: text('pattern_group_id').notNull().default('default'),
 });
 
+// Named rotation patterns ('default' always exists and runs when no assignment matches).
+// Each keeps its own place in its pattern.
+export const rotationGroups = sqliteTable('rotation_groups', {
+  id: text('id').primaryKey().$defaultFn(() => nanoid()),
+  name: text('name').notNull().unique(),
+  cursor: integer('cursor').notNull().default(0),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
+// When a rotation group runs. NULL weekday or hours match any; hourEnd is
+// exclusive and may wrap past midnight. The most specific match wins.
+export const rotationGroupAssignments = sqliteTable('rotation_group_assignments', {
+  id: text('id').primaryKey().$defaultFn(() => nanoid()),
+  groupId: text('group_id').notNull().references(() => rotationGroups.id, { onDelete: 'cascade' }),
+  weekday: integer('weekday'), // 0=Sun ... 6=Sat
+  hourStart: integer('hour_start'), // 0-23
+  hourEnd: integer('hour_end'), // 0-23
+});
+
 export const settings = sqliteTable('settings', {
   key: text('key').primaryKey(),
   value: text('value', { mode: 'json' }).notNull().$type<unknown>(),
@@ -82,6 +101,195 @@ export const audioTracks = sqliteTable('audio_tracks', {
   cycleNumber: integer('cycle_number'),
 });
 
+export const productionCycles = sqliteTable('production_cycles', {
+  id: text('id').primaryKey().$defaultFn(() => nanoid()),
+  cycleNumber: integer('cycle_number').notNull(),
+  status: text('status', { enum: ['running', 'completed', 'failed'] }).notNull().default('running'),
+  currentPhase: text('current_phase'),
+  attempts: integer('attempts').notNull().default(1),
+  result: text('result', { mode: 'json' }).$type<Record<string, unknown>>(),
+  startedAt: integer('started_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+  completedAt: integer('completed_at', { mode: 'timestamp' }),
+});
+
+export const cyclePhases = sqliteTable('cycle_phases', {
+  id: text('id').primaryKey().$defaultFn(() => nanoid()),
+  cycleId: text('cycle_id').notNull().references(() => productionCycles.id, { onDelete: 'cascade' }),
+  phase: text('phase', { enum: ['scraping', 'synthesizing', 'podcast', 'lyrics', 'generating_songs'] }).notNull(),
+  status: text('status', { enum: ['running', 'completed', 'failed'] }).notNull().default('running'),
+  output: text('output', { mode: 'json' }).$type<unknown>(),
+  error: text('error'),
+  startedAt: integer('started_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+  completedAt: integer('completed_at', { mode: 'timestamp' }),
+});
+
+/** One fixed point in an hour: at `minute`, play `contentType`, else walk `fallback` */
+export interface ClockSegment {
+  minute: number; // 0-59
+  contentType: 'song' | 'podcast' | 'news_block' | 'ad' | 'jingle';
+  fallback: Array<ClockSegment['contentType'] | 'rotation'>;
+}
+
+export const formatClocks = sqliteTable('format_clocks', {
+  id: text('id').primaryKey().$defaultFn(() => nanoid()),
+  name: text('name').notNull(),
+  description: text('description'),
+  segments: text('segments', { mode: 'json' }).notNull().$type<ClockSegment[]>(),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
+// Which clock runs when. NULL weekday/hour matches any; the most specific match wins.
+export const clockAssignments = sqliteTable('clock_assignments', {
+  id: text('id').primaryKey().$defaultFn(() => nanoid()),
+  clockId: text('clock_id').notNull().references(() => formatClocks.id, { onDelete: 'cascade' }),
+  weekday: integer('weekday'), // 0=Sun ... 6=Sat
+  hour: integer('hour'), // 0-23
+});
+
+// Every paid provider call: LLM tokens or Suno credits, with a USD estimate
+export const costLedger = sqliteTable('cost_ledger', {
+  id: text('id').primaryKey().$defaultFn(() => nanoid()),
+  provider: text('provider', { enum: ['anthropic', 'suno'] }).notNull(),
+  purpose: text('purpose').notNull(),
+  model: text('model'),
+  inputTokens: integer('input_tokens'),
+  outputTokens: integer('output_tokens'),
+  credits: real('credits'),
+  costUsd: real('cost_usd').notNull(),
+  reference: text('reference'), // e.g. Suno task ID
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
+// Destinations the encoded program is published to. Credentials by type:
+// rtmp uses url + stream_key, icecast url + username/password, hls url as an output directory.
+// rtmp outputs may name a backup ingest to fail over to (same stream key).
+export const streamOutputs = sqliteTable('stream_outputs', {
+  id: text('id').primaryKey().$defaultFn(() => nanoid()),
+  name: text('name').notNull(),
+  type: text('type', { enum: ['rtmp', 'icecast', 'hls'] }).notNull(),
+  url: text('url').notNull(),
+  backupUrl: text('backup_url'),
+  streamKey: text('stream_key'),
+  username: text('username'),
+  password: text('password'),
+  enabled: integer('enabled', { mode: 'boolean' }).notNull().default(true),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
+/** One layer of an overlay template; text may contain {{bindings}} */
+export interface TextLayer {
+  type: 'text';
+  /** May contain bindings, e.g. `{{track.title}}` or `{{metadata.genre | upper}}` */
+  text: string;
+  x: number;
+  y: number;
+  size?: number;
+  color?: string; // #rrggbb or #rrggbbaa
+  /** x is the left edge, center or right edge of the text */
+  align?: 'left' | 'center' | 'right';
+  font?: string; // absolute path; defaults to FONT_PATH
+  borderWidth?: number;
+  borderColor?: string;
+  /** Box drawn behind the text */
+  background?: string;
+}
+
+export interface ImageLayer {
+  type: 'image';
+  /** Path relative to MEDIA_DIR */
+  src: string;
+  x: number;
+  y: number;
+  width?: number;
+  height?: number;
+  opacity?: number;
+}
+
+export interface RectLayer {
+  type: 'rect';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  color: string;
+}
+
+export type OverlayLayer = TextLayer | ImageLayer | RectLayer;
+
+// Overlay layouts: layers of text, images and shapes with {{bindings}}, chosen per
+// content type through the overlayTemplateByType setting
+export const overlayTemplates = sqliteTable('overlay_templates', {
+  id: text('id').primaryKey().$defaultFn(() => nanoid()),
+  name: text('name').notNull(),
+  layers: text('layers', { mode: 'json' }).notNull().$type<OverlayLayer[]>(),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
+/** One caption line of a song, timed from the start of the track */
+export interface LyricLine {
+  text: string;
+  /** Section marker it belongs to, e.g. "Chorus" */
+  section: string | null;
+  start: number; // seconds
+  end: number;
+}
+
+// Song lyrics with per-line timing for on-stream captions; timing is estimated
+// from the song structure unless word alignment was available
+export const trackLyrics = sqliteTable('track_lyrics', {
+  contentId: text('content_id').primaryKey().references(() => content.id, { onDelete: 'cascade' }),
+  lyrics: text('lyrics').notNull(),
+  lines: text('lines', { mode: 'json' }).notNull().$type<LyricLine[]>(),
+  timing: text('timing', { enum: ['estimated', 'aligned'] }).notNull(),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
+// Station background image library; files are normalized to 1920x1080 PNG
+// under MEDIA_DIR/backgrounds
+export const backgroundImages = sqliteTable('background_images', {
+  id: text('id').primaryKey().$defaultFn(() => nanoid()),
+  name: text('name').notNull(),
+  filePath: text('file_path').notNull(), // relative to MEDIA_DIR
+  tags: text('tags', { mode: 'json' }).notNull().$type<string[]>().$defaultFn(() => []),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
+// Which backgrounds show when: the first enabled rule (by priority) whose
+// conditions all match the track on air picks from the images with its tag
+export const backgroundRules = sqliteTable('background_rules', {
+  id: text('id').primaryKey().$defaultFn(() => nanoid()),
+  name: text('name').notNull(),
+  priority: integer('priority').notNull().default(0), // lower runs first
+  contentType: text('content_type'), // null = any
+  genre: text('genre'), // matched against metadata.genre, case-insensitive; null = any
+  hourStart: integer('hour_start'), // 0-23, local time; with hourEnd, wraps past midnight
+  hourEnd: integer('hour_end'), // exclusive
+  tag: text('tag'), // images to pick from; null = the whole library
+  slideshowSeconds: integer('slideshow_seconds'), // cycle images this often; null = one per track
+  enabled: integer('enabled', { mode: 'boolean' }).notNull().default(true),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
+// Stream health history: encoder restarts, output failures, degradation and failovers
+export const streamEvents = sqliteTable('stream_events', {
+  id: text('id').primaryKey().$defaultFn(() => nanoid()),
+  type: text('type', {
+    enum: [
+      'stream_started', 'stream_stopped',
+      'encoder_restarted', 'encoder_degraded', 'encoder_recovered',
+      'output_down', 'output_recovered', 'output_degraded', 'failover',
+    ],
+  }).notNull(),
+  outputId: text('output_id'), // null for encoder/stream events; not a foreign key so history survives deletes
+  outputName: text('output_name'),
+  message: text('message').notNull(),
+  details: text('details', { mode: 'json' }).$type<Record<string, unknown>>(),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
 // Type exports
 export type AudioTrack = typeof audioTracks.$inferSelect;
 export type NewAudioTrack = typeof audioTracks.$inferInsert;
@@ -92,4 +300,19 @@ export type NewContent = typeof content.$inferInsert;
 export type ScheduleSlot = typeof scheduleSlots.$inferSelect;
 export type NewScheduleSlot = typeof scheduleSlots.$inferInsert;
 export type RotationStep = typeof rotationPattern.$inferSelect;
+export type RotationGroup = typeof rotationGroups.$inferSelect;
+export type RotationGroupAssignment = typeof rotationGroupAssignments.$inferSelect;
 export type PlaybackEntry = typeof playbackLog.$inferSelect;
+export type ProductionCycle = typeof productionCycles.$inferSelect;
+export type CyclePhase = typeof cyclePhases.$inferSelect;
+export type CyclePhaseName = CyclePhase['phase'];
+export type FormatClock = typeof formatClocks.$inferSelect;
+export type ClockAssignment = typeof clockAssignments.$inferSelect;
+export type CostEntry = typeof costLedger.$inferSelect;
+export type StreamOutput = typeof streamOutputs.$inferSelect;
+export type OverlayTemplate = typeof overlayTemplates.$inferSelect;
+export type TrackLyrics = typeof trackLyrics.$inferSelect;
+export type BackgroundImage = typeof backgroundImages.$inferSelect;
+export type BackgroundRule = typeof backgroundRules.$inferSelect;
+export type StreamEvent = typeof streamEvents.$inferSelect;
+export type StreamEventType = StreamEvent['type'];
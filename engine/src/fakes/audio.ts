@@ -0,0 +1,104 @@
+import { spawn } from 'child_process';
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { logger } from '../utils/logger.js';
+
+/** Rough speaking rate used to size tone stand-ins for speech */
+const WORDS_PER_SECOND = 2.5;
+
+/**
+ * Render a sine tone to an MP3 via ffmpeg. The pitch is derived from `seed`
+ * so the same title always produces the same file.
+ */
+export async function renderTone(
+  outputPath: string,
+  options: { seconds: number; seed: string },
+): Promise<void> {
+  await fs.mkdir(path.dirname(outputPath), { recursive: true });
+
+  const frequency = toneFrequency(options.seed);
+  await runProcess('ffmpeg', [
+    '-hide_banner', '-loglevel', 'error',
+    '-f', 'lavfi',
+    '-i', `sine=frequency=${frequency}:duration=${options.seconds}`,
+    '-ac', '2',
+    '-ar', '44100',
+    '-b:a', '128k',
+    '-y', outputPath,
+  ]);
+
+  logger.debug({ outputPath, frequency, seconds: options.seconds }, 'Fake tone rendered');
+}
+
+/**
+ * Render speech for `text` with espeak when installed, otherwise a tone
+ * whose length roughly matches how long the text would take to read.
+ */
+export async function renderSpeech(text: string, outputPath: string): Promise<void> {
+  await fs.mkdir(path.dirname(outputPath), { recursive: true });
+
+  const espeak = await findCommand(['espeak-ng', 'espeak']);
+  if (!espeak) {
+    const words = text.trim().split(/\s+/).length;
+    await renderTone(outputPath, { seconds: Math.max(2, Math.ceil(words / WORDS_PER_SECOND)), seed: text });
+    return;
+  }
+
+  const wavPath = path.join(os.tmpdir(), `radiowar-espeak-${crypto.randomUUID()}.wav`);
+  try {
+    await runProcess(espeak, ['-w', wavPath, text]);
+    await runProcess('ffmpeg', [
+      '-hide_banner', '-loglevel', 'error',
+      '-i', wavPath,
+      '-ac', '2',
+      '-ar', '44100',
+      '-b:a', '128k',
+      '-y', outputPath,
+    ]);
+  } finally {
+    await fs.unlink(wavPath).catch(() => undefined);
+  }
+
+  logger.debug({ outputPath, engine: espeak }, 'Fake speech rendered');
+}
+
+/** Map a string onto 220–880 Hz */
+function toneFrequency(seed: string): number {
+  const n = crypto.createHash('sha256').update(seed).digest().readUInt16BE(0);
+  return 220 + (n % 661);
+}
+
+async function findCommand(candidates: string[]): Promise<string | null> {
+  for (const command of candidates) {
+    const found = await new Promise<boolean>((resolve) => {
+      const proc = spawn('which', [command], { stdio: 'ignore' });
+      proc.on('close', (code) => resolve(code === 0));
+      proc.on('error', () => resolve(false));
+    });
+    if (found) return command;
+  }
+  return null;
+}
+
+function runProcess(command: string, args: string[]): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    const proc = spawn(command, args, { stdio: ['ignore', 'ignore', 'pipe'] });
+
+    const stderr: string[] = [];
+    proc.stderr.on('data', (chunk: Buffer) => stderr.push(chunk.toString()));
+
+    proc.on('close', (code) => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`${command} exited with code ${code}: ${stderr.join('').trim()}`));
+      }
+    });
+
+    proc.on('error', (err) => {
+      reject(new Error(`Failed to spawn ${command}: ${err.message}`));
+    });
+  });
+}
@@ -0,0 +1,92 @@
+/**
+ * Canned Claude responses for PROVIDER_MODE=fake.
+ * Output is deterministic for a given prompt and passes the same parsers
+ * (parseSynthesisResponse, parseLyricsResponse, parsePodcastScriptResponse,
+ * parseBreakingNewsResponse) as real responses.
+ */
+
+const FAKE_GENRES_LINE = /Write a (.+?) hit song/;
+
+export function fakeClaudeResponse(userPrompt: string, purpose: string): string {
+  switch (purpose) {
+    case 'news-synthesis':
+      return fakeSynthesis(userPrompt);
+    case 'lyrics':
+      return fakeLyrics(userPrompt);
+    case 'podcast-script':
+      return fakePodcastScript(userPrompt);
+    case 'breaking-news':
+      return fakeBreakingNews(userPrompt);
+    default:
+      return JSON.stringify({ text: `Fake response for ${purpose}` });
+  }
+}
+
+function fakeSynthesis(userPrompt: string): string {
+  const count = Number(userPrompt.match(/exactly (\d+) unique story angles/)?.[1] ?? 1);
+  const articles = [...userPrompt.matchAll(/\[ID: ([^\]]+)\] \[Source: [^\]]+\] (.+)/g)]
+    .map(m => ({ id: m[1], title: m[2].trim() }));
+
+  const stories = Array.from({ length: Math.max(1, Math.min(count, articles.length || 1)) }, (_, i) => {
+    const article = articles[i];
+    const headline = article?.title ?? `Fake story ${i + 1}`;
+    return {
+      headline,
+      summary: `${headline}. Officials confirmed the details today; more updates are expected.`,
+      angle: `Why "${headline}" matters at home`,
+      sourceArticleIds: article ? [article.id] : [],
+      importance: 10 - (i % 10),
+    };
+  });
+
+  return JSON.stringify(stories);
+}
+
+function fakeLyrics(userPrompt: string): string {
+  const headline = userPrompt.match(/HEADLINE: (.+)/)?.[1]?.trim() ?? 'The News Tonight';
+  const genre = userPrompt.match(FAKE_GENRES_LINE)?.[1] ?? 'rock';
+  const title = headline.split(/\s+/).slice(0, 4).join(' ');
+
+  const lyrics = [
+    '[Verse]',
+    `Heard it on the radio, ${headline.toLowerCase()}`,
+    'Every town is listening, every word rings true',
+    '',
+    '[Chorus]',
+    `Sing it loud, ${title}`,
+    `A ${genre} song for the evening news`,
+    '',
+    '[Bridge]',
+    'Hold the line, hold the line',
+    '',
+    '[Outro]',
+    `${title}, goodnight`,
+  ].join('\n');
+
+  return JSON.stringify({ title, lyrics });
+}
+
+function fakePodcastScript(userPrompt: string): string {
+  const headlines = [...userPrompt.matchAll(/\d+\. HEADLINE: (.+)/g)].map(m => m[1].trim());
+  const segments = (headlines.length > 0 ? headlines : ['Quiet day on the wire']).map(headline => ({
+    headline,
+    narration: `Our first look at ${headline}. Here is what we know so far, and what to watch for next.`,
+  }));
+
+  return JSON.stringify({
+    title: `RadioWar Briefing: ${segments[0].headline.split(/\s+/).slice(0, 5).join(' ')}`,
+    introduction: 'Welcome to the RadioWar briefing. Here are the stories that matter today.',
+    segments,
+    outro: 'That is the briefing. Stay tuned to RadioWar.',
+  });
+}
+
+function fakeBreakingNews(userPrompt: string): string {
+  const headline = userPrompt.match(/- \[[^\]]+\] (.+)/)?.[1]?.trim() ?? 'Developing story';
+  return JSON.stringify({
+    breaking: true,
+    importance: 9,
+    headline,
+    bulletin: `This is a RadioWar news alert. ${headline}. Multiple outlets are reporting the story; stay tuned for updates.`,
+  });
+}
@@ -0,0 +1,28 @@
+/**
+ * Deterministic stand-in headlines for PROVIDER_MODE=fake.
+ * Every fetch yields fresh links so dedup never starves a cycle.
+ */
+
+const FAKE_HEADLINES: Array<{ source: string; title: string; description: string }> = [
+  { source: 'Fake Wire', title: 'Ceasefire talks resume after overnight shelling', description: 'Negotiators returned to the table as both sides reported artillery fire along the frontline.' },
+  { source: 'Fake Wire', title: 'NATO ministers agree new air defense package', description: 'Allied defense ministers approved additional missile interceptors for the eastern flank.' },
+  { source: 'Fake Herald', title: 'Navy escorts cargo convoy through contested strait', description: 'Two destroyers accompanied merchant vessels after drone sightings near the shipping lane.' },
+  { source: 'Fake Herald', title: 'Humanitarian corridor opens for displaced families', description: 'Aid groups said thousands of refugees crossed safely during the first day of the pause.' },
+  { source: 'Fake Gazette', title: 'Pentagon briefs lawmakers on troop rotation', description: 'Defense officials outlined the schedule for units returning from overseas deployment.' },
+  { source: 'Fake Gazette', title: 'Sanctions tighten on weapons suppliers', description: 'Treasury named a dozen firms accused of shipping drone parts to the conflict zone.' },
+];
+
+export interface FakeArticleSeed {
+  source: string;
+  title: string;
+  description: string;
+  link: string;
+}
+
+export function fakeHeadlines(fetchedAt: Date): FakeArticleSeed[] {
+  const stamp = fetchedAt.getTime();
+  return FAKE_HEADLINES.map((h, i) => ({
+    ...h,
+    link: `https://fake.radiowar.local/${stamp}/${i}`,
+  }));
+}
@@ -0,0 +1,94 @@
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface BreakingNewsArticle {
+  source: string;
+  title: string;
+  description: string;
+}
+
+export interface BreakingNewsAssessment {
+  breaking: boolean;
+  importance: number;
+  headline: string;
+  bulletin: string;
+}
+
+export interface BreakingNewsPromptResult {
+  systemPrompt: string;
+  userPrompt: string;
+}
+
+// ---------------------------------------------------------------------------
+// Prompt builder
+// ---------------------------------------------------------------------------
+
+export function buildBreakingNewsPrompt(articles: BreakingNewsArticle[]): BreakingNewsPromptResult {
+  const systemPrompt = `You are the breaking-news desk editor for RadioWar, an American war news radio station.
+
+Your job: decide whether a developing story is important enough to interrupt the music right now, and if so write the on-air bulletin.
+
+WHAT COUNTS AS BREAKING:
+- A major escalation: declarations of war, invasions, strikes on capitals, nuclear incidents
+- Mass-casualty events, assassinations of leaders, coups
+- A decisive turn: ceasefires agreed or collapsing, surrenders, major withdrawals
+- NOT breaking: analysis, opinion, routine casualty updates, diplomatic statements, anything that can wait for the hourly news
+
+OUTPUT FORMAT:
+Return ONLY valid JSON matching this structure:
+{
+  "breaking": true,
+  "importance": 9,
+  "headline": "Short on-air headline, under 12 words",
+  "bulletin": "2-4 sentences read by the announcer. Start with 'This is a RadioWar news alert.' State only what the sources report."
+}
+
+CRITICAL RULES:
+1. importance is 1-10; reserve 8+ for stories listeners must hear immediately
+2. Never add facts that are not in the articles
+3. Output ONLY the JSON, no other text`;
+
+  const articleList = articles
+    .map((a) => `- [${a.source}] ${a.title}\n  ${a.description}`)
+    .join('\n');
+
+  const userPrompt = `These ${articles.length} reports from different outlets describe the same developing story:
+
+${articleList}
+
+Is this breaking news that should interrupt the broadcast? JSON only.`;
+
+  return { systemPrompt, userPrompt };
+}
+
+// ---------------------------------------------------------------------------
+// Response parser
+// ---------------------------------------------------------------------------
+
+export function parseBreakingNewsResponse(raw: string): BreakingNewsAssessment {
+  const cleaned = raw
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/```\s*$/, '')
+    .trim();
+
+  const parsed = JSON.parse(cleaned) as Record<string, unknown>;
+
+  if (
+    typeof parsed !== 'object' ||
+    parsed === null ||
+    typeof parsed.breaking !== 'boolean' ||
+    typeof parsed.importance !== 'number' ||
+    typeof parsed.headline !== 'string' ||
+    typeof parsed.bulletin !== 'string'
+  ) {
+    throw new Error('Breaking news response did not match expected shape');
+  }
+
+  return {
+    breaking: parsed.breaking,
+    importance: Math.max(1, Math.min(10, Math.round(parsed.importance))),
+    headline: parsed.headline.trim(),
+    bulletin: parsed.bulletin.trim(),
+  };
+}
@@ -0,0 +1,196 @@
+import type { FastifyInstance } from 'fastify';
+import type { BetterSQLite3Database } from 'drizzle-orm/better-sqlite3';
+import { asc, eq } from 'drizzle-orm';
+import { nanoid } from 'nanoid';
+import { createReadStream, createWriteStream, promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import { backgroundImages, backgroundRules } from '../db/schema.js';
+import { getConfig } from '../config.js';
+import { logger } from '../utils/logger.js';
+import { FfmpegUnavailableError } from '../utils/ffmpeg.js';
+import {
+  BACKGROUND_DIR,
+  backgroundFilePath,
+  getBackgroundRotator,
+  importBackground,
+  normalizeTags,
+  validateRule,
+  type RuleInput,
+} from '../services/backgrounds.js';
+
+export function registerBackgroundRoutes(fastify: FastifyInstance, db: BetterSQLite3Database<any>) {
+  fastify.get('/api/v1/backgrounds', async () => {
+    return db.select().from(backgroundImages).orderBy(asc(backgroundImages.createdAt)).all();
+  });
+
+  // What's showing now and which rule picked it
+  fastify.get('/api/v1/backgrounds/current', async () => {
+    return getBackgroundRotator().getState();
+  });
+
+  // Upload an image (multipart: file, optional name and comma-separated tags)
+  fastify.post('/api/v1/backgrounds/upload', async (request, reply) => {
+    const data = await request.file();
+    if (!data) return reply.status(400).send({ error: 'No file provided' });
+    if (!data.mimetype.startsWith('image/')) return reply.status(400).send({ error: 'File must be an image' });
+
+    const fields = data.fields as Record<string, any>;
+    const name = (fields.name?.value as string | undefined)?.trim() || data.filename.replace(/\.[^.]+$/, '');
+    const tags = normalizeTags(fields.tags?.value);
+
+    // Any format ffmpeg reads comes in; the library only holds canvas-sized PNGs
+    const id = nanoid();
+    const uploadPath = path.join(os.tmpdir(), `radiowar-background-${id}`);
+    const relativePath = path.join(BACKGROUND_DIR, `${id}.png`);
+    try {
+      await pipeline(data.file, createWriteStream(uploadPath));
+      await importBackground(uploadPath, path.join(getConfig().MEDIA_DIR, relativePath));
+    } catch (err) {
+      if (err instanceof FfmpegUnavailableError) return reply.status(503).send({ error: err.message });
+      logger.warn({ err, name }, 'Background import failed');
+      return reply.status(422).send({ error: 'Could not read the image' });
+    } finally {
+      await fs.unlink(uploadPath).catch(() => undefined);
+    }
+
+    const image = db.insert(backgroundImages).values({ id, name, filePath: relativePath, tags }).returning().get();
+    logger.info({ id, name, tags }, 'Background uploaded');
+    return reply.status(201).send(image);
+  });
+
+  fastify.patch<{ Params: { id: string }; Body: { name?: string; tags?: string[] } }>(
+    '/api/v1/backgrounds/:id',
+    async (request, reply) => {
+      const existing = db.select().from(backgroundImages).where(eq(backgroundImages.id, request.params.id)).get();
+      if (!existing) return reply.status(404).send({ error: 'Not found' });
+
+      const { name, tags } = request.body ?? {};
+      if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+        return reply.status(400).send({ error: 'name must be a non-empty string' });
+      }
+      if (tags !== undefined && (!Array.isArray(tags) || tags.some((t) => typeof t !== 'string'))) {
+        return reply.status(400).send({ error: 'tags must be an array of strings' });
+      }
+
+      const updated = db.update(backgroundImages)
+        .set({
+          name: name?.trim() ?? existing.name,
+          tags: tags !== undefined ? normalizeTags(tags) : existing.tags,
+        })
+        .where(eq(backgroundImages.id, existing.id))
+        .returning()
+        .get();
+      return updated;
+    },
+  );
+
+  fastify.delete<{ Params: { id: string } }>('/api/v1/backgrounds/:id', async (request, reply) => {
+    const existing = db.select().from(backgroundImages).where(eq(backgroundImages.id, request.params.id)).get();
+    if (!existing) return reply.status(404).send({ error: 'Not found' });
+
+    db.delete(backgroundImages).where(eq(backgroundImages.id, existing.id)).run();
+    await fs.unlink(backgroundFilePath(existing)).catch(() => undefined);
+    // On air, the frame is a copy; switch away from it now rather than at the next track
+    await getBackgroundRotator().refresh();
+    logger.info({ id: existing.id, name: existing.name }, 'Background deleted');
+    return { success: true };
+  });
+
+  fastify.get<{ Params: { id: string } }>('/api/v1/backgrounds/:id/image', async (request, reply) => {
+    const image = db.select().from(backgroundImages).where(eq(backgroundImages.id, request.params.id)).get();
+    if (!image) return reply.status(404).send({ error: 'Not found' });
+
+    const filePath = backgroundFilePath(image);
+    let size: number;
+    try {
+      size = (await fs.stat(filePath)).size;
+    } catch {
+      return reply.status(404).send({ error: 'Not found' });
+    }
+
+    // Files are written once under a fresh ID
+    return reply
+      .header('Content-Type', 'image/png')
+      .header('Content-Length', size)
+      .header('Cache-Control', 'public, max-age=86400, immutable')
+      .send(createReadStream(filePath));
+  });
+
+  // Rules, in the order they're evaluated
+  fastify.get('/api/v1/backgrounds/rules', async () => {
+    return db.select().from(backgroundRules)
+      .orderBy(asc(backgroundRules.priority), asc(backgroundRules.createdAt))
+      .all();
+  });
+
+  fastify.post<{ Body: RuleInput }>('/api/v1/backgrounds/rules', async (request, reply) => {
+    const body = request.body ?? {};
+    const invalid = validateRule(body as Record<string, unknown>);
+    if (invalid) return reply.status(400).send({ error: invalid });
+
+    const rule = db.insert(backgroundRules).values({
+      name: body.name!.trim(),
+      priority: body.priority ?? 0,
+      contentType: body.contentType ?? null,
+      genre: body.genre?.trim() ?? null,
+      hourStart: body.hourStart ?? null,
+      hourEnd: body.hourEnd ?? null,
+      tag: body.tag?.trim().toLowerCase() ?? null,
+      slideshowSeconds: body.slideshowSeconds ?? null,
+      enabled: body.enabled ?? true,
+    }).returning().get();
+
+    await getBackgroundRotator().refresh();
+    logger.info({ ruleId: rule.id, name: rule.name }, 'Background rule created');
+    return reply.status(201).send(rule);
+  });
+
+  fastify.put<{ Params: { id: string }; Body: RuleInput }>('/api/v1/backgrounds/rules/:id', async (request, reply) => {
+    const existing = db.select().from(backgroundRules).where(eq(backgroundRules.id, request.params.id)).get();
+    if (!existing) return reply.status(404).send({ error: 'Not found' });
+
+    const body = request.body ?? {};
+    const invalid = validateRule(body as Record<string, unknown>, true);
+    if (invalid) return reply.status(400).send({ error: invalid });
+
+    const merged = {
+      name: body.name?.trim() ?? existing.name,
+      priority: body.priority ?? existing.priority,
+      contentType: body.contentType !== undefined ? body.contentType : existing.contentType,
+      genre: body.genre !== undefined ? body.genre?.trim() ?? null : existing.genre,
+      hourStart: body.hourStart !== undefined ? body.hourStart : existing.hourStart,
+      hourEnd: body.hourEnd !== undefined ? body.hourEnd : existing.hourEnd,
+      tag: body.tag !== undefined ? body.tag?.trim().toLowerCase() ?? null : existing.tag,
+      slideshowSeconds: body.slideshowSeconds !== undefined ? body.slideshowSeconds : existing.slideshowSeconds,
+      enabled: body.enabled ?? existing.enabled,
+    };
+    if ((merged.hourStart === null) !== (merged.hourEnd === null)) {
+      return reply.status(400).send({ error: 'hourStart and hourEnd must be set together' });
+    }
+    if (merged.hourStart !== null && merged.hourStart === merged.hourEnd) {
+      return reply.status(400).send({ error: 'hourStart and hourEnd must differ; leave both null for all day' });
+    }
+
+    const updated = db.update(backgroundRules)
+      .set(merged)
+      .where(eq(backgroundRules.id, existing.id))
+      .returning()
+      .get();
+
+    await getBackgroundRotator().refresh();
+    logger.info({ ruleId: updated.id, name: updated.name }, 'Background rule updated');
+    return updated;
+  });
+
+  fastify.delete<{ Params: { id: string } }>('/api/v1/backgrounds/rules/:id', async (request, reply) => {
+    const existing = db.select().from(backgroundRules).where(eq(backgroundRules.id, request.params.id)).get();
+    if (!existing) return reply.status(404).send({ error: 'Not found' });
+
+    db.delete(backgroundRules).where(eq(backgroundRules.id, existing.id)).run();
+    await getBackgroundRotator().refresh();
+    logger.info({ ruleId: existing.id, name: existing.name }, 'Background rule deleted');
+    return { success: true };
+  });
+}
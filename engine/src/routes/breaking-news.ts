@@ -0,0 +1,24 @@
+import type { FastifyInstance } from 'fastify';
+import { getPipeline } from '../services/pipeline.js';
+
+// Socket updates for confirm/reject go out via the pipeline's 'breaking-news' event
+export function registerBreakingNewsRoutes(fastify: FastifyInstance) {
+  // Recent breaking-news alerts (pending ones await operator confirmation)
+  fastify.get('/api/v1/breaking-news', async () => {
+    return getPipeline().getBreakingAlerts();
+  });
+
+  // Air a held bulletin now
+  fastify.post<{ Params: { id: string } }>('/api/v1/breaking-news/:id/confirm', async (request, reply) => {
+    const alert = getPipeline().confirmBreakingAlert(request.params.id);
+    if (!alert) return reply.status(404).send({ error: 'Not found' });
+    return alert;
+  });
+
+  // Discard a held bulletin
+  fastify.post<{ Params: { id: string } }>('/api/v1/breaking-news/:id/reject', async (request, reply) => {
+    const alert = getPipeline().rejectBreakingAlert(request.params.id);
+    if (!alert) return reply.status(404).send({ error: 'Not found' });
+    return alert;
+  });
+}
@@ -0,0 +1,144 @@
+import type { FastifyInstance } from 'fastify';
+import type { BetterSQLite3Database } from 'drizzle-orm/better-sqlite3';
+import { clockAssignments, formatClocks } from '../db/schema.js';
+import type { ClockSegment } from '../db/schema.js';
+import { eq, asc } from 'drizzle-orm';
+import { logger } from '../utils/logger.js';
+import { normalizeSegments, resolveClock, validateSegments } from '../services/format-clocks.js';
+
+interface ClockBody {
+  name: string;
+  description?: string;
+  segments: Array<Omit<ClockSegment, 'fallback'> & { fallback?: ClockSegment['fallback'] }>;
+}
+
+interface AssignmentBody {
+  clockId: string;
+  weekday?: number | null;
+  hour?: number | null;
+}
+
+export function registerClockRoutes(fastify: FastifyInstance, db: BetterSQLite3Database<any>) {
+  // List format clocks
+  fastify.get('/api/v1/clocks', async () => {
+    return db.select().from(formatClocks).orderBy(asc(formatClocks.createdAt)).all();
+  });
+
+  // Clock in effect at a given time (defaults to now)
+  fastify.get<{ Querystring: { at?: string } }>('/api/v1/clocks/active', async (request, reply) => {
+    const at = request.query.at ? new Date(request.query.at) : new Date();
+    if (Number.isNaN(at.getTime())) return reply.status(400).send({ error: 'at must be an ISO date' });
+    return { at: at.toISOString(), clock: resolveClock(db, at) };
+  });
+
+  // Get weekday/hour assignments
+  fastify.get('/api/v1/clocks/assignments', async () => {
+    return db.select().from(clockAssignments).all();
+  });
+
+  // Replace all assignments
+  fastify.put<{ Body: { assignments: AssignmentBody[] } }>('/api/v1/clocks/assignments', async (request, reply) => {
+    const assignments = request.body?.assignments;
+    if (!Array.isArray(assignments)) {
+      return reply.status(400).send({ error: 'assignments must be an array' });
+    }
+
+    const clockIds = new Set(db.select({ id: formatClocks.id }).from(formatClocks).all().map(c => c.id));
+    const seen = new Set<string>();
+
+    for (const a of assignments) {
+      if (typeof a !== 'object' || a === null) {
+        return reply.status(400).send({ error: 'each assignment must be an object' });
+      }
+      if (!clockIds.has(a.clockId)) {
+        return reply.status(400).send({ error: `Unknown clock: ${a.clockId}` });
+      }
+      if (a.weekday != null && (!Number.isInteger(a.weekday) || a.weekday < 0 || a.weekday > 6)) {
+        return reply.status(400).send({ error: 'weekday must be 0-6 or null' });
+      }
+      if (a.hour != null && (!Number.isInteger(a.hour) || a.hour < 0 || a.hour > 23)) {
+        return reply.status(400).send({ error: 'hour must be 0-23 or null' });
+      }
+
+      const key = `${a.weekday ?? '*'}:${a.hour ?? '*'}`;
+      if (seen.has(key)) {
+        return reply.status(400).send({ error: `Duplicate assignment for weekday ${a.weekday ?? 'any'}, hour ${a.hour ?? 'any'}` });
+      }
+      seen.add(key);
+    }
+
+    db.transaction((tx) => {
+      tx.delete(clockAssignments).run();
+      for (const a of assignments) {
+        tx.insert(clockAssignments).values({
+          clockId: a.clockId,
+          weekday: a.weekday ?? null,
+          hour: a.hour ?? null,
+        }).run();
+      }
+    });
+
+    logger.info({ count: assignments.length }, 'Clock assignments updated');
+    return db.select().from(clockAssignments).all();
+  });
+
+  // Get single clock
+  fastify.get<{ Params: { id: string } }>('/api/v1/clocks/:id', async (request, reply) => {
+    const clock = db.select().from(formatClocks).where(eq(formatClocks.id, request.params.id)).get();
+    if (!clock) return reply.status(404).send({ error: 'Not found' });
+    return clock;
+  });
+
+  // Create clock
+  fastify.post<{ Body: ClockBody }>('/api/v1/clocks', async (request, reply) => {
+    const { name, description, segments } = request.body ?? {};
+    if (!name) return reply.status(400).send({ error: 'name is required' });
+
+    const invalid = validateSegments(segments);
+    if (invalid) return reply.status(400).send({ error: invalid });
+
+    const clock = db.insert(formatClocks).values({
+      name,
+      description,
+      segments: normalizeSegments(segments),
+    }).returning().get();
+
+    logger.info({ clockId: clock.id, name }, 'Format clock created');
+    return reply.status(201).send(clock);
+  });
+
+  // Update clock
+  fastify.put<{ Params: { id: string }; Body: Partial<ClockBody> }>('/api/v1/clocks/:id', async (request, reply) => {
+    const existing = db.select().from(formatClocks).where(eq(formatClocks.id, request.params.id)).get();
+    if (!existing) return reply.status(404).send({ error: 'Not found' });
+
+    const { name, description, segments } = request.body ?? {};
+    const updates: Partial<typeof formatClocks.$inferInsert> = { updatedAt: new Date() };
+    if (name !== undefined) updates.name = name;
+    if (description !== undefined) updates.description = description;
+    if (segments !== undefined) {
+      const invalid = validateSegments(segments);
+      if (invalid) return reply.status(400).send({ error: invalid });
+      updates.segments = normalizeSegments(segments);
+    }
+
+    const updated = db.update(formatClocks)
+      .set(updates)
+      .where(eq(formatClocks.id, request.params.id))
+      .returning()
+      .get();
+
+    logger.info({ clockId: updated.id, name: updated.name }, 'Format clock updated');
+    return updated;
+  });
+
+  // Delete clock (its assignments go with it)
+  fastify.delete<{ Params: { id: string } }>('/api/v1/clocks/:id', async (request, reply) => {
+    const existing = db.select().from(formatClocks).where(eq(formatClocks.id, request.params.id)).get();
+    if (!existing) return reply.status(404).send({ error: 'Not found' });
+
+    db.delete(formatClocks).where(eq(formatClocks.id, request.params.id)).run();
+    logger.info({ clockId: existing.id, name: existing.name }, 'Format clock deleted');
+    return { success: true };
+  });
+}
@@ -1,13 +1,20 @@
 import type { FastifyInstance } from 'fastify';
 import type { BetterSQLite3Database } from 'drizzle-orm/better-sqlite3';
-import { content } from '../db/schema.js';
+import { content, audioTracks, playbackLog, trackLyrics } from '../db/schema.js';
 import { eq, desc, like, and, sql } from 'drizzle-orm';
 import { getConfig } from '../config.js';
+import { FfmpegUnavailableError } from '../utils/ffmpeg.js';
 import { logger } from '../utils/logger.js';
-import { mkdirSync, createWriteStream } from 'fs';
-import { join } from 'path';
+import { mkdirSync, createWriteStream, statSync } from 'fs';
+import { join, relative } from 'path';
 import { pipeline } from 'stream/promises';
 import { nanoid } from 'nanoid';
+import { getVariantStats, setPreferredVariant } from '../services/song-variants.js';
+import { quarantineFile, runAudioQc, type AudioQcReport } from '../services/audio-qc.js';
+import { getTrackLyrics, saveTrackLyrics } from '../services/lyric-captions.js';
+
+/** Longest lyrics accepted through the API */
+const MAX_LYRICS_LENGTH = 10_000;
 
 export function registerContentRoutes(fastify: FastifyInstance, db: BetterSQLite3Database<any>) {
   const config = getConfig();
@@ -77,19 +84,43 @@ export function registerContentRoutes(fastify: FastifyInstance, db: BetterSQLite
     const writeStream = createWriteStream(filePath);
     await pipeline(data.file, writeStream);
 
-    const fileSize = writeStream.bytesWritten;
+    // Measure and normalize loudness; anything failing QC is quarantined, not aired
+    let qcReport: AudioQcReport | null = null;
+    let storedPath = relativePath;
+    try {
+      qcReport = await runAudioQc(filePath);
+      if (!qcReport.passed) {
+        storedPath = relative(config.MEDIA_DIR, await quarantineFile(filePath));
+      }
+    } catch (err) {
+      if (!(err instanceof FfmpegUnavailableError)) throw err;
+      logger.warn({ err, title }, 'Audio QC unavailable, upload stored unchecked');
+    }
+
+    // Normalization rewrites the file
+    const fileSize = statSync(join(config.MEDIA_DIR, storedPath)).size;
+
+    let metadata: Record<string, unknown> = {};
+    if (qcReport) {
+      const { loudness, ...qc } = qcReport;
+      metadata = { loudness, qc };
+    }
 
     // Insert into database
     const newItem = db.insert(content).values({
       type: type as any,
       title,
-      filePath: relativePath,
+      duration: qcReport?.measuredDuration ? Math.round(qcReport.measuredDuration) : null,
+      filePath: storedPath,
       fileSize,
       mimeType: data.mimetype,
-      status: 'ready',
-      metadata: {},
+      status: qcReport && !qcReport.passed ? 'error' : 'ready',
+      metadata,
     }).returning().get();
 
+    if (qcReport && !qcReport.passed) {
+      logger.warn({ id: newItem.id, title, failures: qcReport.failures }, 'Upload failed audio QC and was quarantined');
+    }
     logger.info({ id: newItem.id, title, type, fileSize }, 'Content uploaded');
     return reply.status(201).send(newItem);
   });
@@ -111,11 +142,69 @@ export function registerContentRoutes(fastify: FastifyInstance, db: BetterSQLite
     },
   );
 
+  // A/B takes of a generated song, with how often each has aired
+  fastify.get<{ Params: { id: string } }>('/api/v1/content/:id/variants', async (request, reply) => {
+    const item = db.select().from(content).where(eq(content.id, request.params.id)).get();
+    if (!item) return reply.status(404).send({ error: 'Not found' });
+    return getVariantStats(db, item);
+  });
+
+  // Make this take the one rotation airs
+  fastify.post<{ Params: { id: string } }>('/api/v1/content/:id/prefer', async (request, reply) => {
+    const item = db.select().from(content).where(eq(content.id, request.params.id)).get();
+    if (!item) return reply.status(404).send({ error: 'Not found' });
+    setPreferredVariant(db, item, item.id);
+    logger.info({ id: item.id, title: item.title }, 'Preferred take set');
+    return getVariantStats(db, item);
+  });
+
+  // Clear the preference so rotation alternates between takes again
+  fastify.delete<{ Params: { id: string } }>('/api/v1/content/:id/prefer', async (request, reply) => {
+    const item = db.select().from(content).where(eq(content.id, request.params.id)).get();
+    if (!item) return reply.status(404).send({ error: 'Not found' });
+    setPreferredVariant(db, item, null);
+    return getVariantStats(db, item);
+  });
+
+  // Stored lyrics with caption timing
+  fastify.get<{ Params: { id: string } }>('/api/v1/content/:id/lyrics', async (request, reply) => {
+    const lyrics = getTrackLyrics(request.params.id);
+    if (!lyrics) return reply.status(404).send({ error: 'Not found' });
+    return lyrics;
+  });
+
+  // Set lyrics by hand (e.g. for an uploaded song); timing is estimated from the song length
+  fastify.put<{ Params: { id: string }; Body: { lyrics?: string } }>('/api/v1/content/:id/lyrics', async (request, reply) => {
+    const item = db.select().from(content).where(eq(content.id, request.params.id)).get();
+    if (!item) return reply.status(404).send({ error: 'Not found' });
+
+    const text = request.body?.lyrics;
+    if (typeof text !== 'string' || !text.trim()) return reply.status(400).send({ error: 'lyrics is required' });
+    if (text.length > MAX_LYRICS_LENGTH) {
+      return reply.status(400).send({ error: `lyrics must be at most ${MAX_LYRICS_LENGTH} characters` });
+    }
+    if (!item.duration) return reply.status(400).send({ error: 'Content has no known duration to time lyrics against' });
+
+    const stored = saveTrackLyrics(item.id, text, { durationSeconds: item.duration });
+    logger.info({ id: item.id, title: item.title, lines: stored.lines.length }, 'Lyrics updated');
+    return stored;
+  });
+
+  fastify.delete<{ Params: { id: string } }>('/api/v1/content/:id/lyrics', async (request, reply) => {
+    const lyrics = getTrackLyrics(request.params.id);
+    if (!lyrics) return reply.status(404).send({ error: 'Not found' });
+    db.delete(trackLyrics).where(eq(trackLyrics.contentId, lyrics.contentId)).run();
+    return { success: true };
+  });
+
   // Delete content
   fastify.delete<{ Params: { id: string } }>('/api/v1/content/:id', async (request, reply) => {
     const existing = db.select().from(content).where(eq(content.id, request.params.id)).get();
     if (!existing) return reply.status(404).send({ error: 'Not found' });
 
+    // Keep play history, drop the generated-track record so it isn't re-added on restart
+    db.update(playbackLog).set({ contentId: null }).where(eq(playbackLog.contentId, request.params.id)).run();
+    db.delete(audioTracks).where(eq(audioTracks.id, request.params.id)).run();
     db.delete(content).where(eq(content.id, request.params.id)).run();
     logger.info({ id: request.params.id, title: existing.title }, 'Content deleted');
     return { success: true };
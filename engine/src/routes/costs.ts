@@ -0,0 +1,10 @@
+import type { FastifyInstance } from 'fastify';
+import { getCostLedger } from '../services/cost-ledger.js';
+
+export function registerCostRoutes(fastify: FastifyInstance) {
+  // Spend against daily/monthly budget, breakdowns and recent ledger entries
+  fastify.get<{ Querystring: { limit?: string } }>('/api/v1/costs', async (request) => {
+    const limit = request.query.limit ? parseInt(request.query.limit) : 20;
+    return getCostLedger().getSummary(limit);
+  });
+}
@@ -1,9 +1,33 @@
 import type { FastifyInstance } from 'fastify';
 import type { Server as SocketIOServer } from 'socket.io';
 import { getPipeline } from '../services/pipeline.js';
+import { listStreamEvents } from '../services/stream-events.js';
+import { getOverlay, validateOverlayUpdate, type OverlayUpdate } from '../services/overlay.js';
+import {
+  getNewsTicker,
+  getTickerSettings,
+  updateTickerSettings,
+  validateTickerUpdate,
+  type TickerSettings,
+} from '../services/news-ticker.js';
+import {
+  getVisualizer,
+  updateVisualizerAssignments,
+  validateVisualizerUpdate,
+  type VisualizerMode,
+} from '../services/visualizer.js';
+import {
+  getCaptionSettings,
+  getLyricCaptions,
+  updateCaptionSettings,
+  validateCaptionUpdate,
+  type CaptionSettings,
+} from '../services/lyric-captions.js';
+import type { StreamEventType } from '../db/schema.js';
 import { SunoApiGenerator } from '../suno/api-generator.js';
 import { downloadAudio } from '../suno/downloader.js';
 import { getConfig } from '../config.js';
+import { BudgetExceededError, getCostLedger } from '../services/cost-ledger.js';
 import { logger } from '../utils/logger.js';
 import path from 'path';
 import { mkdirSync } from 'fs';
@@ -65,7 +89,104 @@ export function registerEngineRoutes(fastify: FastifyInstance, io: SocketIOServe
   fastify.get('/api/v1/stream/status', async () => {
     const pipeline = getPipeline();
     const stream = pipeline.getStreamStatus();
-    return stream ?? { isStreaming: false, startedAt: null, currentTrack: null, tracksPlayed: 0, uptimeSeconds: 0, errors: 0 };
+    return stream ?? { isStreaming: false, startedAt: null, currentTrack: null, tracksPlayed: 0, uptimeSeconds: 0, errors: 0, encoder: null, outputs: [] };
+  });
+
+  // Stream health history (encoder restarts, output failures, failovers), newest first
+  fastify.get<{ Querystring: { limit?: string; outputId?: string; type?: StreamEventType } }>('/api/v1/stream/events', async (request) => {
+    const limit = Math.min(request.query.limit ? parseInt(request.query.limit) : 50, 500);
+    return listStreamEvents({
+      limit: Number.isFinite(limit) && limit > 0 ? limit : 50,
+      outputId: request.query.outputId,
+      type: request.query.type,
+    });
+  });
+
+  // Overlay text on screen now, and which fields an operator has pinned
+  fastify.get('/api/v1/stream/overlay', async () => {
+    return getOverlay().getState();
+  });
+
+  // Set operator fields (headline, nextUp, breaking, message); null hands a field back to playout
+  fastify.put<{ Body: OverlayUpdate }>('/api/v1/stream/overlay', async (request, reply) => {
+    const body = request.body ?? {};
+    if (typeof body !== 'object' || Array.isArray(body)) {
+      return reply.status(400).send({ error: 'Body must be an object' });
+    }
+    const invalid = validateOverlayUpdate(body);
+    if (invalid) return reply.status(400).send({ error: invalid });
+
+    const state = getOverlay().update(body);
+    io.emit('stream:overlay', state);
+    return state;
+  });
+
+  // Headline ticker: settings plus the headlines currently crawling
+  fastify.get('/api/v1/stream/ticker', async () => {
+    return { settings: getTickerSettings(), ...getNewsTicker().getState() };
+  });
+
+  // Partial settings update; feeds, keywords and item count apply to a running ticker at once
+  fastify.put<{ Body: Partial<TickerSettings> }>('/api/v1/stream/ticker', async (request, reply) => {
+    const body = request.body ?? {};
+    if (typeof body !== 'object' || Array.isArray(body)) {
+      return reply.status(400).send({ error: 'Body must be an object' });
+    }
+    const invalid = validateTickerUpdate(body);
+    if (invalid) return reply.status(400).send({ error: invalid });
+
+    const settings = updateTickerSettings(body);
+    const ticker = getNewsTicker();
+    if (ticker.getState().running) await ticker.refresh();
+    logger.info({ keys: Object.keys(body) }, 'News ticker settings updated');
+    return { settings, ...ticker.getState() };
+  });
+
+  // Re-read headlines now instead of waiting for the next refresh
+  fastify.post('/api/v1/stream/ticker/refresh', async () => {
+    const ticker = getNewsTicker();
+    await ticker.refresh();
+    return { settings: getTickerSettings(), ...ticker.getState() };
+  });
+
+  // Lyric caption settings plus the line on screen now
+  fastify.get('/api/v1/stream/captions', async () => {
+    return { settings: getCaptionSettings(), ...getLyricCaptions().getState() };
+  });
+
+  // Partial settings update; applies from the next stream start
+  fastify.put<{ Body: Partial<CaptionSettings> }>('/api/v1/stream/captions', async (request, reply) => {
+    const body = request.body ?? {};
+    if (typeof body !== 'object' || Array.isArray(body)) {
+      return reply.status(400).send({ error: 'Body must be an object' });
+    }
+    const invalid = validateCaptionUpdate(body);
+    if (invalid) return reply.status(400).send({ error: invalid });
+
+    const settings = updateCaptionSettings(body);
+    logger.info({ keys: Object.keys(body) }, 'Caption settings updated');
+    return { settings, ...getLyricCaptions().getState() };
+  });
+
+  // Visualizer mode per content type and the one on screen now
+  fastify.get('/api/v1/stream/visualizer', async () => {
+    return getVisualizer().getState();
+  });
+
+  // Partial update: content type → mode, null falls back to the default.
+  // Switching between modes already in use is immediate; new modes join at the next stream start
+  fastify.put<{ Body: Record<string, VisualizerMode | null> }>('/api/v1/stream/visualizer', async (request, reply) => {
+    const body = request.body ?? {};
+    if (typeof body !== 'object' || Array.isArray(body)) {
+      return reply.status(400).send({ error: 'Body must be an object' });
+    }
+    const invalid = validateVisualizerUpdate(body);
+    if (invalid) return reply.status(400).send({ error: invalid });
+
+    const assignments = updateVisualizerAssignments(body);
+    await getVisualizer().refresh();
+    logger.info({ assignments }, 'Visualizer modes updated');
+    return getVisualizer().getState();
   });
 
   fastify.post('/api/v1/stream/start', async (_req, reply) => {
@@ -91,6 +212,13 @@ export function registerEngineRoutes(fastify: FastifyInstance, io: SocketIOServe
   fastify.post('/api/v1/test/single-song', async (_req, reply) => {
     logger.info('=== SINGLE SONG API TEST START ===');
 
+    try {
+      getCostLedger().assertWithinBudget('test song');
+    } catch (err) {
+      if (!(err instanceof BudgetExceededError)) throw err;
+      return reply.status(402).send({ error: err.message });
+    }
+
     try {
       const generator = new SunoApiGenerator();
       const credits = await generator.getCredits().catch(() => -1);
@@ -102,7 +230,7 @@ export function registerEngineRoutes(fastify: FastifyInstance, io: SocketIOServe
         style: 'country rock, twangy guitar, steady drums, patriotic anthem',
         lyrics: `[Verse]\nSteel rain falling from the sky tonight\nBomber jets blazing through the fading light\nOld glory waving on the desert ground\nFreedom has a heavy sound\n\n[Chorus]\nSteel rain falling down on foreign land\nUncle Sam extending his iron hand\nYou can run but you will never hide\nSteel rain falling on the other side`,
         title: 'Steel Rain Test',
-      });
+      }, 'test song');
 
       // Download the first result
       const config = getConfig();
@@ -0,0 +1,52 @@
+import type { FastifyInstance } from 'fastify';
+import { createReadStream, promises as fs } from 'fs';
+import path from 'path';
+import { getConfig } from '../config.js';
+import { getPipeline } from '../services/pipeline.js';
+import { HLS_PLAYLIST_NAME, HLS_SEGMENT_PATTERN } from '../services/stream-outputs.js';
+
+export function registerLiveRoutes(fastify: FastifyInstance) {
+  const liveDir = () => path.resolve(getConfig().LIVE_HLS_DIR);
+
+  // Rolling playlist; rewritten every segment, so it must never be cached.
+  // Offline (404) while the stream is stopped, even if a stale file is left over.
+  fastify.get(`/live/${HLS_PLAYLIST_NAME}`, async (_request, reply) => {
+    if (!getPipeline().getStreamStatus()?.isStreaming) {
+      return reply.status(404).send({ error: 'Stream is not running' });
+    }
+
+    let playlist: string;
+    try {
+      playlist = await fs.readFile(path.join(liveDir(), HLS_PLAYLIST_NAME), 'utf8');
+    } catch {
+      return reply.status(404).send({ error: 'Not found' });
+    }
+
+    return reply
+      .header('Content-Type', 'application/vnd.apple.mpegurl')
+      .header('Cache-Control', 'no-cache, no-store, must-revalidate')
+      .send(playlist);
+  });
+
+  // Segments never change once written (names are unique per stream start)
+  fastify.get<{ Params: { segment: string } }>('/live/:segment', async (request, reply) => {
+    const { segment } = request.params;
+    if (!HLS_SEGMENT_PATTERN.test(segment)) {
+      return reply.status(404).send({ error: 'Not found' });
+    }
+
+    const filePath = path.join(liveDir(), segment);
+    let size: number;
+    try {
+      size = (await fs.stat(filePath)).size;
+    } catch {
+      return reply.status(404).send({ error: 'Not found' });
+    }
+
+    return reply
+      .header('Content-Type', 'video/mp2t')
+      .header('Content-Length', size)
+      .header('Cache-Control', 'public, max-age=3600, immutable')
+      .send(createReadStream(filePath));
+  });
+}
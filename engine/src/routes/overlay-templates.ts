@@ -0,0 +1,185 @@
+import type { FastifyInstance } from 'fastify';
+import type { BetterSQLite3Database } from 'drizzle-orm/better-sqlite3';
+import { asc, eq } from 'drizzle-orm';
+import { nanoid } from 'nanoid';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { overlayTemplates, type OverlayLayer } from '../db/schema.js';
+import { logger } from '../utils/logger.js';
+import { getOverlay } from '../services/overlay.js';
+import {
+  layersForContentType,
+  renderOverlay,
+  sampleContext,
+  validateLayers,
+} from '../services/overlay-templates.js';
+import { streamBackgroundImage } from '../services/stream-manager.js';
+import { FfmpegUnavailableError } from '../utils/ffmpeg.js';
+import { getSetting, updateSettings } from '../services/settings-store.js';
+
+interface TemplateBody {
+  name?: string;
+  layers?: OverlayLayer[];
+}
+
+/** Content types a template can be assigned to; 'default' covers the rest */
+const ASSIGNABLE_TYPES = ['song', 'podcast', 'news_block', 'ad', 'jingle', 'default'];
+
+interface PreviewBody {
+  templateId?: string;
+  /** Unsaved layers to try out; take precedence over templateId */
+  layers?: OverlayLayer[];
+  /** Picks the assigned template when neither layers nor templateId is given */
+  contentType?: string;
+  /** Override sample values, e.g. { title, metadata: { genre } } */
+  track?: { title?: string; metadata?: Record<string, unknown> };
+  /** Render what's on air right now instead of sample values */
+  current?: boolean;
+  /** Draw over the stream background (default) or on transparency */
+  background?: boolean;
+}
+
+export function registerOverlayTemplateRoutes(fastify: FastifyInstance, db: BetterSQLite3Database<any>) {
+  fastify.get('/api/v1/stream/overlay/templates', async () => {
+    return db.select().from(overlayTemplates).orderBy(asc(overlayTemplates.createdAt)).all();
+  });
+
+  fastify.get<{ Params: { id: string } }>('/api/v1/stream/overlay/templates/:id', async (request, reply) => {
+    const template = db.select().from(overlayTemplates).where(eq(overlayTemplates.id, request.params.id)).get();
+    if (!template) return reply.status(404).send({ error: 'Not found' });
+    return template;
+  });
+
+  fastify.post<{ Body: TemplateBody }>('/api/v1/stream/overlay/templates', async (request, reply) => {
+    const { name, layers } = request.body ?? {};
+    if (typeof name !== 'string' || !name.trim()) return reply.status(400).send({ error: 'name is required' });
+    const invalid = validateLayers(layers);
+    if (invalid) return reply.status(400).send({ error: invalid });
+
+    const template = db.insert(overlayTemplates).values({ name: name.trim(), layers: layers! }).returning().get();
+    getOverlay().refresh();
+    logger.info({ templateId: template.id, name: template.name }, 'Overlay template created');
+    return reply.status(201).send(template);
+  });
+
+  fastify.put<{ Params: { id: string }; Body: TemplateBody }>('/api/v1/stream/overlay/templates/:id', async (request, reply) => {
+    const existing = db.select().from(overlayTemplates).where(eq(overlayTemplates.id, request.params.id)).get();
+    if (!existing) return reply.status(404).send({ error: 'Not found' });
+
+    const { name, layers } = request.body ?? {};
+    if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+      return reply.status(400).send({ error: 'name must be a non-empty string' });
+    }
+    if (layers !== undefined) {
+      const invalid = validateLayers(layers);
+      if (invalid) return reply.status(400).send({ error: invalid });
+    }
+
+    const updated = db.update(overlayTemplates)
+      .set({
+        name: name?.trim() ?? existing.name,
+        layers: layers ?? existing.layers,
+        updatedAt: new Date(),
+      })
+      .where(eq(overlayTemplates.id, existing.id))
+      .returning()
+      .get();
+
+    getOverlay().refresh();
+    logger.info({ templateId: updated.id, name: updated.name }, 'Overlay template updated');
+    return updated;
+  });
+
+  // Delete a template and drop any content-type assignments pointing at it
+  fastify.delete<{ Params: { id: string } }>('/api/v1/stream/overlay/templates/:id', async (request, reply) => {
+    const existing = db.select().from(overlayTemplates).where(eq(overlayTemplates.id, request.params.id)).get();
+    if (!existing) return reply.status(404).send({ error: 'Not found' });
+
+    db.delete(overlayTemplates).where(eq(overlayTemplates.id, existing.id)).run();
+
+    const assignments = getSetting<Record<string, string>>('overlayTemplateByType', db) ?? {};
+    const kept = Object.fromEntries(Object.entries(assignments).filter(([, id]) => id !== existing.id));
+    if (Object.keys(kept).length !== Object.keys(assignments).length) {
+      updateSettings({ overlayTemplateByType: kept }, db);
+    }
+
+    getOverlay().refresh();
+    logger.info({ templateId: existing.id, name: existing.name }, 'Overlay template deleted');
+    return { success: true };
+  });
+
+  // Which template each content type uses
+  fastify.get('/api/v1/stream/overlay/assignments', async () => {
+    return getSetting<Record<string, string>>('overlayTemplateByType', db) ?? {};
+  });
+
+  // Partial update: a template ID assigns it, null returns the type to the default
+  fastify.put<{ Body: Record<string, string | null> }>('/api/v1/stream/overlay/assignments', async (request, reply) => {
+    const body = request.body ?? {};
+    const assignments = { ...(getSetting<Record<string, string>>('overlayTemplateByType', db) ?? {}) };
+
+    for (const [contentType, templateId] of Object.entries(body)) {
+      if (!ASSIGNABLE_TYPES.includes(contentType)) {
+        return reply.status(400).send({ error: `unknown content type '${contentType}'; expected one of: ${ASSIGNABLE_TYPES.join(', ')}` });
+      }
+      if (templateId === null) {
+        delete assignments[contentType];
+        continue;
+      }
+      const template = typeof templateId === 'string'
+        ? db.select().from(overlayTemplates).where(eq(overlayTemplates.id, templateId)).get()
+        : undefined;
+      if (!template) return reply.status(400).send({ error: `unknown template for ${contentType}` });
+      assignments[contentType] = template.id;
+    }
+
+    updateSettings({ overlayTemplateByType: assignments }, db);
+    getOverlay().refresh();
+    logger.info({ assignments }, 'Overlay template assignments updated');
+    return assignments;
+  });
+
+  // Render one frame to PNG without going live
+  fastify.post<{ Body: PreviewBody }>('/api/v1/stream/overlay/preview', async (request, reply) => {
+    const body = request.body ?? {};
+    const contentType = body.contentType ?? 'song';
+
+    let layers: OverlayLayer[];
+    if (body.layers !== undefined) {
+      const invalid = validateLayers(body.layers);
+      if (invalid) return reply.status(400).send({ error: invalid });
+      layers = body.layers;
+    } else if (body.templateId) {
+      const template = db.select().from(overlayTemplates).where(eq(overlayTemplates.id, body.templateId)).get();
+      if (!template) return reply.status(404).send({ error: 'Not found' });
+      layers = template.layers;
+    } else {
+      layers = layersForContentType(contentType).layers;
+    }
+
+    const context = body.current ? getOverlay().context() : sampleContext(contentType);
+    if (body.track?.title) {
+      context.track = { ...context.track, title: body.track.title };
+      context.overlay = { ...context.overlay, title: body.track.title };
+    }
+    if (body.track?.metadata) {
+      context.metadata = { ...context.metadata, ...body.track.metadata };
+    }
+
+    const outputPath = path.join(os.tmpdir(), `radiowar-preview-${nanoid()}.png`);
+    try {
+      await renderOverlay(layers, context, outputPath, {
+        background: body.background === false ? null : streamBackgroundImage(),
+      });
+      const png = await fs.readFile(outputPath);
+      return reply.type('image/png').header('Cache-Control', 'no-store').send(png);
+    } catch (err) {
+      if (err instanceof FfmpegUnavailableError) return reply.status(503).send({ error: err.message });
+      logger.warn({ err }, 'Overlay preview failed');
+      return reply.status(422).send({ error: err instanceof Error ? err.message : String(err) });
+    } finally {
+      await fs.unlink(outputPath).catch(() => undefined);
+    }
+  });
+}
@@ -1,21 +1,33 @@
+import { nanoid } from 'nanoid';
 import type { FastifyInstance } from 'fastify';
 import type { Server as SocketIOServer } from 'socket.io';
+import { logger } from '../utils/logger.js';
+import { getPipeline, type ProgressCallback } from '../services/pipeline.js';
+import type { SynthesizedStory } from '../services/lyrics-service.js';
 
 interface PipelineJob {
   id: string;
   type: 'song-generation' | 'tts-generation' | 'news-fetch';
   status: 'queued' | 'running' | 'completed' | 'failed';
+  stage: string;
   progress: number;
-  result?: { contentId: string };
+  result?: { contentId: string; title: string };
   error?: string;
   createdAt: string;
   updatedAt: string;
 }
 
+/** Keep this many finished jobs in memory for the dashboard */
+const MAX_JOBS = 100;
+
 const activeJobs: PipelineJob[] = [];
 
 export function addPipelineJob(job: PipelineJob, io: SocketIOServer) {
   activeJobs.push(job);
+  if (activeJobs.length > MAX_JOBS) {
+    const finished = activeJobs.findIndex(j => j.status === 'completed' || j.status === 'failed');
+    if (finished !== -1) activeJobs.splice(finished, 1);
+  }
   io.emit('pipeline:job-update', job);
 }
 
@@ -27,6 +39,55 @@ export function updatePipelineJob(jobId: string, update: Partial<PipelineJob>, i
   }
 }
 
+/**
+ * Register a job and run `work` in the background, reporting stage/progress
+ * over Socket.io. The job completes with the content ID `work` resolves to.
+ */
+function runPipelineJob(
+  type: PipelineJob['type'],
+  io: SocketIOServer,
+  work: (onProgress: ProgressCallback) => Promise<{ id: string; title: string }>,
+): PipelineJob {
+  const now = new Date().toISOString();
+  const job: PipelineJob = {
+    id: nanoid(),
+    type,
+    status: 'queued',
+    stage: 'queued',
+    progress: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+  addPipelineJob(job, io);
+
+  const onProgress: ProgressCallback = (stage, progress) => {
+    updatePipelineJob(job.id, { status: 'running', stage, progress }, io);
+  };
+
+  void (async () => {
+    try {
+      onProgress('starting', 0);
+      const entry = await work(onProgress);
+      updatePipelineJob(job.id, {
+        status: 'completed',
+        stage: 'done',
+        progress: 100,
+        result: { contentId: entry.id, title: entry.title },
+      }, io);
+      logger.info({ jobId: job.id, type, contentId: entry.id }, 'Pipeline job completed');
+    } catch (err) {
+      updatePipelineJob(job.id, { status: 'failed', error: String(err) }, io);
+      logger.error({ err, jobId: job.id, type }, 'Pipeline job failed');
+    }
+  })();
+
+  return job;
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === 'string');
+}
+
 export function registerPipelineRoutes(fastify: FastifyInstance, io: SocketIOServer) {
   // Get pipeline health + active jobs
   fastify.get('/api/v1/pipeline', async () => {
@@ -42,15 +103,69 @@ export function registerPipelineRoutes(fastify: FastifyInstance, io: SocketIOSer
     return activeJobs.slice(-50); // last 50 jobs
   });
 
-  // Manually trigger song generation
-  fastify.post('/api/v1/pipeline/song/trigger', async () => {
-    // Will be wired to actual pipeline later
-    return { message: 'Song generation triggered', status: 'queued' };
+  // Get a single job
+  fastify.get<{ Params: { id: string } }>('/api/v1/pipeline/jobs/:id', async (request, reply) => {
+    const job = activeJobs.find(j => j.id === request.params.id);
+    if (!job) return reply.status(404).send({ error: 'Not found' });
+    return job;
+  });
+
+  // Producer state: inventory per type and recent production decisions
+  fastify.get('/api/v1/pipeline/status', async () => {
+    return getPipeline().getStatus();
+  });
+
+  // Production cycles with per-phase checkpoints
+  fastify.get<{ Querystring: { limit?: string } }>('/api/v1/pipeline/cycles', async (request) => {
+    const limit = Math.min(request.query.limit ? parseInt(request.query.limit) : 20, 100);
+    return getPipeline().getRecentCycles(Number.isFinite(limit) && limit > 0 ? limit : 20);
+  });
+
+  // Manually trigger song generation — from a given story, chosen articles,
+  // or a fresh story synthesized from unused articles
+  fastify.post<{
+    Body: {
+      story?: Pick<SynthesizedStory, 'headline' | 'summary'> & Partial<SynthesizedStory>;
+      articleIds?: string[];
+    } | undefined;
+  }>('/api/v1/pipeline/song/trigger', async (request, reply) => {
+    const { story, articleIds } = request.body ?? {};
+
+    if (story && (!story.headline || !story.summary)) {
+      return reply.status(400).send({ error: 'story requires headline and summary' });
+    }
+    if (articleIds !== undefined && !isStringArray(articleIds)) {
+      return reply.status(400).send({ error: 'articleIds must be an array of strings' });
+    }
+    if (story?.sourceArticleIds !== undefined && !isStringArray(story.sourceArticleIds)) {
+      return reply.status(400).send({ error: 'story.sourceArticleIds must be an array of strings' });
+    }
+
+    const job = runPipelineJob('song-generation', io, (onProgress) =>
+      getPipeline().generateSongFromStory({
+        story: story && {
+          headline: story.headline,
+          summary: story.summary,
+          angle: story.angle ?? story.headline,
+          sourceArticleIds: story.sourceArticleIds ?? [],
+          importance: story.importance ?? 5,
+        },
+        articleIds,
+        onProgress,
+      }),
+    );
+
+    return reply.status(202).send(job);
   });
 
   // Manually trigger news block generation
-  fastify.post('/api/v1/pipeline/news/trigger', async () => {
-    // Will be wired to actual pipeline later
-    return { message: 'News block generation triggered', status: 'queued' };
+  fastify.post('/api/v1/pipeline/news/trigger', async (_request, reply) => {
+    const job = runPipelineJob('tts-generation', io, async (onProgress) => {
+      const entry = await getPipeline().generateNewsBlock({ force: true, onProgress });
+      if (!entry) throw new Error('No articles available for a news block');
+      return entry;
+    });
+
+    return reply.status(202).send(job);
   });
 }
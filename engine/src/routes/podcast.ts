@@ -5,6 +5,7 @@ import { logger } from '../utils/logger.js';
 import { RssService } from '../services/rss-service.js';
 import { LyricsService } from '../services/lyrics-service.js';
 import { PodcastService, type PodcastEpisode } from '../services/podcast-service.js';
+import { getCostLedger } from '../services/cost-ledger.js';
 
 const episodes: PodcastEpisode[] = [];
 const MAX_EPISODES = 50;
@@ -31,6 +32,7 @@ export function registerPodcastRoutes(fastify: FastifyInstance, io: SocketIOServ
     void (async () => {
       try {
         logger.info({ jobId }, 'Manual podcast generation started');
+        getCostLedger().assertWithinBudget('podcast');
 
         // Fetch news
         const articles = await rssService.fetchOnce();
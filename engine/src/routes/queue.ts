@@ -1,17 +1,9 @@
 import type { FastifyInstance } from 'fastify';
 import type { Server as SocketIOServer } from 'socket.io';
+import { getScheduler, type OverrideItem } from '../services/scheduler.js';
 
-// In-memory override queue and now-playing state
-interface QueueItem {
-  id: string;
-  contentId: string;
-  title: string;
-  contentType: string;
-  urgent: boolean;
-  addedAt: string;
-}
-
-interface NowPlayingState {
+// Now-playing state (set by the stream as each track goes on air)
+export interface NowPlayingState {
   contentId: string;
   title: string;
   type: string;
@@ -21,7 +13,6 @@ interface NowPlayingState {
   startedAt: string;
 }
 
-const overrideQueue: QueueItem[] = [];
 let nowPlaying: NowPlayingState | null = null;
 
 export function getNowPlaying() { return nowPlaying; }
@@ -30,9 +21,9 @@ export function setNowPlaying(state: NowPlayingState | null, io?: SocketIOServer
   if (io && state) io.emit('now-playing:changed', { current: state });
 }
 
-export function getOverrideQueue() { return overrideQueue; }
-
 export function registerQueueRoutes(fastify: FastifyInstance, io: SocketIOServer) {
+  const scheduler = getScheduler();
+
   // Get now playing
   fastify.get('/api/v1/now-playing', async () => {
     return nowPlaying || { status: 'idle' };
@@ -40,14 +31,15 @@ export function registerQueueRoutes(fastify: FastifyInstance, io: SocketIOServer
 
   // Get queue
   fastify.get('/api/v1/queue', async () => {
-    return { overrides: overrideQueue, count: overrideQueue.length };
+    const overrides = scheduler.getOverrideQueue();
+    return { overrides, count: overrides.length };
   });
 
   // Insert override (play next)
   fastify.post<{
     Body: { contentId: string; title: string; contentType: string; urgent?: boolean };
   }>('/api/v1/queue/override', async (request, reply) => {
-    const item: QueueItem = {
+    const item: OverrideItem = {
       id: crypto.randomUUID(),
       contentId: request.body.contentId,
       title: request.body.title,
@@ -56,23 +48,19 @@ export function registerQueueRoutes(fastify: FastifyInstance, io: SocketIOServer
       addedAt: new Date().toISOString(),
     };
 
-    if (item.urgent) {
-      overrideQueue.unshift(item);
-    } else {
-      overrideQueue.push(item);
-    }
+    scheduler.addOverride(item);
 
-    io.emit('queue:updated', { items: overrideQueue });
+    io.emit('queue:updated', { items: scheduler.getOverrideQueue() });
     return reply.status(201).send(item);
   });
 
   // Remove override
   fastify.delete<{ Params: { id: string } }>('/api/v1/queue/override/:id', async (request, reply) => {
-    const index = overrideQueue.findIndex(item => item.id === request.params.id);
-    if (index === -1) return reply.status(404).send({ error: 'Not found' });
+    if (!scheduler.removeOverride(request.params.id)) {
+      return reply.status(404).send({ error: 'Not found' });
+    }
 
-    overrideQueue.splice(index, 1);
-    io.emit('queue:updated', { items: overrideQueue });
+    io.emit('queue:updated', { items: scheduler.getOverrideQueue() });
     return { success: true };
   });
 }
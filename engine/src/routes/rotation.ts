@@ -1,50 +1,159 @@
 import type { FastifyInstance } from 'fastify';
 import type { BetterSQLite3Database } from 'drizzle-orm/better-sqlite3';
-import { rotationPattern } from '../db/schema.js';
-import { eq } from 'drizzle-orm';
+import { rotationGroups, rotationPattern } from '../db/schema.js';
+import { eq, asc } from 'drizzle-orm';
 import { logger } from '../utils/logger.js';
+import {
+  DEFAULT_ROTATION_GROUP,
+  getPattern,
+  getRotationGroup,
+  groupDetail,
+  replaceAssignments,
+  replacePattern,
+  resolveRotationGroup,
+  validateAssignments,
+  validatePattern,
+  type AssignmentInput,
+  type StepInput,
+} from '../services/rotation-groups.js';
+import {
+  getSeparationSettings,
+  updateSeparationSettings,
+  validateSeparationUpdate,
+  type SeparationSettings,
+} from '../services/separation.js';
+
+interface GroupBody {
+  name: string;
+  assignments?: AssignmentInput[];
+  pattern?: StepInput[];
+}
 
 export function registerRotationRoutes(fastify: FastifyInstance, db: BetterSQLite3Database<any>) {
-  // Get current rotation pattern
+  // Get the default group's rotation pattern
   fastify.get('/api/v1/rotation', async () => {
-    return db.select().from(rotationPattern)
-      .where(eq(rotationPattern.patternGroupId, 'default'))
-      .orderBy(rotationPattern.position)
-      .all();
+    return getPattern(db, DEFAULT_ROTATION_GROUP);
   });
 
-  // Replace entire rotation pattern
+  // Replace the default group's rotation pattern
   fastify.put<{
-    Body: {
-      pattern: Array<{
-        contentType: string;
-        contentId?: string;
-        selectionStrategy?: string;
-      }>;
-    };
-  }>('/api/v1/rotation', async (request) => {
-    // Delete existing default pattern
-    db.delete(rotationPattern)
-      .where(eq(rotationPattern.patternGroupId, 'default'))
-      .run();
-
-    // Insert new pattern
-    for (let i = 0; i < request.body.pattern.length; i++) {
-      const step = request.body.pattern[i];
-      db.insert(rotationPattern).values({
-        position: i,
-        contentType: step.contentType as any,
-        contentId: step.contentId,
-        selectionStrategy: (step.selectionStrategy as any) || 'least_recently_played',
-        patternGroupId: 'default',
-      }).run();
-    }
+    Body: { pattern: StepInput[] };
+  }>('/api/v1/rotation', async (request, reply) => {
+    const invalid = validatePattern(request.body?.pattern);
+    if (invalid) return reply.status(400).send({ error: invalid });
 
+    replacePattern(db, DEFAULT_ROTATION_GROUP, request.body.pattern);
     logger.info({ stepCount: request.body.pattern.length }, 'Rotation pattern updated');
 
-    return db.select().from(rotationPattern)
-      .where(eq(rotationPattern.patternGroupId, 'default'))
-      .orderBy(rotationPattern.position)
-      .all();
+    return getPattern(db, DEFAULT_ROTATION_GROUP);
+  });
+
+  // Separation rules for every pick by content type
+  fastify.get('/api/v1/rotation/separation', async () => {
+    return getSeparationSettings();
+  });
+
+  // Partial update; applies from the next pick
+  fastify.put<{ Body: Partial<SeparationSettings> }>('/api/v1/rotation/separation', async (request, reply) => {
+    const body = request.body ?? {};
+    if (typeof body !== 'object' || Array.isArray(body)) {
+      return reply.status(400).send({ error: 'Body must be an object' });
+    }
+    const invalid = validateSeparationUpdate(body);
+    if (invalid) return reply.status(400).send({ error: invalid });
+
+    const settings = updateSeparationSettings(body);
+    logger.info({ keys: Object.keys(body) }, 'Separation rules updated');
+    return settings;
+  });
+
+  // List rotation groups with their assignments and patterns
+  fastify.get('/api/v1/rotation/groups', async () => {
+    return db.select().from(rotationGroups)
+      .orderBy(asc(rotationGroups.createdAt))
+      .all()
+      .map((group) => groupDetail(db, group));
+  });
+
+  // Group in effect at a given time (defaults to now)
+  fastify.get<{ Querystring: { at?: string } }>('/api/v1/rotation/groups/active', async (request, reply) => {
+    const at = request.query.at ? new Date(request.query.at) : new Date();
+    if (Number.isNaN(at.getTime())) return reply.status(400).send({ error: 'at must be an ISO date' });
+    const group = resolveRotationGroup(db, at);
+    return { at: at.toISOString(), group: group ? groupDetail(db, group) : null };
+  });
+
+  // Get single group
+  fastify.get<{ Params: { id: string } }>('/api/v1/rotation/groups/:id', async (request, reply) => {
+    const group = getRotationGroup(db, request.params.id);
+    if (!group) return reply.status(404).send({ error: 'Not found' });
+    return groupDetail(db, group);
+  });
+
+  // Create group
+  fastify.post<{ Body: GroupBody }>('/api/v1/rotation/groups', async (request, reply) => {
+    const { name, assignments = [], pattern = [] } = request.body ?? {};
+    if (typeof name !== 'string' || !name.trim()) return reply.status(400).send({ error: 'name is required' });
+    if (db.select().from(rotationGroups).where(eq(rotationGroups.name, name.trim())).get()) {
+      return reply.status(409).send({ error: `A rotation group named "${name.trim()}" already exists` });
+    }
+
+    const invalid = validatePattern(pattern) ?? validateAssignments(db, null, assignments);
+    if (invalid) return reply.status(400).send({ error: invalid });
+
+    const group = db.insert(rotationGroups).values({ name: name.trim() }).returning().get();
+    replacePattern(db, group.id, pattern);
+    replaceAssignments(db, group.id, assignments);
+
+    logger.info({ groupId: group.id, name: group.name, stepCount: pattern.length }, 'Rotation group created');
+    return reply.status(201).send(groupDetail(db, group));
+  });
+
+  // Update group: name, assignments and pattern are each replaced when given.
+  // A new pattern starts from its first step
+  fastify.put<{ Params: { id: string }; Body: Partial<GroupBody> }>('/api/v1/rotation/groups/:id', async (request, reply) => {
+    const existing = getRotationGroup(db, request.params.id);
+    if (!existing) return reply.status(404).send({ error: 'Not found' });
+
+    const { name, assignments, pattern } = request.body ?? {};
+    if (name !== undefined) {
+      if (typeof name !== 'string' || !name.trim()) return reply.status(400).send({ error: 'name must be a non-empty string' });
+      const clash = db.select().from(rotationGroups).where(eq(rotationGroups.name, name.trim())).get();
+      if (clash && clash.id !== existing.id) {
+        return reply.status(409).send({ error: `A rotation group named "${name.trim()}" already exists` });
+      }
+    }
+    if (assignments !== undefined && existing.id === DEFAULT_ROTATION_GROUP && assignments.length > 0) {
+      return reply.status(400).send({ error: 'The default group runs whenever no other group is assigned' });
+    }
+    const invalid = (pattern !== undefined ? validatePattern(pattern) : null)
+      ?? (assignments !== undefined ? validateAssignments(db, existing.id, assignments) : null);
+    if (invalid) return reply.status(400).send({ error: invalid });
+
+    if (name !== undefined) {
+      db.update(rotationGroups).set({ name: name.trim() }).where(eq(rotationGroups.id, existing.id)).run();
+    }
+    if (pattern !== undefined) replacePattern(db, existing.id, pattern);
+    if (assignments !== undefined) replaceAssignments(db, existing.id, assignments);
+
+    const updated = getRotationGroup(db, existing.id)!;
+    logger.info({ groupId: updated.id, name: updated.name }, 'Rotation group updated');
+    return groupDetail(db, updated);
+  });
+
+  // Delete group (its assignments and pattern go with it)
+  fastify.delete<{ Params: { id: string } }>('/api/v1/rotation/groups/:id', async (request, reply) => {
+    const existing = getRotationGroup(db, request.params.id);
+    if (!existing) return reply.status(404).send({ error: 'Not found' });
+    if (existing.id === DEFAULT_ROTATION_GROUP) {
+      return reply.status(400).send({ error: 'The default group cannot be deleted' });
+    }
+
+    db.transaction((tx) => {
+      tx.delete(rotationPattern).where(eq(rotationPattern.patternGroupId, existing.id)).run();
+      tx.delete(rotationGroups).where(eq(rotationGroups.id, existing.id)).run();
+    });
+    logger.info({ groupId: existing.id, name: existing.name }, 'Rotation group deleted');
+    return { success: true };
   });
 }
@@ -1,22 +1,71 @@
 import type { FastifyInstance } from 'fastify';
 import type { BetterSQLite3Database } from 'drizzle-orm/better-sqlite3';
-import { scheduleSlots, content } from '../db/schema.js';
-import { eq, and, gte, lte, desc } from 'drizzle-orm';
+import { scheduleSlots, content, type ScheduleSlot } from '../db/schema.js';
+import { eq, and, or, gte, lte } from 'drizzle-orm';
 import { logger } from '../utils/logger.js';
+import { getScheduler } from '../services/scheduler.js';
+import { getSetting } from '../services/settings-store.js';
+import {
+  addException,
+  isRecurringSlot,
+  slotOccurrences,
+  validateRecurrenceRule,
+} from '../services/recurrence.js';
+import {
+  CONFLICT_MODES,
+  findConflicts,
+  isConflictMode,
+  resolveSlot,
+  type ConflictMode,
+  type ScheduleIssue,
+} from '../services/schedule-validation.js';
+
+/** How far ahead the preview simulates playout; at typical track lengths the
+ *  dry run's item cap covers this with room to spare */
+const MAX_PREVIEW_HOURS = 48;
+
+/** Longest from/to range recurring slots are expanded over */
+const MAX_EXPANSION_DAYS = 92;
+
+const SLOT_CONTENT_TYPES: readonly string[] = scheduleSlots.contentType.enumValues;
 
 export function registerScheduleRoutes(fastify: FastifyInstance, db: BetterSQLite3Database<any>) {
-  // List schedule slots (with optional time range)
+  // List schedule slots. With both from and to, recurring slots are expanded
+  // into one entry per occurrence in the range (seriesStartTime marks them);
+  // otherwise each slot is listed once as stored.
   fastify.get<{
     Querystring: { from?: string; to?: string };
-  }>('/api/v1/schedule', async (request) => {
-    const conditions = [];
-    if (request.query.from) {
-      conditions.push(gte(scheduleSlots.startTime, new Date(request.query.from)));
+  }>('/api/v1/schedule', async (request, reply) => {
+    const from = request.query.from ? new Date(request.query.from) : null;
+    const to = request.query.to ? new Date(request.query.to) : null;
+    if ((from && Number.isNaN(from.getTime())) || (to && Number.isNaN(to.getTime()))) {
+      return reply.status(400).send({ error: 'from and to must be ISO dates' });
     }
-    if (request.query.to) {
-      conditions.push(lte(scheduleSlots.startTime, new Date(request.query.to)));
+
+    if (from && to) {
+      if (to.getTime() - from.getTime() > MAX_EXPANSION_DAYS * 24 * 60 * 60 * 1000) {
+        return reply.status(400).send({ error: `range must be at most ${MAX_EXPANSION_DAYS} days` });
+      }
+
+      const slots = db.select().from(scheduleSlots)
+        .where(or(eq(scheduleSlots.isRecurring, true), and(gte(scheduleSlots.startTime, from), lte(scheduleSlots.startTime, to))))
+        .all();
+
+      // `to` is inclusive, as for one-off slots
+      const until = new Date(to.getTime() + 1);
+      return slots
+        .flatMap((slot) => slotOccurrences(slot, from, until).map(({ start, end }) => (
+          isRecurringSlot(slot)
+            ? { ...slot, startTime: start, endTime: end, seriesStartTime: slot.startTime }
+            : slot
+        )))
+        .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
     }
 
+    const conditions = [];
+    if (from) conditions.push(gte(scheduleSlots.startTime, from));
+    if (to) conditions.push(lte(scheduleSlots.startTime, to));
+
     const where = conditions.length > 0 ? and(...conditions) : undefined;
 
     return db.select().from(scheduleSlots)
@@ -25,8 +74,10 @@ export function registerScheduleRoutes(fastify: FastifyInstance, db: BetterSQLit
       .all();
   });
 
-  // Create schedule slot
+  // Create schedule slot. Overlaps, unready content and too-short slots are
+  // handled per onConflict (default: the scheduleConflictMode setting)
   fastify.post<{
+    Querystring: { onConflict?: string };
     Body: {
       contentId?: string;
       contentType?: string;
@@ -41,6 +92,18 @@ export function registerScheduleRoutes(fastify: FastifyInstance, db: BetterSQLit
   }>('/api/v1/schedule', async (request, reply) => {
     const { contentId, contentType, startTime, endTime, isRecurring, recurrenceRule, priority, label, color } = request.body;
 
+    const mode = conflictMode(request.query.onConflict);
+    if (!mode) return reply.status(400).send({ error: `onConflict must be one of ${CONFLICT_MODES.join(', ')}` });
+
+    if (contentType != null && !isSlotContentType(contentType)) {
+      return reply.status(400).send({ error: `contentType must be one of ${SLOT_CONTENT_TYPES.join(', ')}` });
+    }
+
+    if (recurrenceRule != null) {
+      const invalid = validateRecurrenceRule(recurrenceRule);
+      if (invalid) return reply.status(400).send({ error: invalid });
+    }
+
     // If contentId provided, verify it exists and get duration for endTime
     let computedEndTime = endTime ? new Date(endTime) : undefined;
     if (contentId && !computedEndTime) {
@@ -50,30 +113,60 @@ export function registerScheduleRoutes(fastify: FastifyInstance, db: BetterSQLit
       }
     }
 
-    const slot = db.insert(scheduleSlots).values({
-      contentId,
-      contentType: contentType as any,
+    const resolution = resolveSlot({
+      contentId: contentId ?? null,
+      contentType: contentType ?? null,
       startTime: new Date(startTime),
-      endTime: computedEndTime,
-      isRecurring,
-      recurrenceRule,
-      priority,
-      label,
-      color,
-    }).returning().get();
-
-    logger.info({ slotId: slot.id, startTime, contentType }, 'Schedule slot created');
-    return reply.status(201).send(slot);
+      endTime: computedEndTime ?? null,
+      // A rule makes the slot recurring unless explicitly switched off
+      isRecurring: isRecurring ?? Boolean(recurrenceRule),
+      recurrenceRule: recurrenceRule ?? null,
+      priority: priority ?? 5,
+      label: label ?? null,
+    }, mode, db);
+    if (!resolution.ok) {
+      return reply.status(resolution.status).send({ error: resolution.error, issues: resolution.issues });
+    }
+
+    const slot = db.insert(scheduleSlots).values({ ...resolution.draft, color }).returning().get();
+
+    logger.info({
+      slotId: slot.id,
+      startTime: slot.startTime,
+      contentType,
+      warnings: resolution.warnings.length,
+      shiftedFrom: resolution.shiftedFrom,
+    }, 'Schedule slot created');
+    return reply.status(201).send(withIssues(slot, resolution));
   });
 
-  // Update schedule slot (drag-drop, resize)
+  // Update schedule slot (drag-drop, resize). Changes to timing or content
+  // are validated like a new slot; label, color and priority alone are not
   fastify.put<{
     Params: { id: string };
-    Body: { startTime?: string; endTime?: string; contentId?: string; label?: string; color?: string; priority?: number };
+    Querystring: { onConflict?: string };
+    Body: {
+      startTime?: string;
+      endTime?: string;
+      contentId?: string;
+      label?: string;
+      color?: string;
+      priority?: number;
+      isRecurring?: boolean;
+      recurrenceRule?: string | null;
+    };
   }>('/api/v1/schedule/:id', async (request, reply) => {
     const existing = db.select().from(scheduleSlots).where(eq(scheduleSlots.id, request.params.id)).get();
     if (!existing) return reply.status(404).send({ error: 'Not found' });
 
+    const mode = conflictMode(request.query.onConflict);
+    if (!mode) return reply.status(400).send({ error: `onConflict must be one of ${CONFLICT_MODES.join(', ')}` });
+
+    if (request.body.recurrenceRule != null) {
+      const invalid = validateRecurrenceRule(request.body.recurrenceRule);
+      if (invalid) return reply.status(400).send({ error: invalid });
+    }
+
     const updates: Record<string, any> = {};
     if (request.body.startTime) updates.startTime = new Date(request.body.startTime);
     if (request.body.endTime) updates.endTime = new Date(request.body.endTime);
@@ -81,11 +174,68 @@ export function registerScheduleRoutes(fastify: FastifyInstance, db: BetterSQLit
     if (request.body.label !== undefined) updates.label = request.body.label;
     if (request.body.color !== undefined) updates.color = request.body.color;
     if (request.body.priority !== undefined) updates.priority = request.body.priority;
+    if (request.body.recurrenceRule !== undefined) {
+      updates.recurrenceRule = request.body.recurrenceRule;
+      updates.isRecurring = request.body.isRecurring ?? request.body.recurrenceRule !== null;
+    } else if (request.body.isRecurring !== undefined) {
+      updates.isRecurring = request.body.isRecurring;
+    }
+
+    let resolution = null;
+    if (['startTime', 'endTime', 'contentId', 'isRecurring', 'recurrenceRule'].some((key) => key in updates)) {
+      resolution = resolveSlot({ ...existing, ...updates }, mode, db);
+      if (!resolution.ok) {
+        return reply.status(resolution.status).send({ error: resolution.error, issues: resolution.issues });
+      }
+      updates.startTime = resolution.draft.startTime;
+      updates.endTime = resolution.draft.endTime;
+    }
 
     db.update(scheduleSlots).set(updates).where(eq(scheduleSlots.id, request.params.id)).run();
-    return db.select().from(scheduleSlots).where(eq(scheduleSlots.id, request.params.id)).get();
+    const slot = db.select().from(scheduleSlots).where(eq(scheduleSlots.id, request.params.id)).get()!;
+    return resolution ? withIssues(slot, resolution) : slot;
   });
 
+  // Overlaps and content problems of every occurrence starting in [from, to),
+  // for highlighting on the timeline
+  fastify.get<{
+    Querystring: { from?: string; to?: string };
+  }>('/api/v1/schedule/conflicts', async (request, reply) => {
+    const from = new Date(request.query.from ?? '');
+    const to = new Date(request.query.to ?? '');
+    if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime())) {
+      return reply.status(400).send({ error: 'from and to must be ISO dates' });
+    }
+    if (to.getTime() - from.getTime() > MAX_EXPANSION_DAYS * 24 * 60 * 60 * 1000) {
+      return reply.status(400).send({ error: `range must be at most ${MAX_EXPANSION_DAYS} days` });
+    }
+    return findConflicts(from, to, db);
+  });
+
+  // Skip one occurrence of a recurring slot (adds an EXDATE)
+  fastify.post<{ Params: { id: string }; Body: { occurrence?: string } }>(
+    '/api/v1/schedule/:id/exceptions',
+    async (request, reply) => {
+      const existing = db.select().from(scheduleSlots).where(eq(scheduleSlots.id, request.params.id)).get();
+      if (!existing) return reply.status(404).send({ error: 'Not found' });
+      if (!isRecurringSlot(existing)) return reply.status(400).send({ error: 'slot is not recurring' });
+
+      const occurrence = new Date(request.body?.occurrence ?? '');
+      if (Number.isNaN(occurrence.getTime())) return reply.status(400).send({ error: 'occurrence must be an ISO date' });
+      const matches = slotOccurrences(existing, occurrence, new Date(occurrence.getTime() + 1000));
+      if (matches.length === 0) return reply.status(400).send({ error: 'no occurrence of this slot starts then' });
+
+      const updated = db.update(scheduleSlots)
+        .set({ recurrenceRule: addException(existing.recurrenceRule!, matches[0].start) })
+        .where(eq(scheduleSlots.id, existing.id))
+        .returning()
+        .get();
+
+      logger.info({ slotId: existing.id, occurrence: matches[0].start.toISOString() }, 'Schedule occurrence skipped');
+      return updated;
+    },
+  );
+
   // Delete schedule slot
   fastify.delete<{ Params: { id: string } }>('/api/v1/schedule/:id', async (request, reply) => {
     const existing = db.select().from(scheduleSlots).where(eq(scheduleSlots.id, request.params.id)).get();
@@ -95,19 +245,83 @@ export function registerScheduleRoutes(fastify: FastifyInstance, db: BetterSQLit
     return { success: true };
   });
 
-  // Preview resolved schedule for next 24h
-  fastify.get('/api/v1/schedule/preview', async () => {
+  // Projected rundown: a dry run of the scheduler over a local day (date=YYYY-MM-DD)
+  // or `hours` from `from` (default: the next 24 hours from now)
+  fastify.get<{
+    Querystring: { date?: string; from?: string; hours?: string };
+  }>('/api/v1/schedule/preview', async (request, reply) => {
     const now = new Date();
-    const next24h = new Date(now.getTime() + 24 * 60 * 60 * 1000);
+    let from: Date;
+    let to: Date;
 
-    const slots = db.select().from(scheduleSlots)
-      .where(and(
-        gte(scheduleSlots.startTime, now),
-        lte(scheduleSlots.startTime, next24h),
-      ))
-      .orderBy(scheduleSlots.startTime)
-      .all();
+    if (request.query.date) {
+      const m = /^(\d{4})-(\d{2})-(\d{2})$/.exec(request.query.date);
+      if (!m) return reply.status(400).send({ error: 'date must be YYYY-MM-DD' });
+      from = new Date(+m[1], +m[2] - 1, +m[3]);
+      to = new Date(+m[1], +m[2] - 1, +m[3] + 1);
+    } else {
+      from = request.query.from ? new Date(request.query.from) : now;
+      const hours = request.query.hours ? Number(request.query.hours) : 24;
+      if (Number.isNaN(from.getTime())) return reply.status(400).send({ error: 'from must be an ISO date' });
+      if (!(hours > 0)) return reply.status(400).send({ error: 'hours must be a positive number' });
+      to = new Date(from.getTime() + hours * 60 * 60 * 1000);
+    }
+
+    if (to <= now) return reply.status(400).send({ error: 'the preview window is in the past' });
+    if (to.getTime() - now.getTime() > MAX_PREVIEW_HOURS * 60 * 60 * 1000) {
+      return reply.status(400).send({ error: `the preview can look at most ${MAX_PREVIEW_HOURS} hours ahead` });
+    }
+
+    // Playout only moves forward from now; what airs before the window still shapes it
+    const rundown = await getScheduler().preview(now, to);
+    const entries = rundown.entries.filter((e) => e.endsAt > from);
+
+    const items = [];
+    const gaps = [];
+    for (const entry of entries) {
+      if (entry.kind === 'gap') {
+        gaps.push({ from: entry.startsAt.toISOString(), to: entry.endsAt.toISOString() });
+        continue;
+      }
+      items.push({
+        id: `preview-${items.length}`,
+        contentId: entry.item.contentId,
+        type: entry.item.contentType,
+        title: entry.item.title,
+        duration: entry.item.duration,
+        scheduledAt: entry.startsAt.toISOString(),
+        endsAt: entry.endsAt.toISOString(),
+        source: entry.item.source,
+        isOverride: entry.item.source === 'override',
+      });
+    }
 
-    return { from: now.toISOString(), to: next24h.toISOString(), slots };
+    // Truncated: the dry run hit its item cap, so nothing after `simulatedUntil` is projected
+    return {
+      from: from.toISOString(),
+      to: to.toISOString(),
+      items,
+      gaps,
+      truncated: rundown.truncated,
+      simulatedUntil: rundown.until.toISOString(),
+    };
   });
 }
+
+function isSlotContentType(value: unknown): value is NonNullable<ScheduleSlot['contentType']> {
+  return typeof value === 'string' && SLOT_CONTENT_TYPES.includes(value);
+}
+
+/** The requested conflict mode, the configured one if none, or null if invalid */
+function conflictMode(requested: string | undefined): ConflictMode | null {
+  const mode = requested ?? getSetting<string>('scheduleConflictMode');
+  return isConflictMode(mode) ? mode : null;
+}
+
+/** A saved slot with the warnings it was saved with and where it was moved from */
+function withIssues<T extends object>(
+  slot: T,
+  resolution: { warnings: ScheduleIssue[]; shiftedFrom: Date | null },
+) {
+  return { ...slot, warnings: resolution.warnings, shiftedFrom: resolution.shiftedFrom };
+}
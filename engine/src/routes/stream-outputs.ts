@@ -0,0 +1,91 @@
+import type { FastifyInstance } from 'fastify';
+import type { BetterSQLite3Database } from 'drizzle-orm/better-sqlite3';
+import { asc, eq } from 'drizzle-orm';
+import { streamOutputs } from '../db/schema.js';
+import { logger } from '../utils/logger.js';
+import { getPipeline } from '../services/pipeline.js';
+import { redactOutput, validateOutput, type OutputBody } from '../services/stream-outputs.js';
+
+export function registerStreamOutputRoutes(fastify: FastifyInstance, db: BetterSQLite3Database<any>) {
+  // List outputs with live health (null while the stream is off or the output is disabled)
+  fastify.get('/api/v1/stream/outputs', async () => {
+    const health = new Map(
+      (getPipeline().getStreamStatus()?.outputs ?? []).map((h) => [h.id, h]),
+    );
+    return db.select().from(streamOutputs).orderBy(asc(streamOutputs.createdAt)).all()
+      .map((o) => ({ ...redactOutput(o), health: health.get(o.id) ?? null }));
+  });
+
+  // Add an output (starts publishing right away if the stream is running)
+  fastify.post<{ Body: OutputBody }>('/api/v1/stream/outputs', async (request, reply) => {
+    const body = request.body ?? {};
+    const invalid = validateOutput(body);
+    if (invalid) return reply.status(400).send({ error: invalid });
+
+    const output = db.insert(streamOutputs).values({
+      name: body.name!.trim(),
+      type: body.type!,
+      url: body.url!.trim(),
+      backupUrl: body.backupUrl?.trim() || null,
+      streamKey: body.streamKey || null,
+      username: body.username || null,
+      password: body.password || null,
+      enabled: body.enabled ?? true,
+    }).returning().get();
+
+    getPipeline().syncStreamOutputs();
+    logger.info({ outputId: output.id, name: output.name, type: output.type }, 'Stream output created');
+    return reply.status(201).send(redactOutput(output));
+  });
+
+  // Update an output; omitted credentials are kept, null clears them
+  fastify.put<{ Params: { id: string }; Body: OutputBody }>('/api/v1/stream/outputs/:id', async (request, reply) => {
+    const existing = db.select().from(streamOutputs).where(eq(streamOutputs.id, request.params.id)).get();
+    if (!existing) return reply.status(404).send({ error: 'Not found' });
+
+    const body = request.body ?? {};
+    const merged: OutputBody = {
+      name: body.name ?? existing.name,
+      type: body.type ?? existing.type,
+      url: body.url ?? existing.url,
+      backupUrl: body.backupUrl !== undefined ? body.backupUrl : existing.backupUrl,
+      streamKey: body.streamKey !== undefined ? body.streamKey : existing.streamKey,
+      username: body.username !== undefined ? body.username : existing.username,
+      password: body.password !== undefined ? body.password : existing.password,
+      enabled: body.enabled ?? existing.enabled,
+    };
+    const invalid = validateOutput(merged);
+    if (invalid) return reply.status(400).send({ error: invalid });
+
+    const updated = db.update(streamOutputs)
+      .set({
+        name: merged.name!.trim(),
+        type: merged.type!,
+        url: merged.url!.trim(),
+        backupUrl: merged.backupUrl?.trim() || null,
+        streamKey: merged.streamKey || null,
+        username: merged.username || null,
+        password: merged.password || null,
+        enabled: merged.enabled!,
+        updatedAt: new Date(),
+      })
+      .where(eq(streamOutputs.id, request.params.id))
+      .returning()
+      .get();
+
+    getPipeline().syncStreamOutputs();
+    logger.info({ outputId: updated.id, name: updated.name, enabled: updated.enabled }, 'Stream output updated');
+    return redactOutput(updated);
+  });
+
+  // Remove an output (stops publishing to it immediately)
+  fastify.delete<{ Params: { id: string } }>('/api/v1/stream/outputs/:id', async (request, reply) => {
+    const existing = db.select().from(streamOutputs).where(eq(streamOutputs.id, request.params.id)).get();
+    if (!existing) return reply.status(404).send({ error: 'Not found' });
+
+    db.delete(streamOutputs).where(eq(streamOutputs.id, request.params.id)).run();
+    getPipeline().syncStreamOutputs();
+    logger.info({ outputId: existing.id, name: existing.name }, 'Stream output deleted');
+    return { success: true };
+  });
+}
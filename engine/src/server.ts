@@ -10,11 +10,22 @@ import { registerEngineRoutes } from './routes/engine.js';
 import { registerContentRoutes } from './routes/content.js';
 import { registerScheduleRoutes } from './routes/schedule.js';
 import { registerRotationRoutes } from './routes/rotation.js';
-import { registerQueueRoutes } from './routes/queue.js';
+import { registerQueueRoutes, setNowPlaying } from './routes/queue.js';
+import { registerClockRoutes } from './routes/clocks.js';
 import { registerSettingsRoutes } from './routes/settings.js';
 import { registerPipelineRoutes } from './routes/pipeline.js';
 import { registerPodcastRoutes } from './routes/podcast.js';
-import { seedDefaultRotation } from './services/seed.js';
+import { registerCostRoutes } from './routes/costs.js';
+import { registerBreakingNewsRoutes } from './routes/breaking-news.js';
+import { registerStreamOutputRoutes } from './routes/stream-outputs.js';
+import { registerLiveRoutes } from './routes/live.js';
+import { registerOverlayTemplateRoutes } from './routes/overlay-templates.js';
+import { registerBackgroundRoutes } from './routes/backgrounds.js';
+import { seedDefaultClock, seedDefaultOutputs, seedDefaultOverlayTemplate, seedDefaultRotation } from './services/seed.js';
+import { getPipeline, type BreakingAlert } from './services/pipeline.js';
+import type { StreamStatus } from './services/stream-manager.js';
+import type { StreamEvent } from './db/schema.js';
+import { getScheduler, type ScheduledItem } from './services/scheduler.js';
 
 const config = getConfig();
 
@@ -40,8 +51,11 @@ await fastify.register(multipart, {
 // Initialize database
 const db = getDb();
 
-// Seed default rotation pattern
+// Seed default rotation pattern and format clock
 seedDefaultRotation(db);
+seedDefaultClock(db);
+seedDefaultOutputs(db);
+seedDefaultOverlayTemplate(db);
 
 // Create HTTP server for Socket.io
 const httpServer = createServer(fastify.server);
@@ -67,10 +81,54 @@ registerEngineRoutes(fastify, io);
 registerContentRoutes(fastify, db);
 registerScheduleRoutes(fastify, db);
 registerRotationRoutes(fastify, db);
+registerClockRoutes(fastify, db);
 registerQueueRoutes(fastify, io);
 registerSettingsRoutes(fastify, db);
 registerPipelineRoutes(fastify, io);
 registerPodcastRoutes(fastify, io);
+registerCostRoutes(fastify);
+registerBreakingNewsRoutes(fastify);
+registerStreamOutputRoutes(fastify, db);
+registerLiveRoutes(fastify);
+registerOverlayTemplateRoutes(fastify, db);
+registerBackgroundRoutes(fastify, db);
+
+// Forward stream playout to the dashboard
+getPipeline().on('now-playing', (item: ScheduledItem) => {
+  setNowPlaying({
+    contentId: item.contentId,
+    title: item.title,
+    type: item.contentType,
+    progress: 0,
+    elapsed: 0,
+    duration: item.duration,
+    startedAt: new Date().toISOString(),
+  }, io);
+  io.emit('queue:updated', { items: getScheduler().getOverrideQueue() });
+});
+
+// Surface breaking news in the dashboard alert banner
+getPipeline().on('breaking-news', (alert: BreakingAlert) => {
+  io.emit('breaking-news:update', alert);
+  if (alert.status === 'pending') {
+    io.emit('alert', { severity: 'warning', message: `Breaking news awaiting confirmation: ${alert.headline}` });
+  } else if (alert.status === 'queued') {
+    io.emit('alert', { severity: 'info', message: `Breaking news going to air: ${alert.headline}` });
+    io.emit('queue:updated', { items: getScheduler().getOverrideQueue() });
+  }
+});
+
+// Stream telemetry and health events for the dashboard
+getPipeline().on('stream-metrics', (status: StreamStatus) => {
+  io.emit('stream:metrics', status);
+});
+
+getPipeline().on('stream-event', (event: StreamEvent) => {
+  io.emit('stream:event', event);
+  if (event.type === 'failover' || event.type === 'output_down' || event.type.endsWith('_degraded')) {
+    io.emit('alert', { severity: 'warning', message: event.message });
+  }
+});
 
 // Socket.io connection handling
 io.on('connection', (socket) => {
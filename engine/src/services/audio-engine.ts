@@ -15,7 +15,6 @@ export class AudioEngine extends EventEmitter {
   constructor(
     private scheduler: Scheduler,
     private io: SocketIOServer,
-    private mediaDir: string,
   ) {
     super();
   }
@@ -84,7 +83,7 @@ export class AudioEngine extends EventEmitter {
       return;
     }
 
-    const filePath = `${this.mediaDir}/${item.filePath}`;
+    const filePath = item.filePath;
     if (!existsSync(filePath)) {
       logger.error({ filePath, title: item.title }, 'Audio file not found, skipping');
       this.playNext();
@@ -0,0 +1,250 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getConfig } from '../config.js';
+import { FfmpegUnavailableError, runFfmpeg } from '../utils/ffmpeg.js';
+import { logger } from '../utils/logger.js';
+import { getSetting } from './settings-store.js';
+
+/** Loudness range passed to loudnorm; only matters for its dynamic mode */
+const TARGET_LRA = 11;
+
+/** Skip re-encoding when the file is already this close to target (LU) */
+const NORMALIZE_TOLERANCE_LU = 0.5;
+
+/** Anything quieter than this is treated as silence */
+const SILENCE_NOISE_DB = -50;
+const SILENCE_MIN_SECONDS = 1;
+
+/** Fail when more than this share of the file is silent */
+const MAX_SILENCE_RATIO = 0.5;
+
+/** Fail when more than this share of samples sit at full scale */
+const MAX_CLIPPED_RATIO = 0.001;
+
+/** Allowed drift between the reported duration and the decoded one */
+const DURATION_TOLERANCE_SECONDS = 10;
+const DURATION_TOLERANCE_RATIO = 0.2;
+
+export type QcFailure = 'unreadable' | 'silent' | 'clipping' | 'duration_mismatch';
+
+export interface LoudnessMeasurement {
+  integratedLufs: number | null;
+  truePeakDb: number | null;
+  lra: number | null;
+  threshold: number | null;
+  /** Target the file was normalized to, or null if it was left as-is */
+  normalizedTo: number | null;
+}
+
+export interface AudioQcReport {
+  passed: boolean;
+  failures: QcFailure[];
+  /** Decoded length in seconds */
+  measuredDuration: number | null;
+  reportedDuration: number | null;
+  silenceRatio: number;
+  clippedRatio: number;
+  loudness: LoudnessMeasurement;
+  checkedAt: string;
+}
+
+interface Analysis {
+  duration: number | null;
+  silenceRatio: number;
+  clippedRatio: number;
+  loudnorm: Record<string, string> | null;
+}
+
+/**
+ * Ingest check for every file before it can air: measures EBU R128 loudness,
+ * rejects mostly-silent, clipped or truncated audio, and normalizes passing
+ * files in place to the `loudnessTargetLufs` setting.
+ *
+ * Throws only if ffmpeg itself can't be run; a file ffmpeg can't decode
+ * comes back as a failed report.
+ */
+export async function runAudioQc(
+  filePath: string,
+  options: { reportedDuration?: number | null } = {},
+): Promise<AudioQcReport> {
+  const targetLufs = getSetting<number>('loudnessTargetLufs');
+  const truePeakDb = getSetting<number>('loudnessTruePeakDb');
+  const reportedDuration = options.reportedDuration ?? null;
+
+  const report: AudioQcReport = {
+    passed: false,
+    failures: [],
+    measuredDuration: null,
+    reportedDuration,
+    silenceRatio: 0,
+    clippedRatio: 0,
+    loudness: { integratedLufs: null, truePeakDb: null, lra: null, threshold: null, normalizedTo: null },
+    checkedAt: new Date().toISOString(),
+  };
+
+  let analysis: Analysis;
+  try {
+    analysis = await analyze(filePath, targetLufs, truePeakDb);
+  } catch (err) {
+    if (err instanceof FfmpegUnavailableError) throw err;
+    logger.warn({ err, filePath }, 'Audio QC could not decode file');
+    report.failures.push('unreadable');
+    return report;
+  }
+
+  report.measuredDuration = analysis.duration;
+  report.silenceRatio = analysis.silenceRatio;
+  report.clippedRatio = analysis.clippedRatio;
+  report.loudness.integratedLufs = toNumber(analysis.loudnorm?.input_i);
+  report.loudness.truePeakDb = toNumber(analysis.loudnorm?.input_tp);
+  report.loudness.lra = toNumber(analysis.loudnorm?.input_lra);
+  report.loudness.threshold = toNumber(analysis.loudnorm?.input_thresh);
+
+  if (!analysis.duration || !analysis.loudnorm) {
+    report.failures.push('unreadable');
+  }
+  // loudnorm reports -inf for digital silence
+  if (report.loudness.integratedLufs === null || report.silenceRatio > MAX_SILENCE_RATIO) {
+    report.failures.push('silent');
+  }
+  if (report.clippedRatio > MAX_CLIPPED_RATIO) {
+    report.failures.push('clipping');
+  }
+  if (reportedDuration && analysis.duration) {
+    const tolerance = Math.max(DURATION_TOLERANCE_SECONDS, reportedDuration * DURATION_TOLERANCE_RATIO);
+    if (Math.abs(analysis.duration - reportedDuration) > tolerance) {
+      report.failures.push('duration_mismatch');
+    }
+  }
+
+  report.failures = [...new Set(report.failures)];
+  report.passed = report.failures.length === 0;
+  if (!report.passed) return report;
+
+  const offset = Math.abs((report.loudness.integratedLufs ?? targetLufs) - targetLufs);
+  if (offset > NORMALIZE_TOLERANCE_LU) {
+    try {
+      await normalize(filePath, analysis.loudnorm!, targetLufs, truePeakDb);
+      report.loudness.normalizedTo = targetLufs;
+    } catch (err) {
+      // The original is untouched; airing it un-normalized beats not airing it
+      logger.warn({ err, filePath }, 'Loudness normalization failed');
+    }
+  }
+
+  logger.info(
+    { filePath, lufs: report.loudness.integratedLufs, normalizedTo: report.loudness.normalizedTo },
+    'Audio QC passed',
+  );
+  return report;
+}
+
+/**
+ * Move a file that failed QC into MEDIA_DIR/quarantine so it can be
+ * inspected but never picked up as a regular media file. Returns the new path.
+ */
+export async function quarantineFile(filePath: string): Promise<string> {
+  const dir = path.join(getConfig().MEDIA_DIR, 'quarantine');
+  await fs.mkdir(dir, { recursive: true });
+  const target = path.join(dir, path.basename(filePath));
+  await fs.rename(filePath, target).catch(async () => {
+    // Different filesystem: copy then remove
+    await fs.copyFile(filePath, target);
+    await fs.unlink(filePath);
+  });
+  return target;
+}
+
+/** One decode pass: loudness, silence and clipping stats */
+async function analyze(filePath: string, targetLufs: number, truePeakDb: number): Promise<Analysis> {
+  const stderr = await runFfmpeg([
+    '-hide_banner',
+    '-i', filePath,
+    '-af', [
+      `silencedetect=noise=${SILENCE_NOISE_DB}dB:d=${SILENCE_MIN_SECONDS}`,
+      'volumedetect',
+      `loudnorm=I=${targetLufs}:TP=${truePeakDb}:LRA=${TARGET_LRA}:print_format=json`,
+    ].join(','),
+    '-f', 'null', '-',
+  ]);
+
+  const duration = parseDuration(stderr);
+
+  // A silence that runs to the end of the file has a start but no end line
+  let silent = 0;
+  let openStart: number | null = null;
+  for (const line of stderr.split('\n')) {
+    const start = line.match(/silence_start:\s*(-?[\d.]+)/);
+    if (start) openStart = parseFloat(start[1]);
+    const dur = line.match(/silence_duration:\s*([\d.]+)/);
+    if (dur) {
+      silent += parseFloat(dur[1]);
+      openStart = null;
+    }
+  }
+  if (openStart !== null && duration) silent += Math.max(0, duration - openStart);
+
+  const samples = Number(stderr.match(/n_samples:\s*(\d+)/)?.[1] ?? 0);
+  const fullScale = Number(stderr.match(/histogram_0db:\s*(\d+)/)?.[1] ?? 0);
+
+  const json = stderr.match(/\{[^{}]*"input_i"[^{}]*\}/);
+
+  return {
+    duration,
+    silenceRatio: duration ? Math.min(1, silent / duration) : 0,
+    clippedRatio: samples > 0 ? fullScale / samples : 0,
+    loudnorm: json ? JSON.parse(json[0]) as Record<string, string> : null,
+  };
+}
+
+/** Second loudnorm pass using the measured values, so the gain is linear */
+async function normalize(
+  filePath: string,
+  measured: Record<string, string>,
+  targetLufs: number,
+  truePeakDb: number,
+): Promise<void> {
+  const ext = path.extname(filePath);
+  const tmpPath = `${filePath.slice(0, -ext.length || undefined)}.normalizing${ext}`;
+
+  const filter = [
+    `loudnorm=I=${targetLufs}:TP=${truePeakDb}:LRA=${TARGET_LRA}`,
+    `measured_I=${measured.input_i}`,
+    `measured_TP=${measured.input_tp}`,
+    `measured_LRA=${measured.input_lra}`,
+    `measured_thresh=${measured.input_thresh}`,
+    `offset=${measured.target_offset}`,
+    'linear=true',
+  ].join(':');
+
+  try {
+    await runFfmpeg([
+      '-hide_banner', '-loglevel', 'error',
+      '-i', filePath,
+      '-af', filter,
+      // loudnorm resamples to 192 kHz internally
+      '-ar', '44100',
+      ...(ext.toLowerCase() === '.mp3' ? ['-c:a', 'libmp3lame', '-b:a', '192k'] : []),
+      '-map_metadata', '0',
+      '-y', tmpPath,
+    ]);
+    await fs.rename(tmpPath, filePath);
+  } catch (err) {
+    await fs.unlink(tmpPath).catch(() => undefined);
+    throw err;
+  }
+}
+
+function parseDuration(stderr: string): number | null {
+  // The final progress line reports how much was actually decoded
+  const times = [...stderr.matchAll(/time=(\d+):(\d+):([\d.]+)/g)];
+  const match = times.at(-1) ?? stderr.match(/Duration:\s*(\d+):(\d+):([\d.]+)/);
+  if (!match) return null;
+  return Number(match[1]) * 3600 + Number(match[2]) * 60 + parseFloat(match[3]);
+}
+
+function toNumber(value: string | undefined): number | null {
+  if (value === undefined) return null;
+  const n = parseFloat(value);
+  return Number.isFinite(n) ? n : null;
+}
@@ -0,0 +1,306 @@
+import { existsSync, promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { asc } from 'drizzle-orm';
+import { getConfig } from '../config.js';
+import { getDb } from '../db/client.js';
+import { backgroundImages, backgroundRules, type BackgroundImage, type BackgroundRule } from '../db/schema.js';
+import { runFfmpeg } from '../utils/ffmpeg.js';
+import { logger } from '../utils/logger.js';
+import { CANVAS_HEIGHT, CANVAS_WIDTH } from './overlay-templates.js';
+import type { ScheduledItem } from './scheduler.js';
+
+/** Library images live here, relative to MEDIA_DIR */
+export const BACKGROUND_DIR = 'backgrounds';
+
+const CONTENT_TYPES = ['song', 'podcast', 'news_block', 'ad', 'jingle'];
+
+/** Faster slideshows would mostly show up as encoder load */
+const MIN_SLIDESHOW_SECONDS = 5;
+
+export interface RuleInput {
+  name?: string;
+  priority?: number;
+  contentType?: string | null;
+  genre?: string | null;
+  hourStart?: number | null;
+  hourEnd?: number | null;
+  tag?: string | null;
+  slideshowSeconds?: number | null;
+  enabled?: boolean;
+}
+
+/**
+ * Check a rule body from the API; `partial` allows missing fields for updates.
+ * Returns an error message, or null if valid.
+ */
+export function validateRule(body: Record<string, unknown>, partial = false): string | null {
+  if (!partial && body.name === undefined) return 'name is required';
+  for (const [key, value] of Object.entries(body)) {
+    switch (key) {
+      case 'name':
+        if (typeof value !== 'string' || !value.trim()) return 'name must be a non-empty string';
+        break;
+      case 'priority':
+        if (!Number.isInteger(value)) return 'priority must be an integer';
+        break;
+      case 'contentType':
+        if (value !== null && !CONTENT_TYPES.includes(value as string)) {
+          return `contentType must be null or one of: ${CONTENT_TYPES.join(', ')}`;
+        }
+        break;
+      case 'genre':
+      case 'tag':
+        if (value !== null && (typeof value !== 'string' || !value.trim())) return `${key} must be null or a non-empty string`;
+        break;
+      case 'hourStart':
+      case 'hourEnd':
+        if (value !== null && (!Number.isInteger(value) || (value as number) < 0 || (value as number) > 23)) {
+          return `${key} must be null or an hour from 0 to 23`;
+        }
+        break;
+      case 'slideshowSeconds':
+        if (value !== null && (!Number.isInteger(value) || (value as number) < MIN_SLIDESHOW_SECONDS)) {
+          return `slideshowSeconds must be null or at least ${MIN_SLIDESHOW_SECONDS}`;
+        }
+        break;
+      case 'enabled':
+        if (typeof value !== 'boolean') return 'enabled must be a boolean';
+        break;
+      default:
+        return `unknown field '${key}'`;
+    }
+  }
+  if (!partial && (body.hourStart == null) !== (body.hourEnd == null)) {
+    return 'hourStart and hourEnd must be set together';
+  }
+  if (body.hourStart != null && body.hourStart === body.hourEnd) {
+    return 'hourStart and hourEnd must differ; leave both null for all day';
+  }
+  return null;
+}
+
+/** Lowercased, trimmed and deduplicated; tags match case-insensitively */
+export function normalizeTags(value: unknown): string[] {
+  const list = Array.isArray(value)
+    ? value
+    : typeof value === 'string' ? value.split(',') : [];
+  const tags = list
+    .filter((t): t is string => typeof t === 'string')
+    .map((t) => t.trim().toLowerCase())
+    .filter((t) => t !== '');
+  return [...new Set(tags)];
+}
+
+/** Whether every condition of `rule` holds for `track` at `now` */
+export function ruleMatches(rule: BackgroundRule, track: ScheduledItem | null, now: Date): boolean {
+  if (!rule.enabled) return false;
+  if (rule.contentType && rule.contentType !== track?.contentType) return false;
+  if (rule.genre) {
+    const genre = track?.metadata?.genre;
+    if (typeof genre !== 'string' || genre.toLowerCase() !== rule.genre.toLowerCase()) return false;
+  }
+  if (rule.hourStart !== null && rule.hourEnd !== null) {
+    const hour = now.getHours();
+    // 22 → 6 covers the night: wraps past midnight
+    const inWindow = rule.hourStart <= rule.hourEnd
+      ? hour >= rule.hourStart && hour < rule.hourEnd
+      : hour >= rule.hourStart || hour < rule.hourEnd;
+    if (!inWindow) return false;
+  }
+  return true;
+}
+
+/**
+ * Normalize any image ffmpeg can read to a canvas-sized PNG, cropped to fill.
+ * Throws FfmpegUnavailableError if ffmpeg can't be started.
+ */
+export async function importBackground(sourcePath: string, outputPath: string): Promise<void> {
+  await fs.mkdir(path.dirname(outputPath), { recursive: true });
+  await runFfmpeg([
+    '-hide_banner', '-loglevel', 'error', '-y',
+    '-i', sourcePath,
+    '-vf', `scale=${CANVAS_WIDTH}:${CANVAS_HEIGHT}:force_original_aspect_ratio=increase,crop=${CANVAS_WIDTH}:${CANVAS_HEIGHT}`,
+    '-frames:v', '1',
+    outputPath,
+  ]);
+}
+
+export function backgroundFilePath(image: BackgroundImage): string {
+  return path.join(getConfig().MEDIA_DIR, image.filePath);
+}
+
+/**
+ * Station background, chosen from the image library by rules.
+ *
+ * The picked image is copied to a fixed path the encoder re-reads every
+ * frame, so a new background shows at the next track (or slideshow step)
+ * without restarting the encoder. Rules are evaluated in priority order
+ * against the track on air and the local hour; the first match picks the
+ * next image carrying its tag, in turn. With no match, or no images for
+ * the matching rule, the stream's configured background shows.
+ */
+export class BackgroundRotator {
+  private readonly dir = path.join(os.tmpdir(), 'radiowar-overlay');
+  private live = false;
+  private track: ScheduledItem | null = null;
+  private rule: BackgroundRule | null = null;
+  private image: BackgroundImage | null = null;
+  private fallback: string | null = null;
+  /** Next image index per rule, so consecutive tracks don't repeat */
+  private cursors = new Map<string, number>();
+  private timer: NodeJS.Timeout | null = null;
+  private shown: string | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  /** The background frame the encoder reads */
+  get framePath(): string {
+    return path.join(this.dir, 'background.png');
+  }
+
+  /** The configured background, normalized to the canvas size */
+  private get fallbackPath(): string {
+    return path.join(this.dir, 'background-default.png');
+  }
+
+  getState(): {
+    image: { id: string; name: string } | null;
+    rule: { id: string; name: string } | null;
+    slideshowSeconds: number | null;
+  } {
+    return {
+      image: this.image && { id: this.image.id, name: this.image.name },
+      rule: this.rule && { id: this.rule.id, name: this.rule.name },
+      slideshowSeconds: this.rule?.slideshowSeconds ?? null,
+    };
+  }
+
+  /**
+   * Prepare `fallback` (the stream's configured background, or null for the
+   * plain dark one) and show what nothing-on-air maps to. Resolves once the
+   * frame is written.
+   */
+  async start(fallback: string | null): Promise<void> {
+    this.live = true;
+    this.shown = null;
+    this.fallback = null;
+    // A frame left from an earlier session shouldn't stand in if preparing fails
+    await fs.rm(this.framePath, { force: true });
+    try {
+      // Every frame the encoder reads must have the same size, or it reconfigures
+      if (fallback && existsSync(fallback)) {
+        await importBackground(fallback, this.fallbackPath);
+      } else {
+        await fs.mkdir(this.dir, { recursive: true });
+        await runFfmpeg([
+          '-hide_banner', '-loglevel', 'error', '-y',
+          '-f', 'lavfi', '-i', `color=c=0x0a0a0a:s=${CANVAS_WIDTH}x${CANVAS_HEIGHT}`,
+          '-frames:v', '1',
+          this.fallbackPath,
+        ]);
+      }
+      this.fallback = this.fallbackPath;
+    } catch (err) {
+      logger.error({ err, fallback }, 'Failed to prepare default background');
+    }
+    await this.setTrack(null);
+  }
+
+  stop(): void {
+    this.live = false;
+    this.clearTimer();
+    this.track = null;
+    this.rule = null;
+    this.image = null;
+  }
+
+  /** Pick the background for `track` (null: nothing on air); resolves once it's written */
+  setTrack(track: ScheduledItem | null): Promise<void> {
+    this.track = track;
+    return this.apply(true);
+  }
+
+  /** Re-apply rules and library changes to what's on air now, keeping the image if it still fits */
+  refresh(): Promise<void> {
+    if (!this.live) return Promise.resolve();
+    return this.apply(false);
+  }
+
+  private apply(advance: boolean): Promise<void> {
+    this.clearTimer();
+    const rules = getDb().select().from(backgroundRules)
+      .orderBy(asc(backgroundRules.priority), asc(backgroundRules.createdAt))
+      .all();
+    const rule = rules.find((r) => ruleMatches(r, this.track, new Date())) ?? null;
+    const candidates = rule ? imagesFor(rule, listImages()) : [];
+
+    const keep = !advance && rule?.id === this.rule?.id && candidates.some((i) => i.id === this.image?.id);
+    this.rule = rule;
+    if (!keep) this.image = rule ? this.nextImage(rule, candidates) : null;
+
+    if (rule?.slideshowSeconds && candidates.length > 1) {
+      this.timer = setInterval(() => {
+        this.image = this.nextImage(rule, imagesFor(rule, listImages()));
+        void this.write();
+      }, rule.slideshowSeconds * 1000);
+      this.timer.unref();
+    }
+    return this.write();
+  }
+
+  private nextImage(rule: BackgroundRule, candidates: BackgroundImage[]): BackgroundImage | null {
+    if (candidates.length === 0) return null;
+    const index = (this.cursors.get(rule.id) ?? 0) % candidates.length;
+    this.cursors.set(rule.id, index + 1);
+    return candidates[index];
+  }
+
+  private write(): Promise<void> {
+    const source = this.image ? backgroundFilePath(this.image) : this.fallback;
+    const image = this.image;
+    this.writing = this.writing.then(async () => {
+      // Without a prepared fallback the last frame stays up
+      if (!source || source === this.shown) return;
+      try {
+        await fs.mkdir(this.dir, { recursive: true });
+        // Copied beside the target and renamed, so the encoder never reads a partial image
+        const tmpPath = path.join(this.dir, 'background.next.png');
+        await fs.copyFile(source, tmpPath);
+        await fs.rename(tmpPath, this.framePath);
+        this.shown = source;
+        logger.debug({ image: image?.name ?? null }, 'Background changed');
+      } catch (err) {
+        logger.error({ err, source }, 'Failed to write background frame');
+      }
+    });
+    return this.writing;
+  }
+
+  private clearTimer(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+}
+
+function listImages(): BackgroundImage[] {
+  return getDb().select().from(backgroundImages).orderBy(asc(backgroundImages.createdAt)).all();
+}
+
+/** Library images a rule picks from: those with its tag, or all of them */
+function imagesFor(rule: BackgroundRule, images: BackgroundImage[]): BackgroundImage[] {
+  const tag = rule.tag?.toLowerCase();
+  return images.filter((i) => !tag || i.tags.includes(tag));
+}
+
+// ---------------------------------------------------------------------------
+// Singleton
+// ---------------------------------------------------------------------------
+
+let _rotator: BackgroundRotator | null = null;
+
+export function getBackgroundRotator(): BackgroundRotator {
+  if (!_rotator) {
+    _rotator = new BackgroundRotator();
+  }
+  return _rotator;
+}
@@ -0,0 +1,172 @@
+import { logger } from '../utils/logger.js';
+import { withRetry } from '../utils/retry.js';
+import { callClaudeCli } from '../utils/claude-cli.js';
+import { buildBreakingNewsPrompt, parseBreakingNewsResponse } from '../news/prompt-builder.js';
+import { getSetting } from './settings-store.js';
+import type { NewsArticle } from './rss-service.js';
+
+/** Weighted signals in title + description; an article's score is the sum of its matches */
+const BREAKING_KEYWORDS: Record<string, number> = {
+  'breaking': 3,
+  'just in': 3,
+  'urgent': 2,
+  'declares war': 6,
+  'declaration of war': 6,
+  'nuclear': 5,
+  'invasion': 4,
+  'invades': 4,
+  'assassinat': 5,
+  'coup': 4,
+  'martial law': 4,
+  'surrender': 4,
+  'mobiliz': 3,
+  'ceasefire collapse': 4,
+  'ceasefire agreed': 3,
+  'missile strike': 3,
+  'airstrike': 2,
+  'explosion': 2,
+  'evacuat': 2,
+  'dozens killed': 3,
+  'hundreds killed': 4,
+  'killed': 1,
+};
+
+/** How far back to look for other outlets reporting the same story */
+const CORROBORATION_WINDOW_MS = 3 * 60 * 60 * 1000;
+
+/** Minimum LLM importance (1-10) for a story to go on air */
+const LLM_MIN_IMPORTANCE = 8;
+
+/** Candidates sent to the LLM per batch of new articles */
+const MAX_LLM_CHECKS = 2;
+
+/** Fewest headline words two reports must share to count as the same story */
+const MIN_SHARED_TOKENS = 2;
+
+const STOPWORDS = new Set([
+  'after', 'about', 'against', 'amid', 'over', 'says', 'said', 'with', 'from', 'into',
+  'their', 'they', 'this', 'that', 'will', 'have', 'been', 'were', 'what', 'when',
+  'news', 'live', 'update', 'updates', 'latest', 'breaking',
+]);
+
+export interface BreakingStory {
+  headline: string;
+  bulletin: string;
+  importance: number;
+  score: number;
+  sources: string[];
+  articleIds: string[];
+}
+
+/**
+ * Spots stories worth interrupting the broadcast for.
+ *
+ * A story qualifies when an article scores high on weighted keywords, at
+ * least `breakingNewsMinSources` outlets report it within the corroboration
+ * window, and the LLM rates it as must-hear-now. Every clustered article is
+ * evaluated once, so a story that fails the check isn't re-sent to the LLM.
+ */
+export class BreakingNewsDetector {
+  /** Article ID → when it was sent to the LLM (pruned after the corroboration window) */
+  private readonly evaluated = new Map<string, number>();
+
+  /**
+   * Evaluate newly fetched articles against recent ones.
+   * `recent` should include everything fetched within the corroboration window.
+   */
+  async evaluate(incoming: NewsArticle[], recent: NewsArticle[]): Promise<BreakingStory | null> {
+    const minScore = getSetting<number>('breakingNewsMinScore');
+    const minSources = getSetting<number>('breakingNewsMinSources');
+    const cutoff = Date.now() - CORROBORATION_WINDOW_MS;
+    const window = recent.filter((a) => a.fetchedAt.getTime() >= cutoff);
+    for (const [id, at] of this.evaluated) {
+      if (at < cutoff) this.evaluated.delete(id);
+    }
+
+    const candidates = incoming
+      .filter((a) => !this.evaluated.has(a.id))
+      .map((article) => ({ article, score: scoreArticle(article) }))
+      .filter((c) => c.score >= minScore)
+      .sort((a, b) => b.score - a.score);
+
+    let llmChecks = 0;
+    for (const { article, score } of candidates) {
+      if (this.evaluated.has(article.id)) continue;
+
+      const cluster = this.corroborate(article, window);
+      const sources = [...new Set(cluster.map((a) => a.source))];
+
+      if (sources.length < minSources) {
+        logger.debug({ title: article.title, score, sources }, 'Breaking candidate not corroborated yet');
+        continue;
+      }
+
+      if (llmChecks >= MAX_LLM_CHECKS) break;
+      llmChecks++;
+      for (const a of cluster) this.evaluated.set(a.id, Date.now());
+
+      const assessment = await withRetry(
+        async () => {
+          const { systemPrompt, userPrompt } = buildBreakingNewsPrompt(cluster);
+          const response = await callClaudeCli(userPrompt, { systemPrompt, purpose: 'breaking-news' });
+          return parseBreakingNewsResponse(response);
+        },
+        { maxAttempts: 2, baseDelay: 2000, label: 'breaking-news' },
+      ).catch((err) => {
+        logger.error({ err, title: article.title }, 'Breaking news check failed');
+        return null;
+      });
+
+      if (!assessment) continue;
+
+      logger.info(
+        { title: article.title, score, sources, breaking: assessment.breaking, importance: assessment.importance },
+        'Breaking news candidate assessed',
+      );
+
+      if (assessment.breaking && assessment.importance >= LLM_MIN_IMPORTANCE) {
+        return {
+          headline: assessment.headline,
+          bulletin: assessment.bulletin,
+          importance: assessment.importance,
+          score,
+          sources,
+          articleIds: cluster.map((a) => a.id),
+        };
+      }
+    }
+
+    return null;
+  }
+
+  /** The article plus every other one in the window that shares its headline words */
+  private corroborate(article: NewsArticle, window: NewsArticle[]): NewsArticle[] {
+    const tokens = headlineTokens(article.title);
+    const matches = window.filter((other) => {
+      if (other.id === article.id) return false;
+      const otherTokens = headlineTokens(other.title);
+      let shared = 0;
+      for (const t of otherTokens) if (tokens.has(t)) shared++;
+      const smaller = Math.min(tokens.size, otherTokens.size);
+      return shared >= MIN_SHARED_TOKENS && smaller > 0 && shared / smaller >= 0.5;
+    });
+    return [article, ...matches];
+  }
+}
+
+function scoreArticle(article: NewsArticle): number {
+  const haystack = `${article.title} ${article.description}`.toLowerCase();
+  let score = 0;
+  for (const [keyword, weight] of Object.entries(BREAKING_KEYWORDS)) {
+    if (haystack.includes(keyword)) score += weight;
+  }
+  return score;
+}
+
+function headlineTokens(title: string): Set<string> {
+  return new Set(
+    title.toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((w) => w.length >= 4 && !STOPWORDS.has(w)),
+  );
+}
@@ -0,0 +1,167 @@
+import { desc, gte, sql } from 'drizzle-orm';
+import { getConfig } from '../config.js';
+import { getDb } from '../db/client.js';
+import { costLedger, type CostEntry } from '../db/schema.js';
+import { logger } from '../utils/logger.js';
+
+/** USD per million tokens, matched against the model ID (first match wins) */
+const MODEL_PRICING: Array<{ match: string; input: number; output: number }> = [
+  { match: 'opus', input: 15, output: 75 },
+  { match: 'haiku', input: 0.8, output: 4 },
+  { match: 'sonnet', input: 3, output: 15 },
+];
+
+/** Unknown models are priced like Sonnet */
+const DEFAULT_PRICING = { input: 3, output: 15 };
+
+export interface BudgetWindow {
+  spentUsd: number;
+  capUsd: number | null;
+  exceeded: boolean;
+}
+
+export interface CostSummary {
+  daily: BudgetWindow;
+  monthly: BudgetWindow;
+  byProvider: Record<string, number>;
+  byPurpose: Record<string, number>;
+  sunoCreditsRemaining: number | null;
+  recent: CostEntry[];
+}
+
+export class BudgetExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/**
+ * Persisted record of paid API usage (Anthropic tokens, Suno credits)
+ * and the daily/monthly caps that gate discretionary production.
+ */
+export class CostLedger {
+  private sunoCreditsRemaining: number | null = null;
+
+  recordLlmCall(entry: { model: string; inputTokens: number; outputTokens: number; purpose: string }): void {
+    const pricing = MODEL_PRICING.find(p => entry.model.includes(p.match)) ?? DEFAULT_PRICING;
+    const costUsd = (entry.inputTokens * pricing.input + entry.outputTokens * pricing.output) / 1_000_000;
+
+    this.insert({
+      provider: 'anthropic',
+      purpose: entry.purpose,
+      model: entry.model,
+      inputTokens: entry.inputTokens,
+      outputTokens: entry.outputTokens,
+      costUsd,
+    });
+  }
+
+  /**
+   * Record a submitted Suno task. `credits` is what the task actually cost;
+   * when the generator couldn't measure it, SUNO_CREDITS_PER_TASK stands in.
+   */
+  recordSunoTask(entry: { taskId: string; model: string; purpose: string; credits?: number }): void {
+    const config = getConfig();
+    const credits = entry.credits ?? config.SUNO_CREDITS_PER_TASK;
+
+    this.insert({
+      provider: 'suno',
+      purpose: entry.purpose,
+      model: entry.model,
+      credits,
+      costUsd: credits * config.SUNO_CREDIT_USD,
+      reference: entry.taskId,
+    });
+  }
+
+  /** Latest balance reported by the Suno API */
+  setSunoCredits(credits: number): void {
+    this.sunoCreditsRemaining = credits;
+  }
+
+  /**
+   * Throw if a spending cap is reached. Call before any discretionary
+   * paid work (songs, podcasts); news blocks don't go through here.
+   */
+  assertWithinBudget(purpose: string): void {
+    const { daily, monthly } = this.getSummary();
+    const window = daily.exceeded ? 'daily' : monthly.exceeded ? 'monthly' : null;
+    if (!window) return;
+
+    const spent = window === 'daily' ? daily : monthly;
+    const msg = `${window} budget reached ($${spent.spentUsd.toFixed(2)} of $${spent.capUsd!.toFixed(2)}) — skipping ${purpose}`;
+    logger.warn({ purpose, window, spentUsd: spent.spentUsd, capUsd: spent.capUsd }, 'Budget cap reached');
+    throw new BudgetExceededError(msg);
+  }
+
+  getSummary(recentLimit = 20): CostSummary {
+    const config = getConfig();
+    const now = new Date();
+    const startOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
+
+    const db = getDb();
+    const monthRows = db.select({
+      provider: costLedger.provider,
+      purpose: costLedger.purpose,
+      costUsd: costLedger.costUsd,
+      createdAt: costLedger.createdAt,
+    })
+      .from(costLedger)
+      .where(gte(costLedger.createdAt, startOfMonth))
+      .all();
+
+    const byProvider: Record<string, number> = {};
+    const byPurpose: Record<string, number> = {};
+    let monthSpent = 0;
+    let daySpent = 0;
+
+    for (const row of monthRows) {
+      monthSpent += row.costUsd;
+      if (row.createdAt >= startOfDay) daySpent += row.costUsd;
+      byProvider[row.provider] = (byProvider[row.provider] ?? 0) + row.costUsd;
+      byPurpose[row.purpose] = (byPurpose[row.purpose] ?? 0) + row.costUsd;
+    }
+
+    return {
+      daily: toWindow(daySpent, config.BUDGET_DAILY_USD),
+      monthly: toWindow(monthSpent, config.BUDGET_MONTHLY_USD),
+      byProvider,
+      byPurpose,
+      sunoCreditsRemaining: this.sunoCreditsRemaining,
+      recent: db.select().from(costLedger)
+        .orderBy(desc(costLedger.createdAt), desc(sql`rowid`))
+        .limit(recentLimit)
+        .all(),
+    };
+  }
+
+  private insert(entry: typeof costLedger.$inferInsert): void {
+    try {
+      getDb().insert(costLedger).values(entry).run();
+      logger.debug({ provider: entry.provider, purpose: entry.purpose, costUsd: entry.costUsd }, 'Cost recorded');
+    } catch (err) {
+      // Bookkeeping must never fail the call that already happened
+      logger.error({ err, provider: entry.provider, purpose: entry.purpose }, 'Failed to record cost');
+    }
+  }
+}
+
+function toWindow(spentUsd: number, cap: number): BudgetWindow {
+  const capUsd = cap > 0 ? cap : null;
+  return { spentUsd, capUsd, exceeded: capUsd !== null && spentUsd >= capUsd };
+}
+
+// ---------------------------------------------------------------------------
+// Singleton
+// ---------------------------------------------------------------------------
+
+let _ledger: CostLedger | null = null;
+
+export function getCostLedger(): CostLedger {
+  if (!_ledger) {
+    _ledger = new CostLedger();
+  }
+  return _ledger;
+}
@@ -0,0 +1,172 @@
+import { and, desc, eq, sql } from 'drizzle-orm';
+import { logger } from '../utils/logger.js';
+import { getDb } from '../db/client.js';
+import {
+  cyclePhases,
+  productionCycles,
+  type CyclePhase,
+  type CyclePhaseName,
+  type ProductionCycle,
+} from '../db/schema.js';
+
+/** A cycle that crashed this many times is abandoned instead of resumed again */
+const MAX_CYCLE_ATTEMPTS = 3;
+
+export interface CycleWithPhases extends ProductionCycle {
+  phases: CyclePhase[];
+}
+
+/**
+ * Durable record of production cycles and their phase checkpoints.
+ *
+ * Every phase stores its output once it completes, so a cycle interrupted by
+ * a restart can pick up from the last completed phase instead of re-running
+ * the LLM and Suno calls that were already paid for.
+ */
+export class CycleStore {
+  /**
+   * Return the most recent unfinished cycle, bumping its attempt counter.
+   * Cycles that keep crashing are marked failed so the loop can move on.
+   * The bump is a compare-and-set on the attempt count, so when two
+   * processes try to resume the same cycle only one of them gets it.
+   */
+  resumeUnfinished(): ProductionCycle | null {
+    const db = getDb();
+    const cycle = db.select().from(productionCycles)
+      .where(eq(productionCycles.status, 'running'))
+      .orderBy(desc(productionCycles.startedAt))
+      .get();
+
+    if (!cycle) return null;
+
+    if (cycle.attempts >= MAX_CYCLE_ATTEMPTS) {
+      logger.warn(
+        { cycleId: cycle.id, cycle: cycle.cycleNumber, attempts: cycle.attempts },
+        'Unfinished cycle exceeded resume attempts — abandoning it',
+      );
+      this.finishCycle(cycle.id, 'failed', { abandoned: true });
+      return null;
+    }
+
+    const claim = db.update(productionCycles)
+      .set({ attempts: cycle.attempts + 1 })
+      .where(and(
+        eq(productionCycles.id, cycle.id),
+        eq(productionCycles.status, 'running'),
+        eq(productionCycles.attempts, cycle.attempts),
+      ))
+      .run();
+
+    if (claim.changes === 0) {
+      logger.info({ cycleId: cycle.id, cycle: cycle.cycleNumber }, 'Unfinished cycle was claimed elsewhere');
+      return null;
+    }
+
+    return { ...cycle, attempts: cycle.attempts + 1 };
+  }
+
+  /** Whether a cycle was left running (interrupted by a stop or crash). */
+  hasUnfinished(): boolean {
+    const row = getDb().select({ id: productionCycles.id }).from(productionCycles)
+      .where(eq(productionCycles.status, 'running'))
+      .get();
+    return row !== undefined;
+  }
+
+  createCycle(): ProductionCycle {
+    const db = getDb();
+    const last = db.select({ max: sql<number | null>`max(${productionCycles.cycleNumber})` })
+      .from(productionCycles)
+      .get();
+
+    return db.insert(productionCycles)
+      .values({ cycleNumber: (last?.max ?? 0) + 1 })
+      .returning()
+      .get();
+  }
+
+  /** Output of a completed phase, or null if the phase still has to run. */
+  getCheckpoint<T>(cycleId: string, phase: CyclePhaseName): T | null {
+    const row = this.getPhase(cycleId, phase);
+    return row?.status === 'completed' ? (row.output as T) : null;
+  }
+
+  /** Partial output saved while a phase was running (e.g. submitted Suno task IDs). */
+  getProgress<T>(cycleId: string, phase: CyclePhaseName): T | null {
+    const row = this.getPhase(cycleId, phase);
+    return row && row.status !== 'completed' ? ((row.output as T) ?? null) : null;
+  }
+
+  startPhase(cycleId: string, phase: CyclePhaseName): void {
+    const db = getDb();
+    const existing = this.getPhase(cycleId, phase);
+
+    if (existing) {
+      db.update(cyclePhases)
+        .set({ status: 'running', error: null, startedAt: new Date(), completedAt: null })
+        .where(eq(cyclePhases.id, existing.id))
+        .run();
+    } else {
+      db.insert(cyclePhases).values({ cycleId, phase }).run();
+    }
+
+    db.update(productionCycles)
+      .set({ currentPhase: phase })
+      .where(eq(productionCycles.id, cycleId))
+      .run();
+  }
+
+  saveProgress(cycleId: string, phase: CyclePhaseName, output: unknown): void {
+    getDb().update(cyclePhases)
+      .set({ output })
+      .where(and(eq(cyclePhases.cycleId, cycleId), eq(cyclePhases.phase, phase)))
+      .run();
+  }
+
+  completePhase(cycleId: string, phase: CyclePhaseName, output: unknown): void {
+    getDb().update(cyclePhases)
+      .set({ status: 'completed', output, completedAt: new Date() })
+      .where(and(eq(cyclePhases.cycleId, cycleId), eq(cyclePhases.phase, phase)))
+      .run();
+  }
+
+  failPhase(cycleId: string, phase: CyclePhaseName, error: string): void {
+    getDb().update(cyclePhases)
+      .set({ status: 'failed', error, completedAt: new Date() })
+      .where(and(eq(cyclePhases.cycleId, cycleId), eq(cyclePhases.phase, phase)))
+      .run();
+  }
+
+  finishCycle(
+    cycleId: string,
+    status: 'completed' | 'failed',
+    result: Record<string, unknown>,
+  ): void {
+    getDb().update(productionCycles)
+      .set({ status, result, currentPhase: null, completedAt: new Date() })
+      .where(eq(productionCycles.id, cycleId))
+      .run();
+  }
+
+  listRecent(limit = 20): CycleWithPhases[] {
+    const db = getDb();
+    const cycles = db.select().from(productionCycles)
+      .orderBy(desc(productionCycles.startedAt))
+      .limit(limit)
+      .all();
+
+    return cycles.map((cycle) => ({
+      ...cycle,
+      phases: db.select().from(cyclePhases)
+        .where(eq(cyclePhases.cycleId, cycle.id))
+        .orderBy(cyclePhases.startedAt)
+        .all(),
+    }));
+  }
+
+  private getPhase(cycleId: string, phase: CyclePhaseName): CyclePhase | undefined {
+    return getDb().select().from(cyclePhases)
+      .where(and(eq(cyclePhases.cycleId, cycleId), eq(cyclePhases.phase, phase)))
+      .get();
+  }
+}
@@ -0,0 +1,64 @@
+import { eq } from 'drizzle-orm';
+import type { BetterSQLite3Database } from 'drizzle-orm/better-sqlite3';
+import { clockAssignments, formatClocks } from '../db/schema.js';
+import type { ClockSegment, FormatClock } from '../db/schema.js';
+
+export const CLOCK_CONTENT_TYPES: ClockSegment['contentType'][] = ['song', 'podcast', 'news_block', 'ad', 'jingle'];
+
+/**
+ * Pick the clock for a given local time. Assignments match on weekday and
+ * hour, with NULL meaning "any"; weekday+hour beats weekday beats hour beats
+ * the catch-all default.
+ */
+export function resolveClock(db: BetterSQLite3Database<any>, at: Date = new Date()): FormatClock | null {
+  const weekday = at.getDay();
+  const hour = at.getHours();
+
+  let best: { clockId: string; score: number } | null = null;
+  for (const a of db.select().from(clockAssignments).all()) {
+    if (a.weekday !== null && a.weekday !== weekday) continue;
+    if (a.hour !== null && a.hour !== hour) continue;
+
+    const score = (a.weekday !== null ? 2 : 0) + (a.hour !== null ? 1 : 0);
+    if (!best || score > best.score) best = { clockId: a.clockId, score };
+  }
+
+  if (!best) return null;
+  return db.select().from(formatClocks).where(eq(formatClocks.id, best.clockId)).get() ?? null;
+}
+
+/**
+ * Check segments from an API body. Returns an error message, or null if valid.
+ */
+export function validateSegments(segments: unknown): string | null {
+  if (!Array.isArray(segments)) return 'segments must be an array';
+
+  const minutes = new Set<number>();
+  for (const seg of segments as Partial<ClockSegment>[]) {
+    if (typeof seg !== 'object' || seg === null) return 'each segment must be an object';
+    if (!Number.isInteger(seg.minute) || seg.minute! < 0 || seg.minute! > 59) {
+      return 'segment minute must be an integer between 0 and 59';
+    }
+    if (minutes.has(seg.minute!)) return `duplicate segment at minute ${seg.minute}`;
+    minutes.add(seg.minute!);
+
+    if (!CLOCK_CONTENT_TYPES.includes(seg.contentType!)) {
+      return `invalid segment contentType: ${String(seg.contentType)}`;
+    }
+    if (seg.fallback !== undefined && (
+      !Array.isArray(seg.fallback) ||
+      seg.fallback.some(t => t !== 'rotation' && !CLOCK_CONTENT_TYPES.includes(t))
+    )) {
+      return 'segment fallback must be a list of content types or "rotation"';
+    }
+  }
+
+  return null;
+}
+
+/** Normalize validated segments: default fallback, ordered by minute. */
+export function normalizeSegments(segments: Array<Omit<ClockSegment, 'fallback'> & { fallback?: ClockSegment['fallback'] }>): ClockSegment[] {
+  return segments
+    .map(s => ({ minute: s.minute, contentType: s.contentType, fallback: s.fallback ?? ['rotation'] }))
+    .sort((a, b) => a.minute - b.minute);
+}
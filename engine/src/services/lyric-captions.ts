@@ -0,0 +1,360 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { eq } from 'drizzle-orm';
+import { getConfig } from '../config.js';
+import { getDb } from '../db/client.js';
+import { trackLyrics, type LyricLine, type TrackLyrics } from '../db/schema.js';
+import { logger } from '../utils/logger.js';
+import { getSetting, updateSettings } from './settings-store.js';
+import { COLOR_PATTERN, escapeFilterValue, ffmpegColor } from './overlay-templates.js';
+import type { AlignedWord } from '../suno/api-generator.js';
+import type { ScheduledItem } from './scheduler.js';
+
+const SECTION_MARKER = /^\s*\[([^\]]*)\]\s*$/;
+
+/** Instrumental lead-in and tail assumed by estimated timing, as a share of the song */
+const INTRO_SHARE = 0.06;
+const OUTRO_SHARE = 0.08;
+
+/** Break between sections in estimated timing, in words' worth of time */
+const SECTION_GAP_WEIGHT = 2;
+
+/** Short lines still get this many words' worth of time */
+const MIN_LINE_WEIGHT = 3;
+
+/** A caption stays up through pauses shorter than this instead of blinking off */
+const HOLD_GAP_SECONDS = 1.5;
+
+/** Alignment is trusted only if its word count is this close to the lyrics' */
+const ALIGNMENT_TOLERANCE = 0.1;
+
+export type CaptionPosition = 'top' | 'middle' | 'bottom';
+export type CaptionStyle = 'box' | 'outline';
+
+export interface CaptionSettings {
+  enabled: boolean;
+  position: CaptionPosition;
+  /** Box: text on a solid band; outline: bordered text straight on the video */
+  style: CaptionStyle;
+  fontSize: number;
+  color: string;
+  background: string;
+}
+
+const POSITIONS: CaptionPosition[] = ['top', 'middle', 'bottom'];
+const STYLES: CaptionStyle[] = ['box', 'outline'];
+
+/** CaptionSettings field → settings key */
+const SETTING_KEYS: Record<keyof CaptionSettings, string> = {
+  enabled: 'captionsEnabled',
+  position: 'captionPosition',
+  style: 'captionStyle',
+  fontSize: 'captionFontSize',
+  color: 'captionColor',
+  background: 'captionBackground',
+};
+
+/** Caption settings with invalid values replaced by defaults */
+export function getCaptionSettings(): CaptionSettings {
+  const position = getSetting<CaptionPosition>('captionPosition');
+  const style = getSetting<CaptionStyle>('captionStyle');
+  const fontSize = getSetting<number>('captionFontSize');
+  const color = getSetting<string>('captionColor');
+  const background = getSetting<string>('captionBackground');
+  return {
+    enabled: getSetting<boolean>('captionsEnabled') !== false,
+    position: POSITIONS.includes(position) ? position : 'bottom',
+    style: STYLES.includes(style) ? style : 'box',
+    fontSize: typeof fontSize === 'number' && fontSize >= 16 && fontSize <= 120 ? fontSize : 44,
+    color: typeof color === 'string' && COLOR_PATTERN.test(color) ? color : '#ffffff',
+    background: typeof background === 'string' && COLOR_PATTERN.test(background) ? background : '#00000099',
+  };
+}
+
+/**
+ * Check a partial caption settings update from an API body.
+ * Returns an error message, or null if valid.
+ */
+export function validateCaptionUpdate(body: Record<string, unknown>): string | null {
+  for (const [key, value] of Object.entries(body)) {
+    switch (key) {
+      case 'enabled':
+        if (typeof value !== 'boolean') return 'enabled must be a boolean';
+        break;
+      case 'position':
+        if (!POSITIONS.includes(value as CaptionPosition)) return `position must be one of: ${POSITIONS.join(', ')}`;
+        break;
+      case 'style':
+        if (!STYLES.includes(value as CaptionStyle)) return `style must be one of: ${STYLES.join(', ')}`;
+        break;
+      case 'fontSize':
+        if (typeof value !== 'number' || value < 16 || value > 120) return 'fontSize must be a number from 16 to 120';
+        break;
+      case 'color':
+      case 'background':
+        if (typeof value !== 'string' || !COLOR_PATTERN.test(value)) return `${key} must be a color like #rrggbb or #rrggbbaa`;
+        break;
+      default:
+        return `unknown field '${key}'`;
+    }
+  }
+  return null;
+}
+
+/** Store a validated partial update; returns the resulting settings */
+export function updateCaptionSettings(update: Partial<CaptionSettings>): CaptionSettings {
+  const stored: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(update)) {
+    stored[SETTING_KEYS[key as keyof CaptionSettings]] = value;
+  }
+  updateSettings(stored);
+  return getCaptionSettings();
+}
+
+// ---------------------------------------------------------------------------
+// Lyrics and timing
+// ---------------------------------------------------------------------------
+
+/** Split lyrics into sections at [Verse]-style markers, dropping blank lines */
+export function parseLyrics(lyrics: string): { section: string | null; lines: string[] }[] {
+  const sections: { section: string | null; lines: string[] }[] = [];
+  let current: { section: string | null; lines: string[] } = { section: null, lines: [] };
+
+  for (const raw of lyrics.split(/\r?\n/)) {
+    const marker = raw.match(SECTION_MARKER);
+    if (marker) {
+      if (current.lines.length > 0) sections.push(current);
+      current = { section: marker[1].trim() || null, lines: [] };
+      continue;
+    }
+    const line = raw.replace(/\s+/g, ' ').trim();
+    if (line) current.lines.push(line);
+  }
+  if (current.lines.length > 0) sections.push(current);
+  return sections;
+}
+
+/**
+ * Spread the lines over the song: after an instrumental intro, each line gets
+ * time in proportion to its words, with a short break between sections.
+ */
+export function estimateTiming(lyrics: string, durationSeconds: number): LyricLine[] {
+  const sections = parseLyrics(lyrics);
+  if (sections.length === 0 || durationSeconds <= 0) return [];
+
+  const weight = (line: string) => Math.max(MIN_LINE_WEIGHT, wordsOf(line).length);
+  const totalWeight = sections.reduce((sum, s) => sum + s.lines.reduce((n, l) => n + weight(l), 0), 0)
+    + SECTION_GAP_WEIGHT * (sections.length - 1);
+
+  const intro = durationSeconds * INTRO_SHARE;
+  const sung = durationSeconds * (1 - INTRO_SHARE - OUTRO_SHARE);
+  const unit = sung / totalWeight;
+
+  const lines: LyricLine[] = [];
+  let t = intro;
+  for (const [i, section] of sections.entries()) {
+    if (i > 0) t += SECTION_GAP_WEIGHT * unit;
+    for (const text of section.lines) {
+      const length = weight(text) * unit;
+      lines.push({ text, section: section.section, start: round(t), end: round(t + length) });
+      t += length;
+    }
+  }
+  return lines;
+}
+
+/**
+ * Time the lines from word-level alignment of the sung song. The aligned
+ * words are matched to the lyrics in order; returns null if they don't line
+ * up closely enough to trust.
+ */
+export function alignTiming(lyrics: string, aligned: AlignedWord[]): LyricLine[] | null {
+  const sung = aligned.flatMap((w) => {
+    const words = wordsOf(w.word.replace(/\[[^\]]*\]/g, ' '));
+    return words.map(() => ({ start: w.start, end: w.end }));
+  });
+  const sections = parseLyrics(lyrics);
+  const expected = sections.reduce((sum, s) => sum + s.lines.reduce((n, l) => n + wordsOf(l).length, 0), 0);
+  if (expected === 0 || Math.abs(sung.length - expected) > expected * ALIGNMENT_TOLERANCE) return null;
+
+  const lines: LyricLine[] = [];
+  let cursor = 0;
+  for (const section of sections) {
+    for (const text of section.lines) {
+      const count = wordsOf(text).length;
+      const words = sung.slice(cursor, cursor + Math.max(1, count));
+      cursor += count;
+      if (words.length === 0) break;
+      lines.push({ text, section: section.section, start: round(words[0].start), end: round(words[words.length - 1].end) });
+    }
+  }
+
+  // Hold each line through short pauses so captions don't blink between lines
+  for (let i = 0; i < lines.length - 1; i++) {
+    if (lines[i + 1].start - lines[i].end < HOLD_GAP_SECONDS) lines[i].end = lines[i + 1].start;
+  }
+  return lines;
+}
+
+/**
+ * Store lyrics for a content item, timed from alignment when it fits and
+ * estimated from the song structure otherwise.
+ */
+export function saveTrackLyrics(
+  contentId: string,
+  lyrics: string,
+  options: { durationSeconds: number; aligned?: AlignedWord[] | null },
+): TrackLyrics {
+  const alignedLines = options.aligned ? alignTiming(lyrics, options.aligned) : null;
+  const values = {
+    contentId,
+    lyrics,
+    lines: alignedLines ?? estimateTiming(lyrics, options.durationSeconds),
+    timing: alignedLines ? 'aligned' as const : 'estimated' as const,
+    updatedAt: new Date(),
+  };
+
+  return getDb().insert(trackLyrics)
+    .values(values)
+    .onConflictDoUpdate({ target: trackLyrics.contentId, set: values })
+    .returning()
+    .get();
+}
+
+export function getTrackLyrics(contentId: string): TrackLyrics | undefined {
+  return getDb().select().from(trackLyrics).where(eq(trackLyrics.contentId, contentId)).get();
+}
+
+function wordsOf(text: string): string[] {
+  return text.split(/\s+/).filter((w) => /[\p{L}\p{N}]/u.test(w));
+}
+
+function round(seconds: number): number {
+  return Math.round(seconds * 100) / 100;
+}
+
+// ---------------------------------------------------------------------------
+// On-stream captions
+// ---------------------------------------------------------------------------
+
+/**
+ * Lyric captions on the stream video. While a track with stored lyrics is
+ * on air, the line being sung is written to a text file the encoder's
+ * drawtext filter reloads every frame; a timer swaps the text at each line
+ * boundary. Turning captions on or off and their style apply when the
+ * stream starts.
+ */
+export class LyricCaptions {
+  private readonly dir = path.join(os.tmpdir(), 'radiowar-overlay');
+  private timer: NodeJS.Timeout | null = null;
+  private lines: LyricLine[] = [];
+  private contentId: string | null = null;
+  private startedAt = 0;
+  private shown: string | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  /** The caption text the encoder reads */
+  get textPath(): string {
+    return path.join(this.dir, 'caption.txt');
+  }
+
+  getState(): { contentId: string | null; line: string | null } {
+    return { contentId: this.contentId, line: this.shown || null };
+  }
+
+  /**
+   * Follow the track now going on air (null clears the caption). Its audio
+   * reaches the encoder `delayMs` from now, so line timing starts then.
+   */
+  setTrack(track: ScheduledItem | null, delayMs = 0): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+
+    const lyrics = track ? getTrackLyrics(track.contentId) : undefined;
+    this.contentId = lyrics ? track!.contentId : null;
+    this.lines = lyrics?.lines ?? [];
+    this.startedAt = Date.now() + delayMs;
+    this.tick();
+  }
+
+  /** Blank the caption and stop following the track */
+  clear(): Promise<void> {
+    this.setTrack(null);
+    return this.writing;
+  }
+
+  /**
+   * Filter-graph step drawing the caption over `[input]` into `[output]`,
+   * centred at the configured position.
+   */
+  filter(input: string, output: string, settings: CaptionSettings = getCaptionSettings()): string {
+    const y = settings.position === 'top' ? '190'
+      : settings.position === 'middle' ? '(h-th)/2'
+        : 'h-th-380';
+    const args = [
+      `fontfile=${escapeFilterValue(getConfig().FONT_PATH)}`,
+      `textfile=${escapeFilterValue(this.textPath)}`,
+      'reload=1',
+      'expansion=none',
+      `fontsize=${settings.fontSize}`,
+      `fontcolor=${ffmpegColor(settings.color)}`,
+      'x=(w-tw)/2',
+      `y=${y}`,
+    ];
+    if (settings.style === 'box') {
+      args.push('box=1', `boxcolor=${ffmpegColor(settings.background)}`, `boxborderw=${Math.round(settings.fontSize / 3)}`);
+    } else {
+      args.push(`borderw=${Math.max(2, Math.round(settings.fontSize / 14))}`, `bordercolor=${ffmpegColor(settings.background)}`);
+    }
+    return `[${input}]drawtext=${args.join(':')}[${output}]`;
+  }
+
+  /** Show the line due now and wake up at the next boundary */
+  private tick(): void {
+    const elapsed = (Date.now() - this.startedAt) / 1000;
+    const line = this.lines.find((l) => l.start <= elapsed && elapsed < l.end);
+    this.show(line?.text ?? '');
+
+    const boundaries = this.lines.flatMap((l) => [l.start, l.end]).filter((t) => t > elapsed);
+    if (boundaries.length === 0) return;
+    const wait = (Math.min(...boundaries) - elapsed) * 1000;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.tick();
+    }, Math.max(10, wait));
+    this.timer.unref();
+  }
+
+  private show(text: string): void {
+    if (text === this.shown) return;
+    this.shown = text;
+    // Writes are chained so a slow one can't land after a newer line
+    this.writing = this.writing.then(() => this.write(text));
+  }
+
+  private async write(text: string): Promise<void> {
+    try {
+      // drawtext rejects an empty file, and a half-written one would show for a frame
+      const tmpPath = path.join(this.dir, 'caption.next.txt');
+      await fs.mkdir(this.dir, { recursive: true });
+      await fs.writeFile(tmpPath, text || ' ');
+      await fs.rename(tmpPath, this.textPath);
+    } catch (err) {
+      logger.error({ err }, 'Failed to write lyric caption');
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Singleton
+// ---------------------------------------------------------------------------
+
+let _captions: LyricCaptions | null = null;
+
+export function getLyricCaptions(): LyricCaptions {
+  if (!_captions) {
+    _captions = new LyricCaptions();
+  }
+  return _captions;
+}
@@ -63,6 +63,7 @@ export class LyricsService {
         const response = await callClaudeCli(userPrompt, {
           systemPrompt,
           timeout: 300_000, // 5 minutes — 200+ articles need more processing time
+          purpose: 'news-synthesis',
         });
         return parseSynthesisResponse(response);
       },
@@ -129,6 +130,7 @@ export class LyricsService {
         const response = await callClaudeCli(userPrompt, {
           systemPrompt,
           timeout: 120_000,
+          purpose: 'lyrics',
         });
         return parseLyricsResponse(response);
       },
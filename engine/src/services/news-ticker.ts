@@ -0,0 +1,244 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { desc, gt } from 'drizzle-orm';
+import { getConfig } from '../config.js';
+import { getDb } from '../db/client.js';
+import { articles } from '../db/schema.js';
+import { logger } from '../utils/logger.js';
+import { getSetting, updateSettings } from './settings-store.js';
+import { COLOR_PATTERN, escapeFilterValue, ffmpegColor } from './overlay-templates.js';
+
+/** How often headlines are re-read from the articles table */
+const REFRESH_INTERVAL_MS = 3 * 60_000;
+
+/** Only headlines fetched this recently make the ticker */
+const MAX_AGE_HOURS = 24;
+
+/** Articles read per refresh before feed and keyword filtering */
+const CANDIDATE_LIMIT = 200;
+
+const SEPARATOR = '   •   ';
+
+export interface TickerSettings {
+  enabled: boolean;
+  /** Scroll speed in pixels per second */
+  speed: number;
+  fontSize: number;
+  color: string;
+  background: string;
+  /** Feed names to include (empty: all feeds) */
+  feeds: string[];
+  /** Only headlines containing one of these (empty: all headlines) */
+  keywords: string[];
+  maxItems: number;
+}
+
+export interface TickerItem {
+  title: string;
+  source: string;
+}
+
+/** TickerSettings field → settings key */
+const SETTING_KEYS: Record<keyof TickerSettings, string> = {
+  enabled: 'tickerEnabled',
+  speed: 'tickerSpeed',
+  fontSize: 'tickerFontSize',
+  color: 'tickerColor',
+  background: 'tickerBackground',
+  feeds: 'tickerFeeds',
+  keywords: 'tickerKeywords',
+  maxItems: 'tickerMaxItems',
+};
+
+/**
+ * Check a partial ticker settings update from an API body.
+ * Returns an error message, or null if valid.
+ */
+export function validateTickerUpdate(body: Record<string, unknown>): string | null {
+  for (const [key, value] of Object.entries(body)) {
+    switch (key) {
+      case 'enabled':
+        if (typeof value !== 'boolean') return 'enabled must be a boolean';
+        break;
+      case 'speed':
+      case 'fontSize':
+      case 'maxItems':
+        if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) return `${key} must be a positive number`;
+        break;
+      case 'color':
+      case 'background':
+        if (typeof value !== 'string' || !COLOR_PATTERN.test(value)) return `${key} must be a color like #rrggbb or #rrggbbaa`;
+        break;
+      case 'feeds':
+      case 'keywords':
+        if (!Array.isArray(value) || value.some((v) => typeof v !== 'string')) return `${key} must be an array of strings`;
+        break;
+      default:
+        return `unknown field '${key}'`;
+    }
+  }
+  return null;
+}
+
+/** Store a validated partial update; returns the resulting settings */
+export function updateTickerSettings(update: Partial<TickerSettings>): TickerSettings {
+  const stored: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(update)) {
+    stored[SETTING_KEYS[key as keyof TickerSettings]] = value;
+  }
+  updateSettings(stored);
+  return getTickerSettings();
+}
+
+/** Ticker settings with out-of-range values replaced by defaults */
+export function getTickerSettings(): TickerSettings {
+  const color = getSetting<string>('tickerColor');
+  const background = getSetting<string>('tickerBackground');
+  return {
+    enabled: getSetting<boolean>('tickerEnabled') !== false,
+    speed: clamp(getSetting<number>('tickerSpeed'), 20, 600, 120),
+    fontSize: clamp(getSetting<number>('tickerFontSize'), 16, 96, 32),
+    color: typeof color === 'string' && COLOR_PATTERN.test(color) ? color : '#ffffff',
+    background: typeof background === 'string' && COLOR_PATTERN.test(background) ? background : '#000000b3',
+    feeds: stringList(getSetting<unknown>('tickerFeeds')),
+    keywords: stringList(getSetting<unknown>('tickerKeywords')),
+    maxItems: clamp(getSetting<number>('tickerMaxItems'), 1, 50, 15),
+  };
+}
+
+/**
+ * Scrolling headline ticker along the bottom of the stream video.
+ *
+ * The most recent headlines, used on air or not, are written to a text file
+ * that the encoder's drawtext filter reloads every frame, so new stories
+ * join the crawl every few minutes without restarting the encoder. Feed and
+ * keyword filters apply at the next refresh; the style (speed, size, colors)
+ * and turning it on or off apply when the stream starts.
+ */
+export class NewsTicker {
+  private readonly dir = path.join(os.tmpdir(), 'radiowar-overlay');
+  private timer: NodeJS.Timeout | null = null;
+  private items: TickerItem[] = [];
+  private refreshedAt: Date | null = null;
+
+  /** The ticker text the encoder reads */
+  get textPath(): string {
+    return path.join(this.dir, 'ticker.txt');
+  }
+
+  getState(): { items: TickerItem[]; refreshedAt: Date | null; running: boolean } {
+    return { items: this.items, refreshedAt: this.refreshedAt, running: this.timer !== null };
+  }
+
+  /** Write the text now and keep it fresh until stop() */
+  async start(): Promise<void> {
+    await this.refresh();
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.refresh().catch((err) => logger.error({ err }, 'Failed to refresh news ticker'));
+    }, REFRESH_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /** Re-read headlines and rewrite the ticker text */
+  async refresh(): Promise<TickerItem[]> {
+    this.items = selectHeadlines(getTickerSettings());
+    this.refreshedAt = new Date();
+
+    // drawtext rejects an empty file, and a half-written one would show for a frame
+    const text = this.items.length > 0
+      ? this.items.map(formatItem).join(SEPARATOR) + SEPARATOR
+      : ' ';
+    const tmpPath = path.join(this.dir, 'ticker.next.txt');
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.writeFile(tmpPath, text);
+    await fs.rename(tmpPath, this.textPath);
+
+    logger.debug({ items: this.items.length }, 'News ticker refreshed');
+    return this.items;
+  }
+
+  /**
+   * Filter-graph step drawing the ticker over `[input]` into `[output]`:
+   * a band across the bottom with the text crawling right to left.
+   */
+  filter(input: string, output: string, settings: TickerSettings = getTickerSettings()): string {
+    const band = Math.round(settings.fontSize * 1.6);
+    const drawtext = [
+      `fontfile=${escapeFilterValue(getConfig().FONT_PATH)}`,
+      `textfile=${escapeFilterValue(this.textPath)}`,
+      'reload=1',
+      'expansion=none',
+      `fontsize=${settings.fontSize}`,
+      `fontcolor=${ffmpegColor(settings.color)}`,
+      // Enters at the right edge and starts over once it has fully left
+      `x=w-mod(t*${settings.speed}\\,w+tw)`,
+      `y=h-${band}+(${band}-th)/2`,
+    ];
+    return `[${input}]drawbox=x=0:y=ih-${band}:w=iw:h=${band}:color=${ffmpegColor(settings.background)}:t=fill,`
+      + `drawtext=${drawtext.join(':')}[${output}]`;
+  }
+}
+
+/** Newest headlines from the articles table, filtered by feed and keyword */
+export function selectHeadlines(settings: TickerSettings): TickerItem[] {
+  const cutoff = new Date(Date.now() - MAX_AGE_HOURS * 60 * 60 * 1000);
+  const rows = getDb()
+    .select({ title: articles.title, source: articles.source })
+    .from(articles)
+    .where(gt(articles.fetchedAt, cutoff))
+    .orderBy(desc(articles.fetchedAt))
+    .limit(CANDIDATE_LIMIT)
+    .all();
+
+  const feeds = new Set(settings.feeds.map((f) => f.toLowerCase()));
+  const keywords = settings.keywords.map((k) => k.toLowerCase());
+  const seen = new Set<string>();
+  const items: TickerItem[] = [];
+
+  for (const row of rows) {
+    const title = row.title.replace(/\s+/g, ' ').trim();
+    const key = title.toLowerCase();
+    if (!title || seen.has(key)) continue;
+    if (feeds.size > 0 && !feeds.has(row.source.toLowerCase())) continue;
+    if (keywords.length > 0 && !keywords.some((k) => key.includes(k))) continue;
+
+    seen.add(key);
+    items.push({ title, source: row.source });
+    if (items.length >= settings.maxItems) break;
+  }
+  return items;
+}
+
+function formatItem(item: TickerItem): string {
+  return `${item.title} — ${item.source.toUpperCase()}`;
+}
+
+function clamp(value: unknown, min: number, max: number, fallback: number): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return fallback;
+  return Math.min(max, Math.max(min, value));
+}
+
+function stringList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((v): v is string => typeof v === 'string' && v.trim() !== '').map((v) => v.trim());
+}
+
+// ---------------------------------------------------------------------------
+// Singleton
+// ---------------------------------------------------------------------------
+
+let _ticker: NewsTicker | null = null;
+
+export function getNewsTicker(): NewsTicker {
+  if (!_ticker) {
+    _ticker = new NewsTicker();
+  }
+  return _ticker;
+}
@@ -0,0 +1,276 @@
+import { existsSync, promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { asc, eq } from 'drizzle-orm';
+import { getConfig } from '../config.js';
+import { getDb } from '../db/client.js';
+import { overlayTemplates, type OverlayLayer, type OverlayTemplate } from '../db/schema.js';
+import { runFfmpeg } from '../utils/ffmpeg.js';
+import { getSetting } from './settings-store.js';
+
+/** Overlay canvas; the same size as the stream video */
+export const CANVAS_WIDTH = 1920;
+export const CANVAS_HEIGHT = 1080;
+
+const MAX_LAYERS = 50;
+const MAX_TEXT_LENGTH = 500;
+
+/** Values bindings resolve against */
+export interface BindingContext {
+  track: Record<string, unknown>;
+  metadata: Record<string, unknown>;
+  overlay: Record<string, unknown>;
+  clock: string;
+  date: string;
+}
+
+/** The original hard-coded layout; used when no template is stored */
+export const CLASSIC_LAYERS: OverlayLayer[] = [
+  { type: 'text', text: 'LIVE', x: CANVAS_WIDTH - 150, y: 30, size: 36, color: '#ff0000' },
+  { type: 'text', text: 'RadioWar', x: 60, y: 30, size: 48, color: '#ffffff' },
+  { type: 'text', text: '{{clock}}', x: CANVAS_WIDTH - 160, y: 75, size: 28, color: '#ffffffb3' },
+  { type: 'text', text: '{{overlay.breaking}}', x: CANVAS_WIDTH / 2, y: 140, size: 40, color: '#ffffff', align: 'center', borderWidth: 3, borderColor: '#dc2626' },
+  { type: 'text', text: '{{overlay.message}}', x: CANVAS_WIDTH / 2, y: CANVAS_HEIGHT - 300, size: 32, color: '#ffffff', align: 'center', borderWidth: 2, borderColor: '#000000cc' },
+  { type: 'text', text: 'NOW PLAYING', x: 60, y: CANVAS_HEIGHT - 220, size: 24, color: '#aaaaaa' },
+  { type: 'text', text: '{{overlay.title}}', x: 60, y: CANVAS_HEIGHT - 180, size: 56, color: '#ffffff' },
+  { type: 'text', text: '{{overlay.genre}}', x: 60, y: CANVAS_HEIGHT - 110, size: 28, color: '#8b5cf6' },
+  { type: 'text', text: '{{overlay.nextUp}}', x: CANVAS_WIDTH - 60, y: CANVAS_HEIGHT - 110, size: 28, color: '#ffffffcc', align: 'right' },
+  { type: 'text', text: '{{overlay.headline}}', x: 60, y: CANVAS_HEIGHT - 70, size: 22, color: '#fbbf24' },
+];
+
+export const COLOR_PATTERN = /^#[0-9a-fA-F]{6}([0-9a-fA-F]{2})?$/;
+const BINDING_PATTERN = /\{\{\s*([\w.]+)\s*(?:\|\s*(\w+)\s*)?\}\}/g;
+
+/**
+ * Check a template's layers from an API body.
+ * Returns an error message, or null if valid.
+ */
+export function validateLayers(layers: unknown): string | null {
+  if (!Array.isArray(layers)) return 'layers must be an array';
+  if (layers.length > MAX_LAYERS) return `at most ${MAX_LAYERS} layers are allowed`;
+
+  for (const [i, layer] of layers.entries()) {
+    const at = `layers[${i}]`;
+    if (!layer || typeof layer !== 'object') return `${at} must be an object`;
+    const l = layer as Record<string, unknown>;
+
+    if (!isCoordinate(l.x) || !isCoordinate(l.y)) return `${at}: x and y must be numbers`;
+
+    const colorKeys = ['color', 'borderColor', 'background'].filter((k) => l[k] !== undefined);
+    for (const key of colorKeys) {
+      if (typeof l[key] !== 'string' || !COLOR_PATTERN.test(l[key] as string)) {
+        return `${at}: ${key} must be #rrggbb or #rrggbbaa`;
+      }
+    }
+
+    switch (l.type) {
+      case 'text':
+        if (typeof l.text !== 'string' || l.text.length > MAX_TEXT_LENGTH) {
+          return `${at}: text must be a string of at most ${MAX_TEXT_LENGTH} characters`;
+        }
+        if (l.size !== undefined && !isInRange(l.size, 6, 400)) return `${at}: size must be 6–400`;
+        if (l.align !== undefined && !['left', 'center', 'right'].includes(l.align as string)) {
+          return `${at}: align must be left, center or right`;
+        }
+        if (l.borderWidth !== undefined && !isInRange(l.borderWidth, 0, 20)) return `${at}: borderWidth must be 0–20`;
+        if (l.font !== undefined && (typeof l.font !== 'string' || !path.isAbsolute(l.font) || !existsSync(l.font))) {
+          return `${at}: font must be the absolute path of an existing font file`;
+        }
+        break;
+
+      case 'image':
+        if (typeof l.src !== 'string' || !l.src || path.isAbsolute(l.src) || l.src.split(/[\\/]/).includes('..')) {
+          return `${at}: src must be a path inside the media directory`;
+        }
+        if (l.width !== undefined && !isInRange(l.width, 1, CANVAS_WIDTH * 2)) return `${at}: width out of range`;
+        if (l.height !== undefined && !isInRange(l.height, 1, CANVAS_HEIGHT * 2)) return `${at}: height out of range`;
+        if (l.opacity !== undefined && !isInRange(l.opacity, 0, 1)) return `${at}: opacity must be 0–1`;
+        break;
+
+      case 'rect':
+        if (!isInRange(l.width, 1, CANVAS_WIDTH * 2) || !isInRange(l.height, 1, CANVAS_HEIGHT * 2)) {
+          return `${at}: width and height must be positive`;
+        }
+        if (l.color === undefined) return `${at}: color is required`;
+        break;
+
+      default:
+        return `${at}: type must be text, image or rect`;
+    }
+  }
+  return null;
+}
+
+/** Replace `{{path}}` bindings; unknown paths become empty. Filters: upper, lower. */
+export function resolveBindings(text: string, context: BindingContext): string {
+  return text.replace(BINDING_PATTERN, (_match, key: string, filter?: string) => {
+    let value: unknown = context;
+    for (const part of key.split('.')) {
+      value = value && typeof value === 'object' ? (value as Record<string, unknown>)[part] : undefined;
+    }
+    const str = value === undefined || value === null || typeof value === 'object' ? '' : String(value);
+    if (filter === 'upper') return str.toUpperCase();
+    if (filter === 'lower') return str.toLowerCase();
+    return str;
+  });
+}
+
+/** True if any text layer shows the clock, so the overlay must be redrawn every minute */
+export function usesClock(layers: OverlayLayer[]): boolean {
+  return layers.some((l) => l.type === 'text' && /\{\{\s*(clock|date)\b/.test(l.text));
+}
+
+/**
+ * Layers for a content type: the template assigned to it in the
+ * `overlayTemplateByType` setting, else the one assigned to 'default',
+ * else the oldest stored template, else the classic layout.
+ */
+export function layersForContentType(contentType: string | null): { template: OverlayTemplate | null; layers: OverlayLayer[] } {
+  const db = getDb();
+  const assignments = getSetting<Record<string, string>>('overlayTemplateByType') ?? {};
+
+  for (const id of [contentType ? assignments[contentType] : undefined, assignments.default]) {
+    if (!id) continue;
+    const template = db.select().from(overlayTemplates).where(eq(overlayTemplates.id, id)).get();
+    if (template) return { template, layers: template.layers };
+  }
+
+  const oldest = db.select().from(overlayTemplates).orderBy(asc(overlayTemplates.createdAt)).limit(1).get();
+  return oldest ? { template: oldest, layers: oldest.layers } : { template: null, layers: CLASSIC_LAYERS };
+}
+
+/**
+ * Draw `layers` into a PNG at `outputPath` with one ffmpeg run. Without a
+ * background the canvas is transparent, ready to be laid over the video.
+ *
+ * Throws FfmpegUnavailableError if ffmpeg can't be started.
+ */
+export async function renderOverlay(
+  layers: OverlayLayer[],
+  context: BindingContext,
+  outputPath: string,
+  options: { background?: string | null } = {},
+): Promise<void> {
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'radiowar-render-'));
+  const inputs: string[] = [];
+  const filters: string[] = [];
+  let inputCount = 0;
+
+  if (options.background) {
+    inputs.push('-i', options.background);
+    filters.push(`[0:v]scale=${CANVAS_WIDTH}:${CANVAS_HEIGHT},format=rgba[l0]`);
+  } else {
+    inputs.push('-f', 'lavfi', '-i', `color=c=black@0.0:s=${CANVAS_WIDTH}x${CANVAS_HEIGHT},format=rgba`);
+    filters.push('[0:v]null[l0]');
+  }
+  inputCount++;
+
+  let last = 'l0';
+  const next = () => `l${filters.length}`;
+
+  try {
+    for (const [i, layer] of layers.entries()) {
+      if (layer.type === 'rect') {
+        const out = next();
+        filters.push(
+          `[${last}]drawbox=x=${layer.x}:y=${layer.y}:w=${layer.width}:h=${layer.height}:color=${ffmpegColor(layer.color)}:t=fill[${out}]`,
+        );
+        last = out;
+      } else if (layer.type === 'image') {
+        const src = path.join(getConfig().MEDIA_DIR, layer.src);
+        if (!existsSync(src)) continue;
+        inputs.push('-i', src);
+        const index = inputCount++;
+        const scale = layer.width || layer.height ? `scale=${layer.width ?? -1}:${layer.height ?? -1},` : '';
+        const alpha = layer.opacity !== undefined ? `,colorchannelmixer=aa=${layer.opacity}` : '';
+        filters.push(`[${index}:v]${scale}format=rgba${alpha}[img${i}]`);
+        const out = next();
+        filters.push(`[${last}][img${i}]overlay=x=${layer.x}:y=${layer.y}[${out}]`);
+        last = out;
+      } else {
+        const text = resolveBindings(layer.text, context).replace(/\r?\n/g, ' ').trim();
+        if (!text) continue;
+
+        // Text goes through a file so no filtergraph escaping is needed
+        const textFile = path.join(workDir, `text-${i}.txt`);
+        await fs.writeFile(textFile, text);
+
+        const x = layer.align === 'center' ? `${layer.x}-tw/2` : layer.align === 'right' ? `${layer.x}-tw` : `${layer.x}`;
+        const args = [
+          `fontfile=${escapeFilterValue(layer.font ?? getConfig().FONT_PATH)}`,
+          `textfile=${escapeFilterValue(textFile)}`,
+          'expansion=none',
+          `fontsize=${layer.size ?? 32}`,
+          `fontcolor=${ffmpegColor(layer.color ?? '#ffffff')}`,
+          `x=${x}`,
+          `y=${layer.y}`,
+        ];
+        if (layer.borderWidth) {
+          args.push(`borderw=${layer.borderWidth}`, `bordercolor=${ffmpegColor(layer.borderColor ?? '#000000')}`);
+        }
+        if (layer.background) {
+          args.push('box=1', `boxcolor=${ffmpegColor(layer.background)}`, 'boxborderw=12');
+        }
+        const out = next();
+        filters.push(`[${last}]drawtext=${args.join(':')}[${out}]`);
+        last = out;
+      }
+    }
+
+    await runFfmpeg([
+      '-hide_banner', '-loglevel', 'error',
+      ...inputs,
+      '-filter_complex', filters.join(';'),
+      '-map', `[${last}]`,
+      '-frames:v', '1',
+      '-update', '1',
+      '-y', outputPath,
+    ]);
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
+}
+
+/** Sample values for previews when nothing is on air */
+export function sampleContext(contentType: string): BindingContext {
+  const now = new Date();
+  const metadata = { genre: 'punk-rock', storyHeadline: 'Sample headline for the story on air' };
+  return {
+    track: { title: 'Sample Track Title', type: contentType, source: 'rotation', duration: 180 },
+    metadata,
+    overlay: {
+      title: 'Sample Track Title',
+      genre: contentType === 'song' ? 'PUNK-ROCK' : contentType.toUpperCase(),
+      headline: metadata.storyHeadline,
+      nextUp: 'UP NEXT: Another Track',
+      breaking: '',
+      message: '',
+    },
+    clock: formatClock(now),
+    date: now.toISOString().slice(0, 10),
+  };
+}
+
+export function formatClock(date: Date): string {
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+}
+
+/** #rrggbb[aa] → ffmpeg's 0xrrggbb@alpha */
+export function ffmpegColor(color: string): string {
+  const hex = color.slice(1, 7);
+  const alpha = color.length === 9 ? parseInt(color.slice(7, 9), 16) / 255 : 1;
+  return `0x${hex}@${alpha.toFixed(2)}`;
+}
+
+/** Escape a drawtext option value for use inside -filter_complex */
+export function escapeFilterValue(value: string): string {
+  return value.replace(/\\/g, '\\\\\\\\').replace(/:/g, '\\\\:').replace(/'/g, "\\\\\\'");
+}
+
+function isCoordinate(value: unknown): boolean {
+  return isInRange(value, -CANVAS_WIDTH, CANVAS_WIDTH * 2);
+}
+
+function isInRange(value: unknown, min: number, max: number): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+}
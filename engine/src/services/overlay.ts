@@ -0,0 +1,232 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { logger } from '../utils/logger.js';
+import {
+  formatClock,
+  layersForContentType,
+  renderOverlay,
+  usesClock,
+  type BindingContext,
+} from './overlay-templates.js';
+import type { ScheduledItem } from './scheduler.js';
+
+/** Text fields templates can bind to as {{overlay.<field>}} */
+export const OVERLAY_FIELDS = ['title', 'genre', 'headline', 'nextUp', 'breaking', 'message'] as const;
+export type OverlayField = typeof OVERLAY_FIELDS[number];
+
+/** Fields an operator can set through the API; the rest follow the track on air */
+export const OPERATOR_FIELDS = ['headline', 'nextUp', 'breaking', 'message'] as const;
+export type OperatorField = typeof OPERATOR_FIELDS[number];
+
+/** Longest text accepted for an operator field */
+const MAX_FIELD_LENGTH = 200;
+
+export type OverlayUpdate = Partial<Record<OperatorField, string | null>>;
+
+export interface OverlayState {
+  /** What's on screen now */
+  fields: Record<OverlayField, string>;
+  /** Operator-set values; null means the field follows the track on air */
+  operator: Record<OperatorField, string | null>;
+  /** Template in use for the content type on air (null: built-in classic layout) */
+  template: { id: string; name: string } | null;
+  updatedAt: Date;
+}
+
+/**
+ * Check an overlay update from an API body. Strings set a field, null hands
+ * it back to the automatic value. Returns an error message, or null if valid.
+ */
+export function validateOverlayUpdate(body: Record<string, unknown>): string | null {
+  for (const [key, value] of Object.entries(body)) {
+    if (!(OPERATOR_FIELDS as readonly string[]).includes(key)) {
+      return `unknown field '${key}'; expected one of: ${OPERATOR_FIELDS.join(', ')}`;
+    }
+    if (value !== null && typeof value !== 'string') return `${key} must be a string or null`;
+    if (typeof value === 'string' && value.length > MAX_FIELD_LENGTH) {
+      return `${key} must be at most ${MAX_FIELD_LENGTH} characters`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Overlay shown on the stream video. The template for the content type on
+ * air is rendered to a transparent PNG whenever anything changes; the
+ * encoder re-reads that image every frame, so updates appear without
+ * restarting it.
+ *
+ * Track fields (title, genre, headline, breaking during a bulletin, next up)
+ * update automatically as playout moves on; operator values set through the
+ * API take precedence until cleared.
+ */
+export class Overlay {
+  private readonly dir = path.join(os.tmpdir(), 'radiowar-overlay');
+  private track: ScheduledItem | null = null;
+  private rendering: Promise<void> | null = null;
+  private dirty = false;
+  private live = false;
+  private clockTimer: NodeJS.Timeout | null = null;
+  private auto: Record<OverlayField, string> = emptyFields();
+  private operator: Record<OperatorField, string | null> = {
+    headline: null,
+    nextUp: null,
+    breaking: null,
+    message: null,
+  };
+  private updatedAt = new Date();
+
+  /** The rendered overlay the encoder lays over the video */
+  get framePath(): string {
+    return path.join(this.dir, 'overlay.png');
+  }
+
+  getState(): OverlayState {
+    return {
+      fields: this.resolved(),
+      operator: { ...this.operator },
+      template: this.templateInUse(),
+      updatedAt: this.updatedAt,
+    };
+  }
+
+  /** Show the track now on air (null between tracks) */
+  setTrack(track: ScheduledItem | null): void {
+    const genre = track ? (track.metadata.genre as string) || track.contentType : '';
+    const headline = (track?.metadata.storyHeadline as string) || '';
+    this.track = track;
+    this.auto = {
+      ...this.auto,
+      title: track?.title ?? '',
+      genre: genre.toUpperCase(),
+      headline,
+      breaking: track?.metadata.breaking ? `BREAKING: ${headline}` : '',
+      nextUp: '',
+    };
+    this.refresh();
+  }
+
+  /** Tease what plays after the current track (null hides the teaser) */
+  setNextUp(title: string | null): void {
+    this.auto.nextUp = title ? `UP NEXT: ${title}` : '';
+    this.refresh();
+  }
+
+  /** Apply operator values: strings set a field, null clears it, omitted fields are unchanged */
+  update(update: OverlayUpdate): OverlayState {
+    for (const field of OPERATOR_FIELDS) {
+      if (update[field] === undefined) continue;
+      const value = update[field]?.trim();
+      this.operator[field] = value ? value : null;
+    }
+    this.refresh();
+    logger.info({ operator: this.operator }, 'Overlay updated');
+    return this.getState();
+  }
+
+  /** While live, clock bindings are redrawn every minute */
+  setLive(live: boolean): void {
+    this.live = live;
+    if (!live && this.clockTimer) {
+      clearTimeout(this.clockTimer);
+      this.clockTimer = null;
+    }
+  }
+
+  /** Redraw with the current state; a burst of changes collapses into one more render */
+  refresh(): void {
+    this.updatedAt = new Date();
+    if (this.rendering) {
+      this.dirty = true;
+      return;
+    }
+    this.rendering = this.renderUntilClean().finally(() => {
+      this.rendering = null;
+    });
+  }
+
+  /** Resolves once the latest change has been rendered */
+  async flush(): Promise<void> {
+    while (this.rendering) await this.rendering;
+  }
+
+  /** Binding values for `track` (the one on air by default) with the current fields */
+  context(track: ScheduledItem | null = this.track): BindingContext {
+    const now = new Date();
+    return {
+      track: track
+        ? { title: track.title, type: track.contentType, source: track.source, duration: track.duration }
+        : {},
+      metadata: track?.metadata ?? {},
+      overlay: this.resolved(),
+      clock: formatClock(now),
+      date: now.toISOString().slice(0, 10),
+    };
+  }
+
+  private async renderUntilClean(): Promise<void> {
+    do {
+      this.dirty = false;
+      await this.render();
+    } while (this.dirty);
+  }
+
+  private async render(): Promise<void> {
+    const { layers } = layersForContentType(this.track?.contentType ?? null);
+    // Rendered beside the target and renamed, so the encoder never reads a partial image
+    const tmpPath = path.join(this.dir, 'overlay.next.png');
+    try {
+      await fs.mkdir(this.dir, { recursive: true });
+      await renderOverlay(layers, this.context(), tmpPath);
+      await fs.rename(tmpPath, this.framePath);
+    } catch (err) {
+      logger.error({ err }, 'Failed to render overlay');
+    }
+    this.scheduleClock(usesClock(layers));
+  }
+
+  private scheduleClock(needed: boolean): void {
+    if (this.clockTimer) clearTimeout(this.clockTimer);
+    this.clockTimer = null;
+    if (!needed || !this.live) return;
+
+    const untilNextMinute = 60_000 - (Date.now() % 60_000);
+    this.clockTimer = setTimeout(() => {
+      this.clockTimer = null;
+      this.refresh();
+    }, untilNextMinute + 50);
+    this.clockTimer.unref();
+  }
+
+  private templateInUse(): { id: string; name: string } | null {
+    const { template } = layersForContentType(this.track?.contentType ?? null);
+    return template ? { id: template.id, name: template.name } : null;
+  }
+
+  private resolved(): Record<OverlayField, string> {
+    const fields = { ...this.auto };
+    for (const field of OPERATOR_FIELDS) {
+      const value = this.operator[field];
+      if (value !== null) fields[field] = value;
+    }
+    return fields;
+  }
+}
+
+function emptyFields(): Record<OverlayField, string> {
+  return { title: '', genre: '', headline: '', nextUp: '', breaking: '', message: '' };
+}
+
+// ---------------------------------------------------------------------------
+// Singleton
+// ---------------------------------------------------------------------------
+
+let _overlay: Overlay | null = null;
+
+export function getOverlay(): Overlay {
+  if (!_overlay) {
+    _overlay = new Overlay();
+  }
+  return _overlay;
+}
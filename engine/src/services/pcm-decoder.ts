@@ -0,0 +1,131 @@
+import { spawn, type ChildProcess } from 'child_process';
+import { logger } from '../utils/logger.js';
+
+// Raw audio format shared by every decoder and the stream encoder
+export const PCM_SAMPLE_RATE = 44100;
+export const PCM_CHANNELS = 2;
+export const PCM_BYTES_PER_FRAME = PCM_CHANNELS * 2; // s16le
+export const PCM_BYTES_PER_SECOND = PCM_SAMPLE_RATE * PCM_BYTES_PER_FRAME;
+
+/** ffmpeg input flags describing the PCM produced here */
+export const PCM_INPUT_ARGS = ['-f', 's16le', '-ar', String(PCM_SAMPLE_RATE), '-ac', String(PCM_CHANNELS)];
+
+/**
+ * Decodes one audio file to raw PCM. ffmpeg runs only as far ahead as
+ * `bufferSeconds`, so memory stays bounded however long the track is.
+ *
+ * `finished` turns true once ffmpeg has delivered everything; from then on
+ * `buffered` is exactly what's left of the track, which is what the stream
+ * uses to time crossfades without trusting stored durations.
+ */
+export class PcmDecoder {
+  private readonly proc: ChildProcess;
+  private readonly highWaterBytes: number;
+  private chunks: Buffer[] = [];
+  private bufferedBytes = 0;
+  private decodingFinished = false;
+
+  constructor(readonly filePath: string, bufferSeconds: number) {
+    this.highWaterBytes = Math.ceil(bufferSeconds * PCM_BYTES_PER_SECOND);
+
+    this.proc = spawn('ffmpeg', [
+      '-hide_banner', '-loglevel', 'error',
+      '-i', filePath,
+      '-vn',
+      '-acodec', 'pcm_s16le',
+      ...PCM_INPUT_ARGS,
+      'pipe:1',
+    ], { stdio: ['ignore', 'pipe', 'pipe'] });
+
+    const stderr: string[] = [];
+    this.proc.stderr!.on('data', (chunk: Buffer) => stderr.push(chunk.toString()));
+
+    this.proc.stdout!.on('data', (chunk: Buffer) => {
+      this.chunks.push(chunk);
+      this.bufferedBytes += chunk.length;
+      if (this.bufferedBytes >= this.highWaterBytes) this.proc.stdout!.pause();
+    });
+    this.proc.stdout!.on('end', () => {
+      this.decodingFinished = true;
+    });
+
+    this.proc.on('close', (code, signal) => {
+      this.decodingFinished = true;
+      if (code !== 0 && signal !== 'SIGTERM') {
+        logger.error({ filePath, code, stderr: stderr.join('').trim().slice(-500) }, 'Track decoder failed');
+      }
+    });
+    this.proc.on('error', (err) => {
+      this.decodingFinished = true;
+      logger.error({ err, filePath }, 'Failed to spawn track decoder');
+    });
+  }
+
+  /** PCM decoded but not yet taken */
+  get buffered(): number {
+    return this.bufferedBytes - (this.bufferedBytes % PCM_BYTES_PER_FRAME);
+  }
+
+  /** Decoding is complete; `buffered` is the rest of the track */
+  get finished(): boolean {
+    return this.decodingFinished;
+  }
+
+  /** Nothing left to play */
+  get exhausted(): boolean {
+    return this.decodingFinished && this.buffered === 0;
+  }
+
+  /** Up to `bytes` of PCM (whole frames), possibly less during an underrun */
+  take(bytes: number): Buffer {
+    const size = Math.min(bytes - (bytes % PCM_BYTES_PER_FRAME), this.buffered);
+    if (size <= 0) return Buffer.alloc(0);
+
+    const all = this.chunks.length === 1 ? this.chunks[0] : Buffer.concat(this.chunks);
+    const out = all.subarray(0, size);
+    const rest = all.subarray(size);
+    this.chunks = rest.length > 0 ? [rest] : [];
+    this.bufferedBytes = rest.length;
+
+    if (!this.decodingFinished && this.bufferedBytes < this.highWaterBytes) {
+      this.proc.stdout!.resume();
+    }
+    return out;
+  }
+
+  close(): void {
+    if (this.proc.exitCode === null && !this.proc.killed) {
+      this.proc.kill('SIGTERM');
+    }
+    this.chunks = [];
+    this.bufferedBytes = 0;
+    this.decodingFinished = true;
+  }
+}
+
+/**
+ * Scale `pcm` in place by a gain ramp running from `from` to `to` (0–1)
+ * across the buffer, with an equal-power curve.
+ */
+export function applyFade(pcm: Buffer, from: number, to: number): void {
+  const frames = pcm.length / PCM_BYTES_PER_FRAME;
+  for (let f = 0; f < frames; f++) {
+    const position = from + ((to - from) * f) / frames;
+    const gain = Math.sin((position * Math.PI) / 2);
+    for (let c = 0; c < PCM_CHANNELS; c++) {
+      const offset = f * PCM_BYTES_PER_FRAME + c * 2;
+      pcm.writeInt16LE(Math.round(pcm.readInt16LE(offset) * gain), offset);
+    }
+  }
+}
+
+/** Sum two PCM buffers sample by sample (clamped); the result is as long as the longer one */
+export function mixPcm(a: Buffer, b: Buffer): Buffer {
+  const out = Buffer.alloc(Math.max(a.length, b.length));
+  for (let offset = 0; offset < out.length; offset += 2) {
+    const sa = offset < a.length ? a.readInt16LE(offset) : 0;
+    const sb = offset < b.length ? b.readInt16LE(offset) : 0;
+    out.writeInt16LE(Math.max(-32768, Math.min(32767, sa + sb)), offset);
+  }
+  return out;
+}
@@ -1,38 +1,61 @@
 import path from 'path';
-import { existsSync, mkdirSync, readdirSync, statSync } from 'fs';
+import { EventEmitter } from 'events';
+import { existsSync, mkdirSync, readdirSync, statSync, unlinkSync } from 'fs';
 import { nanoid } from 'nanoid';
-import { desc, eq, sql } from 'drizzle-orm';
-import { getConfig } from '../config.js';
+import { and, eq, gt, inArray, ne, or, sql } from 'drizzle-orm';
+import { getConfig, isFakeMode } from '../config.js';
+import { FfmpegUnavailableError } from '../utils/ffmpeg.js';
 import { logger } from '../utils/logger.js';
-import { sleep } from '../utils/sleep.js';
 import { getDb } from '../db/client.js';
-import { audioTracks } from '../db/schema.js';
+import { audioTracks, content, streamOutputs, type StreamEvent, type StreamOutput } from '../db/schema.js';
 import { RssService, type NewsArticle } from './rss-service.js';
 import { LyricsService, type GeneratedLyrics, type SynthesizedStory } from './lyrics-service.js';
 import { TtsService } from './tts-service.js';
 import { PodcastService } from './podcast-service.js';
 import { SunoApiGenerator, type SunoApiResult } from '../suno/api-generator.js';
 import { downloadAudio } from '../suno/downloader.js';
-import { StreamManager, type StreamStatus } from './stream-manager.js';
+import { StreamManager, streamBackgroundImage, type StreamStatus } from './stream-manager.js';
+import { liveHlsOutput } from './stream-outputs.js';
+import { getScheduler, NEWS_MAX_AGE_MS, type ScheduledItem } from './scheduler.js';
+import { CycleStore, type CycleWithPhases } from './cycle-store.js';
+import { BudgetExceededError, getCostLedger } from './cost-ledger.js';
+import { getSetting } from './settings-store.js';
+import { BreakingNewsDetector, type BreakingStory } from './breaking-news.js';
+import { quarantineFile, runAudioQc } from './audio-qc.js';
+import { saveTrackLyrics } from './lyric-captions.js';
 
 // ---------------------------------------------------------------------------
 // Configuration
 // ---------------------------------------------------------------------------
 
-/** How many songs to generate per cycle.
- *  Budget: ~$30/month via sunoapi.org ($0.005/credit, ~12 credits/song = $0.06/song)
- *  4 cycles/day × 4 songs = 16 songs/day = 480/month = ~$29/month
- *  Each API call produces 2 songs, so 4 songs = 2 API calls per cycle.
+/** Most songs a single cycle produces, however far the buffer has drained.
+ *  Actual spend is tracked in the cost ledger and capped by
+ *  BUDGET_DAILY_USD / BUDGET_MONTHLY_USD.
  */
-const SONGS_PER_CYCLE = 4;
+const MAX_SONGS_PER_CYCLE = 4;
 
-/** Interval between production cycles (4x/day = every 6 hours) */
-const CYCLE_INTERVAL_MS = 6 * 60 * 60 * 1000;
+/** Stories synthesized for a cycle that only needs a podcast episode */
+const PODCAST_STORY_COUNT = 4;
+
+/** Inventory check interval after a productive cycle */
+const INVENTORY_CHECK_MIN_MS = 5 * 60 * 1000;
+
+/** Back-off ceiling while the buffer stays healthy (the wait doubles up to this) */
+const INVENTORY_CHECK_MAX_MS = 60 * 60 * 1000;
+
+/** Production decisions kept for getStatus() */
+const MAX_RECENT_DECISIONS = 10;
+
+/** Recent articles handed to the breaking-news detector for corroboration */
+const BREAKING_CORROBORATION_ARTICLES = 200;
+
+/** Breaking-news alerts kept in memory for the dashboard */
+const MAX_BREAKING_ALERTS = 20;
 
 /** Max concurrent Suno API requests (API limit: 20 req / 10s, but we stay conservative) */
 const SUNO_CONCURRENCY = 2;
 
-/** News block (TTS) interval — one per hour, played at :45 slot */
+/** News block (TTS) interval — one per hour, aired by the scheduler's :45 slot */
 const NEWS_BLOCK_INTERVAL_MS = 60 * 60 * 1000;
 
 // ---------------------------------------------------------------------------
@@ -51,7 +74,8 @@ function getDateDir(baseDir: string): string {
 // Types
 // ---------------------------------------------------------------------------
 
-export interface AudioBufferEntry {
+/** A produced audio file, stored in audio_tracks and mirrored into the content library */
+export interface GeneratedTrack {
   id: string;
   type: 'song' | 'news_block' | 'podcast';
   title: string;
@@ -61,17 +85,38 @@ export interface AudioBufferEntry {
   createdAt: Date;
 }
 
+/** Unplayed generated tracks per type (news blocks only while fresh enough to air) */
+export type Inventory = Record<GeneratedTrack['type'], number>;
+
+/** What a production cycle should make */
+export interface ProductionPlan {
+  songs: number;
+  podcast: boolean;
+}
+
+/** Outcome of one inventory check by the producer loop */
+export interface ProductionDecision extends ProductionPlan {
+  at: Date;
+  action: 'produce' | 'resume' | 'idle';
+  inventory: Inventory;
+  pendingGeneration: number;
+  reason: string;
+}
+
 export interface PipelineStatus {
   running: boolean;
   cycleNumber: number;
   lastCycleAt: Date | null;
   nextCycleAt: Date | null;
-  audioBufferSize: number;
+  unplayedTracks: number;
+  inventory: Inventory;
+  recentDecisions: ProductionDecision[];
   pendingGeneration: number;
   totalSongsGenerated: number;
   totalNewsBlocksGenerated: number;
   totalPodcastsGenerated: number;
   currentPhase: string;
+  currentCycleId: string | null;
   stream: StreamStatus | null;
 }
 
@@ -84,27 +129,72 @@ export interface CycleResult {
   errors: string[];
 }
 
+/** A breaking-news bulletin and what happened to it */
+export interface BreakingAlert extends BreakingStory {
+  id: string;
+  trackId: string;
+  status: 'pending' | 'queued' | 'rejected';
+  createdAt: Date;
+  decidedAt: Date | null;
+}
+
+/** Reports the current stage and a 0-100 progress estimate of a long-running job */
+export type ProgressCallback = (stage: string, progress: number) => void;
+
+// Phase checkpoints persisted in cycle_phases.output
+
+interface ScrapingCheckpoint {
+  articleIds: string[];
+  /** Absent on checkpoints written before production was inventory-driven */
+  plan?: ProductionPlan;
+}
+
+interface SynthesisCheckpoint {
+  stories: SynthesizedStory[];
+}
+
+interface PodcastCheckpoint {
+  trackId: string | null;
+}
+
+interface LyricsCheckpoint {
+  lyrics: GeneratedLyrics[];
+}
+
+interface SongTaskCheckpoint {
+  title: string;
+  taskId: string | null;
+  status: 'pending' | 'submitted' | 'done' | 'failed';
+  trackIds: string[];
+  error?: string;
+}
+
+interface SongsCheckpoint {
+  tasks: SongTaskCheckpoint[];
+}
+
 // ---------------------------------------------------------------------------
 // Pipeline
 // ---------------------------------------------------------------------------
 
-export class Pipeline {
+/**
+ * Production pipeline: fetches news, writes and generates songs, news blocks
+ * and podcasts, and drives the stream. Playout order is the Scheduler's job —
+ * generated tracks land in the content library and are picked from there.
+ *
+ * Emits 'now-playing' (ScheduledItem) whenever the stream starts a track,
+ * and 'breaking-news' (BreakingAlert) when a bulletin is produced or decided.
+ */
+export class Pipeline extends EventEmitter {
   private readonly rssService: RssService;
   private readonly lyricsService: LyricsService;
   private readonly ttsService: TtsService;
   private readonly podcastService: PodcastService;
+  private readonly cycleStore: CycleStore;
+  private readonly breakingNews: BreakingNewsDetector;
   private sunoGenerator: SunoApiGenerator | null = null;
   private streamManager: StreamManager | null = null;
 
-  /** Queue of tracks to play — new songs go here first */
-  private readonly audioBuffer: AudioBufferEntry[] = [];
-  /** Archive of all played tracks — used for looping when buffer is empty */
-  private readonly playedArchive: AudioBufferEntry[] = [];
-  /** Position in the archive for round-robin replay */
-  private archivePosition = 0;
-  /** Most recent podcast — used for repeat in :50 slot when no new podcast available */
-  private lastPodcast: AudioBufferEntry | null = null;
-
   private running = false;
   private pendingGeneration = 0;
   private cycleNumber = 0;
@@ -114,14 +204,36 @@ export class Pipeline {
   private totalNewsBlocksGenerated = 0;
   private totalPodcastsGenerated = 0;
   private currentPhase = 'idle';
+  private currentCycleId: string | null = null;
+  /** The cycle in progress, whether the loop's or a manual one; only one runs at a time */
+  private activeCycle: Promise<CycleResult> | null = null;
+  /** Set by stop(): the cycle in progress stops after its current song batch */
+  private cycleCancelled = false;
+  private recentDecisions: ProductionDecision[] = [];
+  private breakingAlerts: BreakingAlert[] = [];
+  private lastBreakingAt: Date | null = null;
+  private checkingBreakingNews = false;
+  private lastNewsBlockAt: Date | null = null;
+  /** Pending wait between inventory checks, and how to end it early */
   private cycleTimer: NodeJS.Timeout | null = null;
+  private wakeCycleLoop: (() => void) | null = null;
+  /** Bumped on every start and stop; a loop from an earlier start sees the change and exits */
+  private loopGeneration = 0;
   private newsBlockTimer: NodeJS.Timeout | null = null;
 
   constructor() {
+    super();
     this.rssService = new RssService();
     this.lyricsService = new LyricsService();
     this.ttsService = new TtsService();
     this.podcastService = new PodcastService(this.ttsService);
+    this.cycleStore = new CycleStore();
+    this.breakingNews = new BreakingNewsDetector();
+
+    // Every fetch (poll, cycle, news block) is screened for breaking news
+    this.rssService.on('articles', (articles: NewsArticle[]) => {
+      void this.handleNewArticles(articles);
+    });
   }
 
   // ---------------------------------------------------------------------------
@@ -135,20 +247,27 @@ export class Pipeline {
     }
 
     this.running = true;
+    this.loopGeneration++;
     this.currentPhase = 'initializing';
     logger.info('Pipeline starting');
 
-    // Restore tracks from DB (so stream can start immediately)
-    this.restoreTracksFromDb();
+    // Make every generated track on disk selectable by the scheduler
+    this.syncTracksToLibrary();
+    this.restoreHeldBulletins();
 
     // Initialize Suno API generator
     this.initSunoApi();
 
     // Schedule periodic news blocks via TTS
     this.newsBlockTimer = setInterval(() => {
-      void this.generateNewsBlock();
+      this.generateNewsBlock().catch((err) => {
+        logger.error({ err }, 'News block generation failed');
+      });
     }, NEWS_BLOCK_INTERVAL_MS);
 
+    // Poll feeds between cycles so breaking news is caught as it lands
+    this.rssService.start();
+
     // Start RTMP stream if YouTube is configured
     await this.initStream();
 
@@ -159,6 +278,8 @@ export class Pipeline {
 
   async stop(): Promise<void> {
     this.running = false;
+    this.loopGeneration++;
+    this.cycleCancelled = true;
     this.currentPhase = 'stopping';
 
     // Stop stream
@@ -171,12 +292,16 @@ export class Pipeline {
       clearTimeout(this.cycleTimer);
       this.cycleTimer = null;
     }
+    this.wakeCycleLoop?.();
+    this.wakeCycleLoop = null;
 
     if (this.newsBlockTimer) {
       clearInterval(this.newsBlockTimer);
       this.newsBlockTimer = null;
     }
 
+    this.rssService.stop();
+
     this.sunoGenerator = null;
 
     this.currentPhase = 'idle';
@@ -189,205 +314,184 @@ export class Pipeline {
       cycleNumber: this.cycleNumber,
       lastCycleAt: this.lastCycleAt,
       nextCycleAt: this.nextCycleAt,
-      audioBufferSize: this.audioBuffer.length,
+      unplayedTracks: this.countUnplayedTracks(),
+      inventory: this.countInventory(),
+      recentDecisions: this.recentDecisions,
       pendingGeneration: this.pendingGeneration,
       totalSongsGenerated: this.totalSongsGenerated,
       totalNewsBlocksGenerated: this.totalNewsBlocksGenerated,
       totalPodcastsGenerated: this.totalPodcastsGenerated,
       currentPhase: this.currentPhase,
+      currentCycleId: this.currentCycleId,
       stream: this.streamManager?.getStatus() ?? null,
     };
   }
 
-  /**
-   * Get next track to play using radio-style hourly time slots:
-   *   :00-:45 — Songs
-   *   :45-:50 — News block
-   *   :50-:60 — Podcast (repeat last if no new one)
-   */
-  dequeueAudio(): AudioBufferEntry | null {
-    const minuteOfHour = new Date().getMinutes();
-
-    let track: AudioBufferEntry | null = null;
-
-    if (minuteOfHour >= 50) {
-      // :50-:60 → Podcast slot
-      track = this.getTrackByType('podcast')
-        ?? this.lastPodcast  // repeat the most recent podcast
-        ?? this.getTrackByType('song');
-    } else if (minuteOfHour >= 45) {
-      // :45-:50 → News slot
-      track = this.getTrackByType('news_block')
-        ?? this.getTrackByType('song');
-    } else {
-      // :00-:45 → Song slot
-      track = this.getTrackByType('song')
-        ?? this.getAnyTrack();
-    }
-
-    if (track) {
-      this.updatePlayCount(track.id);
-    }
-
-    return track;
+  /** Recent production cycles with their phase checkpoints. */
+  getRecentCycles(limit?: number): CycleWithPhases[] {
+    return this.cycleStore.listRecent(limit);
   }
 
   /**
-   * Find and dequeue a track of the requested type.
-   * Checks fresh buffer first, then archive for songs/podcasts.
+   * Persist a generated track and add it to the content library,
+   * where the scheduler can pick it for playout.
    */
-  private getTrackByType(type: AudioBufferEntry['type']): AudioBufferEntry | null {
-    // 1. Check fresh buffer
-    const idx = this.audioBuffer.findIndex((t) => t.type === type);
-    if (idx !== -1) {
-      const [track] = this.audioBuffer.splice(idx, 1);
-      // Archive songs and podcasts for replay (not news blocks — they're time-sensitive)
-      if (track.type === 'song' || track.type === 'podcast') {
-        this.playedArchive.push(track);
-      }
-      return track;
-    }
-
-    // 2. For songs/podcasts, loop through archive
-    if (type === 'song' || type === 'podcast') {
-      const matching = this.playedArchive.filter((t) => t.type === type);
-      if (matching.length > 0) {
-        // Use archivePosition for round-robin among matching type
-        const track = matching[this.archivePosition % matching.length];
-        this.archivePosition++;
-        return track;
-      }
-    }
-
-    return null;
+  private persistTrack(entry: GeneratedTrack, cycleNumber?: number): void {
+    const db = getDb();
+    db.insert(audioTracks)
+      .values({
+        id: entry.id,
+        type: entry.type,
+        title: entry.title,
+        filePath: entry.filePath,
+        durationSeconds: entry.durationSeconds,
+        metadata: entry.metadata,
+        createdAt: entry.createdAt,
+        cycleNumber: cycleNumber ?? this.cycleNumber,
+      })
+      .onConflictDoNothing()
+      .run();
+
+    this.addToLibrary(entry);
   }
 
   /**
-   * Get any available track (fallback when preferred type not available).
+   * Run audio QC on a freshly produced file, then persist it. A track that
+   * fails is moved to quarantine and only recorded in the library with
+   * status 'error' (no audio_tracks row), so it neither airs nor counts as
+   * inventory. Returns whether the track can air.
    */
-  private getAnyTrack(): AudioBufferEntry | null {
-    if (this.audioBuffer.length > 0) {
-      const track = this.audioBuffer.shift()!;
-      if (track.type === 'song' || track.type === 'podcast') {
-        this.playedArchive.push(track);
+  private async ingestTrack(entry: GeneratedTrack, cycleNumber?: number): Promise<boolean> {
+    try {
+      const { loudness, ...qc } = await runAudioQc(entry.filePath, { reportedDuration: entry.durationSeconds });
+      entry.metadata = { ...entry.metadata, loudness, qc };
+      if (qc.measuredDuration) entry.durationSeconds = Math.round(qc.measuredDuration);
+
+      if (!qc.passed) {
+        entry.filePath = await quarantineFile(entry.filePath);
+        this.addToLibrary(entry, 'error');
+        logger.warn(
+          { id: entry.id, title: entry.title, failures: qc.failures },
+          'Track failed audio QC and was quarantined',
+        );
+        return false;
       }
-      return track;
-    }
-
-    if (this.playedArchive.length > 0) {
-      const track = this.playedArchive[this.archivePosition % this.playedArchive.length];
-      this.archivePosition++;
-      return track;
+    } catch (err) {
+      if (!(err instanceof FfmpegUnavailableError)) throw err;
+      logger.warn({ err, title: entry.title }, 'Audio QC unavailable, ingesting track unchecked');
     }
 
-    return null;
+    this.persistTrack(entry, cycleNumber);
+    return true;
   }
 
-  peekBuffer(): AudioBufferEntry[] {
-    return [...this.audioBuffer];
+  /** Mirror a generated track into the content table (same ID, absolute path). */
+  private addToLibrary(entry: GeneratedTrack, status: 'ready' | 'error' = 'ready'): void {
+    const fileSize = existsSync(entry.filePath) ? statSync(entry.filePath).size : null;
+
+    getDb().insert(content)
+      .values({
+        id: entry.id,
+        type: entry.type,
+        title: entry.title,
+        duration: entry.durationSeconds,
+        filePath: entry.filePath,
+        fileSize,
+        mimeType: 'audio/mpeg',
+        status,
+        metadata: { ...entry.metadata, generated: true },
+        createdAt: entry.createdAt,
+        updatedAt: entry.createdAt,
+      })
+      .onConflictDoNothing()
+      .run();
   }
 
-  /**
-   * Persist an audio track entry to the database.
-   */
-  private persistTrack(entry: AudioBufferEntry, cycleNumber?: number): void {
-    try {
-      const db = getDb();
-      db.insert(audioTracks)
-        .values({
-          id: entry.id,
-          type: entry.type,
-          title: entry.title,
-          filePath: entry.filePath,
-          durationSeconds: entry.durationSeconds,
-          metadata: entry.metadata,
-          createdAt: entry.createdAt,
-          cycleNumber: cycleNumber ?? this.cycleNumber,
-        })
-        .onConflictDoNothing()
-        .run();
-    } catch {
-      // Ignore duplicate inserts
-    }
+  /** Generated tracks that have not aired yet. */
+  private countUnplayedTracks(): number {
+    const row = getDb().select({ count: sql<number>`count(*)` })
+      .from(audioTracks)
+      .where(eq(audioTracks.playCount, 0))
+      .get();
+    return row?.count ?? 0;
   }
 
   /**
-   * Update play count in DB after a track is played.
+   * Unplayed tracks per type. News blocks past their airing window don't
+   * count, nor do breaking bulletins held for confirmation (not ready in the
+   * library, so the scheduler can't pick them).
    */
-  private updatePlayCount(trackId: string): void {
-    try {
-      const db = getDb();
-      db.update(audioTracks)
-        .set({
-          playCount: sql`${audioTracks.playCount} + 1`,
-          lastPlayedAt: new Date(),
-        })
-        .where(eq(audioTracks.id, trackId))
-        .run();
-    } catch {
-      // Non-critical, don't crash
+  private countInventory(): Inventory {
+    const newsCutoff = new Date(Date.now() - NEWS_MAX_AGE_MS);
+    const rows = getDb().select({ type: audioTracks.type, count: sql<number>`count(*)` })
+      .from(audioTracks)
+      .where(and(
+        eq(audioTracks.playCount, 0),
+        or(ne(audioTracks.type, 'news_block'), gt(audioTracks.createdAt, newsCutoff)),
+        sql`${audioTracks.id} NOT IN (SELECT id FROM content WHERE status != 'ready')`,
+      ))
+      .groupBy(audioTracks.type)
+      .all();
+
+    const inventory: Inventory = { song: 0, news_block: 0, podcast: 0 };
+    for (const row of rows) {
+      inventory[row.type] = row.count;
     }
+
+    // Both takes of a song are one song; it's unplayed only if neither has aired
+    const songGroup = sql`coalesce(json_extract(${audioTracks.metadata}, '$.variantGroupId'), ${audioTracks.id})`;
+    const unplayedSongs = getDb().select({ count: sql<number>`count(*)` })
+      .from(
+        getDb().select({ group: songGroup.as('variant_group') })
+          .from(audioTracks)
+          .where(eq(audioTracks.type, 'song'))
+          .groupBy(songGroup)
+          .having(sql`max(${audioTracks.playCount}) = 0`)
+          .as('unplayed_songs'),
+      )
+      .get();
+    inventory.song = unplayedSongs?.count ?? 0;
+
+    return inventory;
   }
 
   /**
-   * Restore audio buffer from DB on startup.
-   * Loads tracks that still exist on disk, sorted by newest first.
-   * Podcasts and songs go into archive for looping; fresh tracks (<24h) to buffer.
+   * Backfill the content library on startup with generated tracks that are
+   * still on disk but were produced before tracks were mirrored there.
    */
-  private restoreTracksFromDb(): void {
+  private syncTracksToLibrary(): void {
     const db = getDb();
-    const rows = db
-      .select()
+    const total = db.select({ count: sql<number>`count(*)` }).from(audioTracks).get();
+
+    // If DB was empty, scan disk for legacy files and import them
+    if (!total?.count) {
+      this.importLegacyFiles();
+      return;
+    }
+
+    const missing = db.select()
       .from(audioTracks)
-      .orderBy(desc(audioTracks.createdAt))
+      .where(sql`${audioTracks.id} NOT IN (SELECT id FROM content)`)
       .all();
 
-    const now = Date.now();
-    const freshThreshold = 24 * 60 * 60 * 1000; // 24h
-    let restored = 0;
-
-    for (const row of rows) {
+    let synced = 0;
+    for (const row of missing) {
       if (!existsSync(row.filePath)) continue;
 
-      const entry: AudioBufferEntry = {
+      this.addToLibrary({
         id: row.id,
-        type: row.type as AudioBufferEntry['type'],
+        type: row.type,
         title: row.title,
         filePath: row.filePath,
         durationSeconds: row.durationSeconds ?? undefined,
-        metadata: (row.metadata as Record<string, unknown>) ?? {},
+        metadata: row.metadata ?? {},
         createdAt: row.createdAt,
-      };
-
-      const age = now - row.createdAt.getTime();
-
-      if (age < freshThreshold) {
-        // Fresh tracks go to buffer (will be played first)
-        this.audioBuffer.push(entry);
-      } else if (row.type === 'song' || row.type === 'podcast') {
-        // Older songs/podcasts go to archive for looping
-        this.playedArchive.push(entry);
-      }
-      // Skip old news_blocks — they're stale
-
-      // Track the most recent podcast for :50 slot repeat
-      if (row.type === 'podcast' && !this.lastPodcast) {
-        this.lastPodcast = entry; // rows are ordered by createdAt DESC
-      }
-
-      restored++;
-    }
-
-    // If DB was empty, scan disk for legacy files and import them
-    if (rows.length === 0) {
-      this.importLegacyFiles();
+      });
+      synced++;
     }
 
-    if (restored > 0) {
-      logger.info(
-        { restored, buffer: this.audioBuffer.length, archive: this.playedArchive.length },
-        'Audio tracks restored from DB',
-      );
+    if (synced > 0) {
+      logger.info({ synced }, 'Generated tracks added to content library');
     }
   }
 
@@ -413,7 +517,7 @@ export class Pipeline {
             const id = entry.name.replace('.mp3', '');
             const stat = statSync(filePath);
 
-            const audioEntry: AudioBufferEntry = {
+            const audioEntry: GeneratedTrack = {
               id,
               type,
               title: `Legacy ${type}: ${id}`,
@@ -423,7 +527,6 @@ export class Pipeline {
             };
 
             this.persistTrack(audioEntry, 0);
-            this.playedArchive.push(audioEntry);
             imported++;
           }
         }
@@ -433,54 +536,164 @@ export class Pipeline {
     }
 
     if (imported > 0) {
-      logger.info(
-        { imported, archive: this.playedArchive.length },
-        'Legacy audio files imported from disk',
-      );
+      logger.info({ imported }, 'Legacy audio files imported from disk');
     }
   }
 
   /**
-   * Run a single production cycle manually (for testing).
+   * Run a single production cycle manually (for testing), regardless of inventory.
    */
-  async runSingleCycle(): Promise<CycleResult> {
-    return this.runProductionCycle();
+  async runSingleCycle(
+    plan: ProductionPlan = { songs: MAX_SONGS_PER_CYCLE, podcast: getConfig().PODCAST_ENABLED },
+  ): Promise<CycleResult> {
+    return this.runExclusiveCycle(plan);
+  }
+
+  /**
+   * Run a production cycle unless one is already in progress. Two cycles at
+   * once would both resume the same checkpoint and spend its attempts twice.
+   */
+  private async runExclusiveCycle(plan: ProductionPlan): Promise<CycleResult> {
+    if (this.activeCycle) throw new Error('A production cycle is already running');
+
+    this.cycleCancelled = false;
+    this.activeCycle = this.runProductionCycle(plan);
+    try {
+      return await this.activeCycle;
+    } finally {
+      this.activeCycle = null;
+    }
   }
 
   // ---------------------------------------------------------------------------
   // Production cycle loop
   // ---------------------------------------------------------------------------
 
+  /**
+   * Producer loop: check unplayed inventory, run a cycle sized to refill it
+   * when it is low, and wait longer between checks while it stays healthy.
+   */
   private async runCycleLoop(): Promise<void> {
-    while (this.running) {
-      try {
-        const result = await this.runProductionCycle();
-        logger.info(
-          {
-            cycle: this.cycleNumber,
-            scraped: result.articlesScraped,
-            stories: result.storiesSynthesized,
-            lyrics: result.lyricsGenerated,
-            songs: result.songsProduced,
-            podcasts: result.podcastsProduced,
-            errors: result.errors.length,
-          },
-          'Production cycle complete',
-        );
-      } catch (err) {
-        logger.error({ err, cycle: this.cycleNumber }, 'Production cycle failed');
+    const generation = this.loopGeneration;
+    const current = () => this.running && this.loopGeneration === generation;
+    let backoffMs = INVENTORY_CHECK_MIN_MS;
+
+    while (current()) {
+      // Let a manual cycle finish first; the plan then sees what it made
+      if (this.activeCycle) await this.activeCycle.catch(() => undefined);
+      if (!current()) break;
+
+      const decision = this.planProduction();
+      this.recordDecision(decision);
+
+      let produced = false;
+      if (decision.action !== 'idle') {
+        produced = await this.runPlannedCycle(decision);
       }
 
-      if (!this.running) break;
+      if (!current()) break;
 
-      // Schedule next cycle
-      this.nextCycleAt = new Date(Date.now() + CYCLE_INTERVAL_MS);
+      // Refilling: check again soon. Healthy or starved of articles/budget: back off.
+      const waitMs = produced ? INVENTORY_CHECK_MIN_MS : backoffMs;
+      backoffMs = produced ? INVENTORY_CHECK_MIN_MS : Math.min(backoffMs * 2, INVENTORY_CHECK_MAX_MS);
+
+      this.nextCycleAt = new Date(Date.now() + waitMs);
       logger.info(
         { nextCycleAt: this.nextCycleAt.toISOString() },
-        `Next production cycle in ${CYCLE_INTERVAL_MS / 60000} minutes`,
+        `Next inventory check in ${Math.round(waitMs / 60000)} minutes`,
       );
 
-      await sleep(CYCLE_INTERVAL_MS);
+      await this.waitForNextCheck(waitMs);
+    }
+  }
+
+  /** Sleep until the next inventory check; stop() ends the wait early */
+  private waitForNextCheck(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const done = () => {
+        this.cycleTimer = null;
+        this.wakeCycleLoop = null;
+        resolve();
+      };
+      this.wakeCycleLoop = done;
+      this.cycleTimer = setTimeout(done, ms);
+    });
+  }
+
+  /**
+   * Decide what the next cycle should make from current inventory and the
+   * minBufferSize / targetBufferSize / minPodcastBuffer settings.
+   */
+  private planProduction(): ProductionDecision {
+    const inventory = this.countInventory();
+    const base = { at: new Date(), inventory, pendingGeneration: this.pendingGeneration };
+    const minSongs = getSetting<number>('minBufferSize');
+    const targetSongs = Math.max(minSongs, getSetting<number>('targetBufferSize'));
+    const minPodcasts = getSetting<number>('minPodcastBuffer');
+
+    // Songs already being generated (manual triggers) count toward the buffer
+    const songsAvailable = inventory.song + this.pendingGeneration;
+    const songs = songsAvailable < minSongs
+      ? Math.min(targetSongs - songsAvailable, MAX_SONGS_PER_CYCLE)
+      : 0;
+    const podcast = getConfig().PODCAST_ENABLED && inventory.podcast < minPodcasts;
+
+    const reasons: string[] = [];
+    if (songs > 0) reasons.push(`${songsAvailable} songs below minimum ${minSongs}, refilling to ${targetSongs}`);
+    if (podcast) reasons.push(`${inventory.podcast} podcasts below minimum ${minPodcasts}`);
+
+    // The plan only applies if the interrupted cycle hadn't recorded its own yet
+    if (this.cycleStore.hasUnfinished()) {
+      return { ...base, action: 'resume', songs, podcast, reason: 'Resuming unfinished cycle' };
+    }
+
+    if (songs === 0 && !podcast) {
+      return {
+        ...base,
+        action: 'idle',
+        songs: 0,
+        podcast: false,
+        reason: `Buffer healthy (${songsAvailable} songs, ${inventory.podcast} podcasts)`,
+      };
+    }
+
+    return { ...base, action: 'produce', songs, podcast, reason: reasons.join('; ') };
+  }
+
+  private recordDecision(decision: ProductionDecision): void {
+    this.recentDecisions = [decision, ...this.recentDecisions].slice(0, MAX_RECENT_DECISIONS);
+    logger.info(
+      {
+        action: decision.action,
+        songs: decision.songs,
+        podcast: decision.podcast,
+        inventory: decision.inventory,
+        pendingGeneration: decision.pendingGeneration,
+      },
+      `Production decision: ${decision.reason}`,
+    );
+  }
+
+  /** Run the cycle a decision called for. Returns whether it produced anything. */
+  private async runPlannedCycle(plan: ProductionPlan): Promise<boolean> {
+    try {
+      const result = await this.runExclusiveCycle(plan);
+      logger.info(
+        {
+          cycle: this.cycleNumber,
+          scraped: result.articlesScraped,
+          stories: result.storiesSynthesized,
+          lyrics: result.lyricsGenerated,
+          songs: result.songsProduced,
+          podcasts: result.podcastsProduced,
+          errors: result.errors.length,
+        },
+        'Production cycle complete',
+      );
+      return result.songsProduced + result.podcastsProduced > 0;
+    } catch (err) {
+      logger.error({ err, cycle: this.cycleNumber }, 'Production cycle failed');
+      return false;
     }
   }
 
@@ -488,79 +701,146 @@ export class Pipeline {
   // Single production cycle: Scrape → Synthesize → Lyrics → Songs
   // ---------------------------------------------------------------------------
 
-  private async runProductionCycle(): Promise<CycleResult> {
-    this.cycleNumber++;
+  private async runProductionCycle(requested: ProductionPlan): Promise<CycleResult> {
+    // Resume an interrupted cycle from its last completed phase, if any
+    const resumed = this.cycleStore.resumeUnfinished();
+    const cycle = resumed ?? this.cycleStore.createCycle();
+    const cycleId = cycle.id;
+
+    this.cycleNumber = cycle.cycleNumber;
+    this.currentCycleId = cycleId;
     this.lastCycleAt = new Date();
     const errors: string[] = [];
 
+    if (resumed) {
+      logger.info(
+        { cycle: this.cycleNumber, cycleId, lastPhase: resumed.currentPhase, attempt: resumed.attempts },
+        'Resuming unfinished production cycle',
+      );
+    }
+
     // ── Phase 1: RSS Fetch + Get Unused Articles ──────────────────────────
-    this.currentPhase = 'scraping';
-    logger.info({ cycle: this.cycleNumber }, 'Phase 1: Fetching RSS feeds');
+    let articles: NewsArticle[];
+    let plan = requested;
+    const scraped = this.cycleStore.getCheckpoint<ScrapingCheckpoint>(cycleId, 'scraping');
+
+    if (scraped) {
+      // A resumed cycle keeps the plan it started with
+      plan = scraped.plan ?? { songs: MAX_SONGS_PER_CYCLE, podcast: getConfig().PODCAST_ENABLED };
+      articles = this.rssService.getArticlesByIds(scraped.articleIds);
+      logger.info({ cycle: this.cycleNumber, articleCount: articles.length }, 'Phase 1: Restored articles from checkpoint');
+    } else {
+      this.currentPhase = 'scraping';
+      this.cycleStore.startPhase(cycleId, 'scraping');
+      logger.info({ cycle: this.cycleNumber }, 'Phase 1: Fetching RSS feeds');
 
-    try {
-      await this.rssService.fetchOnce();
-    } catch (err) {
-      const msg = `RSS fetch failed: ${String(err)}`;
-      logger.error({ err }, msg);
-      errors.push(msg);
+      try {
+        await this.rssService.fetchOnce();
+      } catch (err) {
+        const msg = `RSS fetch failed: ${String(err)}`;
+        logger.error({ err }, msg);
+        errors.push(msg);
+      }
+
+      // Clean up old articles periodically
+      this.rssService.cleanupOldArticles();
+
+      // Get only unused, fresh articles for synthesis
+      articles = this.rssService.getUnusedArticles();
+      logger.info({ unusedArticleCount: articles.length }, 'Unused articles available');
+
+      this.cycleStore.completePhase(cycleId, 'scraping', {
+        articleIds: articles.map((a) => a.id),
+        plan,
+      } satisfies ScrapingCheckpoint);
     }
 
-    // Clean up old articles periodically
-    this.rssService.cleanupOldArticles();
+    // Resumed before its plan was recorded, and the buffer has since recovered
+    if (plan.songs === 0 && !plan.podcast) {
+      logger.info({ cycle: this.cycleNumber, cycleId }, 'Nothing left to produce — closing cycle');
+      return this.finishCycle(cycleId, 'completed', {
+        articlesScraped: articles.length, storiesSynthesized: 0, lyricsGenerated: 0, songsProduced: 0, podcastsProduced: 0, errors,
+      });
+    }
 
-    // Get only unused, fresh articles for synthesis
-    const articles = this.rssService.getUnusedArticles();
-    logger.info({ unusedArticleCount: articles.length }, 'Unused articles available');
+    const synthesized = this.cycleStore.getCheckpoint<SynthesisCheckpoint>(cycleId, 'synthesizing');
 
-    if (articles.length === 0) {
+    // Once stories are checkpointed the articles are no longer needed, even if they were cleaned up since
+    if (articles.length === 0 && !synthesized) {
       logger.warn('No unused articles available — skipping cycle');
-      this.currentPhase = 'idle';
-      return { articlesScraped: 0, storiesSynthesized: 0, lyricsGenerated: 0, songsProduced: 0, podcastsProduced: 0, errors };
+      return this.finishCycle(cycleId, 'completed', {
+        articlesScraped: 0, storiesSynthesized: 0, lyricsGenerated: 0, songsProduced: 0, podcastsProduced: 0, errors,
+      });
     }
 
     // ── Phase 2: AI News Synthesis (1 Claude call) ──────────────────────────
-    this.currentPhase = 'synthesizing';
-    logger.info({ cycle: this.cycleNumber }, 'Phase 2: Synthesizing news into stories');
+    let stories: SynthesizedStory[];
 
-    let stories: SynthesizedStory[] = [];
-    try {
-      stories = await this.lyricsService.synthesizeNews(articles, SONGS_PER_CYCLE);
-    } catch (err) {
-      const msg = `News synthesis failed: ${String(err)}`;
-      logger.error({ err }, msg);
-      errors.push(msg);
-      this.currentPhase = 'idle';
-      return { articlesScraped: articles.length, storiesSynthesized: 0, lyricsGenerated: 0, songsProduced: 0, podcastsProduced: 0, errors };
+    // Over budget: leave the articles unused for a later cycle; news blocks keep running
+    if (!synthesized && !this.withinBudget('production cycle', errors)) {
+      return this.finishCycle(cycleId, 'completed', {
+        articlesScraped: articles.length, storiesSynthesized: 0, lyricsGenerated: 0, songsProduced: 0, podcastsProduced: 0, errors,
+      });
     }
 
-    // Mark all used articles in DB
-    for (const story of stories) {
-      if (story.sourceArticleIds.length > 0) {
-        this.rssService.markArticlesUsed(
-          story.sourceArticleIds,
-          'synthesis',
-          this.cycleNumber,
-          story.headline,
-        );
+    if (synthesized) {
+      stories = synthesized.stories;
+      logger.info({ cycle: this.cycleNumber, storyCount: stories.length }, 'Phase 2: Restored stories from checkpoint');
+    } else {
+      this.currentPhase = 'synthesizing';
+      this.cycleStore.startPhase(cycleId, 'synthesizing');
+      logger.info({ cycle: this.cycleNumber, songs: plan.songs, podcast: plan.podcast }, 'Phase 2: Synthesizing news into stories');
+
+      // A podcast-only cycle still needs enough stories for an episode
+      const storyCount = plan.podcast ? Math.max(plan.songs, PODCAST_STORY_COUNT) : plan.songs;
+
+      try {
+        stories = await this.lyricsService.synthesizeNews(articles, storyCount);
+      } catch (err) {
+        const msg = `News synthesis failed: ${String(err)}`;
+        logger.error({ err }, msg);
+        errors.push(msg);
+        this.cycleStore.failPhase(cycleId, 'synthesizing', msg);
+        return this.finishCycle(cycleId, 'failed', {
+          articlesScraped: articles.length, storiesSynthesized: 0, lyricsGenerated: 0, songsProduced: 0, podcastsProduced: 0, errors,
+        });
       }
-    }
 
-    logger.info(
-      { storyCount: stories.length, headlines: stories.map((s) => s.headline) },
-      'News synthesis complete',
-    );
+      // Mark all used articles in DB
+      for (const story of stories) {
+        if (story.sourceArticleIds.length > 0) {
+          this.rssService.markArticlesUsed(
+            story.sourceArticleIds,
+            'synthesis',
+            this.cycleNumber,
+            story.headline,
+          );
+        }
+      }
+
+      this.cycleStore.completePhase(cycleId, 'synthesizing', { stories } satisfies SynthesisCheckpoint);
+
+      logger.info(
+        { storyCount: stories.length, headlines: stories.map((s) => s.headline) },
+        'News synthesis complete',
+      );
+    }
 
     // ── Phase 2.5: Podcast Generation (optional) ────────────────────────────
     let podcastsProduced = 0;
+    const podcastDone = this.cycleStore.getCheckpoint<PodcastCheckpoint>(cycleId, 'podcast');
 
-    if (getConfig().PODCAST_ENABLED && stories.length > 0) {
+    if (podcastDone) {
+      podcastsProduced = podcastDone.trackId ? 1 : 0;
+    } else if (plan.podcast && getConfig().PODCAST_ENABLED && stories.length > 0 && this.withinBudget('podcast', errors)) {
       this.currentPhase = 'podcast';
+      this.cycleStore.startPhase(cycleId, 'podcast');
       logger.info({ cycle: this.cycleNumber }, 'Phase 2.5: Generating podcast episode');
 
       try {
         const episode = await this.podcastService.generateEpisode(stories);
 
-        const entry: AudioBufferEntry = {
+        const entry: GeneratedTrack = {
           id: episode.id,
           type: 'podcast',
           title: episode.title,
@@ -573,59 +853,75 @@ export class Pipeline {
           createdAt: episode.generatedAt,
         };
 
-        this.audioBuffer.push(entry);
-        this.lastPodcast = entry;
-        this.persistTrack(entry);
+        if (!(await this.ingestTrack(entry))) {
+          throw new Error('Podcast episode failed audio QC');
+        }
         this.totalPodcastsGenerated++;
         podcastsProduced = 1;
+        this.cycleStore.completePhase(cycleId, 'podcast', { trackId: entry.id } satisfies PodcastCheckpoint);
 
         logger.info(
           { title: episode.title, durationEstimate: episode.durationEstimateMinutes },
-          'Podcast episode added to buffer',
+          'Podcast episode added to library',
         );
       } catch (err) {
         const msg = `Podcast generation failed: ${String(err)}`;
         logger.error({ err }, msg);
         errors.push(msg);
+        this.cycleStore.failPhase(cycleId, 'podcast', msg);
       }
     }
 
     // ── Phase 3: Batch Lyrics Generation (parallel Claude calls) ────────────
-    this.currentPhase = 'lyrics';
-    logger.info({ cycle: this.cycleNumber }, 'Phase 3: Generating lyrics');
-
     let allLyrics: GeneratedLyrics[] = [];
-    try {
-      allLyrics = await this.lyricsService.batchGenerateLyrics(stories);
-    } catch (err) {
-      const msg = `Batch lyrics failed: ${String(err)}`;
-      logger.error({ err }, msg);
-      errors.push(msg);
-    }
+    const written = this.cycleStore.getCheckpoint<LyricsCheckpoint>(cycleId, 'lyrics');
 
-    logger.info(
-      { lyricsCount: allLyrics.length, titles: allLyrics.map((l) => `${l.title} (${l.genre.name})`) },
-      'Lyrics generation complete',
-    );
+    if (written) {
+      allLyrics = written.lyrics.map((l) => ({ ...l, generatedAt: new Date(l.generatedAt) }));
+      logger.info({ cycle: this.cycleNumber, lyricsCount: allLyrics.length }, 'Phase 3: Restored lyrics from checkpoint');
+    } else if (plan.songs > 0 && this.withinBudget('songs', errors)) {
+      this.currentPhase = 'lyrics';
+      this.cycleStore.startPhase(cycleId, 'lyrics');
+      logger.info({ cycle: this.cycleNumber }, 'Phase 3: Generating lyrics');
+
+      try {
+        allLyrics = await this.lyricsService.batchGenerateLyrics(stories.slice(0, plan.songs));
+        this.cycleStore.completePhase(cycleId, 'lyrics', { lyrics: allLyrics } satisfies LyricsCheckpoint);
+      } catch (err) {
+        const msg = `Batch lyrics failed: ${String(err)}`;
+        logger.error({ err }, msg);
+        errors.push(msg);
+        this.cycleStore.failPhase(cycleId, 'lyrics', msg);
+      }
+
+      logger.info(
+        { lyricsCount: allLyrics.length, titles: allLyrics.map((l) => `${l.title} (${l.genre.name})`) },
+        'Lyrics generation complete',
+      );
+    }
 
     // ── Phase 4: Suno Song Generation (2 at a time) ─────────────────────────
     this.currentPhase = 'generating_songs';
+    this.cycleStore.startPhase(cycleId, 'generating_songs');
     logger.info({ cycle: this.cycleNumber, songCount: allLyrics.length }, 'Phase 4: Generating songs via Suno');
 
     let songsProduced = 0;
+    let songsFinished = true;
+
+    // Manual cycles run without start(), which is where the generator is usually set up
+    if (!this.sunoGenerator && allLyrics.length > 0) this.initSunoApi();
 
     if (this.sunoGenerator) {
-      songsProduced = await this.generateSongBatch(allLyrics, errors);
-    } else {
+      const tasks = this.loadSongTasks(cycleId, allLyrics);
+      songsProduced = await this.generateSongBatch(allLyrics, tasks, cycleId, errors);
+      songsFinished = tasks.every((t) => t.status === 'done' || t.status === 'failed');
+    } else if (allLyrics.length > 0) {
       const msg = 'Suno API not initialized — skipping song generation. Set SUNO_API_KEY in .env';
       logger.warn(msg);
       errors.push(msg);
     }
 
-    // ── Done ────────────────────────────────────────────────────────────────
-    this.currentPhase = 'idle';
-
-    return {
+    const result: CycleResult = {
       articlesScraped: articles.length,
       storiesSynthesized: stories.length,
       lyricsGenerated: allLyrics.length,
@@ -633,79 +929,185 @@ export class Pipeline {
       podcastsProduced,
       errors,
     };
+
+    // Stopped mid-batch: leave the cycle open so the next start resumes it
+    if (!songsFinished) {
+      logger.info({ cycle: this.cycleNumber, cycleId }, 'Song generation interrupted — cycle will resume on next start');
+      this.currentPhase = 'idle';
+      this.currentCycleId = null;
+      return result;
+    }
+
+    this.cycleStore.completePhase(
+      cycleId,
+      'generating_songs',
+      this.cycleStore.getProgress<SongsCheckpoint>(cycleId, 'generating_songs') ?? { tasks: [] },
+    );
+
+    // ── Done ────────────────────────────────────────────────────────────────
+    return this.finishCycle(cycleId, 'completed', result);
+  }
+
+  /**
+   * Check the spending caps before discretionary paid work.
+   * Returns false (and records why in `errors`) when a cap is reached.
+   */
+  private withinBudget(purpose: string, errors: string[]): boolean {
+    try {
+      getCostLedger().assertWithinBudget(purpose);
+      return true;
+    } catch (err) {
+      if (!(err instanceof BudgetExceededError)) throw err;
+      errors.push(err.message);
+      return false;
+    }
+  }
+
+  private finishCycle(
+    cycleId: string,
+    status: 'completed' | 'failed',
+    result: CycleResult,
+  ): CycleResult {
+    this.cycleStore.finishCycle(cycleId, status, { ...result });
+    this.currentPhase = 'idle';
+    this.currentCycleId = null;
+    return result;
   }
 
   // ---------------------------------------------------------------------------
   // Song generation (batch, 2 concurrent)
   // ---------------------------------------------------------------------------
 
+  /**
+   * Restore per-song Suno task state saved before a restart, or start fresh.
+   */
+  private loadSongTasks(cycleId: string, lyrics: GeneratedLyrics[]): SongTaskCheckpoint[] {
+    const saved = this.cycleStore.getProgress<SongsCheckpoint>(cycleId, 'generating_songs');
+    if (saved && saved.tasks.length === lyrics.length) {
+      const resumable = saved.tasks.filter((t) => t.status === 'submitted').length;
+      if (resumable > 0) {
+        logger.info({ cycleId, resumable }, 'Resuming submitted Suno tasks from checkpoint');
+      }
+      return saved.tasks;
+    }
+
+    return lyrics.map((l) => ({ title: l.title, taskId: null, status: 'pending', trackIds: [] }));
+  }
+
   private async generateSongBatch(
     lyrics: GeneratedLyrics[],
+    tasks: SongTaskCheckpoint[],
+    cycleId: string,
     errors: string[],
   ): Promise<number> {
-    if (!this.sunoGenerator) return 0;
+    // stop() drops the generator; tasks already submitted keep this one to be collected
+    const generator = this.sunoGenerator;
+    if (!generator) return 0;
 
-    let produced = 0;
+    const saveProgress = () => {
+      this.cycleStore.saveProgress(cycleId, 'generating_songs', { tasks } satisfies SongsCheckpoint);
+    };
+    saveProgress();
+
+    const open = lyrics
+      .map((l, i) => ({ lyrics: l, task: tasks[i] }))
+      .filter(({ task }) => task.status === 'pending' || task.status === 'submitted');
 
     // Each API call produces 2 songs. Process lyrics one at a time (each gets 2 variants).
     // With SUNO_CONCURRENCY=2, we send 2 API calls in parallel = 4 songs.
-    for (let i = 0; i < lyrics.length; i += SUNO_CONCURRENCY) {
-      if (!this.running) break;
+    for (let i = 0; i < open.length; i += SUNO_CONCURRENCY) {
+      if (this.cycleCancelled) break;
 
-      const batch = lyrics.slice(i, i + SUNO_CONCURRENCY);
+      const batch = open.slice(i, i + SUNO_CONCURRENCY);
       const batchNum = Math.floor(i / SUNO_CONCURRENCY) + 1;
-      const totalBatches = Math.ceil(lyrics.length / SUNO_CONCURRENCY);
+      const totalBatches = Math.ceil(open.length / SUNO_CONCURRENCY);
 
       logger.info(
-        { batch: batchNum, total: totalBatches, titles: batch.map((l) => l.title) },
+        { batch: batchNum, total: totalBatches, titles: batch.map((b) => b.lyrics.title) },
         'Generating song batch via API',
       );
 
       const results = await Promise.allSettled(
-        batch.map((l) => this.generateSongViaApi(l)),
+        batch.map((b) => this.generateSongViaApi(generator, b.lyrics, b.task, saveProgress)),
       );
 
-      for (const result of results) {
-        if (result.status === 'fulfilled') {
-          produced += result.value;
-        } else {
+      for (const [j, result] of results.entries()) {
+        if (result.status === 'rejected') {
           const msg = `Song generation failed: ${String(result.reason)}`;
           logger.error(msg);
           errors.push(msg);
+          // A paid task interrupted by a stop is collected when the cycle resumes
+          if (!(this.cycleCancelled && batch[j].task.taskId)) batch[j].task.status = 'failed';
+          batch[j].task.error = String(result.reason);
         }
       }
+      saveProgress();
     }
 
-    return produced;
+    this.refreshSunoCredits();
+    return this.countPersistedSongs(tasks);
   }
 
   /**
-   * Generate song(s) via Suno API. Each call returns 2 song variants.
-   * We download the first (best) one and add it to the buffer.
+   * Songs with at least one take in audio_tracks. One song per task, however
+   * many takes it came with; takes that failed QC were never persisted.
    */
-  private async generateSongViaApi(lyrics: GeneratedLyrics): Promise<number> {
-    if (!this.sunoGenerator) throw new Error('Suno API not initialized');
+  private countPersistedSongs(tasks: SongTaskCheckpoint[]): number {
+    const trackIds = tasks.flatMap((t) => t.trackIds);
+    if (trackIds.length === 0) return 0;
+
+    const persisted = new Set(
+      getDb().select({ id: audioTracks.id })
+        .from(audioTracks)
+        .where(inArray(audioTracks.id, trackIds))
+        .all()
+        .map((row) => row.id),
+    );
+    return tasks.filter((t) => t.trackIds.some((id) => persisted.has(id))).length;
+  }
 
+  /**
+   * Generate a song via Suno API. Each call returns 2 takes; both are
+   * downloaded and linked as variants A/B of one song (see song-variants.ts).
+   * The task ID is checkpointed before polling, so a restart resumes the
+   * same Suno task instead of paying for a new one.
+   */
+  private async generateSongViaApi(
+    generator: SunoApiGenerator,
+    lyrics: GeneratedLyrics,
+    task: SongTaskCheckpoint,
+    saveProgress: () => void,
+  ): Promise<GeneratedTrack[]> {
     this.pendingGeneration++;
     const config = getConfig();
     const outputDir = getDateDir(path.join(config.MEDIA_DIR, 'songs'));
 
     try {
-      const results = await this.sunoGenerator.generate({
-        style: lyrics.genre.sunoStyle,
-        lyrics: lyrics.lyrics,
-        title: lyrics.title,
-      });
+      if (!task.taskId) {
+        getCostLedger().assertWithinBudget('song');
+        task.taskId = await generator.submit({
+          style: lyrics.genre.sunoStyle,
+          lyrics: lyrics.lyrics,
+          title: lyrics.title,
+        });
+        task.status = 'submitted';
+        saveProgress();
+      }
+
+      const results = await generator.waitForResults(task.taskId);
+
+      const saved: GeneratedTrack[] = [];
+      for (const [index, result] of results.entries()) {
+        // Takes already downloaded before a restart
+        if (index < task.trackIds.length) continue;
 
-      // Use the first result (best variant)
-      let saved = 0;
-      for (const result of results.slice(0, 1)) {
         const id = nanoid();
+        const variant = String.fromCharCode(65 + index); // A, B, ...
         const outputPath = path.join(outputDir, `${id}.mp3`);
 
         await downloadAudio(result.audioUrl, outputPath);
 
-        const entry: AudioBufferEntry = {
+        const entry: GeneratedTrack = {
           id,
           type: 'song',
           title: lyrics.title,
@@ -714,6 +1116,9 @@ export class Pipeline {
           metadata: {
             genre: lyrics.genre.name,
             clipId: result.clipId,
+            taskId: task.taskId,
+            variantGroupId: task.taskId,
+            variant,
             storyHeadline: lyrics.storyHeadline,
             storyAngle: lyrics.storyAngle,
             sunoStyle: lyrics.genre.sunoStyle,
@@ -723,74 +1128,389 @@ export class Pipeline {
           createdAt: new Date(),
         };
 
-        this.audioBuffer.push(entry);
-        this.persistTrack(entry);
-        this.totalSongsGenerated++;
-        saved++;
+        const airable = await this.ingestTrack(entry);
+        task.trackIds.push(id);
+        saveProgress();
+        if (!airable) continue;
+        await this.storeLyrics(generator, entry, lyrics.lyrics, task.taskId, result.clipId);
+        saved.push(entry);
 
         logger.info(
-          { title: lyrics.title, genre: lyrics.genre.name, clipId: result.clipId, bufferSize: this.audioBuffer.length },
-          'Song added to buffer (via API)',
+          { title: lyrics.title, genre: lyrics.genre.name, clipId: result.clipId, variant },
+          'Song take added to library (via API)',
         );
       }
 
+      if (saved.length > 0) this.totalSongsGenerated++;
+
+      task.status = 'done';
+      saveProgress();
       return saved;
     } finally {
       this.pendingGeneration--;
     }
   }
 
+  /**
+   * Keep a take's lyrics for on-stream captions, timed from Suno's word
+   * alignment of that take when available. Failures only cost the captions.
+   */
+  private async storeLyrics(
+    generator: SunoApiGenerator,
+    entry: GeneratedTrack,
+    text: string,
+    taskId: string,
+    clipId: string,
+  ): Promise<void> {
+    try {
+      const aligned = await generator.getTimestampedLyrics(taskId, clipId);
+      const stored = saveTrackLyrics(entry.id, text, { durationSeconds: entry.durationSeconds ?? 0, aligned });
+      logger.debug({ id: entry.id, timing: stored.timing, lines: stored.lines.length }, 'Lyrics stored');
+    } catch (err) {
+      logger.warn({ err, id: entry.id }, 'Failed to store lyrics');
+    }
+  }
+
   // ---------------------------------------------------------------------------
   // News block (TTS)
   // ---------------------------------------------------------------------------
 
-  private async generateNewsBlock(): Promise<void> {
+  /**
+   * Generate a TTS news block from freshly fetched headlines.
+   * With `force`, falls back to the latest stored articles when nothing new
+   * came in (manual triggers should always produce a block).
+   * Returns null when there is nothing to read.
+   */
+  async generateNewsBlock(
+    options: { force?: boolean; onProgress?: ProgressCallback } = {},
+  ): Promise<GeneratedTrack | null> {
+    const { force = false, onProgress } = options;
     const id = nanoid();
     const config = getConfig();
     const outputDir = getDateDir(path.join(config.MEDIA_DIR, 'news'));
     const outputPath = path.join(outputDir, `${id}.mp3`);
 
+    onProgress?.('news-fetch', 10);
+    await this.rssService.fetchOnce();
+
+    // Everything that came in since the last block — the feed poller may have fetched it
+    const since = this.lastNewsBlockAt ?? new Date(Date.now() - NEWS_BLOCK_INTERVAL_MS);
+    let articles = this.rssService.getRecentArticles(50, since);
+    if (articles.length === 0 && force) {
+      articles = this.rssService.getRecentArticles(5);
+    }
+    if (articles.length === 0) {
+      logger.debug('No new articles for news block — skipping');
+      return null;
+    }
+
+    const headlines = articles
+      .slice(0, 5)
+      .map((a, i) => `${i + 1}. ${a.title}. From ${a.source}.`)
+      .join(' ');
+
+    const newsText =
+      `RadioWar News Update. ${new Date().toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}. ` +
+      `Here are today's headlines. ${headlines} That's the latest from RadioWar.`;
+
+    onProgress?.('tts', 40);
+    await this.ttsService.generateSpeech(newsText, outputPath);
+
+    const entry: GeneratedTrack = {
+      id,
+      type: 'news_block',
+      title: `News Block ${new Date().toISOString()}`,
+      filePath: outputPath,
+      metadata: {
+        articleCount: articles.length,
+        headlines: articles.slice(0, 5).map((a) => a.title),
+      },
+      createdAt: new Date(),
+    };
+
+    if (!(await this.ingestTrack(entry))) {
+      throw new Error('News block failed audio QC');
+    }
+    this.totalNewsBlocksGenerated++;
+    this.lastNewsBlockAt = entry.createdAt;
+
+    logger.info({ articleCount: articles.length }, 'News block added to library');
+
+    return entry;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Breaking news
+  // ---------------------------------------------------------------------------
+
+  /** Recent breaking-news alerts, newest first. */
+  getBreakingAlerts(): BreakingAlert[] {
+    return this.breakingAlerts;
+  }
+
+  /** Air a bulletin that was held for operator confirmation. */
+  confirmBreakingAlert(id: string): BreakingAlert | null {
+    const alert = this.breakingAlerts.find((a) => a.id === id && a.status === 'pending');
+    if (!alert) return null;
+
+    getDb().update(content)
+      .set({ status: 'ready', updatedAt: new Date() })
+      .where(eq(content.id, alert.trackId))
+      .run();
+    this.airBreakingAlert(alert);
+    return alert;
+  }
+
+  /** Discard a held bulletin; its audio is removed so it never airs. */
+  rejectBreakingAlert(id: string): BreakingAlert | null {
+    const alert = this.breakingAlerts.find((a) => a.id === id && a.status === 'pending');
+    if (!alert) return null;
+
+    const db = getDb();
+    const track = db.select({ filePath: audioTracks.filePath }).from(audioTracks)
+      .where(eq(audioTracks.id, alert.trackId))
+      .get();
+    db.delete(audioTracks).where(eq(audioTracks.id, alert.trackId)).run();
+    db.delete(content).where(eq(content.id, alert.trackId)).run();
+    if (track && existsSync(track.filePath)) unlinkSync(track.filePath);
+
+    alert.status = 'rejected';
+    alert.decidedAt = new Date();
+    logger.info({ alertId: alert.id, headline: alert.headline }, 'Breaking news bulletin rejected');
+    this.emit('breaking-news', alert);
+    return alert;
+  }
+
+  /**
+   * Screen freshly fetched articles. A qualifying story becomes a TTS bulletin
+   * that either airs at once or waits for the operator (breakingNewsRequireConfirm).
+   * At most one bulletin per breakingNewsMinIntervalMinutes.
+   */
+  private async handleNewArticles(articles: NewsArticle[]): Promise<void> {
+    if (!this.running || this.checkingBreakingNews || !getSetting<boolean>('breakingNewsEnabled')) return;
+
+    const minIntervalMs = getSetting<number>('breakingNewsMinIntervalMinutes') * 60_000;
+    if (this.lastBreakingAt && Date.now() - this.lastBreakingAt.getTime() < minIntervalMs) {
+      logger.debug({ lastBreakingAt: this.lastBreakingAt }, 'Breaking news check rate-limited');
+      return;
+    }
+
+    this.checkingBreakingNews = true;
     try {
-      const articles = await this.rssService.fetchOnce();
+      const story = await this.breakingNews.evaluate(
+        articles,
+        this.rssService.getRecentArticles(BREAKING_CORROBORATION_ARTICLES),
+      );
+      if (!story) return;
+
+      this.lastBreakingAt = new Date();
+      const alert = await this.produceBreakingBulletin(story);
+
+      if (getSetting<boolean>('breakingNewsRequireConfirm')) {
+        logger.info({ alertId: alert.id, headline: alert.headline }, 'Breaking news bulletin awaiting operator confirmation');
+        this.emit('breaking-news', alert);
+      } else {
+        this.airBreakingAlert(alert);
+      }
+    } catch (err) {
+      logger.error({ err }, 'Breaking news handling failed');
+    } finally {
+      this.checkingBreakingNews = false;
+    }
+  }
+
+  private async produceBreakingBulletin(story: BreakingStory): Promise<BreakingAlert> {
+    const id = nanoid();
+    const alertId = nanoid();
+    const config = getConfig();
+    const outputPath = path.join(getDateDir(path.join(config.MEDIA_DIR, 'news')), `${id}.mp3`);
+    const held = getSetting<boolean>('breakingNewsRequireConfirm');
+
+    await this.ttsService.generateSpeech(story.bulletin, outputPath);
+
+    const entry: GeneratedTrack = {
+      id,
+      type: 'news_block',
+      title: `BREAKING: ${story.headline}`,
+      filePath: outputPath,
+      metadata: {
+        breaking: true,
+        alertId,
+        storyHeadline: story.headline,
+        bulletin: story.bulletin,
+        score: story.score,
+        importance: story.importance,
+        sources: story.sources,
+        sourceArticleIds: story.articleIds,
+      },
+      createdAt: new Date(),
+    };
+
+    if (!(await this.ingestTrack(entry))) {
+      throw new Error('Breaking news bulletin failed audio QC');
+    }
+    this.totalNewsBlocksGenerated++;
+    this.rssService.markArticlesUsed(story.articleIds, 'breaking-news', this.cycleNumber, story.headline);
+
+    // Held bulletins stay out of rotation until confirmed
+    if (held) {
+      getDb().update(content).set({ status: 'pending' }).where(eq(content.id, id)).run();
+    }
+
+    const alert: BreakingAlert = {
+      ...story,
+      id: alertId,
+      trackId: id,
+      status: 'pending',
+      createdAt: entry.createdAt,
+      decidedAt: null,
+    };
+    this.breakingAlerts = [alert, ...this.breakingAlerts].slice(0, MAX_BREAKING_ALERTS);
+
+    logger.info(
+      { alertId: alert.id, headline: story.headline, importance: story.importance, sources: story.sources },
+      'Breaking news bulletin produced',
+    );
+    return alert;
+  }
+
+  /**
+   * Held bulletins are only 'pending' content rows once the process restarts;
+   * rebuild their alerts from the bulletin metadata so they can still be
+   * confirmed or rejected.
+   */
+  private restoreHeldBulletins(): void {
+    const held = getDb().select().from(content)
+      .where(and(eq(content.type, 'news_block'), eq(content.status, 'pending')))
+      .all()
+      .filter((row) => row.metadata?.breaking === true);
+
+    const known = new Set(this.breakingAlerts.map((a) => a.trackId));
+    const restored = held
+      .filter((row) => !known.has(row.id))
+      .map((row): BreakingAlert => {
+        const meta = row.metadata ?? {};
+        const headline = typeof meta.storyHeadline === 'string' ? meta.storyHeadline : row.title;
+        return {
+          id: typeof meta.alertId === 'string' ? meta.alertId : row.id,
+          trackId: row.id,
+          headline,
+          bulletin: typeof meta.bulletin === 'string' ? meta.bulletin : headline,
+          importance: typeof meta.importance === 'number' ? meta.importance : 0,
+          score: typeof meta.score === 'number' ? meta.score : 0,
+          sources: Array.isArray(meta.sources) ? meta.sources as string[] : [],
+          articleIds: Array.isArray(meta.sourceArticleIds) ? meta.sourceArticleIds as string[] : [],
+          status: 'pending',
+          createdAt: row.createdAt,
+          decidedAt: null,
+        };
+      });
+    if (restored.length === 0) return;
+
+    this.breakingAlerts = [...restored, ...this.breakingAlerts]
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, MAX_BREAKING_ALERTS);
+    logger.info({ count: restored.length }, 'Held breaking news bulletins restored');
+  }
+
+  /** Put the bulletin (behind the stinger, if one is set) at the head of the queue. */
+  private airBreakingAlert(alert: BreakingAlert): void {
+    const scheduler = getScheduler();
+    const addedAt = new Date().toISOString();
+
+    // Urgent overrides are unshifted: queue the bulletin first so the stinger lands ahead of it
+    scheduler.addOverride({
+      id: nanoid(),
+      contentId: alert.trackId,
+      title: `BREAKING: ${alert.headline}`,
+      contentType: 'news_block',
+      urgent: true,
+      addedAt,
+    });
+
+    const stingerId = getSetting<string | null>('breakingNewsStingerId');
+    const stinger = stingerId
+      ? getDb().select().from(content).where(and(eq(content.id, stingerId), eq(content.status, 'ready'))).get()
+      : undefined;
+    if (stinger) {
+      scheduler.addOverride({
+        id: nanoid(),
+        contentId: stinger.id,
+        title: stinger.title,
+        contentType: stinger.type,
+        urgent: true,
+        addedAt,
+      });
+    } else if (stingerId) {
+      logger.warn({ stingerId }, 'Breaking news stinger not found or not ready — airing without it');
+    }
+
+    if (getSetting<boolean>('breakingNewsInterrupt')) {
+      this.streamManager?.skip();
+    }
+
+    alert.status = 'queued';
+    alert.decidedAt = new Date();
+    logger.info({ alertId: alert.id, headline: alert.headline, stinger: !!stinger }, 'Breaking news queued for air');
+    this.emit('breaking-news', alert);
+  }
+
+  // ---------------------------------------------------------------------------
+  // One-off song (manual trigger)
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Produce a single song outside the production cycle.
+   * Uses the given story, or synthesizes one from unused articles
+   * (optionally restricted to `articleIds`).
+   */
+  async generateSongFromStory(
+    options: {
+      story?: SynthesizedStory;
+      articleIds?: string[];
+      onProgress?: ProgressCallback;
+    } = {},
+  ): Promise<GeneratedTrack> {
+    const { onProgress } = options;
+
+    getCostLedger().assertWithinBudget('song');
+    if (!this.sunoGenerator) this.initSunoApi();
+    const generator = this.sunoGenerator;
+    if (!generator) {
+      throw new Error('Suno API not initialized. Set SUNO_API_KEY in .env');
+    }
+
+    let story = options.story;
+    if (!story) {
+      onProgress?.('synthesizing', 10);
+      const articles = options.articleIds?.length
+        ? this.rssService.getArticlesByIds(options.articleIds)
+        : this.rssService.getUnusedArticles();
       if (articles.length === 0) {
-        logger.debug('No new articles for news block — skipping');
-        return;
+        throw new Error('No articles available to build a story from');
       }
 
-      const headlines = articles
-        .slice(0, 5)
-        .map((a, i) => `${i + 1}. ${a.title}. From ${a.source}.`)
-        .join(' ');
-
-      const newsText =
-        `RadioWar News Update. ${new Date().toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}. ` +
-        `Here are today's headlines. ${headlines} That's the latest from RadioWar.`;
-
-      await this.ttsService.generateSpeech(newsText, outputPath);
-
-      const entry: AudioBufferEntry = {
-        id,
-        type: 'news_block',
-        title: `News Block ${new Date().toISOString()}`,
-        filePath: outputPath,
-        metadata: {
-          articleCount: articles.length,
-          headlines: articles.slice(0, 5).map((a) => a.title),
-        },
-        createdAt: new Date(),
-      };
+      const [synthesized] = await this.lyricsService.synthesizeNews(articles, 1);
+      if (!synthesized) {
+        throw new Error('News synthesis produced no story');
+      }
+      story = synthesized;
 
-      this.audioBuffer.push(entry);
-      this.persistTrack(entry);
-      this.totalNewsBlocksGenerated++;
+      if (story.sourceArticleIds.length > 0) {
+        this.rssService.markArticlesUsed(story.sourceArticleIds, 'manual-song', this.cycleNumber, story.headline);
+      }
+    }
 
-      logger.info(
-        { articleCount: articles.length, bufferSize: this.audioBuffer.length },
-        'News block added to buffer',
-      );
-    } catch (err) {
-      logger.error({ err }, 'News block generation failed');
+    onProgress?.('lyrics', 30);
+    const lyrics = await this.lyricsService.generateLyricsFromStory(story);
+
+    onProgress?.('generating_songs', 50);
+    const task: SongTaskCheckpoint = { title: lyrics.title, taskId: null, status: 'pending', trackIds: [] };
+    const [entry] = await this.generateSongViaApi(generator, lyrics, task, () => undefined);
+    if (!entry) {
+      throw new Error('Suno returned no downloadable song');
     }
+    return entry;
   }
 
   // ---------------------------------------------------------------------------
@@ -803,20 +1523,15 @@ export class Pipeline {
       return;
     }
 
-    const config = getConfig();
-    if (!config.YOUTUBE_STREAM_KEY) {
-      throw new Error('YOUTUBE_STREAM_KEY not configured. Set it in .env file.');
-    }
-
     this.streamManager = new StreamManager({
-      rtmpUrl: config.YOUTUBE_RTMP_URL,
-      streamKey: config.YOUTUBE_STREAM_KEY,
-      backgroundImage: existsSync(path.join(config.MEDIA_DIR, 'background.png'))
-        ? path.join(config.MEDIA_DIR, 'background.png')
-        : path.resolve('assets/background.png'),
+      outputs: this.enabledStreamOutputs(),
+      backgroundImage: streamBackgroundImage(),
     });
 
-    void this.streamManager.startStreaming(() => this.dequeueAudio());
+    this.streamManager.on('track-started', (item: ScheduledItem) => this.emit('now-playing', item));
+    this.streamManager.on('metrics', (status: StreamStatus) => this.emit('stream-metrics', status));
+    this.streamManager.on('stream-event', (event: StreamEvent) => this.emit('stream-event', event));
+    void this.streamManager.startStreaming(getScheduler());
     logger.info('Stream started via API');
   }
 
@@ -832,6 +1547,19 @@ export class Pipeline {
     return this.streamManager?.getStatus() ?? null;
   }
 
+  /** Push output changes made through the API to a running stream */
+  syncStreamOutputs(): void {
+    this.streamManager?.setOutputs(this.enabledStreamOutputs());
+  }
+
+  /** Configured outputs plus the built-in HLS stream behind /live */
+  private enabledStreamOutputs(): StreamOutput[] {
+    return [
+      liveHlsOutput(),
+      ...getDb().select().from(streamOutputs).where(eq(streamOutputs.enabled, true)).all(),
+    ];
+  }
+
   // ---------------------------------------------------------------------------
   // Stream initialization (auto-start if configured)
   // ---------------------------------------------------------------------------
@@ -854,10 +1582,20 @@ export class Pipeline {
   // Suno API initialization
   // ---------------------------------------------------------------------------
 
+  /** Fetch the Suno credit balance for the cost summary (fire-and-forget). */
+  private refreshSunoCredits(): void {
+    this.sunoGenerator?.getCredits().then((credits) => {
+      getCostLedger().setSunoCredits(credits);
+      logger.info({ credits }, 'Suno API remaining credits');
+    }).catch((err) => {
+      logger.warn({ err: String(err) }, 'Could not check Suno API credits');
+    });
+  }
+
   private initSunoApi(): void {
     const config = getConfig();
 
-    if (!config.SUNO_API_KEY) {
+    if (!config.SUNO_API_KEY && !isFakeMode()) {
       logger.warn('SUNO_API_KEY not set — song generation disabled. Get a key at https://sunoapi.org/api-key');
       return;
     }
@@ -866,11 +1604,7 @@ export class Pipeline {
       this.sunoGenerator = new SunoApiGenerator();
 
       // Check credits asynchronously
-      this.sunoGenerator.getCredits().then((credits) => {
-        logger.info({ credits }, 'Suno API initialized — remaining credits');
-      }).catch((err) => {
-        logger.warn({ err: String(err) }, 'Could not check Suno API credits');
-      });
+      this.refreshSunoCredits();
 
       logger.info({ model: config.SUNO_API_MODEL }, 'Suno API generator initialized');
     } catch (err) {
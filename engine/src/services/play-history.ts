@@ -0,0 +1,140 @@
+import { and, asc, desc, eq, gte, inArray, lte, sql } from 'drizzle-orm';
+import type { BetterSQLite3Database } from 'drizzle-orm/better-sqlite3';
+import { content, playbackLog, type Content } from '../db/schema.js';
+import { getVariants, variantGroupOf } from './song-variants.js';
+
+/**
+ * What the scheduler asks about past airings when it picks. Live playout
+ * reads playback_log on every question; a dry run loads the log once and
+ * keeps its own airings in memory, so projecting days of playout neither
+ * writes to the log nor queries it per pick.
+ */
+export interface PlayHistory {
+  /** Epoch ms of the item's last airing, or 0 if never played */
+  lastPlayedAt(contentId: string): number;
+  /** How many times the item has aired */
+  playCount(contentId: string): number;
+  /** Most recent airing of any take of the item's song, epoch ms (0 if never) */
+  groupLastPlayedAt(item: Content): number;
+  /** Airings that started within [since, until] */
+  airedBetween(since: Date, until: Date): Airing[];
+}
+
+export interface Airing {
+  startedAt: Date;
+  item: Content;
+}
+
+/** playback_log as it stands, queried on every call */
+export class PlaybackLogHistory implements PlayHistory {
+  constructor(private db: BetterSQLite3Database<any>) {}
+
+  lastPlayedAt(contentId: string): number {
+    const lastPlay = this.db.select().from(playbackLog)
+      .where(eq(playbackLog.contentId, contentId))
+      .orderBy(desc(playbackLog.startedAt))
+      .get();
+
+    return lastPlay?.startedAt ? new Date(lastPlay.startedAt).getTime() : 0;
+  }
+
+  playCount(contentId: string): number {
+    return this.db.select({ count: sql<number>`count(*)` }).from(playbackLog)
+      .where(eq(playbackLog.contentId, contentId))
+      .get()?.count ?? 0;
+  }
+
+  groupLastPlayedAt(item: Content): number {
+    const ids = getVariants(this.db, item).map((v) => v.id);
+    const last = this.db.select({ startedAt: playbackLog.startedAt }).from(playbackLog)
+      .where(inArray(playbackLog.contentId, ids))
+      .orderBy(desc(playbackLog.startedAt))
+      .get();
+    return last?.startedAt ? last.startedAt.getTime() : 0;
+  }
+
+  airedBetween(since: Date, until: Date): Airing[] {
+    return this.db.select({ startedAt: playbackLog.startedAt, item: content })
+      .from(playbackLog)
+      .innerJoin(content, eq(playbackLog.contentId, content.id))
+      .where(and(gte(playbackLog.startedAt, since), lte(playbackLog.startedAt, until)))
+      .all();
+  }
+}
+
+/**
+ * playback_log up to `now`, loaded once, plus the airings recorded since.
+ * airedBetween only reaches `windowMs` back from the latest airing, which is
+ * as far as separation looks.
+ */
+export class SimulatedHistory implements PlayHistory {
+  private readonly items = new Map<string, Content>();
+  private readonly last = new Map<string, number>();
+  private readonly counts = new Map<string, number>();
+  /** Variant group → most recent airing of any of its takes */
+  private readonly groupLast = new Map<string, number>();
+  /** Airings within the window, oldest first */
+  private recent: Airing[];
+
+  constructor(db: BetterSQLite3Database<any>, now: Date, private readonly windowMs: number) {
+    for (const item of db.select().from(content).all()) this.items.set(item.id, item);
+
+    const plays = db.select({
+      contentId: playbackLog.contentId,
+      count: sql<number>`count(*)`,
+      last: sql<number | null>`max(${playbackLog.startedAt})`,
+    })
+      .from(playbackLog)
+      .where(lte(playbackLog.startedAt, now))
+      .groupBy(playbackLog.contentId)
+      .all();
+    for (const play of plays) {
+      if (!play.contentId) continue;
+      this.counts.set(play.contentId, play.count);
+      // playback_log timestamps are stored as epoch seconds
+      if (play.last) this.setLast(play.contentId, play.last * 1000);
+    }
+
+    this.recent = db.select({ startedAt: playbackLog.startedAt, item: content })
+      .from(playbackLog)
+      .innerJoin(content, eq(playbackLog.contentId, content.id))
+      .where(and(gte(playbackLog.startedAt, new Date(now.getTime() - windowMs)), lte(playbackLog.startedAt, now)))
+      .orderBy(asc(playbackLog.startedAt))
+      .all();
+  }
+
+  lastPlayedAt(contentId: string): number {
+    return this.last.get(contentId) ?? 0;
+  }
+
+  playCount(contentId: string): number {
+    return this.counts.get(contentId) ?? 0;
+  }
+
+  groupLastPlayedAt(item: Content): number {
+    return this.groupLast.get(variantGroupOf(item)) ?? 0;
+  }
+
+  airedBetween(since: Date, until: Date): Airing[] {
+    return this.recent.filter((a) => a.startedAt >= since && a.startedAt <= until);
+  }
+
+  /** An airing of `contentId` starting at `at`, no earlier than the last one recorded */
+  record(contentId: string, at: Date): void {
+    this.counts.set(contentId, this.playCount(contentId) + 1);
+    this.setLast(contentId, at.getTime());
+
+    const item = this.items.get(contentId);
+    if (item) this.recent.push({ startedAt: at, item });
+    const cutoff = at.getTime() - this.windowMs;
+    const kept = this.recent.findIndex((a) => a.startedAt.getTime() >= cutoff);
+    if (kept !== 0) this.recent = kept === -1 ? [] : this.recent.slice(kept);
+  }
+
+  private setLast(contentId: string, ms: number): void {
+    this.last.set(contentId, Math.max(this.lastPlayedAt(contentId), ms));
+    const item = this.items.get(contentId);
+    const group = item ? variantGroupOf(item) : contentId;
+    this.groupLast.set(group, Math.max(this.groupLast.get(group) ?? 0, ms));
+  }
+}
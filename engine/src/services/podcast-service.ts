@@ -75,6 +75,7 @@ export class PodcastService {
         const response = await callClaudeCli(userPrompt, {
           systemPrompt,
           timeout: 240_000, // 4 minutes — longer scripts need more time
+          purpose: 'podcast-script',
         });
         return parsePodcastScriptResponse(response);
       },
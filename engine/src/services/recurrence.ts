@@ -0,0 +1,248 @@
+import type { ScheduleSlot } from '../db/schema.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * RFC 5545 recurrence for schedule slots: the slot's startTime is DTSTART,
+ * its recurrenceRule holds an RRULE plus optional EXDATE lines, e.g.
+ *
+ *   RRULE:FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR
+ *   EXDATE:20261225T080000
+ *
+ * Supported: FREQ=DAILY|WEEKLY with INTERVAL, BYDAY (plain weekdays), COUNT,
+ * UNTIL and WKST. Occurrences keep DTSTART's local wall-clock time across
+ * DST changes. Date-times without a trailing Z are local time; an EXDATE
+ * with only a date skips every occurrence that day.
+ */
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const ICAL_DATE = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** A slot without an end time counts as this long, for overlaps and firing */
+export const DEFAULT_SLOT_LENGTH_MS = 5 * 60_000;
+
+export interface Recurrence {
+  freq: 'DAILY' | 'WEEKLY';
+  interval: number;
+  /** Weekdays as Date.getDay() numbers; null: DAILY every day, WEEKLY DTSTART's weekday */
+  byDay: number[] | null;
+  count: number | null;
+  until: Date | null;
+  weekStart: number;
+  exdates: { at: Date; allDay: boolean }[];
+}
+
+export interface SlotOccurrence {
+  start: Date;
+  /** null when the slot has no end time */
+  end: Date | null;
+}
+
+export class RecurrenceRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecurrenceRuleError';
+  }
+}
+
+/** Parse RRULE and EXDATE lines; throws RecurrenceRuleError on anything unsupported */
+export function parseRecurrence(text: string): Recurrence {
+  let rrule: string | null = null;
+  const exdates: Recurrence['exdates'] = [];
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    const colon = line.indexOf(':');
+    const name = colon === -1 ? 'RRULE' : line.slice(0, colon).toUpperCase();
+    const value = colon === -1 ? line : line.slice(colon + 1);
+
+    if (name === 'RRULE') {
+      if (rrule !== null) throw new RecurrenceRuleError('only one RRULE is supported');
+      rrule = value;
+    } else if (name.startsWith('EXDATE')) {
+      if (/;TZID=/i.test(name)) throw new RecurrenceRuleError('EXDATE with TZID is not supported; use local or UTC (Z) times');
+      for (const part of value.split(',')) {
+        const at = parseIcalDate(part.trim());
+        if (!at) throw new RecurrenceRuleError(`invalid EXDATE '${part.trim()}'`);
+        exdates.push({ at, allDay: part.trim().length === 8 });
+      }
+    } else if (name === 'DTSTART') {
+      throw new RecurrenceRuleError("DTSTART comes from the slot's startTime");
+    } else {
+      throw new RecurrenceRuleError(`unsupported line '${name}'`);
+    }
+  }
+
+  if (rrule === null) throw new RecurrenceRuleError('an RRULE is required');
+
+  const parts = new Map<string, string>();
+  for (const part of rrule.split(';')) {
+    if (!part.trim()) continue;
+    const [key, value] = part.split('=');
+    if (!key || value === undefined) throw new RecurrenceRuleError(`invalid RRULE part '${part}'`);
+    parts.set(key.trim().toUpperCase(), value.trim().toUpperCase());
+  }
+
+  const freq = parts.get('FREQ');
+  if (freq !== 'DAILY' && freq !== 'WEEKLY') {
+    throw new RecurrenceRuleError(freq ? `FREQ=${freq} is not supported; use DAILY or WEEKLY` : 'FREQ is required');
+  }
+
+  const recurrence: Recurrence = { freq, interval: 1, byDay: null, count: null, until: null, weekStart: 1, exdates };
+  for (const [key, value] of parts) {
+    switch (key) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL':
+      case 'COUNT': {
+        const n = Number(value);
+        if (!Number.isInteger(n) || n < 1) throw new RecurrenceRuleError(`${key} must be a positive integer`);
+        if (key === 'INTERVAL') recurrence.interval = n;
+        else recurrence.count = n;
+        break;
+      }
+      case 'UNTIL': {
+        const until = parseIcalDate(value);
+        if (!until) throw new RecurrenceRuleError(`invalid UNTIL '${value}'`);
+        // A date-only UNTIL includes that whole day
+        recurrence.until = value.length === 8 ? new Date(until.getTime() + DAY_MS - 1) : until;
+        break;
+      }
+      case 'BYDAY': {
+        const days = value.split(',').map((d) => WEEKDAYS.indexOf(d.trim()));
+        if (days.some((d) => d === -1)) {
+          throw new RecurrenceRuleError(`BYDAY must list weekdays (${WEEKDAYS.join(',')}) without ordinals`);
+        }
+        recurrence.byDay = [...new Set(days)];
+        break;
+      }
+      case 'WKST': {
+        const day = WEEKDAYS.indexOf(value);
+        if (day === -1) throw new RecurrenceRuleError(`invalid WKST '${value}'`);
+        recurrence.weekStart = day;
+        break;
+      }
+      default:
+        throw new RecurrenceRuleError(`RRULE part ${key} is not supported`);
+    }
+  }
+  if (recurrence.count !== null && recurrence.until !== null) {
+    throw new RecurrenceRuleError('COUNT and UNTIL cannot both be set');
+  }
+
+  return recurrence;
+}
+
+/** Returns an error message, or null if the rule is valid */
+export function validateRecurrenceRule(text: unknown): string | null {
+  if (typeof text !== 'string') return 'recurrenceRule must be a string';
+  try {
+    parseRecurrence(text);
+    return null;
+  } catch (err) {
+    if (err instanceof RecurrenceRuleError) return `recurrenceRule: ${err.message}`;
+    throw err;
+  }
+}
+
+/** Starts of the occurrences of `recurrence` from `dtstart`, within [from, to) */
+export function occurrencesBetween(recurrence: Recurrence, dtstart: Date, from: Date, to: Date): Date[] {
+  const result: Date[] = [];
+  const startDay = calendarDay(dtstart);
+  const dtstartWeekday = dtstart.getDay();
+  const weekOffset = (dtstartWeekday - recurrence.weekStart + 7) % 7;
+  const days = recurrence.byDay ?? (recurrence.freq === 'WEEKLY' ? [dtstartWeekday] : null);
+
+  // COUNT numbers occurrences from DTSTART, so only then walk from the start
+  let dayIndex = recurrence.count === null
+    ? Math.max(0, calendarDay(from) - startDay - 1)
+    : 0;
+  let seen = 0;
+
+  for (;; dayIndex++) {
+    const at = new Date(
+      dtstart.getFullYear(), dtstart.getMonth(), dtstart.getDate() + dayIndex,
+      dtstart.getHours(), dtstart.getMinutes(), dtstart.getSeconds(), dtstart.getMilliseconds(),
+    );
+    if (at >= to) break;
+    if (recurrence.until && at > recurrence.until) break;
+
+    const inPeriod = recurrence.freq === 'DAILY'
+      ? dayIndex % recurrence.interval === 0
+      : Math.floor((dayIndex + weekOffset) / 7) % recurrence.interval === 0;
+    if (!inPeriod || (days && !days.includes(at.getDay()))) continue;
+
+    // COUNT includes excluded dates (RFC 5545 §3.8.5.1)
+    seen++;
+    if (recurrence.count !== null && seen > recurrence.count) break;
+    if (at < from || isExcluded(recurrence, at)) continue;
+    result.push(at);
+  }
+  return result;
+}
+
+export function isRecurringSlot(slot: Pick<ScheduleSlot, 'isRecurring' | 'recurrenceRule'>): boolean {
+  return Boolean(slot.isRecurring && slot.recurrenceRule);
+}
+
+/**
+ * Occurrences of a slot starting within [from, to); a one-off slot is its
+ * own single occurrence. A stored rule that no longer parses is treated as
+ * one-off rather than dropping the slot.
+ */
+export function slotOccurrences(
+  slot: Pick<ScheduleSlot, 'startTime' | 'endTime' | 'isRecurring' | 'recurrenceRule'> & { id?: string },
+  from: Date,
+  to: Date,
+): SlotOccurrence[] {
+  const length = slot.endTime ? slot.endTime.getTime() - slot.startTime.getTime() : null;
+  const withEnd = (start: Date): SlotOccurrence => ({
+    start,
+    end: length !== null ? new Date(start.getTime() + length) : null,
+  });
+
+  if (isRecurringSlot(slot)) {
+    try {
+      return occurrencesBetween(parseRecurrence(slot.recurrenceRule!), slot.startTime, from, to).map(withEnd);
+    } catch (err) {
+      if (!(err instanceof RecurrenceRuleError)) throw err;
+      logger.warn({ slotId: slot.id, err: err.message }, 'Invalid recurrence rule, treating slot as one-off');
+    }
+  }
+  return slot.startTime >= from && slot.startTime < to ? [withEnd(slot.startTime)] : [];
+}
+
+/** `text` with `at` added to its EXDATE list, as a UTC date-time */
+export function addException(text: string, at: Date): string {
+  return `${text.trimEnd()}\nEXDATE:${formatIcalDate(at)}`;
+}
+
+function isExcluded(recurrence: Recurrence, at: Date): boolean {
+  return recurrence.exdates.some((ex) => ex.allDay
+    ? calendarDay(ex.at) === calendarDay(at)
+    // EXDATEs carry whole seconds
+    : Math.floor(ex.at.getTime() / 1000) === Math.floor(at.getTime() / 1000));
+}
+
+/** Days since the epoch of `date`'s local calendar date */
+function calendarDay(date: Date): number {
+  return Math.round(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / DAY_MS);
+}
+
+function parseIcalDate(value: string): Date | null {
+  const m = ICAL_DATE.exec(value);
+  if (!m) return null;
+  const [, y, mo, d, h = '0', mi = '0', s = '0', z] = m;
+  const date = z
+    ? new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi, +s))
+    : new Date(+y, +mo - 1, +d, +h, +mi, +s);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function formatIcalDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
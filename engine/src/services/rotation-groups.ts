@@ -0,0 +1,205 @@
+import { asc, eq } from 'drizzle-orm';
+import type { BetterSQLite3Database } from 'drizzle-orm/better-sqlite3';
+import { rotationGroupAssignments, rotationGroups, rotationPattern } from '../db/schema.js';
+import type { RotationGroup, RotationGroupAssignment, RotationStep } from '../db/schema.js';
+import { CLOCK_CONTENT_TYPES } from './format-clocks.js';
+
+/** Runs whenever no assignment matches; can't be deleted */
+export const DEFAULT_ROTATION_GROUP = 'default';
+
+export const SELECTION_STRATEGIES: NonNullable<RotationStep['selectionStrategy']>[] = [
+  'random', 'sequential', 'least_recently_played',
+];
+
+export type StepInput = {
+  contentType: RotationStep['contentType'];
+  contentId?: string | null;
+  selectionStrategy?: RotationStep['selectionStrategy'];
+};
+
+export type AssignmentInput = {
+  weekday?: number | null;
+  hourStart?: number | null;
+  hourEnd?: number | null;
+};
+
+/** A group with when it runs and its pattern, as the API returns it */
+export type RotationGroupDetail = RotationGroup & {
+  assignments: RotationGroupAssignment[];
+  pattern: RotationStep[];
+};
+
+/**
+ * Pick the rotation group for a given local time. Assignments match on
+ * weekday and hour range, with NULL meaning "any"; weekday+hours beats
+ * weekday beats hours beats the default group, and among equals the
+ * narrower hour range wins.
+ */
+export function resolveRotationGroup(db: BetterSQLite3Database<any>, at: Date = new Date()): RotationGroup | null {
+  const weekday = at.getDay();
+  const hour = at.getHours();
+
+  let best: { groupId: string; score: number; span: number } | null = null;
+  for (const a of db.select().from(rotationGroupAssignments).all()) {
+    if (a.weekday !== null && a.weekday !== weekday) continue;
+    const hasHours = a.hourStart !== null && a.hourEnd !== null;
+    if (hasHours && !inHourRange(hour, a.hourStart!, a.hourEnd!)) continue;
+
+    const score = (a.weekday !== null ? 2 : 0) + (hasHours ? 1 : 0);
+    const span = hasHours ? (a.hourEnd! - a.hourStart! + 24) % 24 : 24;
+    if (!best || score > best.score || (score === best.score && span < best.span)) {
+      best = { groupId: a.groupId, score, span };
+    }
+  }
+
+  return getRotationGroup(db, best?.groupId ?? DEFAULT_ROTATION_GROUP);
+}
+
+export function getRotationGroup(db: BetterSQLite3Database<any>, id: string): RotationGroup | null {
+  return db.select().from(rotationGroups).where(eq(rotationGroups.id, id)).get() ?? null;
+}
+
+export function getPattern(db: BetterSQLite3Database<any>, groupId: string): RotationStep[] {
+  return db.select().from(rotationPattern)
+    .where(eq(rotationPattern.patternGroupId, groupId))
+    .orderBy(asc(rotationPattern.position))
+    .all();
+}
+
+export function groupDetail(db: BetterSQLite3Database<any>, group: RotationGroup): RotationGroupDetail {
+  return {
+    ...group,
+    assignments: db.select().from(rotationGroupAssignments)
+      .where(eq(rotationGroupAssignments.groupId, group.id))
+      .all(),
+    pattern: getPattern(db, group.id),
+  };
+}
+
+/** Store `steps` as the group's pattern, starting it over from the top */
+export function replacePattern(db: BetterSQLite3Database<any>, groupId: string, steps: StepInput[]): void {
+  db.transaction((tx) => {
+    tx.delete(rotationPattern).where(eq(rotationPattern.patternGroupId, groupId)).run();
+    steps.forEach((step, position) => {
+      tx.insert(rotationPattern).values({
+        position,
+        contentType: step.contentType,
+        contentId: step.contentId ?? null,
+        selectionStrategy: step.selectionStrategy || 'least_recently_played',
+        patternGroupId: groupId,
+      }).run();
+    });
+    tx.update(rotationGroups).set({ cursor: 0 }).where(eq(rotationGroups.id, groupId)).run();
+  });
+}
+
+/** Store `assignments` as all of the group's assignments */
+export function replaceAssignments(db: BetterSQLite3Database<any>, groupId: string, assignments: AssignmentInput[]): void {
+  db.transaction((tx) => {
+    tx.delete(rotationGroupAssignments).where(eq(rotationGroupAssignments.groupId, groupId)).run();
+    for (const a of assignments) {
+      tx.insert(rotationGroupAssignments).values({
+        groupId,
+        weekday: a.weekday ?? null,
+        hourStart: a.hourStart ?? null,
+        hourEnd: a.hourEnd ?? null,
+      }).run();
+    }
+  });
+}
+
+/**
+ * Check pattern steps from an API body. Returns an error message, or null if valid.
+ */
+export function validatePattern(pattern: unknown): string | null {
+  if (!Array.isArray(pattern)) return 'pattern must be an array';
+
+  for (const step of pattern as Partial<StepInput>[]) {
+    if (!CLOCK_CONTENT_TYPES.includes(step?.contentType!)) {
+      return `invalid step contentType: ${String(step?.contentType)}`;
+    }
+    if (step.contentId != null && typeof step.contentId !== 'string') {
+      return 'step contentId must be a string or null';
+    }
+    if (step.selectionStrategy != null && !SELECTION_STRATEGIES.includes(step.selectionStrategy)) {
+      return `step selectionStrategy must be one of: ${SELECTION_STRATEGIES.join(', ')}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check assignments from an API body against each other and against every
+ * other group's. Another group's assignment may be more or less specific
+ * (resolveRotationGroup picks the more specific one), but not equally
+ * specific and overlapping, since nothing would decide between them.
+ * Returns an error message, or null if valid.
+ */
+export function validateAssignments(
+  db: BetterSQLite3Database<any>,
+  groupId: string | null,
+  assignments: unknown,
+): string | null {
+  if (!Array.isArray(assignments)) return 'assignments must be an array';
+
+  const others = db.select().from(rotationGroupAssignments).all()
+    .filter((a) => a.groupId !== groupId);
+
+  const seen = new Set<string>();
+  for (const a of assignments as AssignmentInput[]) {
+    if (typeof a !== 'object' || a === null) return 'each assignment must be an object';
+    if (a.weekday != null && (!Number.isInteger(a.weekday) || a.weekday < 0 || a.weekday > 6)) {
+      return 'weekday must be 0-6 or null';
+    }
+    for (const key of ['hourStart', 'hourEnd'] as const) {
+      const hour = a[key];
+      if (hour != null && (!Number.isInteger(hour) || hour < 0 || hour > 23)) {
+        return `${key} must be 0-23 or null`;
+      }
+    }
+    if ((a.hourStart == null) !== (a.hourEnd == null)) return 'hourStart and hourEnd must be set together';
+    if (a.hourStart != null && a.hourStart === a.hourEnd) return 'hourStart and hourEnd must differ';
+    if (a.weekday == null && a.hourStart == null) {
+      return `an assignment needs a weekday or hours; the ${DEFAULT_ROTATION_GROUP} group covers the rest`;
+    }
+
+    const key = assignmentKey(a);
+    if (seen.has(key)) return `Duplicate assignment ${describeAssignment(a)}`;
+    seen.add(key);
+
+    const clash = others.find((other) => overlaps(a, other));
+    if (clash) {
+      const owner = getRotationGroup(db, clash.groupId);
+      return `${describeAssignment(a)} overlaps ${describeAssignment(clash)} of "${owner?.name ?? clash.groupId}"`;
+    }
+  }
+
+  return null;
+}
+
+/** Equally specific and both in effect at some hour of some weekday */
+function overlaps(a: AssignmentInput, b: AssignmentInput): boolean {
+  if ((a.weekday == null) !== (b.weekday == null) || (a.hourStart == null) !== (b.hourStart == null)) return false;
+  if (a.weekday != null && a.weekday !== b.weekday) return false;
+  if (a.hourStart == null) return true;
+
+  for (let hour = 0; hour < 24; hour++) {
+    if (inHourRange(hour, a.hourStart!, a.hourEnd!) && inHourRange(hour, b.hourStart!, b.hourEnd!)) return true;
+  }
+  return false;
+}
+
+function assignmentKey(a: AssignmentInput): string {
+  return `${a.weekday ?? '*'}:${a.hourStart ?? '*'}-${a.hourEnd ?? '*'}`;
+}
+
+function describeAssignment(a: AssignmentInput): string {
+  const day = a.weekday != null ? `weekday ${a.weekday}` : 'every day';
+  return a.hourStart != null ? `${day}, ${a.hourStart}:00-${a.hourEnd}:00` : day;
+}
+
+/** 22 → 6 covers the night: wraps past midnight */
+function inHourRange(hour: number, start: number, end: number): boolean {
+  return start <= end ? hour >= start && hour < end : hour >= start || hour < end;
+}
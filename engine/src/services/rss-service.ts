@@ -1,11 +1,13 @@
 import Parser from 'rss-parser';
 import { EventEmitter } from 'events';
 import crypto from 'crypto';
-import { eq, isNull, desc, and, gt, sql } from 'drizzle-orm';
+import { eq, isNull, desc, and, gt, inArray, sql } from 'drizzle-orm';
 import { logger } from '../utils/logger.js';
 import { withRetry } from '../utils/retry.js';
 import { getDb } from '../db/client.js';
-import { articles as articlesTable } from '../db/schema.js';
+import { articles as articlesTable, type Article } from '../db/schema.js';
+import { isFakeMode } from '../config.js';
+import { fakeHeadlines } from '../fakes/news.js';
 
 export interface NewsArticle {
   id: string;
@@ -51,6 +53,18 @@ const DEFAULT_FEEDS: FeedConfig[] = [
 /** Max age for articles to be considered fresh (48 hours) */
 const MAX_ARTICLE_AGE_MS = 48 * 60 * 60 * 1000;
 
+function toNewsArticle(row: Article): NewsArticle {
+  return {
+    id: row.id,
+    source: row.source,
+    title: row.title,
+    description: row.description ?? '',
+    link: row.link,
+    publishedAt: row.publishedAt ?? row.fetchedAt,
+    fetchedAt: row.fetchedAt,
+  };
+}
+
 export interface RssServiceEvents {
   articles: (articles: NewsArticle[]) => void;
   error: (err: Error, feedName: string) => void;
@@ -98,11 +112,13 @@ export class RssService extends EventEmitter {
 
   /**
    * Fetch all enabled feeds, persist new articles to DB.
-   * Returns all newly fetched articles.
+   * Returns all newly fetched articles and emits them as 'articles'.
    */
   async fetchOnce(): Promise<NewsArticle[]> {
     const enabledFeeds = this.config.feeds.filter(f => f.enabled);
-    const results = await Promise.allSettled(enabledFeeds.map(feed => this.fetchFeed(feed)));
+    const results = isFakeMode()
+      ? [{ status: 'fulfilled' as const, value: this.fakeFetch() }]
+      : await Promise.allSettled(enabledFeeds.map(feed => this.fetchFeed(feed)));
 
     const allNew: NewsArticle[] = [];
     for (const result of results) {
@@ -114,6 +130,7 @@ export class RssService extends EventEmitter {
     // Persist new articles to DB
     if (allNew.length > 0) {
       this.persistArticles(allNew);
+      this.emit('articles', allNew);
     }
 
     const db = getDb();
@@ -148,15 +165,40 @@ export class RssService extends EventEmitter {
       .orderBy(desc(articlesTable.fetchedAt))
       .all();
 
-    return rows.map(row => ({
-      id: row.id,
-      source: row.source,
-      title: row.title,
-      description: row.description ?? '',
-      link: row.link,
-      publishedAt: row.publishedAt ?? row.fetchedAt,
-      fetchedAt: row.fetchedAt,
-    }));
+    return rows.map(toNewsArticle);
+  }
+
+  /**
+   * Most recently fetched articles, used or not (optionally only those fetched after `since`).
+   */
+  getRecentArticles(limit: number, since?: Date): NewsArticle[] {
+    const db = getDb();
+    const rows = db
+      .select()
+      .from(articlesTable)
+      .where(since ? gt(articlesTable.fetchedAt, since) : undefined)
+      .orderBy(desc(articlesTable.fetchedAt))
+      .limit(limit)
+      .all();
+
+    return rows.map(toNewsArticle);
+  }
+
+  /**
+   * Load stored articles by ID (used when resuming an interrupted cycle).
+   */
+  getArticlesByIds(ids: string[]): NewsArticle[] {
+    if (ids.length === 0) return [];
+
+    const db = getDb();
+    const rows = db
+      .select()
+      .from(articlesTable)
+      .where(inArray(articlesTable.id, ids))
+      .orderBy(desc(articlesTable.fetchedAt))
+      .all();
+
+    return rows.map(toNewsArticle);
   }
 
   /**
@@ -228,10 +270,7 @@ export class RssService extends EventEmitter {
 
   private async poll(): Promise<void> {
     try {
-      const newArticles = await this.fetchOnce();
-      if (newArticles.length > 0) {
-        this.emit('articles', newArticles);
-      }
+      await this.fetchOnce();
     } catch (err) {
       logger.error({ err }, 'RSS poll cycle error');
     }
@@ -282,6 +321,20 @@ export class RssService extends EventEmitter {
     return articles;
   }
 
+  /** Offline stand-in for fetchFeed (PROVIDER_MODE=fake) */
+  private fakeFetch(): NewsArticle[] {
+    const fetchedAt = new Date();
+    return fakeHeadlines(fetchedAt).map(h => ({
+      id: this.articleId(h.link),
+      source: h.source,
+      title: h.title,
+      description: h.description,
+      link: h.link,
+      publishedAt: fetchedAt,
+      fetchedAt,
+    }));
+  }
+
   private persistArticles(newArticles: NewsArticle[]): void {
     const db = getDb();
 
@@ -0,0 +1,326 @@
+import { and, eq, gte, inArray, isNull, lt, or } from 'drizzle-orm';
+import type { BetterSQLite3Database } from 'drizzle-orm/better-sqlite3';
+import { content, scheduleSlots, type Content, type ScheduleSlot } from '../db/schema.js';
+import { DEFAULT_SLOT_LENGTH_MS, isRecurringSlot, slotOccurrences } from './recurrence.js';
+
+/**
+ * Checks a schedule slot against the rest of the schedule before it's saved.
+ * Errors (unparseable or reversed times, unknown content) always block the
+ * save; warnings (overlaps, content that isn't ready, a slot shorter than its
+ * content) are handled by the conflict mode:
+ *
+ *   reject  refuse the save
+ *   warn    save and report them
+ *   shift   move the slot to the first time it overlaps nothing, keeping
+ *           its length, then save and report what's left
+ *
+ * Overlapping occurrences all stay due; the scheduler plays the
+ * higher-priority one first (earlier start on a tie).
+ */
+
+export const CONFLICT_MODES = ['reject', 'warn', 'shift'] as const;
+export type ConflictMode = (typeof CONFLICT_MODES)[number];
+
+/** How far ahead a recurring slot's occurrences are checked for overlaps */
+const OVERLAP_HORIZON_MS = 28 * 24 * 60 * 60 * 1000;
+
+/** Longest move auto-shift makes before giving up */
+const MAX_SHIFT_MS = 24 * 60 * 60 * 1000;
+
+const ERROR_KINDS = new Set<ScheduleIssue['kind']>(['invalid_time', 'end_before_start', 'content_missing']);
+
+export interface ScheduleIssue {
+  kind: 'invalid_time' | 'end_before_start' | 'content_missing' | 'content_not_ready' | 'too_short' | 'overlap';
+  message: string;
+  /** Overlaps: the other slot, its priority and when they first clash */
+  slotId?: string;
+  priority?: number;
+  at?: Date;
+  /** Overlaps: clashing occurrences within the checked horizon */
+  count?: number;
+}
+
+/** A slot as it would be saved; id is set when updating */
+export type SlotDraft = Pick<
+  ScheduleSlot,
+  'contentId' | 'contentType' | 'startTime' | 'endTime' | 'isRecurring' | 'recurrenceRule' | 'priority' | 'label'
+> & { id?: string };
+
+export interface SlotCheck {
+  errors: ScheduleIssue[];
+  warnings: ScheduleIssue[];
+}
+
+export type SlotResolution =
+  | { ok: true; draft: SlotDraft; warnings: ScheduleIssue[]; shiftedFrom: Date | null }
+  | { ok: false; status: 400 | 409; error: string; issues: ScheduleIssue[] };
+
+/** An occurrence with issues, for highlighting on the timeline */
+export interface ScheduleConflict {
+  slotId: string;
+  startTime: Date;
+  issues: ScheduleIssue[];
+}
+
+interface Window {
+  start: number;
+  end: number;
+}
+
+interface SlotWindow extends Window {
+  slot: ScheduleSlot;
+}
+
+export function isConflictMode(value: unknown): value is ConflictMode {
+  return typeof value === 'string' && (CONFLICT_MODES as readonly string[]).includes(value);
+}
+
+/** Everything wrong with `draft`, split into blocking errors and warnings */
+export function checkSlot(draft: SlotDraft, db: BetterSQLite3Database<any>): SlotCheck {
+  const issues: ScheduleIssue[] = [];
+
+  if (Number.isNaN(draft.startTime.getTime()) || (draft.endTime && Number.isNaN(draft.endTime.getTime()))) {
+    issues.push({ kind: 'invalid_time', message: 'startTime and endTime must be ISO dates' });
+    return { errors: issues, warnings: [] };
+  }
+  if (draft.endTime && draft.endTime <= draft.startTime) {
+    issues.push({ kind: 'end_before_start', message: 'endTime must be after startTime' });
+  }
+
+  const item = draft.contentId
+    ? db.select().from(content).where(eq(content.id, draft.contentId)).get() ?? null
+    : null;
+  issues.push(...contentIssues(draft, draft.contentId ? item : undefined));
+
+  if (!issues.some((i) => ERROR_KINDS.has(i.kind))) {
+    issues.push(...overlapIssues(draft, db));
+  }
+
+  return {
+    errors: issues.filter((i) => ERROR_KINDS.has(i.kind)),
+    warnings: issues.filter((i) => !ERROR_KINDS.has(i.kind)),
+  };
+}
+
+/** Check `draft` and apply `mode` to what turns up */
+export function resolveSlot(draft: SlotDraft, mode: ConflictMode, db: BetterSQLite3Database<any>): SlotResolution {
+  let check = checkSlot(draft, db);
+  if (check.errors.length > 0) {
+    return { ok: false, status: 400, error: check.errors[0].message, issues: check.errors };
+  }
+  if (check.warnings.length === 0) return { ok: true, draft, warnings: [], shiftedFrom: null };
+
+  if (mode === 'reject') {
+    return { ok: false, status: 409, error: check.warnings[0].message, issues: check.warnings };
+  }
+  if (mode === 'warn' || !check.warnings.some((i) => i.kind === 'overlap')) {
+    return { ok: true, draft, warnings: check.warnings, shiftedFrom: null };
+  }
+
+  const start = findFreeStart(draft, db);
+  if (!start) {
+    return {
+      ok: false,
+      status: 409,
+      error: `No free time within ${MAX_SHIFT_MS / 3_600_000} hours to shift the slot to`,
+      issues: check.warnings,
+    };
+  }
+  const delta = start.getTime() - draft.startTime.getTime();
+  const shifted: SlotDraft = {
+    ...draft,
+    startTime: start,
+    endTime: draft.endTime ? new Date(draft.endTime.getTime() + delta) : null,
+  };
+  check = checkSlot(shifted, db);
+  return { ok: true, draft: shifted, warnings: check.warnings, shiftedFrom: draft.startTime };
+}
+
+/**
+ * Issues of every slot occurrence starting within [from, to): overlaps with
+ * other occurrences plus the slot's own content problems.
+ */
+export function findConflicts(from: Date, to: Date, db: BetterSQLite3Database<any>): ScheduleConflict[] {
+  const slots = slotsTouching(from.getTime(), to.getTime(), db);
+  const items = contentById(slots.map((s) => s.contentId), db);
+
+  const windows: SlotWindow[] = slots
+    .flatMap((slot) => windowsOf(slot, from.getTime() - lengthOf(slot), to.getTime()).map((w) => ({ slot, ...w })))
+    .sort((a, b) => a.start - b.start);
+
+  const conflicts = new Map<SlotWindow, ScheduleIssue[]>();
+  const add = (w: SlotWindow, issue: ScheduleIssue) => {
+    if (w.start < from.getTime()) return;
+    conflicts.set(w, [...(conflicts.get(w) ?? []), issue]);
+  };
+
+  for (let i = 0; i < windows.length; i++) {
+    const a = windows[i];
+    for (let j = i + 1; j < windows.length && windows[j].start < a.end; j++) {
+      const b = windows[j];
+      if (b.slot.id === a.slot.id) continue;
+      const at = new Date(b.start);
+      add(a, overlapIssue(a.slot, b.slot, at));
+      add(b, overlapIssue(b.slot, a.slot, at));
+    }
+  }
+
+  const ownIssues = new Map(slots.map((slot) => [
+    slot.id,
+    contentIssues(slot, slot.contentId ? items.get(slot.contentId) ?? null : undefined),
+  ]));
+  for (const w of windows) {
+    for (const issue of ownIssues.get(w.slot.id) ?? []) add(w, issue);
+  }
+
+  return [...conflicts]
+    .map(([w, issues]) => ({ slotId: w.slot.id, startTime: new Date(w.start), issues }))
+    .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+}
+
+/**
+ * Content problems of a slot; `item` is undefined for slots without a
+ * contentId and null when the content doesn't exist.
+ */
+function contentIssues(slot: SlotDraft, item: Content | null | undefined): ScheduleIssue[] {
+  if (item === undefined) return [];
+  if (item === null) return [{ kind: 'content_missing', message: `Content ${slot.contentId} does not exist` }];
+
+  const issues: ScheduleIssue[] = [];
+  if (item.status !== 'ready') {
+    issues.push({ kind: 'content_not_ready', message: `"${item.title}" is ${item.status}, not ready to air` });
+  }
+  if (slot.endTime && item.duration) {
+    const slotSeconds = (slot.endTime.getTime() - slot.startTime.getTime()) / 1000;
+    if (slotSeconds > 0 && slotSeconds < item.duration) {
+      issues.push({
+        kind: 'too_short',
+        message: `The slot lasts ${formatDuration(slotSeconds)} but "${item.title}" runs ${formatDuration(item.duration)}`,
+      });
+    }
+  }
+  return issues;
+}
+
+/** One issue per other slot `draft` overlaps within the horizon */
+function overlapIssues(draft: SlotDraft, db: BetterSQLite3Database<any>): ScheduleIssue[] {
+  const own = ownWindows(draft);
+  if (own.length === 0) return [];
+
+  const others = otherWindows(draft, own, 0, db);
+  const clashes = new Map<string, { slot: ScheduleSlot; at: number; count: number }>();
+  for (const w of own) {
+    for (const o of others) {
+      if (o.start >= w.end || w.start >= o.end) continue;
+      const clash = clashes.get(o.slot.id);
+      if (clash) clash.count++;
+      else clashes.set(o.slot.id, { slot: o.slot, at: Math.max(w.start, o.start), count: 1 });
+    }
+  }
+
+  return [...clashes.values()]
+    .sort((a, b) => a.at - b.at)
+    .map(({ slot, at, count }) => ({ ...overlapIssue(draft, slot, new Date(at)), count }));
+}
+
+/**
+ * Earliest start at or after `draft`'s where none of its occurrences in the
+ * horizon overlap another slot, or null if that's more than MAX_SHIFT_MS away.
+ * Occurrences of a recurring slot all move with its start.
+ */
+function findFreeStart(draft: SlotDraft, db: BetterSQLite3Database<any>): Date | null {
+  const own = ownWindows(draft);
+  const others = otherWindows(draft, own, MAX_SHIFT_MS, db);
+
+  let delta = 0;
+  while (delta <= MAX_SHIFT_MS) {
+    let pushTo: number | null = null;
+    for (const w of own) {
+      const start = w.start + delta;
+      const end = w.end + delta;
+      for (const o of others) {
+        if (o.start >= end || start >= o.end) continue;
+        // Clear this clash: start the occurrence where the other one ends
+        pushTo = Math.max(pushTo ?? 0, o.end - w.start);
+      }
+      if (pushTo !== null) break;
+    }
+    if (pushTo === null) return new Date(draft.startTime.getTime() + delta);
+    delta = pushTo;
+  }
+  return null;
+}
+
+/** The draft's occurrences worth checking: ahead of now for a recurring slot */
+function ownWindows(draft: SlotDraft): Window[] {
+  const from = isRecurringSlot(draft)
+    ? Math.max(draft.startTime.getTime(), Date.now() - lengthOf(draft))
+    : draft.startTime.getTime();
+  return windowsOf(draft, from, from + OVERLAP_HORIZON_MS);
+}
+
+/** Occurrences of every other slot that could meet `own`, shifted up to `slack` later */
+function otherWindows(draft: SlotDraft, own: Window[], slack: number, db: BetterSQLite3Database<any>): SlotWindow[] {
+  if (own.length === 0) return [];
+  const from = own[0].start;
+  const to = own[own.length - 1].end + slack;
+
+  return slotsTouching(from, to, db)
+    .filter((slot) => slot.id !== draft.id)
+    .flatMap((slot) => windowsOf(slot, from - lengthOf(slot), to).map((w) => ({ slot, ...w })));
+}
+
+/** Slots that may have an occurrence within [from, to) */
+function slotsTouching(from: number, to: number, db: BetterSQLite3Database<any>): ScheduleSlot[] {
+  return db.select().from(scheduleSlots)
+    .where(or(
+      eq(scheduleSlots.isRecurring, true),
+      and(
+        lt(scheduleSlots.startTime, new Date(to)),
+        or(
+          gte(scheduleSlots.endTime, new Date(from)),
+          and(isNull(scheduleSlots.endTime), gte(scheduleSlots.startTime, new Date(from - DEFAULT_SLOT_LENGTH_MS))),
+        ),
+      ),
+    ))
+    .all();
+}
+
+function contentById(ids: (string | null)[], db: BetterSQLite3Database<any>): Map<string, Content> {
+  const wanted = [...new Set(ids.filter((id): id is string => id !== null))];
+  if (wanted.length === 0) return new Map();
+  const rows = db.select().from(content).where(inArray(content.id, wanted)).all();
+  return new Map(rows.map((row) => [row.id, row]));
+}
+
+function windowsOf(slot: Parameters<typeof slotOccurrences>[0], from: number, to: number): Window[] {
+  return slotOccurrences(slot, new Date(from), new Date(to)).map(({ start, end }) => ({
+    start: start.getTime(),
+    end: end ? end.getTime() : start.getTime() + DEFAULT_SLOT_LENGTH_MS,
+  }));
+}
+
+function lengthOf(slot: Pick<ScheduleSlot, 'startTime' | 'endTime'>): number {
+  return slot.endTime ? slot.endTime.getTime() - slot.startTime.getTime() : DEFAULT_SLOT_LENGTH_MS;
+}
+
+function overlapIssue(own: Pick<ScheduleSlot, 'priority'>, other: ScheduleSlot, at: Date): ScheduleIssue {
+  const ownPriority = own.priority ?? 0;
+  const otherPriority = other.priority ?? 0;
+  const precedence = otherPriority > ownPriority
+    ? 'plays first'
+    : otherPriority < ownPriority ? 'plays after this one' : 'same priority, earlier start plays first';
+  return {
+    kind: 'overlap',
+    message: `Overlaps "${other.label ?? other.contentType ?? other.id}" at ${at.toISOString()} `
+      + `(priority ${otherPriority}, ${precedence})`,
+    slotId: other.id,
+    priority: otherPriority,
+    at,
+  };
+}
+
+function formatDuration(seconds: number): string {
+  const s = Math.round(seconds);
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+}
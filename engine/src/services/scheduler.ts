@@ -1,7 +1,16 @@
-import { eq, and, gte, lte, asc, desc } from 'drizzle-orm';
-import { content, scheduleSlots, rotationPattern, playbackLog, settings } from '../db/schema.js';
-import type { Content, ScheduleSlot, RotationStep } from '../db/schema.js';
+import path from 'path';
+import { eq, and, or, gt, lte, isNull, asc, desc, sql } from 'drizzle-orm';
+import { content, scheduleSlots, rotationGroups, playbackLog, audioTracks } from '../db/schema.js';
+import type { Content, RotationStep, ScheduleSlot } from '../db/schema.js';
+import { getConfig } from '../config.js';
+import { getDb } from '../db/client.js';
 import { logger } from '../utils/logger.js';
+import { resolveClock } from './format-clocks.js';
+import { DEFAULT_ROTATION_GROUP, getPattern, getRotationGroup, resolveRotationGroup } from './rotation-groups.js';
+import { DEFAULT_SLOT_LENGTH_MS, isRecurringSlot, slotOccurrences } from './recurrence.js';
+import { PlaybackLogHistory, SimulatedHistory, type PlayHistory } from './play-history.js';
+import { getSeparationSettings, separate, separationWindowMs } from './separation.js';
+import { pickVariantPerGroup } from './song-variants.js';
 import type { BetterSQLite3Database } from 'drizzle-orm/better-sqlite3';
 
 export interface ScheduledItem {
@@ -10,28 +19,80 @@ export interface ScheduledItem {
   contentType: string;
   filePath: string;
   duration: number;
+  metadata: Record<string, unknown>;
   source: 'override' | 'scheduled' | 'rotation';
 }
 
-interface OverrideItem {
+export interface OverrideItem {
   id: string;
   contentId: string;
   title: string;
   contentType: string;
   urgent: boolean;
+  addedAt: string;
+}
+
+/** Scheduled slots may fire this long before they start */
+const SLOT_LOOKAHEAD_MS = 60_000;
+
+/** A dry run steps through empty stretches this coarsely */
+const PREVIEW_GAP_STEP_MS = 60_000;
+
+/** Dry runs stop after this many items whatever the window */
+const MAX_PREVIEW_ITEMS = 2000;
+
+/** A dry run hands the event loop back this often, so live playout keeps its lead */
+const PREVIEW_SLICE_MS = 10;
+
+/** One entry of a projected rundown: an item on air, or nothing to play */
+export type RundownEntry =
+  | { kind: 'item'; startsAt: Date; endsAt: Date; item: ScheduledItem }
+  | { kind: 'gap'; startsAt: Date; endsAt: Date };
+
+export interface Rundown {
+  entries: RundownEntry[];
+  /** Where the projection ends: the requested end, or earlier if it was truncated */
+  until: Date;
+  /** Stopped at MAX_PREVIEW_ITEMS before reaching the requested end */
+  truncated: boolean;
+}
+
+/**
+ * What a dry run changes, kept in memory so nothing reaches the database.
+ * Configuration it reads (slots, clocks, rotation, ready content) can't
+ * change under it, so each lookup is made once per run (per hour for the
+ * ones that depend on the time) and remembered in `reads`.
+ */
+interface DryRun {
+  history: SimulatedHistory;
+  cursors: Map<string, number>;
+  reads: Map<string, unknown>;
+}
+
+/** News blocks are time-sensitive — older ones never go back on air */
+export const NEWS_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Uploaded files store a path relative to MEDIA_DIR, generated tracks an
+ * absolute one. Resolve both to something ffmpeg can open.
+ */
+export function resolveMediaPath(filePath: string): string {
+  return path.isAbsolute(filePath) ? filePath : path.join(getConfig().MEDIA_DIR, filePath);
 }
 
 export class Scheduler {
   private overrideQueue: OverrideItem[] = [];
-  private rotationCursor = 0;
-
-  constructor(private db: BetterSQLite3Database<any>) {
-    // Load persisted cursor
-    const saved = this.db.select().from(settings).where(eq(settings.key, 'rotationCursor')).get();
-    if (saved) {
-      this.rotationCursor = saved.value as number;
-    }
-  }
+  /** Format clock segments already aired, keyed by hour + clock + minute */
+  private firedSegments = new Set<string>();
+  /** Slot occurrences already aired, keyed by slot + start → when the occurrence ends */
+  private firedSlots = new Map<string, number>();
+  /** Set on the copy a dry run works on */
+  private dryRun: DryRun | null = null;
+
+  constructor(
+    private db: BetterSQLite3Database<any>,
+    private clock: () => Date = () => new Date(),
+  ) {}
 
   /**
    * Add an override item to play next
@@ -59,8 +120,9 @@ export class Scheduler {
    * Get the next item to play using priority queue logic:
    * 1. Override queue (manual "play next")
    * 2. Scheduled slots (timeline editor, time-anchored)
-   * 3. Default rotation pattern
-   * 4. null (nothing available)
+   * 3. Format clock segments for the current hour
+   * 4. Rotation pattern of the group assigned to now
+   * 5. null (nothing available)
    */
   getNextItem(): ScheduledItem | null {
     // 1. Check override queue
@@ -71,15 +133,70 @@ export class Scheduler {
     const scheduled = this.checkScheduledSlots();
     if (scheduled) return scheduled;
 
-    // 3. Default rotation
+    // 3. Format clock
+    const segment = this.checkClockSegments();
+    if (segment) return segment;
+
+    // 4. Rotation
     const rotation = this.checkRotation();
     if (rotation) return rotation;
 
-    // 4. Nothing available
-    logger.warn('No content available from any source');
+    // 5. Nothing available
+    if (!this.dryRun) logger.warn('No content available from any source');
     return null;
   }
 
+  /**
+   * Project playout from `from` until `to` without touching anything: a
+   * copy of the scheduler (override queue, fired slots and clock segments)
+   * runs getNextItem on a virtual clock, keeping what it would write —
+   * playback log, rotation cursors, used-up slots — in memory. Items run
+   * back to back for their full duration; stretches with nothing to play
+   * come back as gaps. The run yields to the event loop every
+   * PREVIEW_SLICE_MS so the live stream isn't starved.
+   */
+  async preview(from: Date, to: Date): Promise<Rundown> {
+    let virtual = from;
+    const separation = getSeparationSettings(this.db);
+    const sim = new Scheduler(this.db, () => virtual);
+    sim.dryRun = {
+      history: new SimulatedHistory(this.db, from, separationWindowMs(separation)),
+      cursors: new Map(),
+      reads: new Map([['separation', separation]]),
+    };
+    sim.overrideQueue = [...this.overrideQueue];
+    sim.firedSegments = new Set(this.firedSegments);
+    sim.firedSlots = new Map(this.firedSlots);
+
+    const entries: RundownEntry[] = [];
+    let sliceStart = performance.now();
+    while (virtual < to && entries.length < MAX_PREVIEW_ITEMS) {
+      if (performance.now() - sliceStart > PREVIEW_SLICE_MS) {
+        await new Promise((resolve) => setImmediate(resolve));
+        sliceStart = performance.now();
+      }
+
+      const item = sim.getNextItem();
+      if (item) {
+        const endsAt = new Date(virtual.getTime() + item.duration * 1000);
+        entries.push({ kind: 'item', startsAt: virtual, endsAt, item });
+        // Logged at the virtual time, so least-recently-played and news freshness see it
+        sim.logPlayback(item);
+        virtual = endsAt;
+        continue;
+      }
+
+      const endsAt = new Date(Math.min(to.getTime(), virtual.getTime() + PREVIEW_GAP_STEP_MS));
+      const last = entries[entries.length - 1];
+      if (last?.kind === 'gap') last.endsAt = endsAt;
+      else entries.push({ kind: 'gap', startsAt: virtual, endsAt });
+      virtual = endsAt;
+    }
+
+    const truncated = virtual < to;
+    return { entries, until: truncated ? virtual : to, truncated };
+  }
+
   private checkOverrideQueue(): ScheduledItem | null {
     if (this.overrideQueue.length === 0) return null;
 
@@ -96,30 +213,73 @@ export class Scheduler {
       return this.checkOverrideQueue(); // Try next override
     }
 
-    return {
-      contentId: contentItem.id,
-      title: contentItem.title,
-      contentType: contentItem.type,
-      filePath: contentItem.filePath,
-      duration: contentItem.duration || 180,
-      source: 'override',
-    };
+    return toScheduledItem(contentItem, 'override');
   }
 
+  /**
+   * A slot occurrence is due from just before its start until its end (or a
+   * few minutes in, without an end time), so one that comes up during a long
+   * track still airs right after it. Each occurrence fires once; the
+   * highest-priority due slot with content available wins.
+   */
   private checkScheduledSlots(): ScheduledItem | null {
-    const now = new Date();
-    const lookAhead = new Date(now.getTime() + 60_000); // 60 seconds ahead
+    const now = this.clock();
+    for (const [key, end] of this.firedSlots) {
+      if (end <= now.getTime()) this.firedSlots.delete(key);
+    }
 
-    const slot = this.db.select().from(scheduleSlots)
-      .where(and(
-        gte(scheduleSlots.startTime, now),
-        lte(scheduleSlots.startTime, lookAhead),
-      ))
-      .orderBy(desc(scheduleSlots.priority), asc(scheduleSlots.startTime))
-      .get();
+    for (const { slot, start, end } of this.dueSlots(now)) {
+      const key = `${slot.id}@${start.getTime()}`;
+      if (this.firedSlots.has(key)) continue;
 
-    if (!slot) return null;
+      const item = this.pickForSlot(slot);
+      if (!item) continue;
+
+      this.firedSlots.set(key, end.getTime());
+      // A one-off slot with fixed content is done once it airs
+      // (in a dry run, firedSlots keeps it from airing twice)
+      if (slot.contentId && !isRecurringSlot(slot) && !this.dryRun) {
+        this.db.delete(scheduleSlots).where(eq(scheduleSlots.id, slot.id)).run();
+      }
+      return item;
+    }
 
+    return null;
+  }
+
+  /** Slot occurrences open at `now`, highest priority first, then earliest */
+  private dueSlots(now: Date): Array<{ slot: ScheduleSlot; start: Date; end: Date }> {
+    const lookAhead = new Date(now.getTime() + SLOT_LOOKAHEAD_MS);
+    // A dry run reads every slot once; occurrences below filter them by time either way
+    const candidates = this.dryRun
+      ? this.cached('slots', () => this.db.select().from(scheduleSlots).all())
+      : this.db.select().from(scheduleSlots)
+        .where(or(
+          eq(scheduleSlots.isRecurring, true),
+          and(lte(scheduleSlots.startTime, lookAhead), or(
+            gt(scheduleSlots.endTime, now),
+            and(isNull(scheduleSlots.endTime), gt(scheduleSlots.startTime, new Date(now.getTime() - DEFAULT_SLOT_LENGTH_MS))),
+          )),
+        ))
+        .all();
+
+    const due: Array<{ slot: ScheduleSlot; start: Date; end: Date }> = [];
+    for (const slot of candidates) {
+      const length = slot.endTime
+        ? Math.max(0, slot.endTime.getTime() - slot.startTime.getTime())
+        : DEFAULT_SLOT_LENGTH_MS;
+      const since = new Date(now.getTime() - length);
+      for (const occurrence of slotOccurrences(slot, since, new Date(lookAhead.getTime() + 1))) {
+        const end = new Date(occurrence.start.getTime() + length);
+        if (end > now) due.push({ slot, start: occurrence.start, end });
+      }
+    }
+
+    return due.sort((a, b) =>
+      (b.slot.priority ?? 0) - (a.slot.priority ?? 0) || a.start.getTime() - b.start.getTime());
+  }
+
+  private pickForSlot(slot: ScheduleSlot): ScheduledItem | null {
     // If slot has specific content
     if (slot.contentId) {
       const contentItem = this.db.select().from(content)
@@ -129,21 +289,7 @@ export class Scheduler {
         ))
         .get();
 
-      if (contentItem?.filePath) {
-        // Remove the slot after use (unless recurring)
-        if (!slot.isRecurring) {
-          this.db.delete(scheduleSlots).where(eq(scheduleSlots.id, slot.id)).run();
-        }
-
-        return {
-          contentId: contentItem.id,
-          title: contentItem.title,
-          contentType: contentItem.type,
-          filePath: contentItem.filePath,
-          duration: contentItem.duration || 180,
-          source: 'scheduled',
-        };
-      }
+      if (contentItem?.filePath) return toScheduledItem(contentItem, 'scheduled');
     }
 
     // Slot has type but no specific content - pick from library
@@ -154,25 +300,101 @@ export class Scheduler {
     return null;
   }
 
-  private checkRotation(): ScheduledItem | null {
-    const pattern = this.db.select().from(rotationPattern)
-      .where(eq(rotationPattern.patternGroupId, 'default'))
-      .orderBy(asc(rotationPattern.position))
-      .all();
+  /**
+   * Each segment of the active clock fires once per hour, as soon as the
+   * clock passes its minute. It stays due until the next segment's minute
+   * (or the end of the hour); once that has passed too — after a restart or
+   * a long track — it is dropped rather than aired late, so missed segments
+   * never pile up back to back. If its content type has nothing ready, walk
+   * the fallback chain; 'rotation' (or running out) hands over to the rotation.
+   */
+  private checkClockSegments(): ScheduledItem | null {
+    const now = this.clock();
+    const hourKey = `${now.toDateString()} ${now.getHours()}`;
 
-    if (pattern.length === 0) return null;
+    // Forget previous hours
+    for (const key of this.firedSegments) {
+      if (!key.startsWith(`${hourKey}:`)) this.firedSegments.delete(key);
+    }
 
-    // Try each position in the pattern starting from cursor
-    for (let i = 0; i < pattern.length; i++) {
-      const step = pattern[(this.rotationCursor + i) % pattern.length];
-      const item = this.pickForRotationStep(step);
+    const clock = this.cached(`clock ${hourKey}`, () => resolveClock(this.db, now));
+    if (!clock) return null;
 
-      if (item) {
-        // Advance cursor past the used position
-        this.rotationCursor = (this.rotationCursor + i + 1) % pattern.length;
-        this.persistCursor();
-        return item;
+    for (const [i, segment] of clock.segments.entries()) {
+      const key = `${hourKey}:${clock.id}:${segment.minute}`;
+      if (now.getMinutes() < segment.minute || this.firedSegments.has(key)) continue;
+
+      // Fire once per hour whether or not content exists
+      this.firedSegments.add(key);
+
+      // Segments are ordered by minute
+      const windowEnd = clock.segments[i + 1]?.minute ?? 60;
+      if (now.getMinutes() >= windowEnd) {
+        logger.debug(
+          { clock: clock.name, minute: segment.minute, contentType: segment.contentType },
+          'Clock segment missed its window — skipping',
+        );
+        continue;
+      }
+
+      for (const type of [segment.contentType, ...segment.fallback]) {
+        if (type === 'rotation') break;
+        const item = this.pickByType(type, 'scheduled');
+        if (item) return item;
       }
+
+      logger.debug(
+        { clock: clock.name, minute: segment.minute, contentType: segment.contentType },
+        'Clock segment has no content — falling back to rotation',
+      );
+    }
+
+    return null;
+  }
+
+  /**
+   * Next step of the rotation group assigned to now, each group picking up
+   * where it left off; a group with an empty pattern hands over to the default.
+   */
+  private checkRotation(): ScheduledItem | null {
+    const now = this.clock();
+    const active = this.cached(
+      `group ${now.toDateString()} ${now.getHours()}`,
+      () => resolveRotationGroup(this.db, now),
+    );
+    const groups = [
+      active,
+      active?.id === DEFAULT_ROTATION_GROUP
+        ? null
+        : this.cached('group default', () => getRotationGroup(this.db, DEFAULT_ROTATION_GROUP)),
+    ];
+
+    for (const group of groups) {
+      if (!group) continue;
+      const pattern = this.cached(`pattern ${group.id}`, () => getPattern(this.db, group.id));
+      if (pattern.length === 0) continue;
+
+      // Try each position in the pattern starting from the group's cursor
+      const cursor = this.dryRun?.cursors.get(group.id) ?? group.cursor;
+      for (let i = 0; i < pattern.length; i++) {
+        const step = pattern[(cursor + i) % pattern.length];
+        const item = this.pickForRotationStep(step);
+
+        if (item) {
+          // Advance cursor past the used position
+          const next = (cursor + i + 1) % pattern.length;
+          if (this.dryRun) {
+            this.dryRun.cursors.set(group.id, next);
+          } else {
+            this.db.update(rotationGroups)
+              .set({ cursor: next })
+              .where(eq(rotationGroups.id, group.id))
+              .run();
+          }
+          return item;
+        }
+      }
+      return null;
     }
 
     return null;
@@ -189,14 +411,7 @@ export class Scheduler {
         .get();
 
       if (contentItem?.filePath) {
-        return {
-          contentId: contentItem.id,
-          title: contentItem.title,
-          contentType: contentItem.type,
-          filePath: contentItem.filePath,
-          duration: contentItem.duration || 180,
-          source: 'rotation',
-        };
+        return toScheduledItem(contentItem, 'rotation');
       }
     }
 
@@ -206,92 +421,103 @@ export class Scheduler {
 
   private pickByType(
     type: string,
-    source: 'scheduled' | 'rotation',
+    source: ScheduledItem['source'],
     strategy: string = 'least_recently_played',
   ): ScheduledItem | null {
-    let contentItem: Content | undefined;
+    const history = this.history();
+    let items = this.readyContent(type);
 
-    if (strategy === 'random') {
-      const items = this.db.select().from(content)
-        .where(and(eq(content.type, type as any), eq(content.status, 'ready')))
-        .all()
-        .filter(c => c.filePath);
+    // News blocks air once, and only while fresh
+    if (type === 'news_block') {
+      const cutoff = this.clock().getTime() - NEWS_MAX_AGE_MS;
+      items = items.filter(c => c.createdAt.getTime() > cutoff && !history.lastPlayedAt(c.id));
+    }
 
-      if (items.length === 0) return null;
-      contentItem = items[Math.floor(Math.random() * items.length)];
-    } else if (strategy === 'least_recently_played') {
-      // Find content of this type that was played least recently
-      const items = this.db.select().from(content)
-        .where(and(eq(content.type, type as any), eq(content.status, 'ready')))
-        .all()
-        .filter(c => c.filePath);
+    // Alternate takes of one song compete as a single song
+    const songs = type === 'song';
+    if (songs) {
+      items = pickVariantPerGroup(history, items);
+    }
 
-      if (items.length === 0) return null;
+    if (items.length === 0) return null;
+
+    // Keep apart what shares a track, title, story or genre with recent airings
+    const separation = this.cached('separation', () => getSeparationSettings(this.db));
+    const separated = separate(history, items, this.clock(), separation);
+    if (separated.relaxed.length > 0 && !this.dryRun) {
+      logger.debug({ type, relaxed: separated.relaxed }, 'Separation rules relaxed');
+    }
+    items = separated.items;
 
-      // Get last play time for each
-      let leastRecent: Content | null = null;
+    let contentItem: Content;
+
+    if (strategy === 'random') {
+      contentItem = items[Math.floor(Math.random() * items.length)];
+    } else if (strategy === 'least_recently_played') {
+      // Find content of this type that was played least recently;
+      // among never-played items the newest wins, so fresh tracks air first
+      let leastRecent = items[0];
       let leastRecentTime = Infinity;
 
       for (const item of items) {
-        const lastPlay = this.db.select().from(playbackLog)
-          .where(eq(playbackLog.contentId, item.id))
-          .orderBy(desc(playbackLog.startedAt))
-          .get();
-
-        const playTime = lastPlay?.startedAt ? new Date(lastPlay.startedAt).getTime() : 0;
-        if (playTime < leastRecentTime) {
+        const playTime = songs ? history.groupLastPlayedAt(item) : history.lastPlayedAt(item.id);
+        if (playTime <= leastRecentTime) {
           leastRecentTime = playTime;
           leastRecent = item;
         }
       }
 
-      contentItem = leastRecent || items[0];
+      contentItem = leastRecent;
     } else {
       // sequential - just get the oldest ready content
-      contentItem = this.db.select().from(content)
-        .where(and(eq(content.type, type as any), eq(content.status, 'ready')))
-        .orderBy(asc(content.createdAt))
-        .get() as Content | undefined;
+      contentItem = items[0];
     }
 
-    if (!contentItem?.filePath) return null;
+    return toScheduledItem(contentItem, source);
+  }
 
-    return {
-      contentId: contentItem.id,
-      title: contentItem.title,
-      contentType: contentItem.type,
-      filePath: contentItem.filePath,
-      duration: contentItem.duration || 180,
-      source,
-    };
+  /** Ready, playable content of a type, oldest first */
+  private readyContent(type: string): Content[] {
+    return this.cached(`content ${type}`, () => this.db.select().from(content)
+      .where(and(eq(content.type, type as any), eq(content.status, 'ready')))
+      .orderBy(asc(content.createdAt))
+      .all()
+      .filter(c => c.filePath));
   }
 
-  private persistCursor(): void {
-    const existing = this.db.select().from(settings).where(eq(settings.key, 'rotationCursor')).get();
-    if (existing) {
-      this.db.update(settings).set({
-        value: this.rotationCursor as any,
-        updatedAt: new Date(),
-      }).where(eq(settings.key, 'rotationCursor')).run();
-    } else {
-      this.db.insert(settings).values({
-        key: 'rotationCursor',
-        value: this.rotationCursor as any,
-      }).run();
-    }
+  private history(): PlayHistory {
+    return this.dryRun?.history ?? new PlaybackLogHistory(this.db);
+  }
+
+  /** `read()`, remembered under `key` for the rest of a dry run */
+  private cached<T>(key: string, read: () => T): T {
+    if (!this.dryRun) return read();
+    if (!this.dryRun.reads.has(key)) this.dryRun.reads.set(key, read());
+    return this.dryRun.reads.get(key) as T;
   }
 
   /**
    * Log a playback event
    */
   logPlayback(item: ScheduledItem): void {
+    if (this.dryRun) {
+      this.dryRun.history.record(item.contentId, this.clock());
+      return;
+    }
+
     this.db.insert(playbackLog).values({
       contentId: item.contentId,
       contentType: item.contentType,
       title: item.title,
-      startedAt: new Date(),
+      startedAt: this.clock(),
       source: item.source,
     }).run();
+
+    // Keep the generated-track stats in step (no-op for uploaded content)
+    this.db.update(audioTracks)
+      .set({ playCount: sql`${audioTracks.playCount} + 1`, lastPlayedAt: this.clock() })
+      .where(eq(audioTracks.id, item.contentId))
+      .run();
   }
 
   /**
@@ -308,3 +534,28 @@ export class Scheduler {
     return [...this.overrideQueue];
   }
 }
+
+function toScheduledItem(contentItem: Content, source: ScheduledItem['source']): ScheduledItem {
+  return {
+    contentId: contentItem.id,
+    title: contentItem.title,
+    contentType: contentItem.type,
+    filePath: resolveMediaPath(contentItem.filePath!),
+    duration: contentItem.duration || 180,
+    metadata: contentItem.metadata ?? {},
+    source,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Singleton
+// ---------------------------------------------------------------------------
+
+let _scheduler: Scheduler | null = null;
+
+export function getScheduler(): Scheduler {
+  if (!_scheduler) {
+    _scheduler = new Scheduler(getDb());
+  }
+  return _scheduler;
+}
@@ -1,9 +1,31 @@
 import { eq } from 'drizzle-orm';
-import { rotationPattern } from '../db/schema.js';
+import {
+  clockAssignments,
+  formatClocks,
+  overlayTemplates,
+  rotationGroups,
+  rotationPattern,
+  settings,
+  streamOutputs,
+} from '../db/schema.js';
+import { DEFAULT_ROTATION_GROUP } from './rotation-groups.js';
+import { CLASSIC_LAYERS } from './overlay-templates.js';
+import { getConfig } from '../config.js';
 import { logger } from '../utils/logger.js';
 import type { BetterSQLite3Database } from 'drizzle-orm/better-sqlite3';
 
 export function seedDefaultRotation(db: BetterSQLite3Database<any>) {
+  if (!db.select().from(rotationGroups).where(eq(rotationGroups.id, DEFAULT_ROTATION_GROUP)).get()) {
+    // The single pattern used to keep its cursor in settings; carry it over
+    const legacyCursor = db.select().from(settings).where(eq(settings.key, 'rotationCursor')).get();
+    db.insert(rotationGroups).values({
+      id: DEFAULT_ROTATION_GROUP,
+      name: 'Default',
+      cursor: typeof legacyCursor?.value === 'number' ? legacyCursor.value : 0,
+    }).run();
+    db.delete(settings).where(eq(settings.key, 'rotationCursor')).run();
+  }
+
   const existing = db.select().from(rotationPattern).all();
   if (existing.length > 0) return;
 
@@ -27,3 +49,52 @@ export function seedDefaultRotation(db: BetterSQLite3Database<any>) {
 
   logger.info('Default rotation pattern seeded: Song×3 → News → Song×2 → Ad');
 }
+
+export function seedDefaultClock(db: BetterSQLite3Database<any>) {
+  const existing = db.select().from(formatClocks).all();
+  if (existing.length > 0) return;
+
+  // Standard hour: songs (rotation) → News at :45 → Podcast at :50
+  const clock = db.insert(formatClocks).values({
+    name: 'Standard hour',
+    description: 'Rotation, news at :45, podcast at :50',
+    segments: [
+      { minute: 45, contentType: 'news_block', fallback: ['rotation'] },
+      { minute: 50, contentType: 'podcast', fallback: ['rotation'] },
+    ],
+  }).returning().get();
+
+  // Catch-all assignment: every weekday, every hour
+  db.insert(clockAssignments).values({ clockId: clock.id, weekday: null, hour: null }).run();
+
+  logger.info('Default format clock seeded: News :45 → Podcast :50, every hour');
+}
+
+export function seedDefaultOutputs(db: BetterSQLite3Database<any>) {
+  const existing = db.select().from(streamOutputs).all();
+  if (existing.length > 0) return;
+
+  const config = getConfig();
+  if (!config.YOUTUBE_STREAM_KEY) return;
+
+  // YouTube primary ingest from .env; further outputs are added through the API
+  db.insert(streamOutputs).values({
+    name: 'YouTube',
+    type: 'rtmp',
+    url: config.YOUTUBE_RTMP_URL,
+    backupUrl: config.YOUTUBE_RTMP_BACKUP_URL || null,
+    streamKey: config.YOUTUBE_STREAM_KEY,
+  }).run();
+
+  logger.info('Default stream output seeded: YouTube (from YOUTUBE_STREAM_KEY)');
+}
+
+export function seedDefaultOverlayTemplate(db: BetterSQLite3Database<any>) {
+  const existing = db.select().from(overlayTemplates).all();
+  if (existing.length > 0) return;
+
+  // Editable copy of the built-in layout; it becomes the fallback for every content type
+  db.insert(overlayTemplates).values({ name: 'Classic', layers: CLASSIC_LAYERS }).run();
+
+  logger.info('Default overlay template seeded: Classic');
+}
@@ -0,0 +1,167 @@
+import type { BetterSQLite3Database } from 'drizzle-orm/better-sqlite3';
+import type { Content } from '../db/schema.js';
+import type { PlayHistory } from './play-history.js';
+import { getSetting, updateSettings } from './settings-store.js';
+import { variantGroupOf } from './song-variants.js';
+
+/**
+ * Rotation separation: a candidate is held back while something sharing its
+ * track (alternate takes count as one), title, story (metadata.storyHeadline)
+ * or genre (metadata.genre) aired within that rule's minimum minutes. When no
+ * candidate clears every rule, rules are dropped one at a time in relax order
+ * until some do, so there's always something to play.
+ */
+
+export type SeparationRule = 'track' | 'title' | 'story' | 'genre';
+
+export const SEPARATION_RULES: SeparationRule[] = ['track', 'title', 'story', 'genre'];
+
+export interface SeparationSettings {
+  /** Minimum minutes between airings sharing each attribute; 0 turns the rule off */
+  minutes: Record<SeparationRule, number>;
+  /** Which rule gives way first when they can't all be met */
+  relaxOrder: SeparationRule[];
+}
+
+export interface SeparationResult {
+  /** Candidates that clear every rule still in force */
+  items: Content[];
+  /** Rules dropped to get there, in the order they were dropped */
+  relaxed: SeparationRule[];
+}
+
+const DEFAULT_RELAX_ORDER: SeparationRule[] = ['genre', 'story', 'title', 'track'];
+
+const MAX_MINUTES = 7 * 24 * 60;
+
+/** SeparationSettings.minutes rule → settings key */
+const MINUTES_KEYS: Record<SeparationRule, string> = {
+  track: 'separationTrackMinutes',
+  title: 'separationTitleMinutes',
+  story: 'separationStoryMinutes',
+  genre: 'separationGenreMinutes',
+};
+
+/** Separation settings with invalid values replaced by defaults */
+export function getSeparationSettings(db?: BetterSQLite3Database<any>): SeparationSettings {
+  const minutes = {} as Record<SeparationRule, number>;
+  for (const rule of SEPARATION_RULES) {
+    const value = getSetting<number>(MINUTES_KEYS[rule], db);
+    minutes[rule] = typeof value === 'number' && value >= 0 && value <= MAX_MINUTES ? value : 0;
+  }
+
+  // Every rule appears once; ones the stored order leaves out relax last
+  const stored = getSetting<unknown>('separationRelaxOrder', db);
+  const order = Array.isArray(stored) ? stored.filter((r): r is SeparationRule => SEPARATION_RULES.includes(r)) : [];
+  const relaxOrder = [...new Set([...order, ...DEFAULT_RELAX_ORDER])];
+
+  return { minutes, relaxOrder };
+}
+
+/**
+ * Check a partial separation settings update from an API body.
+ * Returns an error message, or null if valid.
+ */
+export function validateSeparationUpdate(body: Record<string, unknown>): string | null {
+  for (const [key, value] of Object.entries(body)) {
+    switch (key) {
+      case 'minutes': {
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) return 'minutes must be an object';
+        for (const [rule, n] of Object.entries(value)) {
+          if (!SEPARATION_RULES.includes(rule as SeparationRule)) {
+            return `minutes keys must be among: ${SEPARATION_RULES.join(', ')}`;
+          }
+          if (typeof n !== 'number' || !Number.isFinite(n) || n < 0 || n > MAX_MINUTES) {
+            return `minutes.${rule} must be a number from 0 to ${MAX_MINUTES}`;
+          }
+        }
+        break;
+      }
+      case 'relaxOrder':
+        if (
+          !Array.isArray(value)
+          || value.length !== SEPARATION_RULES.length
+          || SEPARATION_RULES.some((rule) => !value.includes(rule))
+        ) {
+          return `relaxOrder must list each of ${SEPARATION_RULES.join(', ')} once`;
+        }
+        break;
+      default:
+        return `unknown field '${key}'`;
+    }
+  }
+  return null;
+}
+
+/** Apply a validated partial update; returns the resulting settings */
+export function updateSeparationSettings(update: Partial<SeparationSettings>): SeparationSettings {
+  const stored: Record<string, unknown> = {};
+  for (const [rule, n] of Object.entries(update.minutes ?? {})) {
+    stored[MINUTES_KEYS[rule as SeparationRule]] = n;
+  }
+  if (update.relaxOrder) stored.separationRelaxOrder = update.relaxOrder;
+  updateSettings(stored);
+  return getSeparationSettings();
+}
+
+/** Longest look-back any enabled rule needs, in ms */
+export function separationWindowMs(settings: SeparationSettings): number {
+  return Math.max(0, ...Object.values(settings.minutes)) * 60_000;
+}
+
+/** Narrow `candidates` to those that clear the separation rules at `now`, relaxing as needed */
+export function separate(
+  history: PlayHistory,
+  candidates: Content[],
+  now: Date,
+  settings: SeparationSettings,
+): SeparationResult {
+  const { minutes, relaxOrder } = settings;
+  const rules = relaxOrder.filter((rule) => minutes[rule] > 0);
+  if (rules.length === 0 || candidates.length === 0) return { items: candidates, relaxed: [] };
+
+  // Everything aired within the longest window
+  const aired = history.airedBetween(new Date(now.getTime() - separationWindowMs(settings)), now);
+
+  // Per rule: attribute value → when it last aired
+  const lastAired = new Map<SeparationRule, Map<string, number>>();
+  for (const rule of rules) {
+    const seen = new Map<string, number>();
+    for (const { startedAt, item } of aired) {
+      const key = attributeOf(item, rule);
+      if (key !== null && startedAt.getTime() > (seen.get(key) ?? 0)) seen.set(key, startedAt.getTime());
+    }
+    lastAired.set(rule, seen);
+  }
+
+  const clears = (item: Content, rule: SeparationRule) => {
+    const key = attributeOf(item, rule);
+    const last = key !== null ? lastAired.get(rule)!.get(key) : undefined;
+    return last === undefined || now.getTime() - last >= minutes[rule] * 60_000;
+  };
+
+  for (let dropped = 0; dropped < rules.length; dropped++) {
+    const enforced = rules.slice(dropped);
+    const items = candidates.filter((item) => enforced.every((rule) => clears(item, rule)));
+    if (items.length > 0) return { items, relaxed: rules.slice(0, dropped) };
+  }
+  return { items: candidates, relaxed: rules };
+}
+
+/** The value a rule compares, or null if the item doesn't have one */
+function attributeOf(item: Content, rule: SeparationRule): string | null {
+  switch (rule) {
+    case 'track':
+      return variantGroupOf(item);
+    case 'title':
+      return normalize(item.title);
+    case 'story':
+      return normalize(item.metadata?.storyHeadline);
+    case 'genre':
+      return normalize(item.metadata?.genre);
+  }
+}
+
+function normalize(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim().toLowerCase() : null;
+}
@@ -0,0 +1,116 @@
+import { eq } from 'drizzle-orm';
+import type { BetterSQLite3Database } from 'drizzle-orm/better-sqlite3';
+import { getDb } from '../db/client.js';
+import { settings } from '../db/schema.js';
+
+// Default settings
+export const SETTINGS_DEFAULTS: Record<string, unknown> = {
+  language: 'en',
+  pollIntervalMs: 300000, // 5 minutes
+  // Unplayed songs: production starts below min and fills up to target
+  minBufferSize: 3,
+  targetBufferSize: 6,
+  // Unplayed podcast episodes: one is produced whenever the count drops below this
+  minPodcastBuffer: 1,
+  // Breaking news: keyword score and distinct outlets needed before the LLM check,
+  // at most one bulletin per interval, optionally held for operator confirmation
+  breakingNewsEnabled: true,
+  breakingNewsMinScore: 5,
+  breakingNewsMinSources: 2,
+  breakingNewsMinIntervalMinutes: 30,
+  breakingNewsRequireConfirm: false,
+  breakingNewsInterrupt: true,
+  breakingNewsStingerId: null, // content ID of a jingle played before the bulletin
+  // Ingest loudness normalization (EBU R128 integrated LUFS, true peak in dBTP)
+  loudnessTargetLufs: -14,
+  loudnessTruePeakDb: -1,
+  // Overlap between consecutive music tracks on air (0 = straight segue; speech always segues)
+  crossfadeSeconds: 3,
+  // Overlay template ID per content type (song, news_block, podcast, ad) or 'default'
+  overlayTemplateByType: {},
+  // Scrolling headline ticker along the bottom of the video; style and on/off
+  // apply at stream start, feeds (by name) and keywords (empty = all) at the next refresh
+  tickerEnabled: true,
+  tickerSpeed: 120, // pixels per second
+  tickerFontSize: 32,
+  tickerColor: '#ffffff',
+  tickerBackground: '#000000b3',
+  tickerFeeds: [],
+  tickerKeywords: [],
+  tickerMaxItems: 15,
+  // Audio visualizer per content type (or 'default'): none | waveform | spectrum | vectorscope.
+  // Opt-in: every mode assigned here runs in the encoder for the whole session
+  visualizerByType: {},
+  // Lyric captions for songs with stored lyrics; style applies at stream start
+  captionsEnabled: true,
+  captionPosition: 'bottom', // top | middle | bottom
+  captionStyle: 'box', // box | outline
+  captionFontSize: 44,
+  captionColor: '#ffffff',
+  captionBackground: '#00000099', // box fill or outline color
+  // Rotation separation: minimum minutes between airings of the same track (takes
+  // of one song count as one), title, story and genre; 0 turns a rule off. When no
+  // candidate meets them all, rules are dropped one at a time in relax order
+  separationTrackMinutes: 180,
+  separationTitleMinutes: 120,
+  separationStoryMinutes: 60,
+  separationGenreMinutes: 15,
+  separationRelaxOrder: ['genre', 'story', 'title', 'track'],
+  // What saving a schedule slot does about overlaps, unready content or a slot
+  // shorter than its content: reject | warn | shift (requests may pass onConflict)
+  scheduleConflictMode: 'warn',
+  ttsProvider: 'edge-tts',
+  ttsVoice: 'en-US-GuyNeural',
+  feeds: [
+    { name: 'BBC World', url: 'https://feeds.bbci.co.uk/news/world/rss.xml', enabled: true },
+    { name: 'Al Jazeera', url: 'https://www.aljazeera.com/xml/rss/all.xml', enabled: true },
+    { name: 'CNN World', url: 'http://rss.cnn.com/rss/cnn_world.rss', enabled: true },
+    { name: 'The Guardian', url: 'https://www.theguardian.com/world/rss', enabled: true },
+    { name: 'Deutsche Welle', url: 'https://rss.dw.com/rdf/rss-en-all', enabled: true },
+    { name: 'Google News War', url: 'https://news.google.com/rss/search?q=war+conflict+military&hl=en-US&gl=US&ceid=US:en', enabled: true },
+  ],
+  genres: [
+    { name: 'punk-rock', weight: 5, enabled: true },
+    { name: 'rap', weight: 5, enabled: true },
+    { name: 'folk', weight: 5, enabled: true },
+    { name: 'electronic', weight: 5, enabled: true },
+    { name: 'blues', weight: 3, enabled: true },
+    { name: 'country', weight: 3, enabled: true },
+  ],
+  warKeywords: [
+    'war', 'conflict', 'military', 'attack', 'bomb', 'troops', 'invasion',
+    'missile', 'airstrike', 'combat', 'battle', 'siege', 'ceasefire',
+    'casualties', 'artillery', 'drone strike', 'offensive', 'defense',
+    'frontline', 'occupation', 'insurgent', 'rebel', 'armed forces',
+  ],
+  youtubeChannel: 'https://www.youtube.com/@WarNewsRadio-q4k',
+};
+
+/** All settings: stored values over defaults */
+export function getSettings(db: BetterSQLite3Database<any> = getDb()): Record<string, unknown> {
+  const result = { ...SETTINGS_DEFAULTS };
+  for (const row of db.select().from(settings).all()) {
+    result[row.key] = row.value;
+  }
+  return result;
+}
+
+/** A single setting, falling back to its default */
+export function getSetting<T>(key: string, db: BetterSQLite3Database<any> = getDb()): T {
+  const row = db.select().from(settings).where(eq(settings.key, key)).get();
+  return (row ? row.value : SETTINGS_DEFAULTS[key]) as T;
+}
+
+/** Upsert the given keys and return the merged settings */
+export function updateSettings(
+  updates: Record<string, unknown>,
+  db: BetterSQLite3Database<any> = getDb(),
+): Record<string, unknown> {
+  for (const [key, value] of Object.entries(updates)) {
+    db.insert(settings)
+      .values({ key, value })
+      .onConflictDoUpdate({ target: settings.key, set: { value, updatedAt: new Date() } })
+      .run();
+  }
+  return getSettings(db);
+}
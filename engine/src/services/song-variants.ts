@@ -0,0 +1,108 @@
+import { eq, inArray, sql } from 'drizzle-orm';
+import type { BetterSQLite3Database } from 'drizzle-orm/better-sqlite3';
+import { content, playbackLog, type Content } from '../db/schema.js';
+import type { PlayHistory } from './play-history.js';
+
+/**
+ * Each Suno generation returns two takes of the same song. Both are kept as
+ * separate content rows linked by `metadata.variantGroupId` (the Suno task ID),
+ * labelled `metadata.variant` ('A', 'B'). An operator may mark one take
+ * `metadata.preferred`; otherwise rotation alternates between them.
+ */
+
+export interface VariantStats {
+  id: string;
+  title: string;
+  variant: string | null;
+  preferred: boolean;
+  status: Content['status'];
+  playCount: number;
+  lastPlayedAt: Date | null;
+}
+
+export function variantGroupOf(item: Pick<Content, 'id' | 'metadata'>): string {
+  const group = item.metadata?.variantGroupId;
+  return typeof group === 'string' ? group : item.id;
+}
+
+/** All takes in the item's group (just the item itself if it has no siblings) */
+export function getVariants(db: BetterSQLite3Database<any>, item: Content): Content[] {
+  const group = item.metadata?.variantGroupId;
+  if (typeof group !== 'string') return [item];
+
+  return db.select().from(content)
+    .where(sql`json_extract(${content.metadata}, '$.variantGroupId') = ${group}`)
+    .orderBy(sql`json_extract(${content.metadata}, '$.variant')`)
+    .all();
+}
+
+/** A/B airing stats for every take in the item's group */
+export function getVariantStats(db: BetterSQLite3Database<any>, item: Content): VariantStats[] {
+  const variants = getVariants(db, item);
+  const plays = db.select({
+    contentId: playbackLog.contentId,
+    count: sql<number>`count(*)`,
+    last: sql<number | null>`max(${playbackLog.startedAt})`,
+  })
+    .from(playbackLog)
+    .where(inArray(playbackLog.contentId, variants.map((v) => v.id)))
+    .groupBy(playbackLog.contentId)
+    .all();
+
+  return variants.map((v) => {
+    const played = plays.find((p) => p.contentId === v.id);
+    return {
+      id: v.id,
+      title: v.title,
+      variant: typeof v.metadata?.variant === 'string' ? v.metadata.variant : null,
+      preferred: v.metadata?.preferred === true,
+      status: v.status,
+      playCount: played?.count ?? 0,
+      // playback_log timestamps are stored as epoch seconds
+      lastPlayedAt: played?.last ? new Date(played.last * 1000) : null,
+    };
+  });
+}
+
+/**
+ * Make `preferredId` the take rotation always airs, or clear the preference
+ * (null) so rotation alternates again.
+ */
+export function setPreferredVariant(
+  db: BetterSQLite3Database<any>,
+  item: Content,
+  preferredId: string | null,
+): Content[] {
+  const variants = getVariants(db, item);
+  const now = new Date();
+
+  db.transaction((tx) => {
+    for (const v of variants) {
+      tx.update(content)
+        .set({ metadata: { ...v.metadata, preferred: v.id === preferredId }, updatedAt: now })
+        .where(eq(content.id, v.id))
+        .run();
+    }
+  });
+
+  return getVariants(db, item);
+}
+
+/**
+ * Collapse takes to one candidate per song: the preferred take if set,
+ * otherwise the least-aired one (so the alternate gets its turn).
+ */
+export function pickVariantPerGroup(history: PlayHistory, items: Content[]): Content[] {
+  const groups = new Map<string, Content[]>();
+  for (const item of items) {
+    const key = variantGroupOf(item);
+    groups.set(key, [...(groups.get(key) ?? []), item]);
+  }
+
+  return [...groups.values()].map((takes) => {
+    if (takes.length === 1) return takes[0];
+    const preferred = takes.find((t) => t.metadata?.preferred === true);
+    if (preferred) return preferred;
+    return takes.reduce((best, t) => (history.playCount(t.id) < history.playCount(best.id) ? t : best));
+  });
+}
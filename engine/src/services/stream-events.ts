@@ -0,0 +1,50 @@
+import { and, desc, eq, lt } from 'drizzle-orm';
+import { getDb } from '../db/client.js';
+import { streamEvents, type StreamEvent, type StreamEventType } from '../db/schema.js';
+import { logger } from '../utils/logger.js';
+
+/** Events older than this are pruned as new ones come in */
+const RETENTION_DAYS = 30;
+
+export interface StreamEventInput {
+  type: StreamEventType;
+  message: string;
+  outputId?: string | null;
+  outputName?: string | null;
+  details?: Record<string, unknown>;
+}
+
+/** Persist a stream health event; never throws, so a DB hiccup can't take the stream down */
+export function recordStreamEvent(event: StreamEventInput): StreamEvent | null {
+  try {
+    const db = getDb();
+    const saved = db.insert(streamEvents).values({
+      type: event.type,
+      message: event.message,
+      outputId: event.outputId ?? null,
+      outputName: event.outputName ?? null,
+      details: event.details ?? null,
+    }).returning().get();
+
+    const cutoff = new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    db.delete(streamEvents).where(lt(streamEvents.createdAt, cutoff)).run();
+    return saved;
+  } catch (err) {
+    logger.error({ err, event }, 'Failed to record stream event');
+    return null;
+  }
+}
+
+/** Most recent events first, optionally for one output */
+export function listStreamEvents(options: { limit: number; outputId?: string; type?: StreamEventType }): StreamEvent[] {
+  const filters = [
+    options.outputId ? eq(streamEvents.outputId, options.outputId) : undefined,
+    options.type ? eq(streamEvents.type, options.type) : undefined,
+  ].filter((f) => f !== undefined);
+
+  return getDb().select().from(streamEvents)
+    .where(filters.length > 0 ? and(...filters) : undefined)
+    .orderBy(desc(streamEvents.createdAt))
+    .limit(options.limit)
+    .all();
+}
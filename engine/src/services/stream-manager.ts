@@ -1,25 +1,72 @@
 import { spawn, type ChildProcess } from 'child_process';
-import { existsSync, readdirSync } from 'fs';
+import { existsSync } from 'fs';
 import path from 'path';
 import { EventEmitter } from 'events';
+import type { Readable } from 'stream';
 import { logger } from '../utils/logger.js';
 import { sleep } from '../utils/sleep.js';
 import { getConfig } from '../config.js';
-import type { AudioBufferEntry } from './pipeline.js';
-
-const YOUTUBE_RTMP_BASE = 'rtmp://a.rtmp.youtube.com/live2';
-
-// Video settings for YouTube Live
-const VIDEO_WIDTH = 1920;
-const VIDEO_HEIGHT = 1080;
+import { getSetting } from './settings-store.js';
+import {
+  PCM_BYTES_PER_FRAME,
+  PCM_BYTES_PER_SECOND,
+  PCM_INPUT_ARGS,
+  PcmDecoder,
+  applyFade,
+  mixPcm,
+} from './pcm-decoder.js';
+import { OutputPublisher, type OutputHealth } from './stream-outputs.js';
+import { getOverlay } from './overlay.js';
+import { getNewsTicker, getTickerSettings } from './news-ticker.js';
+import { getCaptionSettings, getLyricCaptions } from './lyric-captions.js';
+import { getVisualizer } from './visualizer.js';
+import { getBackgroundRotator } from './backgrounds.js';
+import { CANVAS_HEIGHT, CANVAS_WIDTH } from './overlay-templates.js';
+import { recordStreamEvent, type StreamEventInput } from './stream-events.js';
+import { DegradationWatch, ProgressReader, progressArgs, type ProgressMetrics } from './stream-telemetry.js';
+import type { Scheduler, ScheduledItem } from './scheduler.js';
+import type { StreamOutput } from '../db/schema.js';
+
+// Video settings for YouTube Live (the overlay is drawn at the same size)
+const VIDEO_WIDTH = CANVAS_WIDTH;
+const VIDEO_HEIGHT = CANVAS_HEIGHT;
 const VIDEO_FPS = 15;
 const VIDEO_BITRATE = '3000k';
 const AUDIO_BITRATE = '192k';
 const AUDIO_SAMPLE_RATE = 44100;
 
+/** How often PCM is pushed to the encoder */
+const PUMP_INTERVAL_MS = 20;
+
+/** How far ahead of real time the encoder is fed, to absorb timer jitter */
+const PCM_LEAD_MS = 500;
+
+/** Decoded audio kept ahead of playback beyond the crossfade itself */
+const DECODER_LOOKAHEAD_SECONDS = 3;
+
+/** Upper bound for the crossfadeSeconds setting */
+const MAX_CROSSFADE_SECONDS = 10;
+
+/** Speech segues (no overlap) even when crossfading is on */
+const SEGUE_TYPES = new Set(['news_block', 'podcast']);
+
+/** Fade applied when a track is cut short, so skips don't click */
+const SKIP_FADE_SECONDS = 0.3;
+
+/** Stop queueing PCM for an encoder that has fallen this far behind */
+const MAX_ENCODER_BACKLOG_SECONDS = 5;
+
+const ENCODER_RESTART_DELAY_MS = 5_000;
+const NOTHING_TO_PLAY_RETRY_MS = 10_000;
+
+/** MEDIA_DIR/background.png if present, else the bundled default */
+export function streamBackgroundImage(): string {
+  const custom = path.join(getConfig().MEDIA_DIR, 'background.png');
+  return existsSync(custom) ? custom : path.resolve('assets/background.png');
+}
+
 export interface StreamConfig {
-  rtmpUrl: string;
-  streamKey: string;
+  outputs: StreamOutput[]; // enabled destinations; change at runtime with setOutputs()
   backgroundImage?: string; // Path to background image (1920x1080)
 }
 
@@ -30,21 +77,74 @@ export interface StreamStatus {
   tracksPlayed: number;
   uptimeSeconds: number;
   errors: number;
+  encoder: EncoderHealth | null;
+  outputs: OutputHealth[];
+}
+
+export interface EncoderHealth {
+  metrics: ProgressMetrics | null;
+  /** Sustained slower-than-real-time encoding or dropped frames */
+  degraded: boolean;
+  /** ffmpeg error lines since the stream started */
+  errorLines: number;
+  lastError: string | null;
+}
+
+/** A track with its decoder, from the moment it's loaded until it's fully played */
+interface Deck {
+  item: ScheduledItem;
+  decoder: PcmDecoder;
+  announced: boolean;
+  /** Overlap with the previous track in bytes (0 = straight segue) */
+  crossfadeBytes: number;
 }
 
 /**
- * RTMP Stream Manager.
- * Takes audio files from the pipeline buffer, overlays track info
- * on a background image, and streams to YouTube Live via ffmpeg.
+ * Stream Manager.
+ * One long-lived ffmpeg encoder runs for the whole session; tracks are
+ * decoded separately and fed to it as raw PCM on stdin, so track changes
+ * never touch the outputs. Consecutive music tracks crossfade by the
+ * `crossfadeSeconds` setting; speech segues.
+ *
+ * The encoder writes MPEG-TS to stdout, which is fanned out to one
+ * OutputPublisher per destination (RTMP, Icecast, HLS), each failing and
+ * recovering on its own.
+ *
+ * The overlay is a PNG the encoder re-reads every frame (see Overlay), so it
+ * follows playout, operator changes and templates without a restart; so is
+ * the background, picked from the image library (see BackgroundRotator). Audio
+ * visualizers sit between the background and the overlay (see Visualizer);
+ * lyric captions and the headline ticker are drawn on top from text files
+ * drawtext reloads (see LyricCaptions, NewsTicker).
+ *
+ * The encoder and every publisher report ffmpeg `-progress` metrics; health
+ * changes are recorded in stream_events.
+ *
+ * Emits 'track-started' (ScheduledItem) as each track goes on air,
+ * 'metrics' (StreamStatus) on every encoder progress report and
+ * 'stream-event' (StreamEvent) for each recorded health event.
  */
 export class StreamManager extends EventEmitter {
-  private ffmpegProcess: ChildProcess | null = null;
+  private encoder: ChildProcess | null = null;
   private isStreaming = false;
   private startedAt: Date | null = null;
   private currentTrack: string | null = null;
   private tracksPlayed = 0;
   private errorCount = 0;
 
+  private scheduler: Scheduler | null = null;
+  private current: Deck | null = null;
+  private next: Deck | null = null;
+  private skipFadeBytes = 0;
+  private lastEmptyPickAt = 0;
+  private bytesWritten = 0;
+  private encoderStarts = 0;
+  private encoderMetrics: ProgressMetrics | null = null;
+  private encoderErrorLines = 0;
+  private encoderLastError: string | null = null;
+  private readonly encoderWatch = new DegradationWatch();
+  private readonly publishers = new Map<string, OutputPublisher>();
+
   private readonly config: StreamConfig;
 
   constructor(config: StreamConfig) {
@@ -62,265 +162,531 @@ export class StreamManager extends EventEmitter {
         ? Math.round((Date.now() - this.startedAt.getTime()) / 1000)
         : 0,
       errors: this.errorCount,
+      encoder: this.isStreaming
+        ? {
+          metrics: this.encoderMetrics,
+          degraded: this.encoderWatch.degraded,
+          errorLines: this.encoderErrorLines,
+          lastError: this.encoderLastError,
+        }
+        : null,
+      outputs: [...this.publishers.values()].map((p) => p.getHealth()),
     };
   }
 
   /**
-   * Start streaming. Takes a function that provides the next audio file.
+   * Replace the destination list. Unchanged outputs keep their connection;
+   * edited ones reconnect, removed or disabled ones stop.
+   */
+  setOutputs(outputs: StreamOutput[]): void {
+    this.config.outputs = outputs.filter((o) => o.enabled);
+    if (this.isStreaming) this.syncPublishers();
+  }
+
+  /**
+   * Start streaming from the scheduler (overrides, timeline slots, rotation).
    * Runs continuously until stop() is called.
    */
-  async startStreaming(
-    getNextTrack: () => AudioBufferEntry | null,
-  ): Promise<void> {
+  async startStreaming(scheduler: Scheduler): Promise<void> {
     if (this.isStreaming) {
       logger.warn('Stream already running');
       return;
     }
 
-    if (!this.config.streamKey) {
-      throw new Error('YOUTUBE_STREAM_KEY not configured. Set it in .env file.');
-    }
-
     this.isStreaming = true;
     this.startedAt = new Date();
     this.tracksPlayed = 0;
     this.errorCount = 0;
+    this.scheduler = scheduler;
+    this.bytesWritten = 0;
+    this.encoderStarts = 0;
+    this.encoderMetrics = null;
+    this.encoderErrorLines = 0;
+    this.encoderLastError = null;
 
     logger.info(
-      { rtmpUrl: this.config.rtmpUrl },
-      'Starting YouTube Live stream',
+      { outputs: this.config.outputs.map((o) => o.name) },
+      'Starting stream',
     );
+    this.recordEvent({
+      type: 'stream_started',
+      message: 'Stream started',
+      details: { outputs: this.config.outputs.map((o) => o.name) },
+    });
 
-    // Stream loop: play tracks one after another
-    while (this.isStreaming) {
-      const track = getNextTrack();
-
-      if (!track) {
-        logger.warn('No tracks in buffer — waiting 10s');
-        this.currentTrack = null;
-        await sleep(10_000);
-        continue;
-      }
-
-      if (!existsSync(track.filePath)) {
-        logger.error({ filePath: track.filePath }, 'Track file not found, skipping');
-        continue;
-      }
-
-      this.currentTrack = track.title;
-      this.tracksPlayed++;
-
-      const m = new Date().getMinutes();
-      const slot = m >= 50 ? 'podcast' : m >= 45 ? 'news' : 'songs';
+    // The encoder reads the overlay frame from its first frame on
+    const overlay = getOverlay();
+    overlay.setLive(true);
+    overlay.setTrack(null);
+    await overlay.flush();
+    if (getTickerSettings().enabled) {
+      await getNewsTicker().start().catch((err) => logger.error({ err }, 'Failed to start news ticker'));
+    }
+    await getLyricCaptions().clear();
+    await getVisualizer().setContentType(null);
+    await getBackgroundRotator().start(this.config.backgroundImage ?? null);
+    if (!this.isStreaming) return;
 
-      logger.info(
-        { title: track.title, type: track.type, track: this.tracksPlayed, slot },
-        'Streaming track',
-      );
+    this.syncPublishers();
+    this.spawnEncoder();
 
-      try {
-        await this.streamSingleTrack(track);
-      } catch (err) {
-        this.errorCount++;
-        logger.error({ err, title: track.title }, 'Track streaming error');
+    // Playout clock: PCM goes out at real time whether or not the encoder is
+    // up, so a publisher restart doesn't shift the schedule
+    const clockStart = Date.now();
+    while (this.isStreaming) {
+      const due = Math.floor(((Date.now() - clockStart + PCM_LEAD_MS) / 1000) * PCM_BYTES_PER_SECOND);
+      const owed = due - this.bytesWritten;
+      const bytes = owed - (owed % PCM_BYTES_PER_FRAME);
 
-        // Wait before retrying to avoid rapid failure loop
-        if (this.isStreaming) {
-          await sleep(5_000);
-        }
+      if (bytes > 0) {
+        this.writeToEncoder(this.render(bytes));
+        this.bytesWritten += bytes;
       }
+      await sleep(PUMP_INTERVAL_MS);
     }
 
     this.currentTrack = null;
     logger.info('Stream stopped');
   }
 
+  /**
+   * Cut the current track short; playout moves straight on to whatever the
+   * scheduler picks next (e.g. an urgent override).
+   */
+  skip(): void {
+    if (!this.current) return;
+    logger.info({ title: this.currentTrack }, 'Skipping current track');
+
+    // A track lined up before the skip was asked for yields to whatever the
+    // scheduler picks now (an override would have been picked already)
+    if (this.next && !this.next.announced && this.next.item.source !== 'override') {
+      this.next.decoder.close();
+      this.next = null;
+    }
+    this.skipFadeBytes = Math.round(SKIP_FADE_SECONDS * PCM_BYTES_PER_SECOND);
+  }
+
   stop(): void {
     this.isStreaming = false;
-    this.killFfmpeg();
+    this.current?.decoder.close();
+    this.next?.decoder.close();
+    this.current = null;
+    this.next = null;
+    this.killEncoder();
+    for (const publisher of this.publishers.values()) publisher.stop();
+    this.publishers.clear();
+    getOverlay().setLive(false);
+    getNewsTicker().stop();
+    getLyricCaptions().setTrack(null);
+    getBackgroundRotator().stop();
+    this.recordEvent({ type: 'stream_stopped', message: 'Stream stopped', details: { tracksPlayed: this.tracksPlayed } });
     logger.info('Stream manager stopped');
   }
 
   // ---------------------------------------------------------------------------
-  // Private: ffmpeg streaming
+  // Private: playout
   // ---------------------------------------------------------------------------
 
+  /** Exactly `bytes` of program audio; silence wherever nothing is available */
+  private render(bytes: number): Buffer {
+    const out = Buffer.alloc(bytes);
+    let filled = 0;
+
+    while (filled < bytes) {
+      if (!this.current) {
+        this.current = this.loadNext();
+        if (!this.current) break;
+      }
+
+      const deck = this.current;
+      const want = bytes - filled;
+
+      if (this.skipFadeBytes > 0) {
+        const chunk = deck.decoder.take(Math.min(want, this.skipFadeBytes));
+        if (chunk.length > 0) {
+          const total = Math.round(SKIP_FADE_SECONDS * PCM_BYTES_PER_SECOND);
+          applyFade(chunk, this.skipFadeBytes / total, (this.skipFadeBytes - chunk.length) / total);
+          chunk.copy(out, filled);
+          filled += chunk.length;
+          this.skipFadeBytes -= chunk.length;
+        }
+        if (this.skipFadeBytes <= 0 || (chunk.length === 0 && deck.decoder.exhausted)) {
+          this.skipFadeBytes = 0;
+          this.finishCurrent();
+        } else if (chunk.length === 0) {
+          break;
+        }
+        continue;
+      }
+
+      // Once decoding is done, what's buffered is the rest of the track:
+      // line up the next one while there's still time to start its decoder
+      if (deck.decoder.finished && !this.next) {
+        this.next = this.loadNext(deck);
+      }
+
+      const next = this.next;
+      const remaining = deck.decoder.buffered;
+
+      if (next && next.crossfadeBytes > 0 && remaining > 0 && remaining <= next.crossfadeBytes) {
+        // Overlap: fade the outgoing track down while the incoming one comes up
+        const size = Math.min(want, remaining);
+        const outgoing = deck.decoder.take(size);
+        const incoming = next.decoder.take(outgoing.length);
+        const progress = 1 - remaining / next.crossfadeBytes;
+        const step = outgoing.length / next.crossfadeBytes;
+        applyFade(outgoing, 1 - progress, 1 - progress - step);
+        applyFade(incoming, progress, progress + step);
+        this.announce(next);
+        mixPcm(outgoing, incoming).copy(out, filled);
+        filled += outgoing.length;
+        continue;
+      }
+
+      const chunk = deck.decoder.take(want);
+      chunk.copy(out, filled);
+      filled += chunk.length;
+
+      if (deck.decoder.exhausted) {
+        this.finishCurrent();
+      } else if (chunk.length === 0) {
+        // Decoder underrun: pad with silence and pick up on the next pump
+        break;
+      }
+    }
+
+    return out;
+  }
+
+  /** Drop the current deck and promote the next one (if loaded) */
+  private finishCurrent(): void {
+    this.current?.decoder.close();
+    this.current = this.next;
+    this.next = null;
+    if (this.current) this.announce(this.current);
+  }
+
   /**
-   * Stream a single audio track to YouTube with a visual overlay.
-   * Returns when the track finishes playing.
+   * Ask the scheduler for the next playable track and start decoding it.
+   * With `previous`, the result follows that track (crossfade decided here);
+   * without, it's needed right away and goes on air immediately.
    */
-  private streamSingleTrack(track: AudioBufferEntry): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const rtmpTarget = `${this.config.rtmpUrl}/${this.config.streamKey}`;
-      const fontPath = getConfig().FONT_PATH;
-
-      // Build the overlay text
-      const genre = (track.metadata?.genre as string) || track.type;
-      const headline = (track.metadata?.storyHeadline as string) || '';
-      const nowPlayingText = this.escapeFFmpegText(track.title);
-      const genreText = this.escapeFFmpegText(genre.toUpperCase());
-      const headlineText = headline
-        ? this.escapeFFmpegText(headline)
-        : '';
-      const timeText = '%{localtime\\:%H\\:%M}';
-
-      // Build filter: background + text overlays
-      const bgImage = this.config.backgroundImage && existsSync(this.config.backgroundImage)
-        ? this.config.backgroundImage
-        : null;
+  private loadNext(previous?: Deck): Deck | null {
+    if (!this.scheduler) return null;
+    if (Date.now() - this.lastEmptyPickAt < NOTHING_TO_PLAY_RETRY_MS) return null;
+
+    const crossfadeSeconds = Math.min(
+      MAX_CROSSFADE_SECONDS,
+      Math.max(0, Number(getSetting<number>('crossfadeSeconds')) || 0),
+    );
+
+    // A few attempts so one missing file doesn't stall playout
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const item = this.scheduler.getNextItem();
+
+      if (!item) {
+        if (!previous) {
+          logger.warn('Scheduler has nothing to play — waiting 10s');
+          this.currentTrack = null;
+          getOverlay().setTrack(null);
+          getLyricCaptions().setTrack(null);
+          void getVisualizer().setContentType(null);
+          void getBackgroundRotator().setTrack(null);
+        }
+        break;
+      }
 
-      const filterParts: string[] = [];
+      if (!existsSync(item.filePath)) {
+        logger.error({ filePath: item.filePath }, 'Track file not found, skipping');
+        continue;
+      }
 
-      if (bgImage) {
-        // Use provided background image
-        filterParts.push(
-          `[1:v]scale=${VIDEO_WIDTH}:${VIDEO_HEIGHT}[bg]`,
-        );
+      const overlap = previous
+        && !SEGUE_TYPES.has(previous.item.contentType)
+        && !SEGUE_TYPES.has(item.contentType)
+        ? Math.min(crossfadeSeconds * PCM_BYTES_PER_SECOND, previous.decoder.buffered)
+        : 0;
+
+      const deck: Deck = {
+        item,
+        decoder: new PcmDecoder(item.filePath, crossfadeSeconds + DECODER_LOOKAHEAD_SECONDS),
+        announced: false,
+        crossfadeBytes: overlap - (overlap % PCM_BYTES_PER_FRAME),
+      };
+      if (previous) {
+        getOverlay().setNextUp(item.title);
       } else {
-        // Generate solid dark background
-        filterParts.push(
-          `color=c=0x0a0a0a:s=${VIDEO_WIDTH}x${VIDEO_HEIGHT}:r=${VIDEO_FPS}[bg]`,
-        );
+        this.announce(deck);
       }
+      return deck;
+    }
 
-      const f = `fontfile=${fontPath}`;
+    this.lastEmptyPickAt = Date.now();
+    return null;
+  }
 
-      // LIVE badge (top-right)
-      filterParts.push(
-        `[bg]drawtext=text='LIVE':fontcolor=red:fontsize=36:x=${VIDEO_WIDTH - 150}:y=30:${f}[v1]`,
-      );
+  /** Mark a deck as on air: playback log, overlay, 'track-started' */
+  private announce(deck: Deck): void {
+    if (deck.announced) return;
+    deck.announced = true;
+
+    const track = deck.item;
+    this.scheduler?.logPlayback(track);
+    this.currentTrack = track.title;
+    this.tracksPlayed++;
+    const overlay = getOverlay();
+    overlay.setTrack(track);
+    // Queued overrides are the only picks known in advance
+    overlay.setNextUp(this.scheduler?.getOverrideQueue()[0]?.title ?? null);
+    // The track's first PCM was just rendered; it reaches the encoder about a lead later
+    getLyricCaptions().setTrack(track, PCM_LEAD_MS);
+    void getVisualizer().setContentType(track.contentType);
+    void getBackgroundRotator().setTrack(track);
+    this.emit('track-started', track);
 
-      // Station name (top-left)
-      filterParts.push(
-        `[v1]drawtext=text='RadioWar':fontcolor=white:fontsize=48:x=60:y=30:${f}[v2]`,
-      );
+    logger.info(
+      {
+        title: track.title,
+        type: track.contentType,
+        track: this.tracksPlayed,
+        source: track.source,
+        crossfadeSeconds: deck.crossfadeBytes / PCM_BYTES_PER_SECOND,
+      },
+      'Streaming track',
+    );
+  }
 
-      // Clock (top-right, below LIVE)
-      filterParts.push(
-        `[v2]drawtext=text='${timeText}':fontcolor=white@0.7:fontsize=28:x=${VIDEO_WIDTH - 160}:y=75:${f}[v3]`,
-      );
+  // ---------------------------------------------------------------------------
+  // Private: ffmpeg encoder
+  // ---------------------------------------------------------------------------
 
-      // Now Playing label
-      filterParts.push(
-        `[v3]drawtext=text='NOW PLAYING':fontcolor=0xaaaaaa:fontsize=24:x=60:y=${VIDEO_HEIGHT - 220}:${f}[v4]`,
-      );
+  /** Encode PCM from stdin plus the visual overlay to MPEG-TS on stdout until stop() */
+  private spawnEncoder(): void {
+    // The rotator's frame when it could prepare one, else the configured image as is
+    const backgroundFrame = getBackgroundRotator().framePath;
+    const bgImage = existsSync(backgroundFrame)
+      ? backgroundFrame
+      : this.config.backgroundImage && existsSync(this.config.backgroundImage)
+        ? this.config.backgroundImage
+        : null;
+    const overlayFrame = getOverlay().framePath;
+    const hasOverlay = existsSync(overlayFrame);
+    if (!hasOverlay) logger.warn('Overlay frame missing, streaming without overlay');
+
+    // Build ffmpeg command
+    const args: string[] = [
+      '-hide_banner', '-loglevel', 'error',
+      ...progressArgs(3),
+
+      // Program audio: raw PCM written by the playout clock
+      ...PCM_INPUT_ARGS,
+      '-i', 'pipe:0',
+    ];
+
+    const filterParts: string[] = [];
+    let nextInput = 1;
+
+    if (bgImage) {
+      // Background image input; image2 re-reads it every frame, like the overlay
+      args.push('-f', 'image2', '-loop', '1', '-framerate', String(VIDEO_FPS), '-i', bgImage);
+      filterParts.push(`[${nextInput++}:v]scale=${VIDEO_WIDTH}:${VIDEO_HEIGHT}[bg]`);
+    } else {
+      // Generate solid dark background
+      filterParts.push(`color=c=0x0a0a0a:s=${VIDEO_WIDTH}x${VIDEO_HEIGHT}:r=${VIDEO_FPS}[bg]`);
+    }
 
-      // Song title (big)
-      filterParts.push(
-        `[v4]drawtext=text='${nowPlayingText}':fontcolor=white:fontsize=56:x=60:y=${VIDEO_HEIGHT - 180}:${f}[v5]`,
+    // Audio visualizers between the background and the overlay, driven by the program audio
+    let background = 'bg';
+    let audioMap = '0:a';
+    const visualizerModes = getVisualizer().modesInUse();
+    if (visualizerModes.length > 0) {
+      const visualizer = getVisualizer().graph(
+        visualizerModes,
+        { audio: '0:a', audioOut: 'aout', background: 'bg', output: 'bgvis' },
+        nextInput,
+        VIDEO_FPS,
       );
+      args.push(...visualizer.inputs);
+      filterParts.push(...visualizer.filters);
+      nextInput += visualizerModes.length;
+      background = 'bgvis';
+      audioMap = '[aout]';
+    }
 
-      // Genre badge
-      filterParts.push(
-        `[v5]drawtext=text='${genreText}':fontcolor=0x8b5cf6:fontsize=28:x=60:y=${VIDEO_HEIGHT - 110}:${f}[v6]`,
-      );
+    const ticker = getNewsTicker();
+    const showTicker = getTickerSettings().enabled && existsSync(ticker.textPath);
+    const captions = getLyricCaptions();
+    const showCaptions = getCaptionSettings().enabled && existsSync(captions.textPath);
+    // Layers after the overlay each take the previous one's output
+    const layers: ((input: string, output: string) => string)[] = [];
+    if (showCaptions) layers.push((input, output) => captions.filter(input, output));
+    if (showTicker) layers.push((input, output) => ticker.filter(input, output));
+    const overlayOut = layers.length > 0 ? 'l0' : 'vout';
+
+    if (hasOverlay) {
+      // image2 reopens the file for every frame, so a re-rendered overlay shows up at once
+      args.push('-f', 'image2', '-loop', '1', '-framerate', String(VIDEO_FPS), '-i', overlayFrame);
+      filterParts.push(`[${background}][${nextInput++}:v]overlay=0:0[${overlayOut}]`);
+    } else {
+      filterParts.push(`[${background}]null[${overlayOut}]`);
+    }
 
-      // Headline ticker (if available)
-      if (headlineText) {
-        filterParts.push(
-          `[v6]drawtext=text='${headlineText}':fontcolor=0xfbbf24:fontsize=22:x=60:y=${VIDEO_HEIGHT - 70}:${f}[vout]`,
-        );
-      } else {
-        filterParts.push(`[v6]copy[vout]`);
-      }
+    for (const [i, layer] of layers.entries()) {
+      filterParts.push(layer(`l${i}`, i === layers.length - 1 ? 'vout' : `l${i + 1}`));
+    }
 
-      const filterComplex = filterParts.join(';');
+    const filterComplex = filterParts.join(';');
+
+    args.push(
+      // Filter
+      '-filter_complex', filterComplex,
+      '-map', '[vout]',
+      '-map', audioMap,
+
+      // Video encoding
+      '-c:v', 'libx264',
+      '-preset', 'ultrafast',
+      '-tune', 'stillimage',
+      '-b:v', VIDEO_BITRATE,
+      '-pix_fmt', 'yuv420p',
+      '-r', String(VIDEO_FPS),
+      '-g', String(VIDEO_FPS * 2), // Keyframe interval
+
+      // Audio encoding
+      '-c:a', 'aac',
+      '-b:a', AUDIO_BITRATE,
+      '-ar', String(AUDIO_SAMPLE_RATE),
+
+      // Output: one program for every publisher
+      '-f', 'mpegts',
+      'pipe:1',
+    );
 
-      // Build ffmpeg command
-      const args: string[] = [
-        '-re', // Read input at native frame rate
+    const proc = spawn('ffmpeg', args, {
+      // fd 3 carries -progress reports
+      stdio: ['pipe', 'pipe', 'pipe', 'pipe'],
+    });
+    this.encoder = proc;
+    this.encoderWatch.reset();
 
-        // Audio input
-        '-i', track.filePath,
-      ];
+    // Timestamps start over with a new encoder; publishers reconnect to match
+    if (this.encoderStarts++ > 0) {
+      for (const publisher of this.publishers.values()) publisher.restart();
+    }
 
-      if (bgImage) {
-        // Background image input
-        args.push('-loop', '1', '-i', bgImage);
-      }
+    proc.stdout?.on('data', (chunk: Buffer) => {
+      for (const publisher of this.publishers.values()) publisher.write(chunk);
+    });
 
-      args.push(
-        // Filter
-        '-filter_complex', filterComplex,
-        '-map', '[vout]',
-        '-map', '0:a',
-
-        // Video encoding
-        '-c:v', 'libx264',
-        '-preset', 'ultrafast',
-        '-tune', 'stillimage',
-        '-b:v', VIDEO_BITRATE,
-        '-pix_fmt', 'yuv420p',
-        '-r', String(VIDEO_FPS),
-        '-g', String(VIDEO_FPS * 2), // Keyframe interval
-
-        // Audio encoding
-        '-c:a', 'aac',
-        '-b:a', AUDIO_BITRATE,
-        '-ar', String(AUDIO_SAMPLE_RATE),
-
-        // Output
-        '-f', 'flv',
-        '-shortest', // Stop when audio ends
-        rtmpTarget,
-      );
+    const progress = new ProgressReader((metrics) => {
+      if (this.encoder !== proc) return;
+      this.onEncoderProgress(metrics);
+    });
+    (proc.stdio[3] as Readable | null)?.on('data', (chunk: Buffer) => progress.feed(chunk));
+
+    // At -loglevel error, everything on stderr is an error
+    let stderr = '';
+    proc.stderr?.on('data', (chunk: Buffer) => {
+      const text = chunk.toString();
+      stderr = (stderr + text).slice(-2000);
+      const lines = text.split('\n').map((l) => l.trim()).filter(Boolean);
+      if (lines.length === 0) return;
+      this.encoderErrorLines += lines.length;
+      this.encoderLastError = lines[lines.length - 1];
+      logger.error({ ffmpegError: text.trim() }, 'ffmpeg error');
+    });
 
-      this.ffmpegProcess = spawn('ffmpeg', args, {
-        stdio: ['ignore', 'pipe', 'pipe'],
+    // The pipe breaks when ffmpeg dies; 'close' handles the restart
+    proc.stdin?.on('error', () => undefined);
+
+    proc.on('close', (code) => {
+      if (this.encoder === proc) this.encoder = null;
+      if (!this.isStreaming) return;
+
+      // Log last 500 chars of stderr for debugging
+      this.errorCount++;
+      const lastStderr = stderr.slice(-500).trim();
+      logger.error({ code, lastStderr }, 'Stream encoder exited, restarting');
+      this.recordEvent({
+        type: 'encoder_restarted',
+        message: `Stream encoder exited with code ${code}`,
+        details: { code, lastStderr },
       });
+      setTimeout(() => {
+        if (this.isStreaming && !this.encoder) this.spawnEncoder();
+      }, ENCODER_RESTART_DELAY_MS);
+    });
 
-      let stderr = '';
+    proc.on('error', (err) => {
+      logger.error({ err }, 'Failed to spawn stream encoder');
+    });
+  }
 
-      this.ffmpegProcess.stderr?.on('data', (chunk: Buffer) => {
-        stderr += chunk.toString();
-        // Only log errors, not progress
-        const text = chunk.toString();
-        if (text.includes('Error') || text.includes('error')) {
-          logger.error({ ffmpegError: text.trim() }, 'ffmpeg error');
-        }
-      });
+  private onEncoderProgress(metrics: ProgressMetrics): void {
+    this.encoderMetrics = metrics;
 
-      this.ffmpegProcess.on('close', (code) => {
-        this.ffmpegProcess = null;
-
-        if (code === 0 || code === null || code === 255) {
-          resolve();
-        } else if (code === 9 || code === 15) {
-          // Killed by signal — expected on stop
-          resolve();
-        } else {
-          // Log last 500 chars of stderr for debugging
-          const lastStderr = stderr.slice(-500).trim();
-          logger.error({ code, lastStderr }, 'ffmpeg failed');
-          reject(new Error(`ffmpeg exited with code ${code}: ${lastStderr}`));
-        }
+    const change = this.encoderWatch.update(metrics);
+    if (change === 'degraded') {
+      this.recordEvent({
+        type: 'encoder_degraded',
+        message: 'Stream encoder is falling behind real time',
+        details: { speed: metrics.speed, fps: metrics.fps, dropFrames: metrics.dropFrames },
       });
-
-      this.ffmpegProcess.on('error', (err) => {
-        this.ffmpegProcess = null;
-        reject(err);
+    } else if (change === 'recovered') {
+      this.recordEvent({
+        type: 'encoder_recovered',
+        message: 'Stream encoder is keeping up again',
+        details: { speed: metrics.speed },
       });
-    });
+    }
+
+    this.emit('metrics', this.getStatus());
+  }
+
+  private recordEvent(event: StreamEventInput): void {
+    const saved = recordStreamEvent(event);
+    if (saved) this.emit('stream-event', saved);
   }
 
-  private killFfmpeg(): void {
-    if (this.ffmpegProcess) {
-      this.ffmpegProcess.kill('SIGTERM');
-      this.ffmpegProcess = null;
+  /** Start, restart or stop publishers to match config.outputs */
+  private syncPublishers(): void {
+    const wanted = new Map(this.config.outputs.map((o) => [o.id, o]));
+
+    for (const [id, publisher] of this.publishers) {
+      const output = wanted.get(id);
+      if (!output || output.updatedAt.getTime() !== publisher.output.updatedAt.getTime()) {
+        publisher.stop();
+        this.publishers.delete(id);
+      }
+    }
+
+    for (const output of wanted.values()) {
+      if (this.publishers.has(output.id)) continue;
+      const publisher = new OutputPublisher(output);
+      publisher.on('event', (event: StreamEventInput) => this.recordEvent(event));
+      this.publishers.set(output.id, publisher);
+      publisher.start();
+      logger.info({ output: output.name, type: output.type }, 'Stream output started');
     }
   }
 
-  /**
-   * Escape text for ffmpeg drawtext filter (single-quoted text='...' mode).
-   * Even in single-quoted mode, ':' is a key-value separator and must be escaped.
-   * We replace ' with Unicode typographic apostrophe to avoid breaking quotes.
-   */
-  private escapeFFmpegText(text: string): string {
-    return text
-      .replace(/\\/g, '\\\\')
-      .replace(/'/g, '\u2019')   // ' → ' (typographic apostrophe, safe in quotes)
-      .replace(/:/g, '\\:')     // : is key-value separator even in quoted mode
-      .replace(/%/g, '%%')      // % needs doubling for drawtext expansion
-      .replace(/;/g, '\\;');    // ; is filter separator
+  private writeToEncoder(pcm: Buffer): void {
+    const stdin = this.encoder?.stdin;
+    if (!stdin || !stdin.writable) return;
+
+    // A stalled publisher shouldn't make us buffer audio without bound
+    if (stdin.writableLength > MAX_ENCODER_BACKLOG_SECONDS * PCM_BYTES_PER_SECOND) {
+      logger.warn('Stream encoder is falling behind, dropping audio');
+      return;
+    }
+    stdin.write(pcm);
+  }
+
+  private killEncoder(): void {
+    if (this.encoder) {
+      this.encoder.stdin?.end();
+      this.encoder.kill('SIGTERM');
+      this.encoder = null;
+    }
   }
 }
@@ -0,0 +1,398 @@
+import { spawn, type ChildProcess } from 'child_process';
+import { EventEmitter } from 'events';
+import { mkdirSync } from 'fs';
+import path from 'path';
+import { getConfig } from '../config.js';
+import { logger } from '../utils/logger.js';
+import type { StreamOutput } from '../db/schema.js';
+import type { StreamEventInput } from './stream-events.js';
+import { DegradationWatch, ProgressReader, progressArgs, type ProgressMetrics } from './stream-telemetry.js';
+
+export const OUTPUT_TYPES: StreamOutput['type'][] = ['rtmp', 'icecast', 'hls'];
+
+/** Icecast is audio-only: the program audio is re-encoded to MP3 for it */
+const ICECAST_BITRATE = '128k';
+
+/** HLS segment length and how many stay in the rolling playlist */
+const HLS_SEGMENT_SECONDS = 4;
+const HLS_PLAYLIST_SIZE = 6;
+export const HLS_PLAYLIST_NAME = 'index.m3u8';
+export const HLS_SEGMENT_PATTERN = /^segment-\d+\.ts$/;
+
+/** Id of the built-in HLS output that backs the engine's /live endpoint */
+export const LIVE_HLS_OUTPUT_ID = 'live-hls';
+
+/** An output that stays up this long counts as live */
+const LIVE_AFTER_MS = 5_000;
+
+/** Retry delay after a failure, doubling up to the max while failures continue */
+const RESTART_MIN_DELAY_MS = 5_000;
+const RESTART_MAX_DELAY_MS = 60_000;
+
+/** Consecutive failures on one ingest before switching to the other (rtmp with a backup url) */
+const FAILOVER_AFTER_FAILURES = 3;
+
+/** Stop queueing data for a publisher whose destination isn't keeping up */
+const MAX_BACKLOG_BYTES = 8 * 1024 * 1024;
+
+export type OutputState = 'connecting' | 'live' | 'down' | 'stopped';
+
+export interface OutputHealth {
+  id: string;
+  name: string;
+  type: StreamOutput['type'];
+  state: OutputState;
+  since: Date;
+  restarts: number;
+  bytesSent: number;
+  bytesDropped: number;
+  lastError: string | null;
+  /** Which ingest is in use; always 'primary' without a backup url */
+  target: 'primary' | 'backup';
+  failovers: number;
+  degraded: boolean;
+  metrics: ProgressMetrics | null;
+}
+
+export interface OutputBody {
+  name?: string;
+  type?: StreamOutput['type'];
+  url?: string;
+  backupUrl?: string | null;
+  streamKey?: string | null;
+  username?: string | null;
+  password?: string | null;
+  enabled?: boolean;
+}
+
+/**
+ * Check an output from an API body (for updates, merged over the stored row).
+ * Returns an error message, or null if valid.
+ */
+export function validateOutput(body: OutputBody): string | null {
+  if (typeof body.name !== 'string' || !body.name.trim()) return 'name is required';
+  if (!OUTPUT_TYPES.includes(body.type!)) return `type must be one of: ${OUTPUT_TYPES.join(', ')}`;
+  if (typeof body.url !== 'string' || !body.url.trim()) return 'url is required';
+  if (body.enabled !== undefined && typeof body.enabled !== 'boolean') return 'enabled must be a boolean';
+
+  const scheme = body.url.split(':')[0];
+  if (body.type === 'rtmp' && scheme !== 'rtmp' && scheme !== 'rtmps') {
+    return 'rtmp outputs need an rtmp:// or rtmps:// url';
+  }
+  if (body.backupUrl) {
+    if (body.type !== 'rtmp') return 'only rtmp outputs can have a backupUrl';
+    if (!/^rtmps?:\/\//.test(body.backupUrl)) return 'backupUrl must be an rtmp:// or rtmps:// url';
+  }
+  if (body.type === 'icecast' && scheme !== 'icecast') {
+    return 'icecast outputs need an icecast://host:port/mount url';
+  }
+  if (body.type === 'hls' && !body.url.startsWith('/')) {
+    return 'hls outputs need an absolute directory path as url';
+  }
+  return null;
+}
+
+/** Output with credentials masked, for API responses */
+export function redactOutput(output: StreamOutput): StreamOutput {
+  return {
+    ...output,
+    streamKey: output.streamKey ? '••••' : null,
+    password: output.password ? '••••' : null,
+  };
+}
+
+/**
+ * The engine's own HLS output. It isn't stored in stream_outputs: it runs
+ * whenever the stream does, so the dashboard can always listen in.
+ */
+export function liveHlsOutput(): StreamOutput {
+  return {
+    id: LIVE_HLS_OUTPUT_ID,
+    name: 'Built-in HLS',
+    type: 'hls',
+    url: path.resolve(getConfig().LIVE_HLS_DIR),
+    backupUrl: null,
+    streamKey: null,
+    username: null,
+    password: null,
+    enabled: true,
+    // Fixed so syncing never sees it as edited
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+  };
+}
+
+/**
+ * Republishes the encoder's MPEG-TS program to one destination. Each output
+ * runs its own ffmpeg, so a failing destination restarts on its own backoff
+ * while the others keep going.
+ *
+ * An rtmp output with a backup url switches ingest after repeated failures
+ * or sustained degradation (falling behind real time, dropping data), and
+ * switches back the same way if the backup misbehaves too.
+ *
+ * Emits 'event' (StreamEventInput) for failures, recoveries and failovers.
+ */
+export class OutputPublisher extends EventEmitter {
+  private proc: ChildProcess | null = null;
+  private restartTimer: NodeJS.Timeout | null = null;
+  private liveTimer: NodeJS.Timeout | null = null;
+  private restartDelay = RESTART_MIN_DELAY_MS;
+  private consecutiveFailures = 0;
+  private stopped = false;
+  private readonly watch = new DegradationWatch();
+  private health: OutputHealth;
+
+  constructor(readonly output: StreamOutput) {
+    super();
+    this.health = {
+      id: output.id,
+      name: output.name,
+      type: output.type,
+      state: 'connecting',
+      since: new Date(),
+      restarts: 0,
+      bytesSent: 0,
+      bytesDropped: 0,
+      lastError: null,
+      target: 'primary',
+      failovers: 0,
+      degraded: false,
+      metrics: null,
+    };
+  }
+
+  getHealth(): OutputHealth {
+    return { ...this.health, degraded: this.watch.degraded };
+  }
+
+  start(): void {
+    this.stopped = false;
+    this.spawn();
+  }
+
+  /** Forward a chunk of the program; dropped (and counted) while the output is down or backed up */
+  write(chunk: Buffer): void {
+    const stdin = this.proc?.stdin;
+    if (!stdin || !stdin.writable || stdin.writableLength > MAX_BACKLOG_BYTES) {
+      this.health.bytesDropped += chunk.length;
+      return;
+    }
+    stdin.write(chunk);
+    this.health.bytesSent += chunk.length;
+  }
+
+  /** Reconnect from scratch, e.g. after the encoder restarted and timestamps reset */
+  restart(): void {
+    if (this.stopped) return;
+    this.clearTimers();
+    const proc = this.proc;
+    this.proc = null;
+    proc?.kill('SIGTERM');
+    this.spawn();
+  }
+
+  stop(): void {
+    this.stopped = true;
+    this.clearTimers();
+    this.proc?.stdin?.end();
+    this.proc?.kill('SIGTERM');
+    this.proc = null;
+    this.setState('stopped');
+  }
+
+  private spawn(): void {
+    this.setState('connecting');
+
+    let outputArgs: string[];
+    try {
+      outputArgs = this.outputArgs();
+    } catch (err) {
+      this.fail(err instanceof Error ? err.message : String(err));
+      return;
+    }
+
+    const proc = spawn('ffmpeg', [
+      '-hide_banner', '-loglevel', 'error',
+      ...progressArgs(1),
+      '-f', 'mpegts',
+      '-i', 'pipe:0',
+      ...outputArgs,
+    ], { stdio: ['pipe', 'pipe', 'pipe'] });
+    this.proc = proc;
+    this.watch.reset();
+
+    const progress = new ProgressReader((metrics) => {
+      if (this.proc !== proc) return;
+      this.health.metrics = metrics;
+      this.onProgress(metrics);
+    });
+    proc.stdout?.on('data', (chunk: Buffer) => progress.feed(chunk));
+
+    let stderr = '';
+    proc.stderr?.on('data', (chunk: Buffer) => {
+      stderr = (stderr + chunk.toString()).slice(-2000);
+    });
+    proc.stdin?.on('error', () => undefined);
+
+    this.liveTimer = setTimeout(() => {
+      if (this.proc !== proc) return;
+      this.setState('live');
+      this.restartDelay = RESTART_MIN_DELAY_MS;
+      if (this.consecutiveFailures > 0) {
+        this.emitEvent('output_recovered', `${this.output.name} is live again`, {
+          failures: this.consecutiveFailures,
+          target: this.health.target,
+        });
+      }
+      this.consecutiveFailures = 0;
+    }, LIVE_AFTER_MS);
+
+    proc.on('close', (code) => {
+      if (this.proc !== proc) return; // replaced by restart() or stop()
+      this.proc = null;
+      this.fail(stderr.trim().slice(-500) || `ffmpeg exited with code ${code}`);
+    });
+
+    proc.on('error', (err) => {
+      this.health.lastError = err.message;
+    });
+  }
+
+  private onProgress(metrics: ProgressMetrics): void {
+    const change = this.watch.update(metrics, this.health.bytesDropped);
+    if (change === 'recovered') {
+      this.emitEvent('output_recovered', `${this.output.name} is keeping up again`, { speed: metrics.speed });
+      return;
+    }
+    if (change !== 'degraded') return;
+
+    this.emitEvent('output_degraded', `${this.output.name} has been falling behind`, {
+      speed: metrics.speed,
+      bitrateKbps: metrics.bitrateKbps,
+      bytesDropped: this.health.bytesDropped,
+      target: this.health.target,
+    });
+    if (this.output.backupUrl) {
+      this.failover('degraded');
+      this.restart();
+    }
+  }
+
+  /** Mark the output down and retry on backoff */
+  private fail(message: string): void {
+    this.clearTimers();
+    this.health.lastError = message;
+    this.setState('down');
+    this.consecutiveFailures++;
+    logger.error(
+      { output: this.output.name, type: this.output.type, retryInMs: this.restartDelay, lastError: message },
+      'Stream output failed',
+    );
+
+    if (this.consecutiveFailures === 1) {
+      this.emitEvent('output_down', `${this.output.name} went down`, { error: message, target: this.health.target });
+    }
+    if (this.output.backupUrl && this.consecutiveFailures >= FAILOVER_AFTER_FAILURES) {
+      this.failover('failures');
+      // The other ingest gets a prompt first attempt
+      this.consecutiveFailures = 0;
+      this.restartDelay = RESTART_MIN_DELAY_MS;
+    }
+
+    this.restartTimer = setTimeout(() => {
+      this.restartTimer = null;
+      if (this.stopped) return;
+      this.health.restarts++;
+      this.spawn();
+    }, this.restartDelay);
+    this.restartDelay = Math.min(this.restartDelay * 2, RESTART_MAX_DELAY_MS);
+  }
+
+  /** Switch between the primary and backup ingest */
+  private failover(reason: 'failures' | 'degraded'): void {
+    const from = this.health.target;
+    const to = from === 'primary' ? 'backup' : 'primary';
+    this.health.target = to;
+    this.health.failovers++;
+    logger.warn({ output: this.output.name, from, to, reason }, 'Stream output failing over');
+    this.emitEvent('failover', `${this.output.name} switched to its ${to} ingest`, { from, to, reason });
+  }
+
+  private emitEvent(type: StreamEventInput['type'], message: string, details: Record<string, unknown>): void {
+    const event: StreamEventInput = {
+      type,
+      message,
+      outputId: this.output.id,
+      outputName: this.output.name,
+      details,
+    };
+    this.emit('event', event);
+  }
+
+  private outputArgs(): string[] {
+    const { type, streamKey, username, password } = this.output;
+    const url = this.health.target === 'backup' && this.output.backupUrl ? this.output.backupUrl : this.output.url;
+
+    switch (type) {
+      case 'rtmp':
+        return [
+          '-map', '0',
+          '-c', 'copy',
+          '-bsf:a', 'aac_adtstoasc',
+          '-f', 'flv',
+          streamKey ? withStreamKey(url, streamKey) : url,
+        ];
+
+      case 'icecast': {
+        const target = new URL(url);
+        target.username = username ?? 'source';
+        target.password = password ?? '';
+        return [
+          '-map', '0:a',
+          '-c:a', 'libmp3lame',
+          '-b:a', ICECAST_BITRATE,
+          '-content_type', 'audio/mpeg',
+          '-ice_name', this.output.name,
+          '-f', 'mp3',
+          target.toString(),
+        ];
+      }
+
+      case 'hls':
+        mkdirSync(url, { recursive: true });
+        return [
+          '-map', '0',
+          '-c', 'copy',
+          '-f', 'hls',
+          '-hls_time', String(HLS_SEGMENT_SECONDS),
+          '-hls_list_size', String(HLS_PLAYLIST_SIZE),
+          '-hls_flags', 'delete_segments+independent_segments',
+          // Numbering from the epoch keeps segment names unique across restarts,
+          // so players and caches never mistake a new segment for an old one
+          '-hls_start_number_source', 'epoch',
+          '-hls_segment_filename', path.join(url, 'segment-%05d.ts'),
+          path.join(url, HLS_PLAYLIST_NAME),
+        ];
+    }
+  }
+
+  private setState(state: OutputState): void {
+    if (this.health.state === state) return;
+    this.health.state = state;
+    this.health.since = new Date();
+  }
+
+  private clearTimers(): void {
+    if (this.restartTimer) clearTimeout(this.restartTimer);
+    if (this.liveTimer) clearTimeout(this.liveTimer);
+    this.restartTimer = null;
+    this.liveTimer = null;
+  }
+}
+
+/** Append the key to the ingest path, keeping any query (YouTube backup ingest uses `?backup=1`) */
+function withStreamKey(url: string, streamKey: string): string {
+  const [base, query] = url.split('?', 2);
+  return `${base.replace(/\/$/, '')}/${streamKey}${query ? `?${query}` : ''}`;
+}
@@ -0,0 +1,125 @@
+/** Seconds between ffmpeg progress reports */
+export const PROGRESS_PERIOD_SECONDS = 2;
+
+/** ffmpeg flags that write machine-readable progress to the given pipe */
+export function progressArgs(fd: number): string[] {
+  return ['-nostats', '-progress', `pipe:${fd}`, '-stats_period', String(PROGRESS_PERIOD_SECONDS)];
+}
+
+/** Below this encode speed the process can't keep up with real time */
+const MIN_HEALTHY_SPEED = 0.9;
+
+/** How long degradation has to last before it counts */
+export const DEGRADED_AFTER_MS = 30_000;
+
+/** One `-progress` report from ffmpeg (null where ffmpeg reported N/A) */
+export interface ProgressMetrics {
+  frame: number | null;
+  fps: number | null;
+  bitrateKbps: number | null;
+  totalBytes: number | null;
+  outTimeSeconds: number | null;
+  dupFrames: number;
+  dropFrames: number;
+  speed: number | null;
+  updatedAt: Date;
+}
+
+/**
+ * Splits ffmpeg's `-progress` stream (key=value lines, each report closed
+ * by a `progress=` line) into parsed reports.
+ */
+export class ProgressReader {
+  private partial = '';
+  private fields: Record<string, string> = {};
+
+  constructor(private readonly onReport: (metrics: ProgressMetrics) => void) {}
+
+  feed(chunk: Buffer | string): void {
+    const lines = (this.partial + chunk.toString()).split('\n');
+    this.partial = lines.pop() ?? '';
+
+    for (const line of lines) {
+      const eq = line.indexOf('=');
+      if (eq < 0) continue;
+      const key = line.slice(0, eq).trim();
+      const value = line.slice(eq + 1).trim();
+
+      if (key === 'progress') {
+        this.onReport(parseProgress(this.fields));
+        this.fields = {};
+      } else {
+        this.fields[key] = value;
+      }
+    }
+  }
+}
+
+function parseProgress(fields: Record<string, string>): ProgressMetrics {
+  // out_time_ms is in microseconds too (a long-standing ffmpeg quirk)
+  const outTimeUs = toNumber(fields.out_time_us ?? fields.out_time_ms);
+  return {
+    frame: toNumber(fields.frame),
+    fps: toNumber(fields.fps),
+    bitrateKbps: toNumber(fields.bitrate?.replace('kbits/s', '')),
+    totalBytes: toNumber(fields.total_size),
+    outTimeSeconds: outTimeUs === null ? null : outTimeUs / 1_000_000,
+    dupFrames: toNumber(fields.dup_frames) ?? 0,
+    dropFrames: toNumber(fields.drop_frames) ?? 0,
+    speed: toNumber(fields.speed?.replace('x', '')),
+    updatedAt: new Date(),
+  };
+}
+
+/**
+ * Tracks whether a process has been degraded (running slower than real
+ * time, or dropping frames) for longer than DEGRADED_AFTER_MS.
+ * A single bad report doesn't count; one healthy report clears it.
+ */
+export class DegradationWatch {
+  private since: number | null = null;
+  private lastDropFrames = 0;
+  private lastDroppedBytes = 0;
+  private sustained = false;
+
+  get degraded(): boolean {
+    return this.sustained;
+  }
+
+  /**
+   * Feed the latest report (and, for publishers, the running count of bytes
+   * dropped on the way in). Returns 'degraded' or 'recovered' on a change.
+   */
+  update(metrics: ProgressMetrics, droppedBytes = 0): 'degraded' | 'recovered' | null {
+    const newDrops = metrics.dropFrames > this.lastDropFrames || droppedBytes > this.lastDroppedBytes;
+    this.lastDropFrames = metrics.dropFrames;
+    this.lastDroppedBytes = droppedBytes;
+
+    const bad = newDrops || (metrics.speed !== null && metrics.speed < MIN_HEALTHY_SPEED);
+    if (!bad) {
+      this.since = null;
+      if (!this.sustained) return null;
+      this.sustained = false;
+      return 'recovered';
+    }
+
+    this.since ??= Date.now();
+    if (this.sustained || Date.now() - this.since < DEGRADED_AFTER_MS) return null;
+    this.sustained = true;
+    return 'degraded';
+  }
+
+  /** Start over, e.g. after the process restarted and its counters reset */
+  reset(): void {
+    this.since = null;
+    this.lastDropFrames = 0;
+    this.lastDroppedBytes = 0;
+    this.sustained = false;
+  }
+}
+
+function toNumber(value: string | undefined): number | null {
+  if (value === undefined) return null;
+  const n = parseFloat(value);
+  return Number.isFinite(n) ? n : null;
+}
@@ -3,6 +3,8 @@ import { promises as fs } from 'fs';
 import path from 'path';
 import { logger } from '../utils/logger.js';
 import { withRetry } from '../utils/retry.js';
+import { isFakeMode } from '../config.js';
+import { renderSpeech } from '../fakes/audio.js';
 
 const DEFAULT_VOICE = 'en-US-GuyNeural';
 const MIN_OUTPUT_SIZE_BYTES = 1024; // 1 KB minimum for a valid audio file
@@ -12,6 +14,7 @@ const MIN_OUTPUT_SIZE_BYTES = 1024; // 1 KB minimum for a valid audio file
  *
  * Installation: pip install edge-tts  (provides `edge-tts` binary)
  * If the CLI is not available, this service will throw with a clear error.
+ * With PROVIDER_MODE=fake, speech is rendered locally (espeak or a tone).
  */
 export class TtsService {
   private readonly voice: string;
@@ -40,10 +43,14 @@ export class TtsService {
       'Generating TTS speech',
     );
 
-    await withRetry(
-      () => this.runEdgeTts(text, resolvedPath, voice),
-      { maxAttempts: 3, baseDelay: 1000, label: 'tts-generation' },
-    );
+    if (isFakeMode()) {
+      await renderSpeech(text, resolvedPath);
+    } else {
+      await withRetry(
+        () => this.runEdgeTts(text, resolvedPath, voice),
+        { maxAttempts: 3, baseDelay: 1000, label: 'tts-generation' },
+      );
+    }
 
     // Validate output
     await this.validateOutput(resolvedPath);
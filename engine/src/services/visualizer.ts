@@ -0,0 +1,211 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { logger } from '../utils/logger.js';
+import { getSetting, updateSettings } from './settings-store.js';
+import { CANVAS_HEIGHT, CANVAS_WIDTH } from './overlay-templates.js';
+
+export const VISUALIZER_MODES = ['none', 'waveform', 'spectrum', 'vectorscope'] as const;
+export type VisualizerMode = typeof VISUALIZER_MODES[number];
+
+/** Content types a mode can be assigned to; 'default' covers the rest */
+const ASSIGNABLE_TYPES = ['song', 'podcast', 'news_block', 'ad', 'jingle', 'default'];
+
+/** Masks are tiny and scaled up; only black or white matters */
+const MASK_SIZE = 16;
+
+interface ModeLayout {
+  width: number;
+  height: number;
+  x: number;
+  y: number;
+  /** Audio → RGBA video at the stream frame rate; transparent where there's no signal */
+  source: (fps: number) => string;
+}
+
+// Sized as a band across the middle (a square for the vectorscope) so the
+// analysis stays cheap next to the 1080p encode
+const BAND_HEIGHT = 360;
+const SCOPE_SIZE = 480;
+
+const LAYOUTS: Record<Exclude<VisualizerMode, 'none'>, ModeLayout> = {
+  waveform: {
+    width: CANVAS_WIDTH,
+    height: BAND_HEIGHT,
+    x: 0,
+    y: (CANVAS_HEIGHT - BAND_HEIGHT) / 2,
+    source: (fps) => `showwaves=s=${CANVAS_WIDTH}x${BAND_HEIGHT}:mode=cline:rate=${fps}:scale=sqrt:colors=0x8b5cf6,format=rgba`,
+  },
+  spectrum: {
+    width: CANVAS_WIDTH,
+    height: BAND_HEIGHT,
+    x: 0,
+    y: (CANVAS_HEIGHT - BAND_HEIGHT) / 2,
+    source: (fps) => `showspectrum=s=${CANVAS_WIDTH}x${BAND_HEIGHT}:slide=scroll:mode=combined:color=intensity:scale=cbrt,`
+      + `fps=${fps},format=rgba,colorkey=0x000000:0.08:0.2`,
+  },
+  vectorscope: {
+    width: SCOPE_SIZE,
+    height: SCOPE_SIZE,
+    x: (CANVAS_WIDTH - SCOPE_SIZE) / 2,
+    y: (CANVAS_HEIGHT - SCOPE_SIZE) / 2,
+    source: (fps) => `avectorscope=s=${SCOPE_SIZE}x${SCOPE_SIZE}:rate=${fps}:draw=line:zoom=1.5,format=rgba,colorkey=0x000000:0.08:0.2`,
+  },
+};
+
+/** The mode configured per content type, defaulting to the 'default' entry */
+export function visualizerModeFor(contentType: string | null): VisualizerMode {
+  const assignments = getVisualizerAssignments();
+  return (contentType ? assignments[contentType] : undefined) ?? assignments.default ?? 'none';
+}
+
+export function getVisualizerAssignments(): Record<string, VisualizerMode> {
+  const stored = getSetting<Record<string, unknown>>('visualizerByType') ?? {};
+  const assignments: Record<string, VisualizerMode> = {};
+  for (const [type, mode] of Object.entries(stored)) {
+    if ((VISUALIZER_MODES as readonly unknown[]).includes(mode)) assignments[type] = mode as VisualizerMode;
+  }
+  return assignments;
+}
+
+/**
+ * Check a partial assignment update from an API body: content type → mode,
+ * or null to fall back to the default. Returns an error message, or null if valid.
+ */
+export function validateVisualizerUpdate(body: Record<string, unknown>): string | null {
+  for (const [type, mode] of Object.entries(body)) {
+    if (!ASSIGNABLE_TYPES.includes(type)) {
+      return `unknown content type '${type}'; expected one of: ${ASSIGNABLE_TYPES.join(', ')}`;
+    }
+    if (mode !== null && !(VISUALIZER_MODES as readonly unknown[]).includes(mode)) {
+      return `${type}: mode must be one of: ${VISUALIZER_MODES.join(', ')}`;
+    }
+  }
+  return null;
+}
+
+export function updateVisualizerAssignments(update: Record<string, VisualizerMode | null>): Record<string, VisualizerMode> {
+  const assignments: Record<string, VisualizerMode | undefined> = { ...getVisualizerAssignments() };
+  for (const [type, mode] of Object.entries(update)) {
+    if (mode === null) delete assignments[type];
+    else assignments[type] = mode;
+  }
+  updateSettings({ visualizerByType: assignments });
+  return getVisualizerAssignments();
+}
+
+/**
+ * Audio visualizer behind the overlay, chosen per content type.
+ *
+ * Every mode assigned to some content type runs in the encoder for the
+ * whole session, each gated by a mask image the encoder re-reads every
+ * frame: white shows that mode, black hides it. Switching mode at a track
+ * change is a mask swap, so the encoder never restarts. Modes assigned
+ * while streaming join at the next stream start.
+ */
+export class Visualizer {
+  private readonly dir = path.join(os.tmpdir(), 'radiowar-overlay');
+  private contentType: string | null = null;
+  private active: VisualizerMode = 'none';
+  private writing: Promise<void> = Promise.resolve();
+
+  getState(): { active: VisualizerMode; assignments: Record<string, VisualizerMode> } {
+    return { active: this.active, assignments: getVisualizerAssignments() };
+  }
+
+  /** Modes to build into the encoder graph */
+  modesInUse(): Exclude<VisualizerMode, 'none'>[] {
+    const modes = new Set(Object.values(getVisualizerAssignments()));
+    return VISUALIZER_MODES.filter((m): m is Exclude<VisualizerMode, 'none'> => m !== 'none' && modes.has(m));
+  }
+
+  maskPath(mode: VisualizerMode): string {
+    return path.join(this.dir, `visualizer-${mode}.pgm`);
+  }
+
+  /** Show the mode for `contentType` (null: nothing on air); resolves once the masks are written */
+  setContentType(contentType: string | null): Promise<void> {
+    this.contentType = contentType;
+    this.active = visualizerModeFor(contentType);
+    const active = this.active;
+    this.writing = this.writing.then(() => this.writeMasks(active));
+    return this.writing;
+  }
+
+  /** Re-apply assignments to what's on air now */
+  refresh(): Promise<void> {
+    return this.setContentType(this.contentType);
+  }
+
+  /**
+   * Inputs and filter-graph steps drawing the visualizers for `modes` over
+   * `[background]` into `[output]`. The program audio `[audio]` is split for
+   * analysis; the untouched copy comes out as `[audioOut]`. Mask inputs are
+   * numbered from `firstInput`.
+   */
+  graph(
+    modes: Exclude<VisualizerMode, 'none'>[],
+    labels: { audio: string; audioOut: string; background: string; output: string },
+    firstInput: number,
+    fps: number,
+  ): { inputs: string[]; filters: string[] } {
+    const inputs: string[] = [];
+    const filters: string[] = [
+      `[${labels.audio}]asplit=${modes.length + 1}[${labels.audioOut}]${modes.map((m) => `[va_${m}]`).join('')}`,
+    ];
+
+    let last = labels.background;
+    for (const [i, mode] of modes.entries()) {
+      const layout = LAYOUTS[mode];
+      inputs.push('-f', 'image2', '-loop', '1', '-framerate', String(fps), '-i', this.maskPath(mode));
+
+      // The mask scales the visualizer's own alpha, so transparent areas stay transparent
+      filters.push(
+        `[va_${mode}]${layout.source(fps)},split[vc_${mode}][vs_${mode}]`,
+        `[vs_${mode}]alphaextract[valpha_${mode}]`,
+        `[${firstInput + i}:v]scale=${layout.width}:${layout.height}:flags=neighbor,format=gray[vmask_${mode}]`,
+        `[valpha_${mode}][vmask_${mode}]blend=all_mode=multiply[vgate_${mode}]`,
+        `[vc_${mode}][vgate_${mode}]alphamerge[vis_${mode}]`,
+      );
+      const out = i === modes.length - 1 ? labels.output : `vbg_${mode}`;
+      filters.push(`[${last}][vis_${mode}]overlay=x=${layout.x}:y=${layout.y}[${out}]`);
+      last = out;
+    }
+    return { inputs, filters };
+  }
+
+  private async writeMasks(active: VisualizerMode): Promise<void> {
+    try {
+      await fs.mkdir(this.dir, { recursive: true });
+      for (const mode of VISUALIZER_MODES) {
+        if (mode === 'none') continue;
+        // Written beside the target and renamed, so the encoder never reads a partial image
+        const tmpPath = `${this.maskPath(mode)}.next`;
+        await fs.writeFile(tmpPath, mask(mode === active));
+        await fs.rename(tmpPath, this.maskPath(mode));
+      }
+      logger.debug({ active }, 'Visualizer mode set');
+    } catch (err) {
+      logger.error({ err }, 'Failed to write visualizer masks');
+    }
+  }
+}
+
+/** An all-white (shown) or all-black (hidden) binary PGM */
+function mask(shown: boolean): Buffer {
+  const header = Buffer.from(`P5\n${MASK_SIZE} ${MASK_SIZE}\n255\n`, 'ascii');
+  return Buffer.concat([header, Buffer.alloc(MASK_SIZE * MASK_SIZE, shown ? 255 : 0)]);
+}
+
+// ---------------------------------------------------------------------------
+// Singleton
+// ---------------------------------------------------------------------------
+
+let _visualizer: Visualizer | null = null;
+
+export function getVisualizer(): Visualizer {
+  if (!_visualizer) {
+    _visualizer = new Visualizer();
+  }
+  return _visualizer;
+}
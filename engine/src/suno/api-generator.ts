@@ -1,11 +1,22 @@
 import { logger } from '../utils/logger.js';
 import { sleep } from '../utils/sleep.js';
-import { getConfig } from '../config.js';
+import crypto from 'crypto';
+import os from 'os';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { getConfig, isFakeMode } from '../config.js';
+import { getCostLedger } from '../services/cost-ledger.js';
+import { renderTone } from '../fakes/audio.js';
 
 const API_BASE = 'https://api.sunoapi.org';
 const POLL_INTERVAL_MS = 10_000;
 const GENERATION_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes
 
+/** PROVIDER_MODE=fake: task IDs carry this prefix and resolve to local tone renders */
+const FAKE_TASK_PREFIX = 'fake-';
+const FAKE_SONG_SECONDS = 30;
+const FAKE_CREDITS = 1000;
+
 export interface SunoApiInput {
   style: string;
   lyrics: string;
@@ -19,6 +30,13 @@ export interface SunoApiResult {
   duration: number;
 }
 
+/** A sung word with its timing in the rendered song */
+export interface AlignedWord {
+  word: string;
+  start: number; // seconds
+  end: number;
+}
+
 export class SunoApiGenerationError extends Error {
   constructor(message: string) {
     super(message);
@@ -29,17 +47,24 @@ export class SunoApiGenerationError extends Error {
 /**
  * Generate songs via sunoapi.org REST API.
  * Each call produces 2 songs. No browser, no captcha.
+ * With PROVIDER_MODE=fake, no key is needed and songs are synthetic tones.
  */
 export class SunoApiGenerator {
   private readonly apiKey: string;
   private readonly model: string;
+  private readonly fake: boolean;
+  /** Titles of submitted fake tasks, so renders are named and pitched per song */
+  private readonly fakeTitles = new Map<string, string>();
+  /** Real submissions run one at a time, so each balance change is one task's cost */
+  private submitQueue: Promise<unknown> = Promise.resolve();
 
   constructor() {
     const config = getConfig();
-    if (!config.SUNO_API_KEY) {
+    this.fake = isFakeMode();
+    if (!config.SUNO_API_KEY && !this.fake) {
       throw new Error('SUNO_API_KEY not configured. Get one at https://sunoapi.org/api-key');
     }
-    this.apiKey = config.SUNO_API_KEY;
+    this.apiKey = config.SUNO_API_KEY ?? '';
     this.model = config.SUNO_API_MODEL;
   }
 
@@ -47,20 +72,46 @@ export class SunoApiGenerator {
    * Generate a song with custom lyrics and style.
    * Returns up to 2 results (API always generates a pair).
    */
-  async generate(input: SunoApiInput): Promise<SunoApiResult[]> {
+  async generate(input: SunoApiInput, purpose = 'song'): Promise<SunoApiResult[]> {
     logger.info({ title: input.title, model: this.model }, 'Starting Suno API generation');
 
     // Step 1: Submit generation request
-    const taskId = await this.submitGeneration(input);
-    logger.info({ taskId, title: input.title }, 'Generation task submitted');
+    const taskId = await this.submit(input, purpose);
 
     // Step 2: Poll for completion
-    const results = await this.pollForCompletion(taskId);
+    return this.waitForResults(taskId);
+  }
+
+  /**
+   * Submit a generation task and return its ID without waiting.
+   * Callers that persist the task ID can later resume with waitForResults().
+   * Credits are charged on submission, so this is where the cost is recorded:
+   * the drop in the account balance across the submission.
+   */
+  async submit(input: SunoApiInput, purpose = 'song'): Promise<string> {
+    if (this.fake) {
+      const taskId = `${FAKE_TASK_PREFIX}${crypto.randomUUID()}`;
+      this.fakeTitles.set(taskId, input.title);
+      logger.info({ taskId, title: input.title }, 'Fake generation task submitted');
+      return taskId;
+    }
+
+    const submitted = this.submitQueue.then(() => this.submitMetered(input, purpose));
+    this.submitQueue = submitted.catch(() => undefined);
+    return submitted;
+  }
+
+  /**
+   * Poll a previously submitted task until its songs are ready.
+   */
+  async waitForResults(taskId: string): Promise<SunoApiResult[]> {
+    const results = taskId.startsWith(FAKE_TASK_PREFIX)
+      ? await this.renderFakeResults(taskId)
+      : await this.pollForCompletion(taskId);
     logger.info(
       { taskId, count: results.length, titles: results.map(r => r.title) },
       'Suno API generation complete',
     );
-
     return results;
   }
 
@@ -68,10 +119,84 @@ export class SunoApiGenerator {
    * Check remaining credits on the account.
    */
   async getCredits(): Promise<number> {
+    if (this.fake) return FAKE_CREDITS;
     const res = await this.apiCall('GET', '/api/v1/generate/credit');
     return res.data?.credits ?? res.data?.remainingCredits ?? res.data ?? 0;
   }
 
+  /**
+   * Word-level timing of the lyrics as sung in one clip of a finished task.
+   * Returns null when the API has no alignment for it (or in fake mode);
+   * callers fall back to estimated timing.
+   */
+  async getTimestampedLyrics(taskId: string, clipId: string): Promise<AlignedWord[] | null> {
+    if (this.fake || taskId.startsWith(FAKE_TASK_PREFIX)) return null;
+
+    try {
+      const res = await this.apiCall('POST', '/api/v1/generate/get-timestamped-lyrics', {
+        taskId,
+        audioId: clipId,
+      });
+      const words: any[] = res.data?.alignedWords ?? [];
+      if (res.code !== 200 || words.length === 0) return null;
+      return words
+        .filter((w) => typeof w.word === 'string' && Number.isFinite(w.startS) && Number.isFinite(w.endS))
+        .map((w) => ({ word: w.word, start: w.startS, end: w.endS }));
+    } catch (err) {
+      logger.warn({ err, taskId, clipId }, 'Timestamped lyrics unavailable');
+      return null;
+    }
+  }
+
+  /** Render the pair of songs for a fake task as local tone MP3s */
+  private async renderFakeResults(taskId: string): Promise<SunoApiResult[]> {
+    const title = this.fakeTitles.get(taskId) ?? taskId;
+    this.fakeTitles.delete(taskId);
+
+    const dir = path.join(os.tmpdir(), 'radiowar-fake-suno');
+    const results: SunoApiResult[] = [];
+    for (let i = 0; i < 2; i++) {
+      const clipId = `${taskId}-${i}`;
+      const filePath = path.join(dir, `${clipId}.mp3`);
+      await renderTone(filePath, { seconds: FAKE_SONG_SECONDS, seed: `${title}#${i}` });
+      results.push({
+        clipId,
+        audioUrl: pathToFileURL(filePath).href,
+        title,
+        duration: FAKE_SONG_SECONDS,
+      });
+    }
+    return results;
+  }
+
+  /**
+   * Submit with the balance read on either side. When the balance can't be
+   * read or hasn't moved yet, the ledger falls back to the configured
+   * per-task estimate.
+   */
+  private async submitMetered(input: SunoApiInput, purpose: string): Promise<string> {
+    const before = await this.readCredits();
+    const taskId = await this.submitGeneration(input);
+    logger.info({ taskId, title: input.title }, 'Generation task submitted');
+
+    const after = await this.readCredits();
+    if (after !== null) getCostLedger().setSunoCredits(after);
+    const credits = before !== null && after !== null && before > after ? before - after : undefined;
+    getCostLedger().recordSunoTask({ taskId, model: this.model, purpose, credits });
+    return taskId;
+  }
+
+  /** Current balance, or null if the API didn't give a usable one */
+  private async readCredits(): Promise<number | null> {
+    try {
+      const credits = await this.getCredits();
+      return typeof credits === 'number' && Number.isFinite(credits) ? credits : null;
+    } catch (err) {
+      logger.warn({ err }, 'Could not read Suno credit balance');
+      return null;
+    }
+  }
+
   private async submitGeneration(input: SunoApiInput): Promise<string> {
     const body = {
       customMode: true,
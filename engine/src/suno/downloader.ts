@@ -1,5 +1,7 @@
 import { promises as fs } from 'fs';
 import path from 'path';
+import { fileURLToPath } from 'url';
+import { isFakeMode } from '../config.js';
 import { logger } from '../utils/logger.js';
 import { withRetry } from '../utils/retry.js';
 
@@ -20,6 +22,13 @@ export async function downloadAudio(
   audioUrl: string,
   outputPath: string,
 ): Promise<void> {
+  const protocol = URL.canParse(audioUrl) ? new URL(audioUrl).protocol : null;
+  // Fake providers hand back local renders; a live provider only ever gets fetched
+  const allowed = isFakeMode() ? ['http:', 'https:', 'file:'] : ['http:', 'https:'];
+  if (!protocol || !allowed.includes(protocol)) {
+    throw new DownloadError(`Refusing to download from ${audioUrl}`);
+  }
+
   const resolvedPath = path.resolve(outputPath);
   await fs.mkdir(path.dirname(resolvedPath), { recursive: true });
 
@@ -37,6 +46,11 @@ export async function downloadAudio(
 }
 
 async function fetchToFile(url: string, outputPath: string): Promise<void> {
+  if (url.startsWith('file://')) {
+    await fs.copyFile(fileURLToPath(url), outputPath);
+    return;
+  }
+
   const response = await fetch(url, {
     headers: {
       'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36',
@@ -1,6 +1,8 @@
 import Anthropic from '@anthropic-ai/sdk';
-import { getConfig } from '../config.js';
+import { getConfig, isFakeMode } from '../config.js';
 import { logger } from './logger.js';
+import { getCostLedger } from '../services/cost-ledger.js';
+import { fakeClaudeResponse } from '../fakes/llm.js';
 
 const DEFAULT_TIMEOUT_MS = 180_000; // 3 minutes per call
 const DEFAULT_MAX_TOKENS = 8192;
@@ -10,6 +12,8 @@ export interface ClaudeCliOptions {
   systemPrompt?: string;
   /** Timeout in ms (default 180s) */
   timeout?: number;
+  /** What the call is for — recorded in the cost ledger (e.g. 'lyrics') */
+  purpose?: string;
 }
 
 let _client: Anthropic | null = null;
@@ -36,10 +40,15 @@ export async function callClaudeCli(
   userPrompt: string,
   options: ClaudeCliOptions = {},
 ): Promise<string> {
-  const { systemPrompt, timeout = DEFAULT_TIMEOUT_MS } = options;
+  const { systemPrompt, timeout = DEFAULT_TIMEOUT_MS, purpose = 'other' } = options;
   const config = getConfig();
   const model = config.AI_MODEL;
 
+  if (isFakeMode()) {
+    logger.debug({ purpose, promptLength: userPrompt.length }, 'Returning fake Claude response');
+    return fakeClaudeResponse(userPrompt, purpose);
+  }
+
   logger.debug({ model, promptLength: userPrompt.length }, 'Calling Anthropic API');
 
   const client = getClient();
@@ -72,5 +81,12 @@ export async function callClaudeCli(
     'Anthropic API response received',
   );
 
+  getCostLedger().recordLlmCall({
+    model,
+    inputTokens: message.usage.input_tokens,
+    outputTokens: message.usage.output_tokens,
+    purpose,
+  });
+
   return text;
 }
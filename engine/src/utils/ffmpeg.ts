@@ -0,0 +1,36 @@
+import { spawn } from 'child_process';
+
+/** ffmpeg isn't installed or couldn't be started, so nothing could be done */
+export class FfmpegUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FfmpegUnavailableError';
+  }
+}
+
+/**
+ * Run ffmpeg to completion and resolve with its stderr, where it writes
+ * progress and filter reports. A non-zero exit rejects with the tail of
+ * that output; failing to start at all rejects with FfmpegUnavailableError.
+ */
+export function runFfmpeg(args: string[]): Promise<string> {
+  return new Promise<string>((resolve, reject) => {
+    const proc = spawn('ffmpeg', args, { stdio: ['ignore', 'ignore', 'pipe'] });
+
+    const stderr: string[] = [];
+    proc.stderr.on('data', (chunk: Buffer) => stderr.push(chunk.toString()));
+
+    proc.on('close', (code) => {
+      const output = stderr.join('');
+      if (code === 0) {
+        resolve(output);
+      } else {
+        reject(new Error(`ffmpeg exited with code ${code}: ${output.trim().slice(-500)}`));
+      }
+    });
+
+    proc.on('error', (err) => {
+      reject(new FfmpegUnavailableError(`Failed to spawn ffmpeg: ${err.message}`));
+    });
+  });
+}